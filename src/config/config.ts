@@ -14,3 +14,22 @@ export const SERVER = {
     SERVER_PORT
 };
 
+// URL del frontend para los enlaces enviados por correo
+export const APP_URL = process.env.APP_URL || 'http://localhost:4200';
+
+// Envío de correo: "console" (solo muestra el mensaje) o "file" (lo guarda en MAIL_OUTBOX_DIR)
+export const MAIL = {
+    TRANSPORT: process.env.MAIL_TRANSPORT || 'console',
+    FROM: process.env.MAIL_FROM || 'no-reply@trazer.local',
+    OUTBOX_DIR: process.env.MAIL_OUTBOX_DIR || 'mail-outbox'
+};
+
+export const EMAIL_VERIFICATION_TOKEN_HOURS = Number(process.env.EMAIL_VERIFICATION_TOKEN_HOURS) || 48;
+export const PASSWORD_RESET_TOKEN_MINUTES = Number(process.env.PASSWORD_RESET_TOKEN_MINUTES) || 30;
+
+// Acciones bloqueadas a las cuentas sin verificar (separadas por comas):
+// login, social (seguir usuarios y chat), publish (crear o importar actividades), live_share
+export const UNVERIFIED_RESTRICTIONS = (process.env.UNVERIFIED_RESTRICTIONS ?? 'social,live_share')
+    .split(',')
+    .map(restriction => restriction.trim())
+    .filter(restriction => restriction.length > 0);
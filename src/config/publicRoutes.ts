@@ -0,0 +1,39 @@
+// Rutas de la API que se pueden usar sin token de acceso.
+// Cualquier otra ruta bajo /api requiere autenticación (ver requireAuth en middleware/session).
+// Se listan los endpoints exactos: una ruta nueva bajo el mismo prefijo no pasa a ser pública por accidente
+interface PublicRoute {
+    method: string;
+    path: RegExp;
+}
+
+// Segmento :id con forma de ObjectId (no coincide con rutas fijas como /templates o /invitations)
+const OBJECT_ID = '[0-9a-fA-F]{24}';
+
+const publicRoutes: PublicRoute[] = [
+    // Autenticación
+    { method: 'POST', path: /^\/api\/auth\/(register|login|refresh)$/ },
+    { method: 'POST', path: /^\/api\/auth\/(verify-email|verify-email\/request|password\/forgot|password\/reset)$/ },
+    { method: 'GET', path: /^\/api\/auth\/google(\/callback)?$/ },
+    // Segundo factor del login: se autentica con el token de desafío, no con un token de acceso
+    { method: 'POST', path: /^\/api\/auth\/2fa\/verify$/ },
+    { method: 'POST', path: /^\/api\/users\/login$/ },
+
+    // Seguimiento en directo con un enlace compartido (los espectadores no necesitan cuenta)
+    { method: 'GET', path: /^\/api\/activity-tracking\/live\/[^/]+$/ },
+
+    // Lectura de los catálogos
+    { method: 'GET', path: /^\/api\/achievements$/ },
+    { method: 'GET', path: /^\/api\/achievements\/all\/list$/ },
+    { method: 'GET', path: new RegExp(`^/api/achievements/${OBJECT_ID}$`) },
+    { method: 'GET', path: /^\/api\/challenges$/ },
+    { method: 'GET', path: /^\/api\/challenges\/(active|inactive)$/ },
+    { method: 'GET', path: new RegExp(`^/api/challenges/${OBJECT_ID}$`) },
+    { method: 'GET', path: /^\/api\/songs$/ },
+    { method: 'GET', path: new RegExp(`^/api/songs/${OBJECT_ID}$`) },
+    { method: 'GET', path: /^\/api\/songs\/(name|artist|genre|bpm)\/[^/]+$/ }
+];
+
+export const isPublicRoute = (method: string, path: string): boolean => {
+    const normalizedPath = path.length > 1 ? path.replace(/\/+$/, '') : path;
+    return publicRoutes.some(route => route.method === method && route.path.test(normalizedPath));
+};
@@ -0,0 +1,51 @@
+// Presupuestos de peticiones por tipo de ruta. Cada presupuesto cuenta por IP y, si la petición
+// está autenticada, también por cuenta: se rechaza en cuanto se supera cualquiera de los dos
+export interface RateLimitBudget {
+    windowMs: number;
+    maxPerIp: number;
+    maxPerAccount: number;
+}
+
+export type RateLimitBudgetName = 'auth' | 'writes' | 'chat' | 'tracking';
+
+export const RATE_LIMIT_BUDGETS: { [name in RateLimitBudgetName]: RateLimitBudget } = {
+    auth: { windowMs: 15 * 60 * 1000, maxPerIp: 100, maxPerAccount: 50 },
+    writes: { windowMs: 60 * 1000, maxPerIp: 300, maxPerAccount: 120 },
+    chat: { windowMs: 60 * 1000, maxPerIp: 120, maxPerAccount: 30 },
+    // La ingesta de ubicaciones envía hasta un punto por segundo más los lotes sin conexión
+    tracking: { windowMs: 60 * 1000, maxPerIp: 600, maxPerAccount: 240 }
+};
+
+// Bloqueo progresivo tras inicios de sesión fallidos: a partir de FREE_ATTEMPTS fallos seguidos
+// la cuenta queda bloqueada BASE_LOCK_MS, y el bloqueo se duplica con cada nuevo fallo hasta MAX_LOCK_MS
+export const LOGIN_LOCKOUT = {
+    FREE_ATTEMPTS: 5,
+    BASE_LOCK_MS: 60 * 1000,
+    MAX_LOCK_MS: 60 * 60 * 1000,
+    FAILURE_WINDOW_MS: 24 * 60 * 60 * 1000, // los fallos se cuentan en ventanas de un día
+    // Una IP que prueba muchas cuentas distintas se bloquea igualmente
+    MAX_FAILURES_PER_IP: 50,
+    IP_WINDOW_MS: 15 * 60 * 1000
+};
+
+// Clase de cada ruta (la primera que coincide). Las lecturas (GET) no tienen límite
+interface RateLimitedRoute {
+    methods: string[];
+    path: RegExp;
+    budget: RateLimitBudgetName;
+}
+
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+const rateLimitedRoutes: RateLimitedRoute[] = [
+    { methods: ['GET', ...WRITE_METHODS], path: /^\/api\/auth\//, budget: 'auth' },
+    { methods: ['POST'], path: /^\/api\/users\/login$/, budget: 'auth' },
+    { methods: ['POST'], path: /^\/api\/chat\/messages$/, budget: 'chat' },
+    { methods: ['POST'], path: /^\/api\/activity-tracking\/[^/]+\/(location|locations\/batch)$/, budget: 'tracking' },
+    { methods: WRITE_METHODS, path: /^\/api\//, budget: 'writes' }
+];
+
+export const getRateLimitBudget = (method: string, path: string): RateLimitBudgetName | null => {
+    const route = rateLimitedRoutes.find(candidate => candidate.methods.includes(method) && candidate.path.test(path));
+    return route ? route.budget : null;
+};
@@ -0,0 +1,62 @@
+import { Socket } from 'socket.io';
+import { verifyToken } from '../utils/jwt.handle';
+import { isSessionRevoked } from '../services/sessionService';
+
+// Sala con los sockets autenticados con tokens de una sesión: se desconectan al revocarla
+export const sessionRoom = (sessionId: string): string => `session:${sessionId}`;
+
+// Vincular el socket al usuario del token de acceso. Devuelve false si el token no es válido,
+// si su sesión está revocada o si pertenece a un usuario distinto del que ya tiene el socket.
+// El socket entra en la sala de su sesión para desconectarlo cuando se revoque
+export const bindSocketToToken = async (socket: Socket, token: unknown): Promise<boolean> => {
+  if (!token || typeof token !== 'string') {
+    return false;
+  }
+
+  const tokenData = verifyToken(token);
+  if (!tokenData || typeof tokenData === 'string' || !tokenData.id || tokenData.type !== 'access') {
+    return false;
+  }
+
+  const tokenUserId = String(tokenData.id);
+  if (socket.data.userId && socket.data.userId !== tokenUserId) {
+    return false;
+  }
+  if (await isSessionRevoked(tokenData.sid)) {
+    return false;
+  }
+
+  if (socket.data.sessionId && socket.data.sessionId !== tokenData.sid) {
+    socket.leave(sessionRoom(socket.data.sessionId));
+  }
+  socket.join(sessionRoom(tokenData.sid));
+  socket.data.sessionId = tokenData.sid;
+
+  socket.data.tokenAuth = true;
+  socket.data.userId = tokenUserId;
+  socket.data.role = tokenData.role || 'user';
+  socket.data.username = tokenData.name || socket.data.username || 'Usuario';
+  socket.data.tokenExpiresAt = tokenData.exp ? tokenData.exp * 1000 : undefined;
+  return true;
+};
+
+// Token del handshake: auth.token o cabecera Authorization
+export const getHandshakeToken = (socket: Socket): string | undefined => {
+  const token = socket.handshake.auth?.token || socket.handshake.headers.authorization;
+  return typeof token === 'string' ? token.split(' ').pop() : undefined;
+};
+
+// Comprobar antes de cada evento que el socket sigue autenticado; si el token ha caducado
+// se avisa al cliente para que envíe uno nuevo con token_updated
+export const hasValidSocketSession = (socket: Socket): boolean => {
+  if (!socket.data.tokenAuth || !socket.data.userId) {
+    return false;
+  }
+
+  if (socket.data.tokenExpiresAt && socket.data.tokenExpiresAt <= Date.now()) {
+    socket.emit('token_expired', { message: 'Token caducado' });
+    return false;
+  }
+
+  return true;
+};
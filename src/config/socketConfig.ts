@@ -1,7 +1,12 @@
 import { Server as HttpServer } from 'http';
 import { Server, Socket } from 'socket.io';
 import User from '../models/user';
-import { verifyToken } from '../utils/jwt.handle';
+import { registerTrackingSocketHandlers } from './trackingSocket';
+import { bindSocketToToken, getHandshakeToken, hasValidSocketSession, sessionRoom } from './socketAuth';
+import { onSessionsRevoked } from '../services/sessionService';
+import { isChatRoomParticipant } from '../services/chatService';
+import { getLiveSnapshot } from '../services/liveShareService';
+import { consumeRateLimit } from '../middleware/rateLimit';
 
 // Estructura para almacenar información de usuario conectado
 interface ConnectedUser {
@@ -22,8 +27,20 @@ interface Message {
   timestamp: string;
 }
 
+// Respuesta opcional (acknowledgement) de los eventos de chat
+type ChatAck = (response: { success: boolean; message?: string }) => void;
+
+const replyChat = (ack: ChatAck | undefined, response: { success: boolean; message?: string }): void => {
+  if (typeof ack === 'function') {
+    ack(response);
+  }
+};
+
 let io: Server;
 
+// Sala con todos los sockets autenticados con token de acceso
+const AUTHENTICATED_ROOM = 'authenticated';
+
 export const initializeSocket = (server: HttpServer): void => {
   io = new Server(server, {
     cors: {
@@ -34,44 +51,39 @@ export const initializeSocket = (server: HttpServer): void => {
     transports: ['websocket', 'polling'] // Habilitar ambos transportes para mayor compatibilidad
   });
 
-  // Middleware para validar token JWT en cada conexión
+  // Al revocar una sesión (logout, revocación, reutilización del refresh token o cambio de contraseña)
+  // se cierran los sockets abiertos con sus tokens
+  onSessionsRevoked(sessionIds => {
+    for (const sessionId of sessionIds) {
+      io.in(sessionRoom(sessionId)).disconnectSockets(true);
+    }
+  });
+
+  // Middleware de autenticación: el socket queda vinculado al usuario del token de acceso.
+  // Sin token solo se aceptan espectadores con un enlace de seguimiento en directo vigente
   io.use(async (socket, next) => {
-    const token = socket.handshake.auth?.token;
-    const userId = socket.handshake.auth?.userId;
-    
-    // Si hay token, verificamos la autenticación JWT
-    if (token) {
+    try {
+      if (await bindSocketToToken(socket, getHandshakeToken(socket))) {
+        return next();
+      }
+    } catch (error) {
+      console.error('Error validando el token del socket:', error);
+    }
+
+    const liveToken = socket.handshake.auth?.liveToken;
+    if (liveToken && typeof liveToken === 'string') {
       try {
-        const tokenData = verifyToken(token);
-        if (tokenData && typeof tokenData !== 'string' && tokenData.id) {
-          // Autenticación JWT exitosa
-          socket.data.tokenAuth = true;
-          if (typeof tokenData !== 'string' && tokenData.id) {
-            socket.data.userId = tokenData.id;
-          }
-          socket.data.role = (typeof tokenData !== 'string' && tokenData.role) || 'user';
-          socket.data.username = (typeof tokenData !== 'string' && tokenData.name) || socket.handshake.auth?.username || 'Usuario';
+        const snapshot = await getLiveSnapshot(liveToken);
+        if (typeof snapshot !== 'string') {
+          socket.data.spectator = true;
           return next();
-        } else {
-          console.log('Token JWT inválido o sin id');
         }
       } catch (error) {
-        console.error('Error validando token JWT:', error);
-        // No rechazamos la conexión para mantener compatibilidad hacia atrás
+        console.error('Error validando enlace de seguimiento:', error);
       }
     }
-    
-    // Fallback: permitir autenticación sin JWT si proporciona userId
-    if (userId) {
-      console.log(`Autenticación sin JWT para usuario ${userId}`);
-      socket.data.tokenAuth = false;
-      socket.data.userId = userId;
-      socket.data.username = socket.handshake.auth?.username || 'Usuario';
-      return next();
-    }
-    
-    // Si no tiene token ni userId, rechazamos la conexión
-    return next(new Error('Autenticación insuficiente'));
+
+    return next(new Error('Autenticación requerida'));
   });
 
   io.on('connection', async (socket: Socket) => {
@@ -80,11 +92,9 @@ export const initializeSocket = (server: HttpServer): void => {
     // Datos de autenticación (ya validados en el middleware)
     const userId = socket.data.userId;
     const username = socket.data.username;
-    const isTokenAuth = socket.data.tokenAuth || false;
 
     if (userId) {
-      // Log con información de autenticación
-      console.log(`Usuario ${username} (${userId}) registrado con socket ${socket.id} - Auth JWT: ${isTokenAuth ? 'Sí' : 'No'}`);
+      console.log(`Usuario ${username} (${userId}) registrado con socket ${socket.id}`);
       
       // Si no tenemos username, intentar obtenerlo de la base de datos
       if (username === 'Usuario') {
@@ -118,77 +128,95 @@ export const initializeSocket = (server: HttpServer): void => {
       
       // Unir al usuario a su sala personal para recibir mensajes
       socket.join(`user:${userId}`);
+      // Y a la sala de los sockets autenticados (los espectadores no reciben la lista de conectados)
+      socket.join(AUTHENTICATED_ROOM);
       
       // Emitir lista actualizada de usuarios en línea
       emitOnlineUsers();
     } else {
-      console.log(`Socket ${socket.id} conectado sin identificación de usuario`);
+      console.log(`Socket ${socket.id} conectado como espectador`);
     }
 
-    // Evento para actualización de token
-    socket.on('token_updated', (data) => {
-      if (data && data.token) {
-        console.log(`Token actualizado para socket ${socket.id}`);
-        try {
-          const tokenData = verifyToken(data.token);
-          if (tokenData && typeof tokenData !== 'string' && tokenData.id) {
-            socket.data.tokenAuth = true;
-            socket.data.userId = tokenData.id;
-            socket.data.role = tokenData.role || 'user';
-            socket.data.username = tokenData.name || socket.data.username || 'Usuario';
-            console.log(`Token actualizado exitosamente para usuario ${socket.data.username}`);
-          }
-        } catch (error) {
-          console.error('Error validando token actualizado:', error);
-          socket.emit('token_expired', { message: 'Token inválido' });
-        }
+    // Evento para actualización de token: debe ser válido y del mismo usuario del socket
+    socket.on('token_updated', async (data) => {
+      if (!socket.data.userId) return;
+
+      if (data && await bindSocketToToken(socket, data.token).catch(() => false)) {
+        console.log(`Token actualizado exitosamente para usuario ${socket.data.username}`);
+      } else {
+        console.log(`Token actualizado no válido para socket ${socket.id}`);
+        socket.emit('token_expired', { message: 'Token inválido' });
       }
     });
 
-    // Join a chat room
-    socket.on('join_room', (roomId: string) => {
-      if (!roomId) return;
-      
-      socket.join(roomId);
-      console.log(`Socket ${socket.id} unido a sala ${roomId}`);
-      
-      // Notify room that a user joined
-      io.to(roomId).emit('user_joined', {
-        userId: socket.data.userId,
-        username: socket.data.username,
-        roomId
-      });
+    // Join a chat room (solo participantes)
+    socket.on('join_room', async (roomId: string, ack?: ChatAck) => {
+      if (!roomId || !hasValidSocketSession(socket)) return;
+
+      try {
+        if (!(await isChatRoomParticipant(roomId, socket.data.userId))) {
+          replyChat(ack, { success: false, message: 'No eres participante de esta sala de chat' });
+          return;
+        }
+
+        socket.join(roomId);
+        console.log(`Socket ${socket.id} unido a sala ${roomId}`);
+
+        // Notify room that a user joined
+        io.to(roomId).emit('user_joined', {
+          userId: socket.data.userId,
+          username: socket.data.username,
+          roomId
+        });
+        replyChat(ack, { success: true });
+      } catch (error: any) {
+        console.error('Error al unirse a la sala de chat:', error);
+        replyChat(ack, { success: false, message: error.message });
+      }
     });
 
     // Send message
-    socket.on('send_message', (message: Message) => {
-      if (!message.roomId || !message.content) {
+    socket.on('send_message', async (message: Message, ack?: ChatAck) => {
+      if (!message || !message.roomId || !message.content) {
         console.error('Datos de mensaje incompletos', message);
         return;
       }
-      
-      // Ensure message has sender (from socket if not in message)
-      const finalMessage = {
-        ...message,
-        senderId: message.senderId || socket.data.userId,
-        senderName: message.senderName || socket.data.username || 'Usuario',
-        timestamp: message.timestamp || new Date().toISOString()
-      };
-      
-      console.log(`Mensaje enviado a sala ${finalMessage.roomId}: ${finalMessage.content.substring(0, 30)}...`);
-      
-      // Validar token antes de procesar mensaje
-      if (socket.data.tokenAuth === false) {
-        // Para conexiones sin JWT, podríamos implementar validaciones adicionales aquí
+      if (!hasValidSocketSession(socket)) return;
+
+      try {
+        const rateLimit = await consumeRateLimit('chat', { accountId: socket.data.userId });
+        if (!rateLimit.allowed) {
+          replyChat(ack, { success: false, message: `Demasiados mensajes, espera ${rateLimit.retryAfterSeconds} segundos` });
+          return;
+        }
+
+        if (!(await isChatRoomParticipant(message.roomId, socket.data.userId))) {
+          replyChat(ack, { success: false, message: 'No eres participante de esta sala de chat' });
+          return;
+        }
+
+        // El remitente es siempre el usuario del socket, nunca el del payload
+        const finalMessage = {
+          ...message,
+          senderId: socket.data.userId,
+          senderName: socket.data.username || 'Usuario',
+          timestamp: message.timestamp || new Date().toISOString()
+        };
+
+        console.log(`Mensaje enviado a sala ${finalMessage.roomId}: ${finalMessage.content.substring(0, 30)}...`);
+
+        // Emit message to everyone in the room
+        io.to(finalMessage.roomId).emit('new_message', finalMessage);
+        replyChat(ack, { success: true });
+      } catch (error: any) {
+        console.error('Error al enviar mensaje por socket:', error);
+        replyChat(ack, { success: false, message: error.message });
       }
-      
-      // Emit message to everyone in the room
-      io.to(finalMessage.roomId).emit('new_message', finalMessage);
     });
 
     // User is typing
     socket.on('typing', (roomId: string) => {
-      if (!socket.data.userId || !roomId) return;
+      if (!roomId || !socket.rooms.has(roomId) || !hasValidSocketSession(socket)) return;
       
       socket.to(roomId).emit('user_typing', {
         userId: socket.data.userId,
@@ -197,6 +225,9 @@ export const initializeSocket = (server: HttpServer): void => {
       });
     });
 
+    // Tracking de actividades en tiempo real (tracking_*) y espectadores de actividades en directo (live_*)
+    registerTrackingSocketHandlers(socket);
+
     // Disconnect
     socket.on('disconnect', () => {
       console.log(`Socket desconectado: ${socket.id}`);
@@ -234,7 +265,7 @@ function emitOnlineUsers() {
   }));
   
   console.log('Usuarios conectados:', onlineUsers);
-  io.emit('online_users', onlineUsers);
+  io.to(AUTHENTICATED_ROOM).emit('online_users', onlineUsers);
 }
 
 // Get Socket.IO instance
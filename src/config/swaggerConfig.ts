@@ -1,6 +1,7 @@
 import { Express } from 'express';
 import swaggerUi from 'swagger-ui-express';
 import swaggerJSDoc from 'swagger-jsdoc';
+import { openApiSchemas } from '../schemas';
 
 // Configuración de Swagger
 const swaggerOptions = {
@@ -59,6 +60,20 @@ const swaggerOptions = {
         description: 'Servidor local per desenvolupament',
       },
     ],
+
+    // Totes les rutes requereixen el token d'accés excepte les públiques (config/publicRoutes)
+    components: {
+      // Esquemes d'entrada generats a partir dels de validació (src/schemas); swagger-jsdoc hi afegeix els de les rutes
+      schemas: openApiSchemas,
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          bearerFormat: 'JWT',
+        },
+      },
+    },
+    security: [{ bearerAuth: [] }],
   },
   apis: ['./src/routes/*.ts'], // Especifica las rutas que Swagger debe leer para la documentación
 };
@@ -0,0 +1,299 @@
+import { Socket } from 'socket.io';
+import * as activityTrackingService from '../services/activityTrackingService';
+import { IActivityTracking } from '../models/activityTracking';
+import { getLiveSnapshot, liveShareRoom } from '../services/liveShareService';
+import { hasValidSocketSession } from './socketAuth';
+import { consumeRateLimit } from '../middleware/rateLimit';
+
+// Respuesta enviada en el acknowledgement de cada evento de tracking
+interface TrackingAck {
+  success: boolean;
+  message?: string;
+  [key: string]: any;
+}
+
+type AckCallback = (response: TrackingAck) => void;
+
+const liveShareErrorMessages: { [key: string]: string } = {
+  SHARE_NOT_FOUND: 'Enlace de seguimiento no encontrado',
+  SHARE_EXPIRED: 'El enlace de seguimiento ha caducado',
+  SHARE_REVOKED: 'El enlace de seguimiento ha sido revocado'
+};
+
+const validActivityTypes = ['running', 'cycling', 'hiking', 'walking'];
+
+const reply = (ack: AckCallback | undefined, response: TrackingAck): void => {
+  if (typeof ack === 'function') {
+    ack(response);
+  }
+};
+
+const summarizeTracking = (tracking: IActivityTracking) => ({
+  id: tracking._id,
+  activityType: tracking.activityType,
+  isActive: tracking.isActive,
+  isPaused: tracking.isPaused,
+  autoPaused: tracking.autoPause.isAutoPaused,
+  currentDistance: tracking.currentDistance,
+  currentDuration: tracking.currentDuration,
+  currentSpeed: tracking.currentSpeed,
+  averageSpeed: tracking.averageSpeed,
+  elevationGain: tracking.elevationGain,
+  rawPointCount: tracking.gpsFilter.rawPointCount,
+  cleanedPointCount: tracking.gpsFilter.cleanedPointCount
+});
+
+// Obtener un tracking activo comprobando que pertenece al usuario del socket
+const getOwnedActiveTracking = async (socket: Socket, trackingId: unknown): Promise<IActivityTracking | string> => {
+  if (!trackingId || typeof trackingId !== 'string') {
+    return 'Se requiere ID de tracking';
+  }
+
+  const tracking = await activityTrackingService.getTrackingById(trackingId);
+  if (!tracking || !tracking.isActive) {
+    return 'Tracking no encontrado o no está activo';
+  }
+
+  if (tracking.userId.toString() !== socket.data.userId) {
+    return 'No tienes permiso para modificar este tracking';
+  }
+
+  return tracking;
+};
+
+// Registrar los eventos de tracking en tiempo real de un socket.
+// Todos responden mediante acknowledgement: { success, message?, tracking? }
+export const registerTrackingSocketHandlers = (socket: Socket): void => {
+  // El tracking modifica datos del usuario: solo se permite con una conexión autenticada por JWT
+  const withAuth = (handler: (data: any, ack?: AckCallback) => Promise<void>) => {
+    return async (data: any, ack?: AckCallback) => {
+      if (typeof data === 'function') {
+        ack = data;
+        data = {};
+      }
+
+      if (!hasValidSocketSession(socket)) {
+        reply(ack, { success: false, message: 'Se requiere autenticación JWT para el tracking' });
+        return;
+      }
+
+      try {
+        await handler(data || {}, ack);
+      } catch (error: any) {
+        console.error('Error en evento de tracking por socket:', error);
+        reply(ack, { success: false, message: error.message });
+      }
+    };
+  };
+
+  // Iniciar una nueva actividad de tracking
+  socket.on('tracking_start', withAuth(async (data, ack) => {
+    const { activityType, autoPause } = data;
+
+    if (!validActivityTypes.includes(activityType)) {
+      reply(ack, { success: false, message: 'Tipo de actividad no válido' });
+      return;
+    }
+
+    const activeTrackings = await activityTrackingService.getActiveTrackingsByUserId(socket.data.userId);
+    if (activeTrackings.length > 0) {
+      reply(ack, {
+        success: false,
+        message: 'Ya existe una actividad de tracking activa para este usuario',
+        activeTrackingId: activeTrackings[0]._id
+      });
+      return;
+    }
+
+    const newTracking = await activityTrackingService.startActivityTracking(socket.data.userId, activityType, {
+      autoPause: autoPause === true
+    });
+
+    reply(ack, {
+      success: true,
+      message: 'Tracking iniciado con éxito',
+      tracking: {
+        id: newTracking._id,
+        activityType: newTracking.activityType,
+        startTime: newTracking.startTime,
+        autoPause: newTracking.autoPause.enabled
+      }
+    });
+  }));
+
+  // Enviar una nueva ubicación al tracking
+  socket.on('tracking_location', withAuth(async (data, ack) => {
+    const latitude = parseFloat(data.latitude);
+    const longitude = parseFloat(data.longitude);
+
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+      reply(ack, { success: false, message: 'Se requiere latitud y longitud' });
+      return;
+    }
+
+    // Mismo presupuesto que la ingesta de ubicaciones por REST
+    const rateLimit = await consumeRateLimit('tracking', { accountId: socket.data.userId });
+    if (!rateLimit.allowed) {
+      reply(ack, { success: false, message: 'Demasiadas ubicaciones enviadas', retryAfter: rateLimit.retryAfterSeconds });
+      return;
+    }
+
+    const tracking = await getOwnedActiveTracking(socket, data.trackingId);
+    if (typeof tracking === 'string') {
+      reply(ack, { success: false, message: tracking });
+      return;
+    }
+
+    const updatedTracking = await activityTrackingService.updateTrackingLocation(data.trackingId, {
+      latitude,
+      longitude,
+      altitude: data.altitude !== undefined ? parseFloat(data.altitude) : undefined,
+      speed: data.speed !== undefined ? parseFloat(data.speed) : undefined,
+      accuracy: data.accuracy !== undefined ? parseFloat(data.accuracy) : undefined
+    });
+
+    if (!updatedTracking) {
+      reply(ack, { success: false, message: 'Tracking no encontrado o no está activo' });
+      return;
+    }
+
+    reply(ack, { success: true, tracking: summarizeTracking(updatedTracking) });
+  }));
+
+  // Marcar una vuelta manual
+  socket.on('tracking_lap', withAuth(async (data, ack) => {
+    const tracking = await getOwnedActiveTracking(socket, data.trackingId);
+    if (typeof tracking === 'string') {
+      reply(ack, { success: false, message: tracking });
+      return;
+    }
+
+    const result = await activityTrackingService.markTrackingLap(data.trackingId);
+    if (!result) {
+      reply(ack, { success: false, message: 'Tracking no encontrado o no está activo' });
+      return;
+    }
+
+    reply(ack, {
+      success: true,
+      message: 'Vuelta marcada con éxito',
+      lap: {
+        lapNumber: result.lapNumber,
+        timestamp: result.lap.timestamp,
+        totalDistance: result.lap.distance,
+        totalDuration: result.lap.duration
+      }
+    });
+  }));
+
+  // Pausar el tracking
+  socket.on('tracking_pause', withAuth(async (data, ack) => {
+    const tracking = await getOwnedActiveTracking(socket, data.trackingId);
+    if (typeof tracking === 'string') {
+      reply(ack, { success: false, message: tracking });
+      return;
+    }
+
+    const pausedTracking = await activityTrackingService.pauseActivityTracking(data.trackingId);
+    if (!pausedTracking) {
+      reply(ack, { success: false, message: 'Tracking no encontrado, no está activo o ya está pausado' });
+      return;
+    }
+
+    reply(ack, { success: true, message: 'Tracking pausado con éxito', tracking: summarizeTracking(pausedTracking) });
+  }));
+
+  // Reanudar el tracking
+  socket.on('tracking_resume', withAuth(async (data, ack) => {
+    const tracking = await getOwnedActiveTracking(socket, data.trackingId);
+    if (typeof tracking === 'string') {
+      reply(ack, { success: false, message: tracking });
+      return;
+    }
+
+    const resumedTracking = await activityTrackingService.resumeActivityTracking(data.trackingId);
+    if (!resumedTracking) {
+      reply(ack, { success: false, message: 'Tracking no encontrado, no está activo o no está pausado' });
+      return;
+    }
+
+    reply(ack, { success: true, message: 'Tracking reanudado con éxito', tracking: summarizeTracking(resumedTracking) });
+  }));
+
+  // Finalizar el tracking y convertirlo en actividad
+  socket.on('tracking_finish', withAuth(async (data, ack) => {
+    const tracking = await getOwnedActiveTracking(socket, data.trackingId);
+    if (typeof tracking === 'string') {
+      reply(ack, { success: false, message: tracking });
+      return;
+    }
+
+    const finishedTracking = await activityTrackingService.finishActivityTracking(data.trackingId);
+    if (!finishedTracking) {
+      reply(ack, { success: false, message: 'Tracking no encontrado o no está activo' });
+      return;
+    }
+
+    const trackingSummary = {
+      id: finishedTracking._id,
+      endTime: finishedTracking.endTime,
+      totalDistance: finishedTracking.currentDistance,
+      totalDuration: finishedTracking.currentDuration
+    };
+
+    try {
+      const savedActivity = await activityTrackingService.createActivityFromTracking(
+        finishedTracking,
+        typeof data.name === 'string' ? data.name : undefined
+      );
+
+      reply(ack, {
+        success: true,
+        message: 'Tracking finalizado y actividad creada con éxito',
+        tracking: trackingSummary,
+        activity: {
+          id: savedActivity._id,
+          name: savedActivity.name
+        }
+      });
+    } catch (activityError: any) {
+      console.error('Error al crear actividad:', activityError);
+      reply(ack, {
+        success: false,
+        message: 'Tracking finalizado pero hubo un error al crear la actividad',
+        tracking: trackingSummary,
+        error: activityError.message
+      });
+    }
+  }));
+
+  // Espectadores: seguir una actividad en directo con un enlace compartido (no requiere cuenta)
+  socket.on('live_subscribe', async (data: any, ack?: AckCallback) => {
+    try {
+      const token = data?.token;
+      if (!token || typeof token !== 'string') {
+        reply(ack, { success: false, message: 'Se requiere el token del enlace' });
+        return;
+      }
+
+      const snapshot = await getLiveSnapshot(token);
+      if (typeof snapshot === 'string') {
+        reply(ack, { success: false, message: liveShareErrorMessages[snapshot] });
+        return;
+      }
+
+      socket.join(liveShareRoom(token));
+      reply(ack, { success: true, snapshot });
+    } catch (error: any) {
+      console.error('Error al suscribirse a la actividad en directo:', error);
+      reply(ack, { success: false, message: error.message });
+    }
+  });
+
+  socket.on('live_unsubscribe', (data: any, ack?: AckCallback) => {
+    if (data?.token && typeof data.token === 'string') {
+      socket.leave(liveShareRoom(data.token));
+    }
+    reply(ack, { success: true });
+  });
+};
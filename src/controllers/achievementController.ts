@@ -1,5 +1,7 @@
 import { Request,Response } from "express";
 import * as achievementService from '../services/achievementService';
+import * as achievementProgressService from '../services/achievementProgressService';
+import * as challengeProgressService from '../services/challengeProgressService';
 import AchievementModel, { IAchievement } from "../models/achievement";
 
 export const createAchievementHandler = async(req: Request, res: Response)=>{
@@ -142,6 +144,76 @@ export const checkUserAchievementsController = async (req: Request, res: Respons
     }
 };
 
+// Recalcular desde cero los totales, agregados y logros de un usuario (solo administradores)
+export const rebuildUserStatsController = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const result = await achievementService.rebuildUserDerivedStats(req.params.userId);
+
+        if (result === "USER_NOT_FOUND") {
+            res.status(404).json({ message: "Usuario no encontrado" });
+            return;
+        }
+
+        // El progreso en los retos abiertos también se deriva de las actividades
+        const challengesUpdated = await challengeProgressService.rebuildUserChallengeProgress(req.params.userId);
+
+        console.log(`Estadísticas del usuario ${req.params.userId} recalculadas: ${result.unlocked.length} logros desbloqueados, ${result.revoked.length} retirados, ${challengesUpdated} retos actualizados`);
+
+        res.status(200).json({
+            message: "Estadísticas del usuario recalculadas",
+            ...result,
+            challengesUpdated
+        });
+    } catch (error) {
+        console.error('Error al recalcular las estadísticas del usuario:', error);
+        res.status(500).json({ message: 'Error al recalcular las estadísticas del usuario' });
+    }
+};
+
+const progressErrors: { [key in achievementProgressService.AchievementProgressError]: { status: number; message: string } } = {
+    USER_NOT_FOUND: { status: 404, message: "Usuario no encontrado" }
+};
+
+// Progreso del usuario en cada logro (valor actual, objetivo, porcentaje y fecha estimada)
+export const getUserAchievementProgressController = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const progress = await achievementProgressService.getAchievementProgress(req.params.userId);
+
+        if (typeof progress === "string") {
+            res.status(progressErrors[progress].status).json({ message: progressErrors[progress].message });
+            return;
+        }
+        res.status(200).json({
+            message: "Progreso de logros obtenido exitosamente",
+            progress,
+            total: progress.length
+        });
+    } catch (error) {
+        console.error('Error al obtener el progreso de logros:', error);
+        res.status(500).json({ message: 'Error al obtener el progreso de logros' });
+    }
+};
+
+// Logros bloqueados más cercanos a conseguirse, para la pantalla de inicio
+export const getNextMilestonesController = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const limit = parseInt(req.query.limit?.toString() || '3', 10);
+        const milestones = await achievementProgressService.getNextMilestones(req.params.userId, limit);
+
+        if (typeof milestones === "string") {
+            res.status(progressErrors[milestones].status).json({ message: progressErrors[milestones].message });
+            return;
+        }
+        res.status(200).json({
+            message: "Próximos logros obtenidos exitosamente",
+            milestones
+        });
+    } catch (error) {
+        console.error('Error al obtener los próximos logros:', error);
+        res.status(500).json({ message: 'Error al obtener los próximos logros' });
+    }
+};
+
 export const initializeAchievementsController = async (req: Request, res: Response): Promise<void> => {
     try {
         console.log("Iniciando el proceso de inicialización de logros por defecto desde el controlador");
@@ -9,6 +9,10 @@ import {
     updateActivity, 
     deleteActivity, 
 } from '../services/activityService';
+import { importActivityFromFile } from '../services/activityImportService';
+import { exportActivity, ActivityExportFormat } from '../services/activityExportService';
+import { getActivitySplits } from '../services/activitySplitsService';
+import { getActivityTrackPoints } from '../services/activityTrackService';
 
 import { Request, Response } from 'express';
 
@@ -57,6 +61,122 @@ export const getActivitiesHandler = async (req: Request, res: Response) => {
     }
 };
 
+// Importar una activitat des d'un fitxer GPX, TCX o FIT
+export const importActivityController = async (req: Request, res: Response) => {
+    try {
+        const { author, name, type } = req.body;
+
+        if (!req.file) {
+            res.status(400).json({ message: 'Se requiere un archivo GPX, TCX o FIT' });
+            return;
+        }
+
+        if (!author) {
+            res.status(400).json({ message: 'Se requiere ID de usuario' });
+            return;
+        }
+
+        const validTypes = ['running', 'cycling', 'hiking', 'walking'];
+        if (type && !validTypes.includes(type)) {
+            res.status(400).json({ message: 'Tipo de actividad no válido' });
+            return;
+        }
+
+        const user = await UserModel.findById(author);
+        if (!user) {
+            res.status(404).json({ message: 'Usuario no encontrado' });
+            return;
+        }
+
+        const result = await importActivityFromFile(author, req.file, { name, type });
+
+        if (result === 'UNSUPPORTED_FORMAT') {
+            res.status(400).json({ message: 'Formato de archivo no soportado' });
+            return;
+        }
+        if (result === 'INVALID_FILE') {
+            res.status(400).json({ message: 'El archivo no se ha podido leer' });
+            return;
+        }
+        if (result === 'NO_TRACK_POINTS') {
+            res.status(400).json({ message: 'El archivo no contiene puntos GPS' });
+            return;
+        }
+        if (result === 'UNKNOWN_ACTIVITY_TYPE') {
+            res.status(400).json({ message: 'No se ha podido determinar el tipo de actividad, indícalo en el campo type' });
+            return;
+        }
+
+        res.status(201).json(result);
+    } catch (error: any) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// Exportar la ruta d'una activitat en GPX o TCX
+export const exportActivityController = async (req: Request, res: Response) => {
+    try {
+        const format = req.params.format?.toLowerCase() as ActivityExportFormat;
+
+        if (format !== 'gpx' && format !== 'tcx') {
+            res.status(400).json({ message: 'Formato de exportación no válido (gpx o tcx)' });
+            return;
+        }
+
+        const file = await exportActivity(req.params.id, format);
+
+        if (!file) {
+            res.status(404).json({ message: 'Actividad no encontrada' });
+            return;
+        }
+
+        res.setHeader('Content-Type', `${file.contentType}; charset=utf-8`);
+        res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+        res.status(200).send(file.content);
+    } catch (error: any) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export const getActivitySplitsController = async (req: Request, res: Response) => {
+    try {
+        const splits = await getActivitySplits(req.params.id);
+
+        if (splits === 'ACTIVITY_NOT_FOUND') {
+            res.status(404).json({ message: 'Actividad no encontrada' });
+            return;
+        }
+        if (splits === 'NO_TIMED_POINTS') {
+            res.status(404).json({ message: 'La actividad no tiene puntos con marca de tiempo para calcular parciales' });
+            return;
+        }
+
+        res.status(200).json(splits);
+    } catch (error: any) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export const getActivityTrackController = async (req: Request, res: Response) => {
+    try {
+        const track = await getActivityTrackPoints(req.params.id);
+
+        if (!track) {
+            res.status(404).json({ message: 'Actividad no encontrada' });
+            return;
+        }
+
+        res.status(200).json({
+            activityId: req.params.id,
+            source: track.source,
+            pointCount: track.points.length,
+            points: track.points
+        });
+    } catch (error: any) {
+        res.status(500).json({ message: error.message });
+    }
+};
+
 // Actualitzar una activitat
 export const updateActivityController = async (req: Request, res: Response) => {
     try {
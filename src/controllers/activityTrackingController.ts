@@ -1,16 +1,15 @@
 import { Request, Response } from 'express';
 import * as activityTrackingService from '../services/activityTrackingService';
-import ActivityModel from '../models/activity';
+import * as liveShareService from '../services/liveShareService';
+import * as safetyBeaconService from '../services/safetyBeaconService';
 import UserModel from '../models/user';
+import { getAuthUserId } from '../middleware/session';
 import mongoose from 'mongoose';
-import ReferencePointModel from '../models/referencePoint';
-import { createActivityNotificationForFollowers } from '../services/notificationService';
-import { getIO } from '../config/socketConfig';
 
 // Iniciar una nueva actividad de tracking
 export const startTrackingController = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { userId, activityType } = req.body;
+    const { userId, activityType, autoPause } = req.body;
 
     if (!userId || !activityType) {
       res.status(400).json({ message: 'Se requiere ID de usuario y tipo de actividad' });
@@ -41,14 +40,17 @@ export const startTrackingController = async (req: Request, res: Response): Prom
       return;
     }
 
-    const newTracking = await activityTrackingService.startActivityTracking(userId, activityType);
+    const newTracking = await activityTrackingService.startActivityTracking(userId, activityType, {
+      autoPause: autoPause === true || autoPause === 'true'
+    });
     
     res.status(201).json({
       message: 'Tracking iniciado con éxito',
       tracking: {
         id: newTracking._id,
         activityType: newTracking.activityType,
-        startTime: newTracking.startTime
+        startTime: newTracking.startTime,
+        autoPause: newTracking.autoPause.enabled
       }
     });
   } catch (error: any) {
@@ -61,7 +63,7 @@ export const startTrackingController = async (req: Request, res: Response): Prom
 export const updateLocationController = async (req: Request, res: Response): Promise<void> => {
   try {
     const { trackingId } = req.params;
-    const { latitude, longitude, altitude, speed } = req.body;
+    const { latitude, longitude, altitude, speed, accuracy } = req.body;
 
     if (!trackingId || !latitude || !longitude) {
       res.status(400).json({ message: 'Se requiere ID de tracking, latitud y longitud' });
@@ -72,7 +74,8 @@ export const updateLocationController = async (req: Request, res: Response): Pro
       latitude: parseFloat(latitude),
       longitude: parseFloat(longitude),
       altitude: altitude ? parseFloat(altitude) : undefined,
-      speed: speed ? parseFloat(speed) : undefined
+      speed: speed ? parseFloat(speed) : undefined,
+      accuracy: accuracy ? parseFloat(accuracy) : undefined
     };
 
     const updatedTracking = await activityTrackingService.updateTrackingLocation(trackingId, locationData);
@@ -86,11 +89,15 @@ export const updateLocationController = async (req: Request, res: Response): Pro
       message: 'Ubicación actualizada con éxito',
       tracking: {
         id: updatedTracking._id,
+        isPaused: updatedTracking.isPaused,
+        autoPaused: updatedTracking.autoPause.isAutoPaused,
         currentDistance: updatedTracking.currentDistance,
         currentDuration: updatedTracking.currentDuration,
         currentSpeed: updatedTracking.currentSpeed,
         averageSpeed: updatedTracking.averageSpeed,
-        elevationGain: updatedTracking.elevationGain
+        elevationGain: updatedTracking.elevationGain,
+        rawPointCount: updatedTracking.gpsFilter.rawPointCount,
+        cleanedPointCount: updatedTracking.gpsFilter.cleanedPointCount
       }
     });
   } catch (error: any) {
@@ -99,6 +106,119 @@ export const updateLocationController = async (req: Request, res: Response): Pro
   }
 };
 
+
+// Subir un lote de ubicaciones registradas sin conexión
+export const uploadLocationBatchController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { trackingId } = req.params;
+    const { points, batchId } = req.body;
+
+    if (!trackingId || !Array.isArray(points) || points.length === 0) {
+      res.status(400).json({ message: 'Se requiere ID de tracking y una lista de puntos' });
+      return;
+    }
+
+    if (points.length > activityTrackingService.MAX_BATCH_SIZE) {
+      res.status(400).json({ message: `Un lote no puede superar los ${activityTrackingService.MAX_BATCH_SIZE} puntos` });
+      return;
+    }
+
+    // Cada punto debe traer la marca de tiempo del dispositivo
+    const locationPoints = [];
+    for (const point of points) {
+      const latitude = parseFloat(point?.latitude);
+      const longitude = parseFloat(point?.longitude);
+      const timestamp = new Date(point?.timestamp);
+
+      if (!Number.isFinite(latitude) || !Number.isFinite(longitude) ||
+          Math.abs(latitude) > 90 || Math.abs(longitude) > 180 || isNaN(timestamp.getTime())) {
+        res.status(400).json({ message: 'Cada punto requiere latitud, longitud y timestamp válidos' });
+        return;
+      }
+
+      locationPoints.push({
+        latitude,
+        longitude,
+        altitude: point.altitude !== undefined ? parseFloat(point.altitude) : undefined,
+        speed: point.speed !== undefined ? parseFloat(point.speed) : undefined,
+        accuracy: point.accuracy !== undefined ? parseFloat(point.accuracy) : undefined,
+        timestamp
+      });
+    }
+
+    const result = await activityTrackingService.addTrackingLocationBatch(
+      trackingId,
+      locationPoints,
+      batchId ? String(batchId) : undefined
+    );
+
+    if (!result) {
+      res.status(404).json({ message: 'Tracking no encontrado o no está activo' });
+      return;
+    }
+
+    const { tracking } = result;
+    res.status(200).json({
+      message: result.alreadyProcessed ? 'Lote ya procesado anteriormente' : 'Lote de ubicaciones procesado con éxito',
+      batch: {
+        batchId: batchId || null,
+        received: result.received,
+        inserted: result.inserted,
+        duplicates: result.duplicates,
+        outOfRange: result.outOfRange,
+        alreadyProcessed: result.alreadyProcessed
+      },
+      tracking: {
+        id: tracking._id,
+        isPaused: tracking.isPaused,
+        autoPaused: tracking.autoPause.isAutoPaused,
+        currentDistance: tracking.currentDistance,
+        currentDuration: tracking.currentDuration,
+        currentSpeed: tracking.currentSpeed,
+        averageSpeed: tracking.averageSpeed,
+        maxSpeed: tracking.maxSpeed,
+        elevationGain: tracking.elevationGain,
+        rawPointCount: tracking.gpsFilter.rawPointCount,
+        cleanedPointCount: tracking.gpsFilter.cleanedPointCount
+      }
+    });
+  } catch (error: any) {
+    console.error('Error al procesar lote de ubicaciones:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+// Marcar una vuelta manual
+export const markLapController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { trackingId } = req.params;
+
+    if (!trackingId) {
+      res.status(400).json({ message: 'Se requiere ID de tracking' });
+      return;
+    }
+
+    const result = await activityTrackingService.markTrackingLap(trackingId);
+
+    if (!result) {
+      res.status(404).json({ message: 'Tracking no encontrado o no está activo' });
+      return;
+    }
+
+    res.status(200).json({
+      message: 'Vuelta marcada con éxito',
+      lap: {
+        lapNumber: result.lapNumber,
+        timestamp: result.lap.timestamp,
+        totalDistance: result.lap.distance,
+        totalDuration: result.lap.duration
+      }
+    });
+  } catch (error: any) {
+    console.error('Error al marcar vuelta:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
 // Pausar una actividad de tracking
 export const pauseTrackingController = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -161,6 +281,38 @@ export const resumeTrackingController = async (req: Request, res: Response): Pro
   }
 };
 
+// Activar o desactivar la pausa automática de un tracking
+export const setAutoPauseController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { trackingId } = req.params;
+    const { enabled } = req.body;
+
+    if (!trackingId || typeof enabled !== 'boolean') {
+      res.status(400).json({ message: 'Se requiere ID de tracking y el campo enabled (booleano)' });
+      return;
+    }
+
+    const updatedTracking = await activityTrackingService.setAutoPause(trackingId, enabled);
+
+    if (!updatedTracking) {
+      res.status(404).json({ message: 'Tracking no encontrado o no está activo' });
+      return;
+    }
+
+    res.status(200).json({
+      message: `Pausa automática ${enabled ? 'activada' : 'desactivada'}`,
+      tracking: {
+        id: updatedTracking._id,
+        autoPause: updatedTracking.autoPause.enabled,
+        isPaused: updatedTracking.isPaused
+      }
+    });
+  } catch (error: any) {
+    console.error('Error al configurar la pausa automática:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
 // Finalizar una actividad de tracking y convertirla en actividad permanente
 export const finishTrackingController = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -181,81 +333,7 @@ export const finishTrackingController = async (req: Request, res: Response): Pro
   
       // Crear una nueva actividad basada en el tracking completado
       try {
-        // 1. Primero creamos ReferencePoints para cada punto de la ruta
-        const referencePoints = [];
-        
-        for (const point of finishedTracking.locationPoints) {
-          const refPoint = new ReferencePointModel({
-            latitude: point.latitude,
-            longitude: point.longitude,
-            altitude: point.altitude || 0
-          });
-          
-          const savedRefPoint = await refPoint.save();
-          referencePoints.push(savedRefPoint._id);
-        }
-        
-        // 2. Ahora creamos la actividad con referencias a los puntos creados
-        const newActivity = new ActivityModel({
-          author: finishedTracking.userId,
-          name: name || `${finishedTracking.activityType.charAt(0).toUpperCase() + finishedTracking.activityType.slice(1)} ${finishedTracking.startTime.toLocaleDateString()}`,
-          startTime: finishedTracking.startTime,
-          endTime: finishedTracking.endTime,
-          duration: finishedTracking.currentDuration,
-          distance: finishedTracking.currentDistance,
-          elevationGain: finishedTracking.elevationGain,
-          averageSpeed: finishedTracking.averageSpeed,
-          type: finishedTracking.activityType,
-          route: referencePoints, // Array de ObjectIds de ReferencePoint
-          musicPlaylist: [] // Playlist vacía por defecto
-        });
-  
-        const savedActivity = await newActivity.save();
-  
-        // Actualizar el usuario con la nueva actividad
-        await UserModel.findByIdAndUpdate(
-          finishedTracking.userId,
-          { 
-            $push: { activities: savedActivity._id },
-            $inc: { 
-              totalDistance: finishedTracking.currentDistance,
-              totalTime: finishedTracking.currentDuration
-            }
-          }
-        );
-
-        // Enviar notificacions als seguidors
-
-        try {
-          //const { getIO } = await import('../config/socketConfig.js');  
-          const socketIO = getIO();
-            
-            const activityNotificationData = {
-                _id: savedActivity._id,
-                id: savedActivity._id,
-                name: savedActivity.name,
-                type: savedActivity.type,
-                distance: savedActivity.distance,
-                duration: savedActivity.duration,
-                startTime: savedActivity.startTime,
-                endTime: savedActivity.endTime
-            };
-
-            console.log(`Enviando notificaciones de actividad completada...`);
-            
-            // Enviar notificaciones de forma asíncrona
-            setImmediate(async () => {
-                await createActivityNotificationForFollowers(
-                    finishedTracking.userId.toString(), 
-                    activityNotificationData, 
-                    socketIO
-                );
-            });
-            
-        } catch (notificationError) {
-            console.error('Error enviando notificaciones de actividad:', notificationError);
-            // No fallar la operación principal
-        }
+        const savedActivity = await activityTrackingService.createActivityFromTracking(finishedTracking, name);
   
         res.status(200).json({
           message: 'Tracking finalizado y actividad creada con éxito',
@@ -359,4 +437,226 @@ export const getActiveTrackingsController = async (req: Request, res: Response):
     console.error('Error al obtener trackings activos:', error);
     res.status(500).json({ message: error.message });
   }
-};
\ No newline at end of file
+};
+const liveShareErrors: { [key in liveShareService.LiveShareError]: { status: number; message: string } } = {
+  TRACKING_NOT_FOUND: { status: 404, message: 'Tracking no encontrado' },
+  NOT_OWNER: { status: 403, message: 'Solo el propietario puede gestionar los enlaces de este tracking' },
+  TRACKING_ENDED: { status: 400, message: 'El tracking ya ha finalizado' },
+  SHARE_NOT_FOUND: { status: 404, message: 'Enlace de seguimiento no encontrado' },
+  SHARE_EXPIRED: { status: 410, message: 'El enlace de seguimiento ha caducado' },
+  SHARE_REVOKED: { status: 410, message: 'El enlace de seguimiento ha sido revocado' }
+};
+
+// Crear un enlace para seguir el tracking en directo
+export const createLiveShareController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { trackingId } = req.params;
+    const { expiresInMinutes, notifyFollowers } = req.body;
+    const userId = getAuthUserId(req)!;
+
+    if (!trackingId) {
+      res.status(400).json({ message: 'Se requiere ID de tracking' });
+      return;
+    }
+
+    const share = await liveShareService.createLiveShare(trackingId, userId, {
+      expiresInMinutes: expiresInMinutes !== undefined ? parseInt(expiresInMinutes) : undefined,
+      notifyFollowers: notifyFollowers === true || notifyFollowers === 'true'
+    });
+
+    if (typeof share === 'string') {
+      res.status(liveShareErrors[share].status).json({ message: liveShareErrors[share].message });
+      return;
+    }
+
+    res.status(201).json({
+      message: 'Enlace de seguimiento creado con éxito',
+      share
+    });
+  } catch (error: any) {
+    console.error('Error al crear enlace de seguimiento:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Listar los enlaces vigentes de un tracking
+export const getLiveSharesController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { trackingId } = req.params;
+    const userId = getAuthUserId(req)!;
+
+    if (!trackingId) {
+      res.status(400).json({ message: 'Se requiere ID de tracking' });
+      return;
+    }
+
+    const shares = await liveShareService.getLiveShares(trackingId, userId);
+
+    if (typeof shares === 'string') {
+      res.status(liveShareErrors[shares].status).json({ message: liveShareErrors[shares].message });
+      return;
+    }
+
+    res.status(200).json({ shares });
+  } catch (error: any) {
+    console.error('Error al obtener enlaces de seguimiento:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Revocar un enlace de seguimiento
+export const revokeLiveShareController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { trackingId, token } = req.params;
+    const userId = getAuthUserId(req)!;
+
+    if (!trackingId || !token) {
+      res.status(400).json({ message: 'Se requiere ID de tracking y token' });
+      return;
+    }
+
+    const share = await liveShareService.revokeLiveShare(trackingId, userId, token);
+
+    if (typeof share === 'string') {
+      res.status(liveShareErrors[share].status).json({ message: liveShareErrors[share].message });
+      return;
+    }
+
+    res.status(200).json({
+      message: 'Enlace de seguimiento revocado con éxito',
+      share
+    });
+  } catch (error: any) {
+    console.error('Error al revocar enlace de seguimiento:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Estado en directo de un tracking compartido (acceso público con el token)
+export const getLiveSnapshotController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token } = req.params;
+
+    const snapshot = await liveShareService.getLiveSnapshot(token);
+
+    if (typeof snapshot === 'string') {
+      res.status(liveShareErrors[snapshot].status).json({ message: liveShareErrors[snapshot].message });
+      return;
+    }
+
+    res.status(200).json({ snapshot });
+  } catch (error: any) {
+    console.error('Error al obtener actividad en directo:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+const safetyBeaconErrors: { [key in safetyBeaconService.SafetyBeaconError]: { status: number; message: string } } = {
+  TRACKING_NOT_FOUND: { status: 404, message: 'Tracking no encontrado' },
+  NOT_OWNER: { status: 403, message: 'Solo el propietario puede gestionar la baliza de este tracking' },
+  TRACKING_ENDED: { status: 400, message: 'El tracking ya ha finalizado' },
+  INVALID_CONTACTS: { status: 400, message: 'Se requiere al menos un contacto de confianza válido' },
+  TOO_MANY_CONTACTS: { status: 400, message: `No se permiten más de ${safetyBeaconService.MAX_SAFETY_CONTACTS} contactos de confianza` },
+  INVALID_FINISH_TIME: { status: 400, message: 'La hora prevista de llegada debe ser futura' },
+  INVALID_NO_SIGNAL_MINUTES: { status: 400, message: `El margen sin señal debe ser de al menos ${safetyBeaconService.MIN_NO_SIGNAL_MINUTES} minutos` },
+  BEACON_DISABLED: { status: 400, message: 'La baliza de seguridad no está activada' }
+};
+
+const formatSafetyBeacon = (tracking: any) => ({
+  trackingId: tracking._id,
+  enabled: tracking.safetyBeacon.enabled,
+  contacts: tracking.safetyBeacon.contacts,
+  expectedFinishTime: tracking.safetyBeacon.expectedFinishTime,
+  noSignalMinutes: tracking.safetyBeacon.noSignalMinutes,
+  lastSignalAt: tracking.safetyBeacon.lastSignalAt,
+  alertLevel: tracking.safetyBeacon.alertLevel,
+  alertReason: tracking.safetyBeacon.alertReason
+});
+
+// Activar, modificar o desactivar la baliza de seguridad de un tracking
+export const configureSafetyBeaconController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { trackingId } = req.params;
+    const { enabled, contacts, expectedFinishTime, noSignalMinutes } = req.body;
+    const userId = getAuthUserId(req)!;
+
+    if (!trackingId) {
+      res.status(400).json({ message: 'Se requiere ID de tracking' });
+      return;
+    }
+
+    if (contacts !== undefined && !Array.isArray(contacts)) {
+      res.status(400).json({ message: 'Los contactos deben ser una lista de IDs de usuario' });
+      return;
+    }
+
+    let finishTime: Date | null | undefined;
+    if (expectedFinishTime === null) {
+      finishTime = null;
+    } else if (expectedFinishTime !== undefined) {
+      finishTime = new Date(expectedFinishTime);
+      if (isNaN(finishTime.getTime())) {
+        res.status(400).json({ message: 'Hora prevista de llegada no válida' });
+        return;
+      }
+    }
+
+    const result = await safetyBeaconService.configureSafetyBeacon(trackingId, userId, {
+      enabled: enabled !== false && enabled !== 'false',
+      contacts,
+      expectedFinishTime: finishTime,
+      noSignalMinutes: noSignalMinutes !== undefined ? parseFloat(noSignalMinutes) : undefined
+    });
+
+    if (typeof result === 'string') {
+      res.status(safetyBeaconErrors[result].status).json({ message: safetyBeaconErrors[result].message });
+      return;
+    }
+
+    res.status(200).json({
+      message: result.safetyBeacon.enabled ? 'Baliza de seguridad activada' : 'Baliza de seguridad desactivada',
+      safetyBeacon: formatSafetyBeacon(result)
+    });
+  } catch (error: any) {
+    console.error('Error al configurar la baliza de seguridad:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Confirmar que el usuario está bien y cancelar las alertas en curso
+export const safetyCheckInController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { trackingId } = req.params;
+    const { expectedFinishTime } = req.body;
+    const userId = getAuthUserId(req)!;
+
+    if (!trackingId) {
+      res.status(400).json({ message: 'Se requiere ID de tracking' });
+      return;
+    }
+
+    let finishTime: Date | undefined;
+    if (expectedFinishTime) {
+      finishTime = new Date(expectedFinishTime);
+      if (isNaN(finishTime.getTime())) {
+        res.status(400).json({ message: 'Hora prevista de llegada no válida' });
+        return;
+      }
+    }
+
+    const result = await safetyBeaconService.checkInSafetyBeacon(trackingId, userId, finishTime);
+
+    if (typeof result === 'string') {
+      res.status(safetyBeaconErrors[result].status).json({ message: safetyBeaconErrors[result].message });
+      return;
+    }
+
+    res.status(200).json({
+      message: 'Check-in registrado con éxito',
+      safetyBeacon: formatSafetyBeacon(result)
+    });
+  } catch (error: any) {
+    console.error('Error al registrar el check-in de seguridad:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
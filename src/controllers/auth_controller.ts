@@ -1,16 +1,25 @@
 import { Request, Response } from "express";
-import { registerNewUser, loginUser, refreshUserToken, logoutUser, googleAuth } from "../services/auth_service";
-import { OAuth2Client } from 'google-auth-library';
-import axios from "axios";
-import UserModel from "../models/user";
-import { generateRefreshToken, generateToken } from "../utils/jwt.handle";
-import { encrypt } from "../utils/bcrypt.handle";
+import { registerNewUser, loginUser, refreshUserToken, logoutUser, googleAuth, linkGoogleAccount, unlinkGoogleAccount, GoogleAuthError } from "../services/auth_service";
+import { getActiveSessions, revokeSession, revokeAllSessions, SessionDevice } from "../services/sessionService";
+import { getAuthUserId } from "../middleware/session";
+import { requestEmailVerification, verifyEmail, requestPasswordReset, resetPassword } from "../services/accountTokenService";
+import { startTwoFactorSetup, enableTwoFactor, disableTwoFactor, regenerateRecoveryCodes, verifyTwoFactorLogin, TwoFactorError } from "../services/twoFactorService";
 
+const MIN_PASSWORD_LENGTH = 8;
 
+// Datos del dispositivo para la sesión (deviceName es opcional y lo envía el cliente)
+const getSessionDevice = (req: Request): SessionDevice => ({
+    deviceName: typeof req.body?.deviceName === 'string' ? req.body.deviceName : undefined,
+    userAgent: req.headers['user-agent'],
+    ip: req.ip
+});
 
-export const registerCtrl = async ({body}: Request, res: Response) => {
+const getAuthSessionId = (req: Request): string | undefined => (req as any).user?.sid;
+
+export const registerCtrl = async (req: Request, res: Response) => {
     try{
         // Verificamos que username, email y password estén presentes
+        const { body } = req;
         const { username, email, password } = body;
         
         if (!username || !email || !password) {
@@ -19,7 +28,7 @@ export const registerCtrl = async ({body}: Request, res: Response) => {
             });
         }
         
-        const responseUser = await registerNewUser(body);
+        const responseUser = await registerNewUser(body, getSessionDevice(req));
         res.json(responseUser);
     } catch (error: any){
         res.status(500).json({ message: error.message });
@@ -27,9 +36,9 @@ export const registerCtrl = async ({body}: Request, res: Response) => {
 };
 
 // Enviar objeto usuario completo en la respuesta
-export const loginCtrl = async ({ body }: Request, res: Response) => {
+export const loginCtrl = async (req: Request, res: Response) => {
     try {
-        const { username, email, password } = body;
+        const { username, email, password } = req.body;
         
         // Validamos que tengamos al menos email y password
         if (!email || !password) {
@@ -38,7 +47,7 @@ export const loginCtrl = async ({ body }: Request, res: Response) => {
             });
         }
         
-        const responseUser = await loginUser({username, email, password });
+        const responseUser = await loginUser({username, email, password }, getSessionDevice(req));
 
         if (responseUser === 'INCORRECT_PASSWORD') {
             return res.status(403).json({ message: 'Contraseña incorrecta' });
@@ -48,6 +57,21 @@ export const loginCtrl = async ({ body }: Request, res: Response) => {
             return res.status(404).json({ message: 'Usuario no encontrado' });
         }
 
+        if (responseUser === 'EMAIL_NOT_VERIFIED') {
+            return res.status(403).json({
+                message: 'Debes verificar tu correo electrónico antes de iniciar sesión',
+                code: 'EMAIL_NOT_VERIFIED'
+            });
+        }
+
+        // Cuenta con verificación en dos pasos: el cliente debe enviar el código a /api/auth/2fa/verify
+        if ('twoFactorRequired' in responseUser) {
+            return res.json({
+                twoFactorRequired: true,
+                challengeToken: responseUser.challengeToken
+            });
+        }
+
         return res.json({
             token: responseUser.token,
             refreshToken: responseUser.refreshToken,
@@ -67,16 +91,21 @@ export const googleAuthCallback = async (req: Request, res: Response) => {
             return res.status(400).json({ message: 'Código de autorización faltante' });
         }
 
-        const authData = await googleAuth(code);
+        const authData = await googleAuth(code, getSessionDevice(req));
         
-        if (!authData) {
-            return res.redirect('/login?error=authentication_failed');
+        if (typeof authData === 'string') {
+            return res.redirect(`/login?error=${authData.toLowerCase()}`);
         }
-        
+
+        // Falta el segundo factor: el frontend debe pedir el código y completar el login
+        if ('twoFactorRequired' in authData) {
+            return res.redirect(`http://localhost:4200/?twoFactorRequired=true&challengeToken=${authData.challengeToken}`);
+        }
+
         // Redirigir al frontend con ambos tokens como parámetros de consulta
         res.redirect(`http://localhost:4200/?token=${authData.token}&refreshToken=${authData.refreshToken}`);   
     } catch (error: any) {
-        console.error('Error en callback de Google:', error);
+        console.error('Error en callback de Google:', error.message);
         res.redirect('/login?error=server_error');
     }
 };
@@ -90,9 +119,9 @@ export const refreshTokenCtrl = async (req: Request, res: Response) => {
             return res.status(401).json({ message: 'Refresh token no proporcionado' });
         }
         
-        const result = await refreshUserToken(refreshToken);
+        const result = await refreshUserToken(refreshToken, getSessionDevice(req));
         
-        if (result === 'INVALID_REFRESH_TOKEN') {
+        if (result === 'INVALID_REFRESH_TOKEN' || result === 'SESSION_NOT_FOUND') {
             return res.status(401).json({ message: 'Refresh token inválido' });
         }
         
@@ -100,8 +129,12 @@ export const refreshTokenCtrl = async (req: Request, res: Response) => {
             return res.status(404).json({ message: 'Usuario no encontrado' });
         }
         
-        if (result === 'REFRESH_TOKEN_MISMATCH') {
-            return res.status(401).json({ message: 'Refresh token no coincide' });
+        if (result === 'SESSION_REVOKED') {
+            return res.status(401).json({ message: 'La sesión ha sido cerrada' });
+        }
+        
+        if (result === 'REFRESH_TOKEN_REUSED') {
+            return res.status(401).json({ message: 'Refresh token ya utilizado: la sesión se ha cerrado por seguridad' });
         }
         
         // Configurar las cookies con los nuevos tokens
@@ -112,7 +145,8 @@ export const refreshTokenCtrl = async (req: Request, res: Response) => {
             maxAge: 7 * 24 * 60 * 60 * 1000 // 7 días
         });
         
-        return res.json({ token: result.token });
+        // El refresh token anterior deja de ser válido: el cliente debe guardar el nuevo
+        return res.json({ token: result.token, refreshToken: result.refreshToken });
         
     } catch (error: any) {
         return res.status(500).json({ message: error.message });
@@ -121,14 +155,15 @@ export const refreshTokenCtrl = async (req: Request, res: Response) => {
 
 export const logoutCtrl = async (req: Request, res: Response) => {
     try {
-        // Obtenemos el id del usuario del token (que debería estar en req.user)
-        const userId = (req as any).user?.id;
+        // Obtenemos el id del usuario y de la sesión del token (que debería estar en req.user)
+        const userId = getAuthUserId(req);
         
         if (!userId) {
             return res.status(401).json({ message: 'No autorizado' });
         }
         
-        await logoutUser(userId);
+        // Solo se cierra la sesión de este dispositivo
+        await logoutUser(userId, getAuthSessionId(req));
         
         // Eliminar cookies
         res.clearCookie('refreshToken');
@@ -139,6 +174,65 @@ export const logoutCtrl = async (req: Request, res: Response) => {
     }
 };
 
+// Listar las sesiones activas (una por dispositivo) del usuario autenticado
+export const getSessionsCtrl = async (req: Request, res: Response) => {
+    try {
+        const userId = getAuthUserId(req)!;
+        const currentSessionId = getAuthSessionId(req);
+
+        const sessions = await getActiveSessions(userId);
+
+        return res.json({
+            sessions: sessions.map(session => ({
+                id: session._id,
+                deviceName: session.deviceName,
+                userAgent: session.userAgent,
+                ip: session.ip,
+                createdAt: session.createdAt,
+                lastUsedAt: session.lastUsedAt,
+                expiresAt: session.expiresAt,
+                current: session._id.toString() === currentSessionId
+            }))
+        });
+    } catch (error: any) {
+        return res.status(500).json({ message: error.message });
+    }
+};
+
+// Cerrar una sesión concreta (p. ej. un dispositivo perdido)
+export const revokeSessionCtrl = async (req: Request, res: Response) => {
+    try {
+        const result = await revokeSession(getAuthUserId(req)!, req.params.sessionId);
+
+        if (result === 'SESSION_NOT_FOUND') {
+            return res.status(404).json({ message: 'Sesión no encontrada' });
+        }
+
+        return res.json({ message: 'Sesión cerrada correctamente' });
+    } catch (error: any) {
+        return res.status(500).json({ message: error.message });
+    }
+};
+
+// Cerrar todas las sesiones; con ?exceptCurrent=true se conserva la del dispositivo actual
+export const revokeAllSessionsCtrl = async (req: Request, res: Response) => {
+    try {
+        const exceptCurrent = req.query.exceptCurrent === 'true';
+
+        const revokedCount = await revokeAllSessions(
+            getAuthUserId(req)!,
+            exceptCurrent ? getAuthSessionId(req) : undefined
+        );
+
+        return res.json({
+            message: 'Sesiones cerradas correctamente',
+            revokedCount
+        });
+    } catch (error: any) {
+        return res.status(500).json({ message: error.message });
+    }
+};
+
 export const googleAuthCtrl = (req: Request, res: Response) => {
   const rootUrl = 'https://accounts.google.com/o/oauth2/v2/auth';
   const options = new URLSearchParams({
@@ -154,185 +248,300 @@ export const googleAuthCtrl = (req: Request, res: Response) => {
   res.redirect(fullUrl);
 };
 
+// Mensajes para los casos en que no se puede iniciar sesión con la cuenta de Google
+const googleAuthErrorMessages: { [code in GoogleAuthError]: { status: number; message: string } } = {
+    GOOGLE_EMAIL_NOT_VERIFIED: { status: 403, message: 'El correo de la cuenta de Google no está verificado' },
+    EMAIL_NOT_VERIFIED: { status: 409, message: 'Ya existe una cuenta con este correo pendiente de verificar. Verifica el correo o vincula Google desde tu cuenta' },
+    GOOGLE_ACCOUNT_CONFLICT: { status: 409, message: 'La cuenta con este correo ya está vinculada a otra cuenta de Google' },
+    GOOGLE_ACCOUNT_IN_USE: { status: 409, message: 'Esta cuenta de Google ya está vinculada a otro usuario' },
+    ALREADY_LINKED: { status: 409, message: 'Tu cuenta ya está vinculada a otra cuenta de Google' },
+    NOT_LINKED: { status: 400, message: 'Tu cuenta no está vinculada a Google' },
+    INVALID_GOOGLE_CREDENTIAL: { status: 401, message: 'Credencial de Google inválida' },
+    USER_NOT_FOUND: { status: 404, message: 'Usuario no encontrado' }
+};
+
+const sendGoogleAuthError = (res: Response, error: GoogleAuthError) => {
+    const { status, message } = googleAuthErrorMessages[error];
+    return res.status(status).json({ message, code: error });
+};
+
 export const googleCallbackCtrl = async (req: Request, res: Response) => {
-    console.log(' Google OAuth Callback iniciado');
-    console.log(' Query params:', req.query);
-    
     const code = req.query.code as string;
 
     if (!code) {
-        console.error(' No se recibió código de Google');
         return res.status(400).json({ message: 'Falta el código de Google' });
     }
 
-    console.log(' Código de Google recibido:', code.substring(0, 20) + '...');
-
     try {
-
         if (!process.env.GOOGLE_CLIENT_ID || !process.env.GOOGLE_CLIENT_SECRET || !process.env.GOOGLE_OAUTH_REDIRECT_URL) {
             console.error(' Variables de entorno faltantes');
             return res.status(500).json({ message: 'Configuración de Google OAuth incompleta' });
         }
 
-        // INTERCAMBIAR CÓDIGO POR TOKEN
-        console.log(' Intercambiando código por token...');
-        const tokenResponse = await axios.post('https://oauth2.googleapis.com/token', {
-            code,
-            client_id: process.env.GOOGLE_CLIENT_ID,
-            client_secret: process.env.GOOGLE_CLIENT_SECRET,
-            redirect_uri: process.env.GOOGLE_OAUTH_REDIRECT_URL,
-            grant_type: 'authorization_code',
-        });
+        // Busca la cuenta por googleId o por correo verificado (o la crea) y abre una sesión nueva
+        const authData = await googleAuth(code, getSessionDevice(req));
+
+        if (typeof authData === 'string') {
+            return sendGoogleAuthError(res, authData);
+        }
 
-        console.log(' Token response recibido:', {
-            status: tokenResponse.status,
-            hasAccessToken: !!tokenResponse.data.access_token
+        // VERIFICACIÓN EN DOS PASOS: SE REDIRIGE CON EL DESAFÍO EN LUGAR DE LOS TOKENS
+        if ('twoFactorRequired' in authData) {
+            return res.redirect(`https://ea1.upc.edu/oauth-success?twoFactorRequired=true&challengeToken=${authData.challengeToken}`);
+        }
+
+        // REDIRECCIONAR CON TOKENS (no se registran en los logs)
+        res.redirect(`https://ea1.upc.edu/oauth-success?token=${authData.token}&refreshToken=${authData.refreshToken}`);
+
+    } catch (err: any) {
+        console.error(' Error en Google OAuth:', err.message);
+        
+        res.status(500).json({ 
+            message: 'Error en autenticación con Google',
+            debug: process.env.NODE_ENV === 'development' ? err.message : undefined
         });
+    }
+};
 
-        const { access_token, id_token } = tokenResponse.data;
+// Vincular una cuenta de Google a la cuenta autenticada (id_token de Google Sign-In o código de autorización)
+export const linkGoogleCtrl = async (req: Request, res: Response) => {
+    try {
+        const { idToken, code } = req.body;
 
-        if (!access_token) {
-            console.error(' No se recibió access_token de Google');
-            return res.status(500).json({ message: 'Error obteniendo token de Google' });
+        if ((!idToken || typeof idToken !== 'string') && (!code || typeof code !== 'string')) {
+            return res.status(400).json({ message: 'Se requiere idToken o code de Google' });
         }
 
-        // OBTENER DATOS DEL USUARIO
-        console.log(' Obteniendo datos del usuario de Google...');
-        const userResponse = await axios.get('https://www.googleapis.com/oauth2/v1/userinfo', {
-            headers: {
-                Authorization: `Bearer ${access_token}`,
-            },
-        });
+        const result = await linkGoogleAccount(getAuthUserId(req)!, { idToken, code });
 
-        console.log(' Datos de usuario recibidos:', {
-            email: userResponse.data.email,
-            name: userResponse.data.name,
-            id: userResponse.data.id
-        });
+        if (typeof result === 'string') {
+            return sendGoogleAuthError(res, result);
+        }
 
-        const { email, name, id: googleId, picture } = userResponse.data;
-
-        if (!email || !name) {
-            console.error(' Datos incompletos del usuario de Google');
-            return res.status(500).json({ message: 'Datos incompletos del usuario' });
-        }
-
-        // BUSCAR USUARIO
-        console.log('Buscando usuario en base de datos...');
-        let user = await UserModel.findOne({ email });
-
-        if (!user) {
-            console.log(' Creando nuevo usuario...');
-            
-            // GENERAR CONTRASEÑA ALEATORIA PARA NUEVOS USUARIOS
-            const randomPassword = Math.random().toString(36).slice(-8);
-            console.log(' Contraseña aleatoria generada para nuevo usuario');
-
-            const hashedPassword = await encrypt(randomPassword);
-
-            user = await UserModel.create({
-                email,
-                username: name,
-                googleId,
-                profilePicture: picture || null,
-                password: hashedPassword,
-                role: 'user',
-                level: 1,
-                totalDistance: 0,
-                totalTime: 0,
-                activities: [],
-                achievements: [],
-                challengesCompleted: [],
-                visibility: true,
-                createdAt: new Date(),
-                updatedAt: new Date()
-            });
-            console.log(' Usuario nuevo creado con ID:', user._id);
-        } else {
-            console.log(' Usuario existente encontrado:', user._id);
-            
-            // VERIFICAR Y ACTUALIZAR DATOS SI ES NECESARIO
-            let needsUpdate = false;
-            const updateData: any = {};
-
-            if (!user.googleId) {
-                updateData.googleId = googleId;
-                needsUpdate = true;
-                console.log('Agregando googleId al usuario existente');
-            }
-
-            if (!user.password) {
-                // Si el usuario no tiene contraseña, generar una
-                const randomPassword = Math.random().toString(36).slice(-8);
-                updateData.password = await encrypt(randomPassword);
-                needsUpdate = true;
-                console.log('Generando contraseña para usuario sin contraseña');
-            }
-
-            if (picture && (!user.profilePicture || user.profilePicture !== picture)) {
-                updateData.profilePicture = picture;
-                needsUpdate = true;
-                console.log('Actualizando foto de perfil');
-            }
-
-            // Actualizar usuario si es necesario (sin validar todo el documento)
-            if (needsUpdate) {
-                await UserModel.updateOne(
-                    { _id: user._id }, 
-                    { $set: updateData },
-                    { runValidators: false } // No ejecutar validadores
-                );
-                console.log(' Usuario actualizado con nuevos datos');
-                
-                // Recargar usuario con los cambios
-                user = await UserModel.findById(user._id);
-            }
-        }
-
-        // GENERAR TOKENS JWT
-        console.log(' Generando tokens JWT...');
-        if (!user) {
-            throw new Error('No se pudo obtener el usuario para generar tokens');
-        }
-        const token = generateToken(user);
-        const refreshToken = generateRefreshToken(user.email);
-
-        console.log(' Tokens generados:', {
-            token: token.substring(0, 20) + '...',
-            refreshToken: refreshToken.substring(0, 20) + '...'
-        });
+        return res.json({ message: 'Cuenta de Google vinculada correctamente', user: result });
+    } catch (error: any) {
+        return res.status(500).json({ message: error.message });
+    }
+};
 
-        // GUARDAR REFRESH TOKEN SIN VALIDAR TODO EL DOCUMENTO
-        console.log(' Guardando refresh token...');
-        try {
-            await UserModel.updateOne(
-                { _id: user!._id },
-                { $set: { refreshToken: refreshToken } },
-                { runValidators: false } //  EVITA VALIDAR EL CAMPO PASSWORD
-            );
-            console.log(' Refresh token guardado exitosamente');
-        } catch (saveError) {
-            console.error(' Error guardando refresh token:', saveError);
-            // Continuar sin guardar el refresh token si hay error
-        }
-
-        // REDIRECCIONAR CON TOKENS
-        const redirectUrl = `https://ea1.upc.edu/oauth-success?token=${token}&refreshToken=${refreshToken}`;
-        console.log('Redirigiendo a:', redirectUrl.substring(0, 80) + '...');
-        
-        res.redirect(redirectUrl);
+// Desvincular la cuenta de Google
+export const unlinkGoogleCtrl = async (req: Request, res: Response) => {
+    try {
+        const result = await unlinkGoogleAccount(getAuthUserId(req)!);
 
-    } catch (err: any) {
-        console.error(' Error en Google OAuth:', err);
-        console.error('Error completo:', {
-            message: err.message,
-            stack: err.stack,
-            response: err.response?.data
+        if (typeof result === 'string') {
+            return sendGoogleAuthError(res, result);
+        }
+
+        return res.json({ message: 'Cuenta de Google desvinculada correctamente', user: result });
+    } catch (error: any) {
+        return res.status(500).json({ message: error.message });
+    }
+};
+
+// Reenviar el correo de verificación (siempre responde igual, exista o no la cuenta)
+export const requestEmailVerificationCtrl = async (req: Request, res: Response) => {
+    try {
+        const { email } = req.body;
+
+        if (!email || typeof email !== 'string') {
+            return res.status(400).json({ message: 'El email es requerido' });
+        }
+
+        await requestEmailVerification(email);
+
+        return res.json({ message: 'Si la cuenta existe y no está verificada, recibirás un correo de verificación' });
+    } catch (error: any) {
+        return res.status(500).json({ message: error.message });
+    }
+};
+
+// Verificar el correo con el token recibido
+export const verifyEmailCtrl = async (req: Request, res: Response) => {
+    try {
+        const { token } = req.body;
+
+        const result = await verifyEmail(token);
+
+        if (result === 'INVALID_TOKEN') {
+            return res.status(400).json({ message: 'El enlace de verificación no es válido o ha caducado' });
+        }
+
+        if (result === 'USER_NOT_FOUND') {
+            return res.status(404).json({ message: 'Usuario no encontrado' });
+        }
+
+        // Los tokens de acceso emitidos antes de verificar siguen marcados como no verificados hasta refrescarlos
+        return res.json({ message: 'Correo verificado correctamente' });
+    } catch (error: any) {
+        return res.status(500).json({ message: error.message });
+    }
+};
+
+// Pedir un enlace para restablecer la contraseña (siempre responde igual, exista o no la cuenta)
+export const forgotPasswordCtrl = async (req: Request, res: Response) => {
+    try {
+        const { email } = req.body;
+
+        if (!email || typeof email !== 'string') {
+            return res.status(400).json({ message: 'El email es requerido' });
+        }
+
+        await requestPasswordReset(email);
+
+        return res.json({ message: 'Si la cuenta existe, recibirás un correo para restablecer la contraseña' });
+    } catch (error: any) {
+        return res.status(500).json({ message: error.message });
+    }
+};
+
+// Restablecer la contraseña con el token recibido; se cierran todas las sesiones
+export const resetPasswordCtrl = async (req: Request, res: Response) => {
+    try {
+        const { token, password } = req.body;
+
+        if (!password || typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+            return res.status(400).json({ message: `La contraseña debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres` });
+        }
+
+        const result = await resetPassword(token, password);
+
+        if (result === 'INVALID_TOKEN') {
+            return res.status(400).json({ message: 'El enlace para restablecer la contraseña no es válido o ha caducado' });
+        }
+
+        if (result === 'USER_NOT_FOUND') {
+            return res.status(404).json({ message: 'Usuario no encontrado' });
+        }
+
+        return res.json({ message: 'Contraseña restablecida correctamente. Vuelve a iniciar sesión' });
+    } catch (error: any) {
+        return res.status(500).json({ message: error.message });
+    }
+};
+
+// Respuesta común para los errores de la verificación en dos pasos
+const sendTwoFactorError = (res: Response, error: TwoFactorError) => {
+    switch (error) {
+        case 'USER_NOT_FOUND':
+            return res.status(404).json({ message: 'Usuario no encontrado' });
+        case 'ALREADY_ENABLED':
+            return res.status(409).json({ message: 'La verificación en dos pasos ya está activada' });
+        case 'NOT_ENABLED':
+            return res.status(400).json({ message: 'La verificación en dos pasos no está activada' });
+        case 'SETUP_NOT_STARTED':
+            return res.status(400).json({ message: 'Primero debes iniciar la configuración de la verificación en dos pasos' });
+        case 'INCORRECT_PASSWORD':
+            return res.status(403).json({ message: 'Contraseña incorrecta' });
+        case 'INVALID_CHALLENGE':
+            return res.status(401).json({ message: 'El inicio de sesión ha caducado. Vuelve a introducir tu contraseña' });
+        case 'INVALID_CODE':
+            return res.status(401).json({ message: 'Código de verificación incorrecto' });
+    }
+};
+
+// Iniciar la activación: devuelve el secreto y la URI otpauth:// (para mostrar como QR)
+export const setupTwoFactorCtrl = async (req: Request, res: Response) => {
+    try {
+        const result = await startTwoFactorSetup(getAuthUserId(req)!);
+
+        if (typeof result === 'string') {
+            return sendTwoFactorError(res, result);
+        }
+
+        return res.json(result);
+    } catch (error: any) {
+        return res.status(500).json({ message: error.message });
+    }
+};
+
+// Confirmar la activación con un código de la app; devuelve los códigos de recuperación
+export const enableTwoFactorCtrl = async (req: Request, res: Response) => {
+    try {
+        const { code } = req.body;
+
+        if (!code || typeof code !== 'string') {
+            return res.status(400).json({ message: 'El código es requerido' });
+        }
+
+        const result = await enableTwoFactor(getAuthUserId(req)!, code);
+
+        if (typeof result === 'string') {
+            return sendTwoFactorError(res, result);
+        }
+
+        return res.json({
+            message: 'Verificación en dos pasos activada. Guarda los códigos de recuperación en un lugar seguro',
+            recoveryCodes: result.recoveryCodes
         });
-        
-        res.status(500).json({ 
-            message: 'Error en autenticación con Google',
-            debug: process.env.NODE_ENV === 'development' ? err.message : undefined
+    } catch (error: any) {
+        return res.status(500).json({ message: error.message });
+    }
+};
+
+// Desactivar con la contraseña y un código de la app o de recuperación
+export const disableTwoFactorCtrl = async (req: Request, res: Response) => {
+    try {
+        const { password, code, recoveryCode } = req.body;
+
+        if (!password || (!code && !recoveryCode)) {
+            return res.status(400).json({ message: 'La contraseña y un código (code o recoveryCode) son requeridos' });
+        }
+
+        const result = await disableTwoFactor(getAuthUserId(req)!, password, { code, recoveryCode });
+
+        if (result !== true) {
+            return sendTwoFactorError(res, result);
+        }
+
+        return res.json({ message: 'Verificación en dos pasos desactivada' });
+    } catch (error: any) {
+        return res.status(500).json({ message: error.message });
+    }
+};
+
+// Generar códigos de recuperación nuevos; los anteriores dejan de funcionar
+export const regenerateRecoveryCodesCtrl = async (req: Request, res: Response) => {
+    try {
+        const { code } = req.body;
+
+        if (!code || typeof code !== 'string') {
+            return res.status(400).json({ message: 'El código es requerido' });
+        }
+
+        const result = await regenerateRecoveryCodes(getAuthUserId(req)!, code);
+
+        if (typeof result === 'string') {
+            return sendTwoFactorError(res, result);
+        }
+
+        return res.json({ recoveryCodes: result.recoveryCodes });
+    } catch (error: any) {
+        return res.status(500).json({ message: error.message });
+    }
+};
+
+// Completar el inicio de sesión con el desafío del login y el segundo factor
+export const verifyTwoFactorCtrl = async (req: Request, res: Response) => {
+    try {
+        const { challengeToken, code, recoveryCode } = req.body;
+
+        if (!challengeToken || (!code && !recoveryCode)) {
+            return res.status(400).json({ message: 'challengeToken y un código (code o recoveryCode) son requeridos' });
+        }
+
+        const result = await verifyTwoFactorLogin(challengeToken, { code, recoveryCode }, getSessionDevice(req));
+
+        if (typeof result === 'string') {
+            return sendTwoFactorError(res, result);
+        }
+
+        return res.json({
+            token: result.token,
+            refreshToken: result.refreshToken,
+            user: result.user
         });
+    } catch (error: any) {
+        return res.status(500).json({ message: error.message });
     }
 };
@@ -1,19 +1,22 @@
 import * as challengeService from "../services/challengeService";
+import { ChallengeViewer } from "../services/challengeService";
+import * as challengeProgressService from "../services/challengeProgressService";
+import * as challengeLeaderboardService from "../services/challengeLeaderboardService";
+import * as friendChallengeService from "../services/friendChallengeService";
+import { getAuthUserId, isAdmin } from "../middleware/session";
 import { Request,Response } from "express";
 
+// Los administradores ven todos los retos; el resto, solo los visibles para ellos (sin token, solo los públicos)
+const challengeViewer = (req: Request): ChallengeViewer => ({ userId: getAuthUserId(req), isAdmin: isAdmin(req) });
+
 export const createChallengeController = async(req: Request, res: Response)=>{
     try{
-        if(!req.body){
-            res.status(400).json({message: "Los datos del challenge son requeridos"});
-            return;
-        }
-        const { title, description, goalType, goalValue, reward, startDate, endDate } = req.body;
-        if (!title || !description || !goalType || !goalValue || !reward || !startDate || !endDate) {
-            res.status(400).json({ message: "Faltan campos requeridos" });
+        // El body ya llega validado (challengeCreateBody)
+        const newChallenge = await challengeService.createChallenge(req.body);
+        if (newChallenge === "INVALID_DATE_RANGE") {
+            res.status(400).json({message: "La fecha de fin debe ser posterior a la de inicio"});
             return;
         }
-
-        const newChallenge = await challengeService.createChallenge(req.body);
         console.log("Challenge creado:", newChallenge);
 
         res.status(201).json({message: "Challenge creado exitosamente"});
@@ -25,7 +28,7 @@ export const createChallengeController = async(req: Request, res: Response)=>{
 
 export const getChallengeByIdController = async(req: Request, res: Response)=>{
     try{
-        const challengeId = await challengeService.getChallengeById(req.params.id);
+        const challengeId = await challengeService.getChallengeById(req.params.id, challengeViewer(req));
 
        if(!challengeId){
             res.status(404).json({message: "No se encontró el challenge"});
@@ -54,7 +57,7 @@ export const getChallengesController = async (req: Request, res: Response): Prom
     }
     
     // Obtenir reptes paginats
-    const result = await challengeService.getChallenges(page, limit);
+    const result = await challengeService.getChallenges(page, limit, challengeViewer(req));
     
     res.status(200).json(result);
   } catch (error) {
@@ -65,7 +68,7 @@ export const getChallengesController = async (req: Request, res: Response): Prom
 
 export const getActiveChallengesController = async(req: Request, res: Response)=>{
     try{
-        const activeChallenges = await challengeService.getActiveChallenges();
+        const activeChallenges = await challengeService.getActiveChallenges(challengeViewer(req));
         console.log("Challenge activos: ", activeChallenges);
         res.status(200).json({message: "Challenges activos obtenidos con éxito",challenges: activeChallenges});
     } catch(error){
@@ -76,8 +79,9 @@ export const getActiveChallengesController = async(req: Request, res: Response)=
 
 export const getInactiveChallengesController = async(req: Request, res: Response)=>{
     try{
-        const inactiveChallenges = await challengeService.getInactiveChallenges();
+        const inactiveChallenges = await challengeService.getInactiveChallenges(challengeViewer(req));
         console.log("Challenge inactivos: ", inactiveChallenges);
+        res.status(200).json({message: "Challenges inactivos obtenidos con éxito",challenges: inactiveChallenges});
     } catch(error){
         res.status(500).json({message: "Error al obtener los challenges inactivos", error});
         console.log("Error al obtener los challenges inactivos", error);
@@ -92,6 +96,10 @@ export const updateChallengeController = async(req: Request, res: Response)=>{
             res.status(404).json({message: "No se encontró el challenge"});
             return;
         }
+        if (update === "INVALID_DATE_RANGE") {
+            res.status(400).json({message: "La fecha de fin debe ser posterior a la de inicio"});
+            return;
+        }
         res.status(200).json(update);
     } catch(error){
         res.status(500).json({message: "Error al actualizar el challenge", error});
@@ -100,9 +108,204 @@ export const updateChallengeController = async(req: Request, res: Response)=>{
 
 export const deleteChallengeController = async(req: Request, res: Response)=>{
     try{
-        await challengeService.deleteChallenge(req.params.id);
+        await challengeService.deleteChallenge(req.params.challengeId);
         res.status(200).json({message: "Challenge eliminado exitosamente"});
     } catch(error){
         res.status(500).json({message: "Error al eliminar el challenge", error});
     }
-};
\ No newline at end of file
+};
+
+const participationErrors: { [key in challengeProgressService.ChallengeParticipationError]: { status: number; message: string } } = {
+    CHALLENGE_NOT_FOUND: { status: 404, message: "No se encontró el challenge" },
+    CHALLENGE_WITHOUT_GOAL: { status: 400, message: "El challenge no tiene un objetivo medible" },
+    CHALLENGE_ENDED: { status: 400, message: "El challenge ya ha finalizado" },
+    ALREADY_JOINED: { status: 409, message: "Ya estás inscrito en este challenge" },
+    NOT_JOINED: { status: 404, message: "No estás inscrito en este challenge" },
+    ALREADY_COMPLETED: { status: 400, message: "No se puede abandonar un challenge completado" }
+};
+
+// Inscribirse en un challenge
+export const joinChallengeController = async(req: Request, res: Response)=>{
+    try{
+        const result = await challengeProgressService.joinChallenge(req.params.id, getAuthUserId(req)!);
+
+        if (typeof result === "string") {
+            res.status(participationErrors[result].status).json({message: participationErrors[result].message});
+            return;
+        }
+        res.status(201).json({message: "Inscripción al challenge realizada con éxito", progress: result});
+    } catch(error){
+        console.error("Error al inscribirse en el challenge:", error);
+        res.status(500).json({message: "Error al inscribirse en el challenge"});
+    }
+};
+
+// Abandonar un challenge
+export const leaveChallengeController = async(req: Request, res: Response)=>{
+    try{
+        const result = await challengeProgressService.leaveChallenge(req.params.id, getAuthUserId(req)!);
+
+        if (typeof result === "string") {
+            res.status(participationErrors[result].status).json({message: participationErrors[result].message});
+            return;
+        }
+        res.status(200).json({message: "Has abandonado el challenge"});
+    } catch(error){
+        console.error("Error al abandonar el challenge:", error);
+        res.status(500).json({message: "Error al abandonar el challenge"});
+    }
+};
+
+// Progreso del usuario autenticado en un challenge
+export const getChallengeProgressController = async(req: Request, res: Response)=>{
+    try{
+        const result = await challengeProgressService.getChallengeProgress(req.params.id, getAuthUserId(req)!);
+
+        if (typeof result === "string") {
+            res.status(participationErrors[result].status).json({message: participationErrors[result].message});
+            return;
+        }
+        res.status(200).json(result);
+    } catch(error){
+        console.error("Error al obtener el progreso del challenge:", error);
+        res.status(500).json({message: "Error al obtener el progreso del challenge"});
+    }
+};
+
+// Challenges en los que participa un usuario
+export const getUserChallengesController = async(req: Request, res: Response)=>{
+    try{
+        const status = (req.query.status as 'active' | 'completed' | 'all' | undefined) || 'all';
+        const challenges = await challengeProgressService.getUserChallenges(req.params.userId, status);
+
+        res.status(200).json({challenges});
+    } catch(error){
+        console.error("Error al obtener los challenges del usuario:", error);
+        res.status(500).json({message: "Error al obtener los challenges del usuario"});
+    }
+};
+
+const leaderboardErrors: { [key in challengeLeaderboardService.LeaderboardError]: { status: number; message: string } } = {
+    CHALLENGE_NOT_FOUND: { status: 404, message: "No se encontró el challenge" },
+    CHALLENGE_WITHOUT_GOAL: { status: 400, message: "El challenge no tiene un objetivo medible" },
+    USER_NOT_FOUND: { status: 404, message: "Usuario no encontrado" }
+};
+
+const sendLeaderboard = async(req: Request, res: Response, scope: challengeLeaderboardService.LeaderboardScope)=>{
+    const result = await challengeLeaderboardService.getChallengeLeaderboard(req.params.id, getAuthUserId(req)!, {
+        scope,
+        activityType: req.query.activityType?.toString(),
+        page: parseInt(req.query.page?.toString() || '1', 10),
+        limit: parseInt(req.query.limit?.toString() || '20', 10)
+    });
+
+    if (typeof result === "string") {
+        res.status(leaderboardErrors[result].status).json({message: leaderboardErrors[result].message});
+        return;
+    }
+    res.status(200).json(result);
+};
+
+// Ranking de todos los participantes de un challenge
+export const getChallengeLeaderboardController = async(req: Request, res: Response)=>{
+    try{
+        await sendLeaderboard(req, res, 'global');
+    } catch(error){
+        console.error("Error al obtener el ranking del challenge:", error);
+        res.status(500).json({message: "Error al obtener el ranking del challenge"});
+    }
+};
+
+// Ranking entre el usuario autenticado y las personas a las que sigue
+export const getChallengeFollowingLeaderboardController = async(req: Request, res: Response)=>{
+    try{
+        await sendLeaderboard(req, res, 'following');
+    } catch(error){
+        console.error("Error al obtener el ranking de seguidos del challenge:", error);
+        res.status(500).json({message: "Error al obtener el ranking del challenge"});
+    }
+};
+
+const friendChallengeErrors: { [key in friendChallengeService.FriendChallengeError]: { status: number; message: string } } = {
+    ...participationErrors,
+    INVALID_DATE_RANGE: { status: 400, message: "La fecha de fin debe ser posterior a la de inicio y a la fecha actual" },
+    USER_NOT_FOUND: { status: 404, message: "Usuario no encontrado" },
+    INVITEE_NOT_FOLLOWED: { status: 400, message: "Solo puedes invitar a usuarios a los que sigues" },
+    NOT_FRIEND_CHALLENGE: { status: 400, message: "Solo se puede invitar a retos creados por usuarios" },
+    INVITATION_NOT_FOUND: { status: 404, message: "No tienes ninguna invitación pendiente para este challenge" }
+};
+
+// Crear un reto entre amigos
+export const createFriendChallengeController = async(req: Request, res: Response)=>{
+    try{
+        const result = await friendChallengeService.createFriendChallenge(getAuthUserId(req)!, req.body);
+
+        if (typeof result === "string") {
+            res.status(friendChallengeErrors[result].status).json({message: friendChallengeErrors[result].message});
+            return;
+        }
+        res.status(201).json({message: "Challenge creado exitosamente", challenge: result});
+    } catch(error){
+        console.error("Error al crear el challenge entre amigos:", error);
+        res.status(500).json({message: "Error al crear el challenge"});
+    }
+};
+
+// Invitar a más usuarios a un reto entre amigos
+export const inviteToChallengeController = async(req: Request, res: Response)=>{
+    try{
+        const result = await friendChallengeService.inviteToChallenge(req.params.id, req.body.invitees);
+
+        if (typeof result === "string") {
+            res.status(friendChallengeErrors[result].status).json({message: friendChallengeErrors[result].message});
+            return;
+        }
+        res.status(200).json({message: "Invitaciones enviadas", invitations: result});
+    } catch(error){
+        console.error("Error al invitar al challenge:", error);
+        res.status(500).json({message: "Error al invitar al challenge"});
+    }
+};
+
+// Invitaciones pendientes del usuario autenticado
+export const getPendingInvitationsController = async(req: Request, res: Response)=>{
+    try{
+        const challenges = await friendChallengeService.getPendingInvitations(getAuthUserId(req)!);
+        res.status(200).json({challenges});
+    } catch(error){
+        console.error("Error al obtener las invitaciones:", error);
+        res.status(500).json({message: "Error al obtener las invitaciones"});
+    }
+};
+
+// Aceptar una invitación (inscribe al usuario y lo añade al chat del reto)
+export const acceptInvitationController = async(req: Request, res: Response)=>{
+    try{
+        const result = await friendChallengeService.respondToInvitation(req.params.id, getAuthUserId(req)!, true);
+
+        if (typeof result === "string") {
+            res.status(friendChallengeErrors[result].status).json({message: friendChallengeErrors[result].message});
+            return;
+        }
+        res.status(200).json({message: "Invitación aceptada", progress: result});
+    } catch(error){
+        console.error("Error al aceptar la invitación:", error);
+        res.status(500).json({message: "Error al aceptar la invitación"});
+    }
+};
+
+// Rechazar una invitación
+export const declineInvitationController = async(req: Request, res: Response)=>{
+    try{
+        const result = await friendChallengeService.respondToInvitation(req.params.id, getAuthUserId(req)!, false);
+
+        if (typeof result === "string") {
+            res.status(friendChallengeErrors[result].status).json({message: friendChallengeErrors[result].message});
+            return;
+        }
+        res.status(200).json({message: "Invitación rechazada"});
+    } catch(error){
+        console.error("Error al rechazar la invitación:", error);
+        res.status(500).json({message: "Error al rechazar la invitación"});
+    }
+};
@@ -0,0 +1,78 @@
+import * as challengeTemplateService from "../services/challengeTemplateService";
+import { Request, Response } from "express";
+
+// Crear una plantilla de reto recurrente (genera el reto del periodo actual)
+export const createChallengeTemplateController = async(req: Request, res: Response)=>{
+    try{
+        const result = await challengeTemplateService.createChallengeTemplate(req.body);
+
+        if (result === "INVALID_DATE_RANGE") {
+            res.status(400).json({message: "La fecha de fin debe ser posterior a la de inicio"});
+            return;
+        }
+        res.status(201).json({message: "Plantilla creada exitosamente", template: result.template, challenge: result.challenge});
+    } catch(error){
+        console.error("Error al crear la plantilla de challenge:", error);
+        res.status(500).json({message: "Error al crear la plantilla"});
+    }
+};
+
+export const getChallengeTemplatesController = async(req: Request, res: Response)=>{
+    try{
+        const templates = await challengeTemplateService.getChallengeTemplates();
+        res.status(200).json({templates});
+    } catch(error){
+        console.error("Error al obtener las plantillas de challenge:", error);
+        res.status(500).json({message: "Error al obtener las plantillas"});
+    }
+};
+
+export const updateChallengeTemplateController = async(req: Request, res: Response)=>{
+    try{
+        const template = await challengeTemplateService.updateChallengeTemplate(req.params.id, req.body);
+
+        if (!template) {
+            res.status(404).json({message: "Plantilla no encontrada"});
+            return;
+        }
+        if (template === "INVALID_DATE_RANGE") {
+            res.status(400).json({message: "La fecha de fin debe ser posterior a la de inicio"});
+            return;
+        }
+        res.status(200).json(template);
+    } catch(error){
+        console.error("Error al actualizar la plantilla de challenge:", error);
+        res.status(500).json({message: "Error al actualizar la plantilla"});
+    }
+};
+
+export const deleteChallengeTemplateController = async(req: Request, res: Response)=>{
+    try{
+        const template = await challengeTemplateService.deleteChallengeTemplate(req.params.id);
+
+        if (!template) {
+            res.status(404).json({message: "Plantilla no encontrada"});
+            return;
+        }
+        res.status(200).json({message: "Plantilla eliminada exitosamente"});
+    } catch(error){
+        console.error("Error al eliminar la plantilla de challenge:", error);
+        res.status(500).json({message: "Error al eliminar la plantilla"});
+    }
+};
+
+// Historial de periodos de una plantilla con sus resultados archivados
+export const getTemplateInstancesController = async(req: Request, res: Response)=>{
+    try{
+        const result = await challengeTemplateService.getTemplateInstances(req.params.id);
+
+        if (!result) {
+            res.status(404).json({message: "Plantilla no encontrada"});
+            return;
+        }
+        res.status(200).json(result);
+    } catch(error){
+        console.error("Error al obtener los challenges de la plantilla:", error);
+        res.status(500).json({message: "Error al obtener los challenges de la plantilla"});
+    }
+};
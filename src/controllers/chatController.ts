@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import * as chatService from '../services/chatService';
 import { getIO } from '../config/socketConfig';
+import { getAuthUserId } from '../middleware/session';
 
 // Crear una sala de chat
 export const createChatRoomController = async (req: Request, res: Response) => {
@@ -11,6 +12,11 @@ export const createChatRoomController = async (req: Request, res: Response) => {
     if (!name || !participants || !Array.isArray(participants) || participants.length < 2) {
       return res.status(400).json({ message: 'Datos inválidos. Se requiere nombre y al menos 2 participantes' });
     }
+
+    // Solo se pueden crear salas en las que participa el propio usuario
+    if (!participants.map(String).includes(getAuthUserId(req) || '')) {
+      return res.status(403).json({ message: 'Debes ser participante de la sala de chat' });
+    }
     
     const chatRoom = await chatService.createChatRoom({
       name,
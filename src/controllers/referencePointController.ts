@@ -5,21 +5,15 @@ import {
     deleteReferencePoint 
 } from '../services/referencePointService';
 
+import { getAuthUserId } from '../middleware/session';
 import { Request, Response } from 'express';
 
 // Crear un nou punt de referència
 export const addReferencePointController = async (req: Request, res: Response) => {
     try {
-        if (!req.body){
-            res.status(400).json({message: "Content can not be empty!"});
-            return;
-        }
-        const { latitude, longitude, altitude } = req.body;
-        if (!latitude || !longitude || !altitude) {
-            res.status(400).json({message: "There are missing fields"});
-            return;
-        }
-        const newPoint = await addReferencePoint(req.body);
+        // El body ya llega validado (referencePointCreateBody): 0 es una coordenada válida
+        // El creador queda como propietario mientras ninguna actividad use el punto
+        const newPoint = await addReferencePoint({ ...req.body, createdBy: getAuthUserId(req) });
         console.log("New reference point created:", newPoint);
         res.status(201).json({message: "New reference point created"});
     } catch (error: any) {
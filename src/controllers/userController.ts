@@ -12,6 +12,8 @@ import {
 } from '../services/userService';
 import admin from '../config/firebaseAdmin';
 import { createFollowerNotificationWithFCM } from '../services/notificationService';
+import { isAdmin } from '../middleware/session';
+import { sendEmailVerification } from '../services/accountTokenService';
 
 // Crear un nou usuari
 export const createUser = async (req: Request, res: Response): Promise<void> => {
@@ -187,6 +189,15 @@ export const updateUser = async (req: Request, res: Response): Promise<void> =>
       res.status(400).json({ message: 'Invalid role. Allowed values are "user" or "admin"' });
       return;
     }
+
+    // Solo un administrador puede cambiar roles
+    if (updates.role !== undefined && !isAdmin(req)) {
+      res.status(403).json({ message: 'No tienes permiso para cambiar el rol' });
+      return;
+    }
+
+    // La verificación en dos pasos solo se gestiona desde /api/auth/2fa
+    delete updates.twoFactor;
     
     // VALIDACIÓN ESPECIAL PARA CAMBIO DE CONTRASEÑA
     if (updates.password && updates.currentPassword) {
@@ -231,6 +242,17 @@ export const updateUser = async (req: Request, res: Response): Promise<void> =>
       return;
     }
     
+    // Un correo nuevo queda sin verificar hasta que se confirme con el enlace que se le envía
+    let emailChanged = false;
+    if (updates.email !== undefined) {
+      const currentUser = await User.findById(userId).select('email');
+      emailChanged = !!currentUser && currentUser.email !== updates.email;
+      if (emailChanged) {
+        updates.emailVerified = false;
+        updates.emailVerifiedAt = null;
+      }
+    }
+    
     console.log("Actualizando usuario en la base de datos...");
     
     // Añadir fecha de actualización
@@ -248,6 +270,15 @@ export const updateUser = async (req: Request, res: Response): Promise<void> =>
       return;
     }
     
+    // Igual que en el registro, la actualización no falla si no se puede enviar el correo
+    if (emailChanged) {
+      try {
+        await sendEmailVerification(updatedUser);
+      } catch (error) {
+        console.error("Error enviando el correo de verificación:", error);
+      }
+    }
+    
     console.log("Usuario actualizado exitosamente");
     console.log("=== END UPDATE DEBUG ===");
     
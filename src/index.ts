@@ -19,12 +19,21 @@ import { initializeSocket } from './config/socketConfig';
 import activityTrackingRoutes from './routes/activityTrackingRoutes';
 import { verifyCloudinaryConfig } from './config/cloudinary'; 
 import notificationRoutes from './routes/notificationRoutes';
+import { startSafetyBeaconScheduler } from './services/safetyBeaconService';
+import { startChallengeScheduler } from './services/challengeSchedulerService';
+import { requireAuth } from './middleware/session';
+import { rateLimitByRoute } from './middleware/rateLimit';
 
 
 // Initialize Express
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+// Detrás de un proxy inverso, TRUST_PROXY indica cuántos saltos hay para obtener la IP real del cliente
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', Number(process.env.TRUST_PROXY) || 1);
+}
+
 // Create HTTP server
 const server = http.createServer(app);
 
@@ -36,7 +45,7 @@ const io = initializeSocket(server);
 setupSwagger(app);
 
 // Middleware
-app.use(express.json());
+app.use(express.json({ limit: '2mb' })); // Los lotes de ubicaciones sin conexión superan el límite por defecto (100kb)
 
 const corsOptions = {
   origin: '*' ,
@@ -52,6 +61,12 @@ app.use((req, res, next) => {
   next();
 });
 
+// Autenticación: todas las rutas de la API requieren token salvo las públicas (config/publicRoutes)
+app.use('/api', requireAuth);
+
+// Límite de peticiones por tipo de ruta (config/rateLimits)
+app.use('/api', rateLimitByRoute);
+
 // Routes
 app.use('/api/users', userRoutes);
 app.use('/api/referencePoints', referencePointRoutes);
@@ -99,6 +114,11 @@ async function startServer() {
     
     await connectDatabase();
 
+    // Las balizas de seguridad se guardan en la BD: al arrancar se retoman las revisiones pendientes
+    startSafetyBeaconScheduler();
+    // Retos recurrentes: genera el periodo actual de cada plantilla y cierra los retos terminados
+    startChallengeScheduler();
+
     server.listen(PORT, () => {
       console.log(` Servidor ejecutándose en http://localhost:${PORT}`);
       console.log(` Documentación disponible en http://localhost:${PORT}/api-docs`);
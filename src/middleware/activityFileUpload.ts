@@ -0,0 +1,28 @@
+import multer from 'multer';
+import path from 'path';
+
+// Extensions de fitxers de dispositius GPS acceptades
+export const validActivityFileExtensions = ['.gpx', '.tcx', '.fit'];
+
+// Els fitxers es guarden en memòria: es processen i es descarten, no cal Cloudinary
+const storage = multer.memoryStorage();
+
+const activityFileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  const extension = path.extname(file.originalname || '').toLowerCase();
+
+  if (validActivityFileExtensions.includes(extension)) {
+    cb(null, true);
+  } else {
+    cb(new Error('Solo se permiten archivos de actividad (GPX, TCX, FIT)'));
+  }
+};
+
+export const uploadActivityFile = multer({
+  storage: storage,
+  limits: {
+    fileSize: 25 * 1024 * 1024, // 25MB, suficient per rutes llargues amb molts punts
+    files: 1,
+    fields: 5
+  },
+  fileFilter: activityFileFilter
+});
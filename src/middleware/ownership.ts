@@ -0,0 +1,166 @@
+import { Request, Response, NextFunction } from "express";
+import mongoose from "mongoose";
+import ActivityModel from "../models/activity";
+import ActivityTrackingModel from "../models/activityTracking";
+import NotificationModel from "../models/notification";
+import ChatRoomModel from "../models/chatRoom";
+import ChallengeModel from "../models/challenge";
+import ReferencePointModel from "../models/referencePoint";
+import { getAuthUserId, isAdmin } from "./session";
+
+// Devuelve el ID del propietario del recurso, null si no existe o
+// undefined si el recurso no tiene propietario (cualquier usuario autenticado puede usarlo)
+type OwnerResolver = (id: string) => Promise<mongoose.Types.ObjectId | string | null | undefined>;
+
+interface OwnershipOptions {
+    allowAdmin?: boolean; // los administradores pueden acceder aunque no sean propietarios
+}
+
+const forbidden = (res: Response): void => {
+    res.status(403).json({
+        message: 'No tienes permiso para acceder a este recurso'
+    });
+};
+
+// Comprobar que el usuario autenticado es el propietario del recurso indicado en req.params[param]
+export const checkOwner = (
+    param: string,
+    resolveOwner: OwnerResolver,
+    notFoundMessage: string,
+    options: OwnershipOptions = { allowAdmin: true }
+) => {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const resourceId = req.params[param];
+
+            if (!mongoose.Types.ObjectId.isValid(resourceId)) {
+                res.status(404).json({ message: notFoundMessage });
+                return;
+            }
+
+            const ownerId = await resolveOwner(resourceId);
+
+            if (ownerId === null) {
+                res.status(404).json({ message: notFoundMessage });
+                return;
+            }
+
+            if (ownerId !== undefined && ownerId.toString() !== getAuthUserId(req)
+                && !(options.allowAdmin && isAdmin(req))) {
+                forbidden(res);
+                return;
+            }
+
+            next();
+        } catch (error) {
+            res.status(500).json({
+                message: 'Error al verificar permisos'
+            });
+        }
+    };
+};
+
+// Rutas de un usuario concreto: solo el propio usuario (o un administrador)
+export const checkSelf = (param: string = 'userId') => {
+    return (req: Request, res: Response, next: NextFunction): void => {
+        if (req.params[param] !== getAuthUserId(req) && !isAdmin(req)) {
+            forbidden(res);
+            return;
+        }
+
+        next();
+    };
+};
+
+// Campo del body que indica el usuario que actúa: si no se envía se usa el autenticado
+export const checkBodyOwner = (field: string) => {
+    return (req: Request, res: Response, next: NextFunction): void => {
+        const authUserId = getAuthUserId(req);
+        req.body = req.body || {};
+
+        if (!req.body[field]) {
+            req.body[field] = authUserId;
+        } else if (String(req.body[field]) !== authUserId && !isAdmin(req)) {
+            forbidden(res);
+            return;
+        }
+
+        next();
+    };
+};
+
+export const checkActivityOwner = (param: string = 'id') => checkOwner(
+    param,
+    async (id) => (await ActivityModel.findById(id).select('author'))?.author ?? null,
+    'Actividad no encontrada'
+);
+
+export const checkTrackingOwner = (param: string = 'trackingId') => checkOwner(
+    param,
+    async (id) => (await ActivityTrackingModel.findById(id).select('userId'))?.userId ?? null,
+    'Tracking no encontrado'
+);
+
+export const checkNotificationOwner = (param: string = 'notificationId') => checkOwner(
+    param,
+    async (id) => (await NotificationModel.findById(id).select('userId'))?.userId ?? null,
+    'Notificación no encontrada'
+);
+
+// Retos entre amigos: solo su creador. Los retos globales (sin creador) solo los gestiona un administrador
+export const checkChallengeOwner = (param: string = 'id') => checkOwner(
+    param,
+    async (id) => {
+        const challenge = await ChallengeModel.findById(id).select('createdBy');
+        if (!challenge) return null;
+        return challenge.createdBy ?? '';
+    },
+    'Challenge no encontrado'
+);
+
+// Las salas de chat son privadas: solo sus participantes, sin excepción para administradores
+export const checkChatParticipant = (param: string = 'id') => {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const roomId = req.params[param] || req.body?.roomId;
+
+            if (!roomId || !mongoose.Types.ObjectId.isValid(roomId)) {
+                res.status(404).json({ message: 'Sala de chat no encontrada' });
+                return;
+            }
+
+            const room = await ChatRoomModel.findById(roomId).select('participants');
+
+            if (!room) {
+                res.status(404).json({ message: 'Sala de chat no encontrada' });
+                return;
+            }
+
+            const authUserId = getAuthUserId(req);
+            if (!room.participants.some(participant => participant.toString() === authUserId)) {
+                forbidden(res);
+                return;
+            }
+
+            next();
+        } catch (error) {
+            res.status(500).json({
+                message: 'Error al verificar permisos'
+            });
+        }
+    };
+};
+
+// Un punto de referencia pertenece al autor de la actividad que lo usa en su ruta o, si aún no
+// está en ninguna, a quien lo creó. Sin propietario conocido solo lo gestiona un administrador
+export const checkReferencePointOwner = (param: string = 'id') => checkOwner(
+    param,
+    async (id) => {
+        const point = await ReferencePointModel.findById(id).select('createdBy');
+        if (!point) return null;
+
+        const activity = await ActivityModel.findOne({ route: id }).select('author');
+        return activity?.author ?? point.createdBy ?? '';
+    },
+    'Punto de referencia no encontrado'
+);
@@ -0,0 +1,180 @@
+import { Request, Response, NextFunction } from "express";
+import { LOGIN_LOCKOUT, RATE_LIMIT_BUDGETS, RateLimitBudgetName, getRateLimitBudget } from "../config/rateLimits";
+import { RateLimitEntry, getRateLimitStore } from "../services/rateLimitStore";
+import { getAuthUserId } from "./session";
+
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    resetAt: number;            // ms
+    retryAfterSeconds: number;  // 0 si se permite la petición
+}
+
+// Consumir una petición del presupuesto indicado para la IP y, si se conoce, la cuenta.
+// Se devuelve el contador más restrictivo de los dos. También se usa desde los eventos de socket
+export const consumeRateLimit = async (
+    budgetName: RateLimitBudgetName,
+    identity: { ip?: string; accountId?: string }
+): Promise<RateLimitResult> => {
+    const budget = RATE_LIMIT_BUDGETS[budgetName];
+    const store = getRateLimitStore();
+    const counters: { entry: RateLimitEntry; max: number }[] = [];
+
+    if (identity.ip) {
+        counters.push({ entry: await store.increment(`rl:${budgetName}:ip:${identity.ip}`, budget.windowMs), max: budget.maxPerIp });
+    }
+    if (identity.accountId) {
+        counters.push({ entry: await store.increment(`rl:${budgetName}:user:${identity.accountId}`, budget.windowMs), max: budget.maxPerAccount });
+    }
+
+    const now = Date.now();
+    let result: RateLimitResult = { allowed: true, limit: budget.maxPerIp, remaining: budget.maxPerIp, resetAt: now + budget.windowMs, retryAfterSeconds: 0 };
+
+    for (const { entry, max } of counters) {
+        const remaining = Math.max(0, max - entry.count);
+        const allowed = entry.count <= max;
+
+        if ((!allowed && result.allowed) || (allowed === result.allowed && remaining < result.remaining)) {
+            result = {
+                allowed,
+                limit: max,
+                remaining,
+                resetAt: entry.resetAt,
+                retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil((entry.resetAt - now) / 1000))
+            };
+        }
+    }
+
+    return result;
+};
+
+const sendTooManyRequests = (res: Response, retryAfterSeconds: number, message: string): void => {
+    res.setHeader('Retry-After', retryAfterSeconds.toString());
+    res.status(429).json({ message, retryAfter: retryAfterSeconds });
+};
+
+// Limitación global por tipo de ruta (config/rateLimits). Se monta después de requireAuth
+// para poder contar también por cuenta en las rutas autenticadas
+export const rateLimitByRoute = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const budgetName = getRateLimitBudget(req.method, req.originalUrl.split('?')[0]);
+    if (!budgetName) {
+        next();
+        return;
+    }
+
+    try {
+        const result = await consumeRateLimit(budgetName, { ip: req.ip, accountId: getAuthUserId(req) });
+
+        // Cabeceras estándar de límite de peticiones (borrador IETF RateLimit)
+        res.setHeader('RateLimit-Limit', result.limit.toString());
+        res.setHeader('RateLimit-Remaining', result.remaining.toString());
+        res.setHeader('RateLimit-Reset', Math.max(0, Math.ceil((result.resetAt - Date.now()) / 1000)).toString());
+
+        if (!result.allowed) {
+            sendTooManyRequests(res, result.retryAfterSeconds, 'Demasiadas peticiones, inténtalo de nuevo más tarde');
+            return;
+        }
+    } catch (error) {
+        // Si el almacén de contadores falla no se bloquea la API
+        console.error('Error en la limitación de peticiones:', error);
+    }
+
+    next();
+};
+
+// Momento hasta el que la cuenta está bloqueada según sus fallos seguidos (0 si no lo está)
+const getAccountLockedUntil = (failures: RateLimitEntry | null): number => {
+    if (!failures || failures.count < LOGIN_LOCKOUT.FREE_ATTEMPTS) {
+        return 0;
+    }
+
+    const lockMs = Math.min(
+        LOGIN_LOCKOUT.BASE_LOCK_MS * Math.pow(2, failures.count - LOGIN_LOCKOUT.FREE_ATTEMPTS),
+        LOGIN_LOCKOUT.MAX_LOCK_MS
+    );
+    return failures.lastHitAt + lockMs;
+};
+
+// Protección contra fuerza bruta en los inicios de sesión: bloqueo progresivo por cuenta
+// (identificada por el campo del body indicado, o por la función que la resuelve) y bloqueo por IP.
+// Cada intento reserva un fallo en los contadores antes de llegar al controlador, así los intentos
+// simultáneos no pueden pasar todos la comprobación antes de que se registre ninguno.
+// Las respuestas 401/403/404 del login confirman el fallo; una respuesta correcta reinicia los fallos
+// de la cuenta y cualquier otra respuesta devuelve la reserva
+export const loginProtection = (identifierField: string | ((req: Request) => string | undefined)) => {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        const rawIdentifier = typeof identifierField === 'function' ? identifierField(req) : req.body?.[identifierField];
+        const identifier = String(rawIdentifier || '').trim().toLowerCase();
+        const accountKey = `login:account:${identifier}`;
+        const ipKey = `login:ip:${req.ip}`;
+        const store = getRateLimitStore();
+
+        let reserved = false;
+        const releaseReservation = () => Promise.all([
+            identifier ? store.decrement(accountKey) : Promise.resolve(),
+            store.decrement(ipKey)
+        ]);
+
+        try {
+            const now = Date.now();
+            const [accountFailures, ipFailures] = await Promise.all([
+                identifier ? store.get(accountKey) : Promise.resolve(null),
+                store.get(ipKey)
+            ]);
+
+            let lockedUntil = getAccountLockedUntil(accountFailures);
+            if (ipFailures && ipFailures.count >= LOGIN_LOCKOUT.MAX_FAILURES_PER_IP) {
+                lockedUntil = Math.max(lockedUntil, ipFailures.resetAt);
+            }
+
+            if (lockedUntil <= now) {
+                // Reserva atómica: el contador devuelto incluye los intentos que están en curso a la vez
+                const [accountReserved, ipReserved] = await Promise.all([
+                    identifier ? store.increment(accountKey, LOGIN_LOCKOUT.FAILURE_WINDOW_MS) : Promise.resolve(null),
+                    store.increment(ipKey, LOGIN_LOCKOUT.IP_WINDOW_MS)
+                ]);
+                reserved = true;
+
+                // Fallos anteriores a este intento que no se habían visto en la comprobación: intentos simultáneos
+                const accountPrevious = accountReserved ? accountReserved.count - 1 : 0;
+                if (accountPrevious > (accountFailures?.count ?? 0)) {
+                    lockedUntil = getAccountLockedUntil({ ...accountReserved!, count: accountPrevious });
+                }
+                if (ipReserved.count > LOGIN_LOCKOUT.MAX_FAILURES_PER_IP) {
+                    lockedUntil = Math.max(lockedUntil, ipReserved.resetAt);
+                }
+
+                if (lockedUntil > now) {
+                    reserved = false;
+                    await releaseReservation();
+                }
+            }
+
+            if (lockedUntil > now) {
+                const retryAfterSeconds = Math.ceil((lockedUntil - now) / 1000);
+                sendTooManyRequests(res, retryAfterSeconds, `Demasiados intentos fallidos. Inténtalo de nuevo en ${retryAfterSeconds} segundos`);
+                return;
+            }
+        } catch (error) {
+            console.error('Error comprobando el bloqueo de inicio de sesión:', error);
+        }
+
+        res.on('finish', () => {
+            const recordResult = async () => {
+                if (!reserved || [401, 403, 404].includes(res.statusCode)) {
+                    return;
+                }
+                if (res.statusCode < 300 && identifier) {
+                    await Promise.all([store.reset(accountKey), store.decrement(ipKey)]);
+                } else {
+                    await releaseReservation();
+                }
+            };
+
+            recordResult().catch(error => console.error('Error registrando el intento de inicio de sesión:', error));
+        });
+
+        next();
+    };
+};
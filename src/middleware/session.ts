@@ -1,12 +1,25 @@
 import { Request, Response, NextFunction } from "express";
-import { verifyToken, verifyRefreshToken, generateToken } from "../utils/jwt.handle";
+import { verifyToken } from "../utils/jwt.handle";
 import { JwtPayload } from "jsonwebtoken";
-import User from "../models/user";
+import { isPublicRoute } from "../config/publicRoutes";
+import { UNVERIFIED_RESTRICTIONS } from "../config/config";
+import { isSessionRevoked } from "../services/sessionService";
 
-interface RequestExt extends Request {
+export interface RequestExt extends Request {
     user?: string | JwtPayload;
 }
 
+// Payload de un token de acceso válido. Los de desafío del segundo factor no sirven para la API
+const decodeAccessToken = (req: Request): JwtPayload | null => {
+    const jwt = req.headers.authorization?.split(' ').pop();
+    if (!jwt) {
+        return null;
+    }
+
+    const isUser = verifyToken(`${jwt}`);
+    return isUser && typeof isUser !== 'string' && isUser.type === 'access' ? isUser : null;
+};
+
 export const checkJwt = async (
     req: RequestExt,
     res: Response,
@@ -21,34 +34,18 @@ export const checkJwt = async (
             return;
         }
         
-        const isUser = verifyToken(`${jwt}`);
+        const isUser = decodeAccessToken(req);
         
+        // El token de acceso caducado se renueva con POST /api/auth/refresh (rotación por sesión)
         if (!isUser) {
-            const refreshToken = req.cookies?.refreshToken || req.body.refreshToken;
-            
-            if (!refreshToken) {
-                res.status(401).send("TOKEN_EXPIRED_NO_REFRESH");
-                return;
-            }
-            
-            const refreshPayload = verifyRefreshToken(refreshToken);
-            if (!refreshPayload) {
-                res.status(401).send("INVALID_REFRESH_TOKEN");
-                return;
-            }
-            
-            const email = (refreshPayload as any).id;
-            const user = await User.findOne({ email });
-            
-            if (!user || user.refreshToken !== refreshToken) {
-                res.status(401).send("INVALID_REFRESH_TOKEN");
-                return;
-            }
-            
-            const newToken = generateToken(user);
-            req.user = { id: user.email, role: user.role, name: user.username };
-            res.setHeader('Authorization', `Bearer ${newToken}`);
-            next();
+            res.status(401).send("TOKEN_EXPIRED_OR_INVALID");
+            return;
+        }
+
+        // Tras cerrar la sesión (logout, revocación, reutilización o cambio de contraseña)
+        // sus tokens de acceso dejan de valer aunque no hayan caducado
+        if (await isSessionRevoked(isUser.sid)) {
+            res.status(401).send("SESSION_REVOKED");
             return;
         }
         
@@ -60,6 +57,40 @@ export const checkJwt = async (
     }
 };
 
+// Autenticación para toda la API: solo las rutas de la lista pública pueden usarse sin token.
+// En las públicas la autenticación es opcional: si llega un token válido se identifica al usuario
+// (por ejemplo, para mostrarle sus retos privados junto al catálogo)
+export const requireAuth = async (
+    req: RequestExt,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    if (isPublicRoute(req.method, req.originalUrl.split('?')[0])) {
+        try {
+            const isUser = decodeAccessToken(req);
+            req.user = isUser && !(await isSessionRevoked(isUser.sid)) ? isUser : undefined;
+        } catch (e) {
+            console.error("Error comprobando la sesión:", e);
+            req.user = undefined;
+        }
+        next();
+        return;
+    }
+
+    await checkJwt(req, res, next);
+};
+
+// ID del usuario autenticado (payload del token de acceso)
+export const getAuthUserId = (req: Request): string | undefined => {
+    const user = (req as RequestExt).user;
+    return typeof user === 'object' && user?.id ? String(user.id) : undefined;
+};
+
+export const isAdmin = (req: Request): boolean => {
+    const user = (req as RequestExt).user;
+    return typeof user === 'object' && user?.role === 'admin';
+};
+
 export const checkRole = (roles: string[]) => {
     return async (
         req: RequestExt,
@@ -67,6 +98,13 @@ export const checkRole = (roles: string[]) => {
         next: NextFunction
     ): Promise<void> => {
         try {
+            // Sin token decodificado (p. ej. una ruta de la lista pública) no se puede saber el rol:
+            // se pide autenticación en lugar de tratarlo como un usuario normal
+            if (!req.user) {
+                res.status(401).send("NO_TOKEN_PROVIDED");
+                return;
+            }
+
             const userRole = (req.user as any)?.role || 'user';
             
             if (!roles.includes(userRole)) {
@@ -83,4 +121,21 @@ export const checkRole = (roles: string[]) => {
             });
         }
     };
-};
\ No newline at end of file
+};
+
+// Restricciones configurables para las cuentas con el correo sin verificar (ver UNVERIFIED_RESTRICTIONS)
+export const checkVerifiedEmail = (restriction: string) => {
+    return (req: RequestExt, res: Response, next: NextFunction): void => {
+        const emailVerified = (req.user as any)?.emailVerified;
+
+        if (emailVerified === false && UNVERIFIED_RESTRICTIONS.includes(restriction)) {
+            res.status(403).json({
+                message: 'Debes verificar tu correo electrónico para realizar esta acción',
+                code: 'EMAIL_NOT_VERIFIED'
+            });
+            return;
+        }
+
+        next();
+    };
+};
@@ -0,0 +1,42 @@
+import { Request, Response, NextFunction } from "express";
+import { ObjectSchema, ValidationIssue, validateValue } from "../utils/schema.handle";
+import { isAdmin } from "./session";
+
+export interface RequestSchemas {
+    params?: ObjectSchema;
+    query?: ObjectSchema;
+    body?: ObjectSchema;
+}
+
+const SOURCES = ['params', 'query', 'body'] as const;
+
+// Validar y sanear la petición con los esquemas indicados. Los campos no declarados (y los
+// privilegiados si no es un administrador) se eliminan; si algún campo no es válido se responde
+// 400 con la lista de errores por campo
+export const validate = (schemas: RequestSchemas) => {
+    return (req: Request, res: Response, next: NextFunction): void => {
+        const issues: ValidationIssue[] = [];
+        const sanitized: { [source in typeof SOURCES[number]]?: any } = {};
+
+        for (const source of SOURCES) {
+            const schema = schemas[source];
+            if (!schema) continue;
+
+            sanitized[source] = validateValue(schema, req[source] ?? {}, '', issues, { isAdmin: isAdmin(req), source });
+        }
+
+        if (issues.length > 0) {
+            res.status(400).json({
+                message: 'Datos de entrada no válidos',
+                errors: issues
+            });
+            return;
+        }
+
+        if (sanitized.params) req.params = sanitized.params;
+        if (sanitized.query) req.query = sanitized.query;
+        if (sanitized.body) req.body = sanitized.body;
+
+        next();
+    };
+};
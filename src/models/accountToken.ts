@@ -0,0 +1,52 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type AccountTokenPurpose = 'email_verification' | 'password_reset';
+
+// Token de un solo uso enviado por correo. Solo se guarda su firma HMAC, nunca el token en claro
+export const accountTokenSchema = new Schema({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  purpose: {
+    type: String,
+    enum: ['email_verification', 'password_reset'],
+    required: true
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  usedAt: {
+    type: Date,
+    default: null
+  }
+});
+
+accountTokenSchema.index({ userId: 1, purpose: 1, usedAt: 1 });
+// Los tokens caducados se eliminan solos
+accountTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Interfaz para un token de cuenta
+export interface IAccountToken extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  purpose: AccountTokenPurpose;
+  tokenHash: string;
+  createdAt: Date;
+  expiresAt: Date;
+  usedAt: Date | null;
+}
+
+const AccountTokenModel = mongoose.model<IAccountToken>('AccountToken', accountTokenSchema);
+export default AccountTokenModel;
@@ -1,5 +1,37 @@
 import mongoose, {Schema, model, Types} from "mongoose"
 
+// Parcial d'una activitat (per quilòmetre, per milla o per volta)
+const splitSchema = new Schema({
+    index: { type: Number, required: true },
+    startDistance: { type: Number, required: true }, // metres des de l'inici
+    distance: { type: Number, required: true },      // metres
+    duration: { type: Number, required: true },      // segons en moviment (sense pauses)
+    pace: { type: Number, required: true },          // segons per km (o per milla en els parcials per milla)
+    averageSpeed: { type: Number, required: true },  // metres per segon
+    elevationGain: { type: Number, default: 0 },     // metres
+    startTime: { type: Date },
+    endTime: { type: Date },
+    partial: { type: Boolean, default: false }       // últim parcial, més curt que la unitat
+}, { _id: false });
+
+// Millor temps sobre una distància estàndard dins de l'activitat
+const fastestSegmentSchema = new Schema({
+    label: { type: String, required: true },
+    distance: { type: Number, required: true },      // metres
+    duration: { type: Number, required: true },      // segons en moviment
+    pace: { type: Number, required: true },          // segons per km
+    startDistance: { type: Number, required: true }, // metres des de l'inici
+    startTime: { type: Date }
+}, { _id: false });
+
+const activitySplitsSchema = new Schema({
+    kilometers: { type: [splitSchema], default: [] },
+    miles: { type: [splitSchema], default: [] },
+    laps: { type: [splitSchema], default: [] },
+    fastestSegments: { type: [fastestSegmentSchema], default: [] },
+    computedAt: { type: Date, default: Date.now }
+}, { _id: false });
+
 export const activitySchema = new Schema<IActivity>({
     author: { 
         type: Schema.Types.ObjectId, 
@@ -54,8 +86,47 @@ export const activitySchema = new Schema<IActivity>({
         enum: ["running","cycling","hiking", "walking"],
         required: true
     },
+    trackingId: { // Sessió de tracking d'origen, si l'activitat s'ha enregistrat en temps real
+        type: Schema.Types.ObjectId,
+        ref: 'ActivityTracking',
+        required: false
+    },
+    splits: { // Parcials calculats a partir dels punts amb marca de temps
+        type: activitySplitsSchema,
+        required: false
+    },
 });
 
+export interface IActivitySplit {
+    index: number;
+    startDistance: number;
+    distance: number;
+    duration: number;
+    pace: number;
+    averageSpeed: number;
+    elevationGain: number;
+    startTime?: Date;
+    endTime?: Date;
+    partial: boolean;
+}
+
+export interface IFastestSegment {
+    label: string;
+    distance: number;
+    duration: number;
+    pace: number;
+    startDistance: number;
+    startTime?: Date;
+}
+
+export interface IActivitySplits {
+    kilometers: IActivitySplit[];
+    miles: IActivitySplit[];
+    laps: IActivitySplit[];
+    fastestSegments: IFastestSegment[];
+    computedAt: Date;
+}
+
 export interface IActivity {
     author: mongoose.Types.ObjectId;
     name: string;
@@ -69,6 +140,8 @@ export interface IActivity {
     route: mongoose.Types.ObjectId[]; // ruta enregistrada (llista de punts gps)
     musicPlaylist: mongoose.Types.ObjectId[];
     type:"running"|"cycling"|"hiking"|"walking";
+    trackingId?: mongoose.Types.ObjectId; // tracking d'origen (conserva temps i velocitat de cada punt)
+    splits?: IActivitySplits; // parcials per km, per milla, voltes i millors segments
 }
 
 const ActivityModel = mongoose.model('Activity',activitySchema);
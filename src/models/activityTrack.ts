@@ -0,0 +1,67 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Número máximo de puntos por bucket: mantiene cada documento muy por debajo del límite de 16MB
+export const TRACK_BUCKET_SIZE = 1000;
+
+// Ruta completa de una actividad guardada por tramos (buckets) en formato columnar:
+// el punto i del bucket es (latitudes[i], longitudes[i], altitudes[i], timestamps[i], speeds[i])
+export const activityTrackBucketSchema = new Schema({
+  activityId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Activity',
+    required: true
+  },
+  bucketIndex: {
+    type: Number,
+    required: true
+  },
+  startTime: {
+    type: Date
+  },
+  endTime: {
+    type: Date
+  },
+  pointCount: {
+    type: Number,
+    required: true
+  },
+  latitudes: {
+    type: [Number],
+    default: []
+  },
+  longitudes: {
+    type: [Number],
+    default: []
+  },
+  altitudes: {
+    type: [Number],
+    default: []  // null si el punto no tiene altitud
+  },
+  timestamps: {
+    type: [Date],
+    default: []  // null si el punto no tiene marca de tiempo (p. ej. rutas planificadas)
+  },
+  speeds: {
+    type: [Number],
+    default: []  // metros por segundo, null si se desconoce
+  }
+});
+
+activityTrackBucketSchema.index({ activityId: 1, bucketIndex: 1 }, { unique: true });
+
+// Interfaz para un bucket de la ruta
+export interface IActivityTrackBucket extends Document {
+  activityId: mongoose.Types.ObjectId;
+  bucketIndex: number;
+  startTime?: Date;
+  endTime?: Date;
+  pointCount: number;
+  latitudes: number[];
+  longitudes: number[];
+  altitudes: (number | null)[];
+  timestamps: (Date | null)[];
+  speeds: (number | null)[];
+}
+
+const ActivityTrackBucketModel = mongoose.model<IActivityTrackBucket>('ActivityTrackBucket', activityTrackBucketSchema);
+export default ActivityTrackBucketModel;
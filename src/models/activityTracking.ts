@@ -11,8 +11,7 @@ const locationPointSchema = new Schema({
     required: true
   },
   altitude: {
-    type: Number,
-    default: 0
+    type: Number  // sin valor si el dispositivo no la ha enviado (un 0 falsearía el desnivel)
   },
   timestamp: {
     type: Date,
@@ -21,9 +20,140 @@ const locationPointSchema = new Schema({
   speed: {
     type: Number,
     default: 0  // metros por segundo
+  },
+  accuracy: {
+    type: Number  // precisión horizontal reportada por el dispositivo, en metros
   }
 });
 
+// Estado del filtro de señal GPS (contadores y suavizado de altitud)
+const gpsFilterSchema = new Schema({
+  rawPointCount: {
+    type: Number,
+    default: 0  // puntos recibidos del cliente
+  },
+  cleanedPointCount: {
+    type: Number,
+    default: 0  // puntos aceptados y guardados en locationPoints
+  },
+  rejectedBySpeed: {
+    type: Number,
+    default: 0  // saltos con velocidad implícita imposible para el tipo de actividad
+  },
+  rejectedByAccuracy: {
+    type: Number,
+    default: 0  // puntos con precisión demasiado baja
+  },
+  ignoredStationary: {
+    type: Number,
+    default: 0  // movimientos por debajo de la precisión (ruido estando parado)
+  },
+  smoothedAltitude: {
+    type: Number  // altitud suavizada del último punto aceptado
+  },
+  altitudeReference: {
+    type: Number  // altitud desde la que se mide la próxima subida
+  }
+}, { _id: false });
+
+// Estado de la pausa automática (detección de paradas a partir de los puntos recibidos)
+const autoPauseSchema = new Schema({
+  enabled: {
+    type: Boolean,
+    default: false
+  },
+  isAutoPaused: {
+    type: Boolean,
+    default: false  // true si la pausa actual la ha activado el servidor
+  },
+  lastResumedAt: {
+    type: Date  // última reanudación, para no solapar pausas
+  }
+}, { _id: false });
+
+// Intervalo en pausa (manual o automática), para descontarlo de los parciales
+const pauseIntervalSchema = new Schema({
+  start: {
+    type: Date,
+    required: true
+  },
+  end: {
+    type: Date,
+    required: true
+  }
+}, { _id: false });
+
+// Vuelta marcada manualmente por el usuario
+const lapMarkSchema = new Schema({
+  timestamp: {
+    type: Date,
+    default: Date.now
+  },
+  distance: {
+    type: Number,
+    default: 0  // distancia acumulada al marcar la vuelta, en metros
+  },
+  duration: {
+    type: Number,
+    default: 0  // duración acumulada al marcar la vuelta, en segundos
+  }
+}, { _id: false });
+
+// Enlace para que otras personas sigan el tracking en directo
+const liveShareSchema = new Schema({
+  token: {
+    type: String,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: {
+    type: Date  // si existe, el enlace ya no da acceso
+  }
+}, { _id: false });
+
+// Baliza de seguridad: avisa a contactos de confianza si el usuario no da señales
+const safetyBeaconSchema = new Schema({
+  enabled: {
+    type: Boolean,
+    default: false
+  },
+  contacts: [{
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }],
+  expectedFinishTime: {
+    type: Date  // pasada esta hora con el tracking activo se considera un retraso
+  },
+  noSignalMinutes: {
+    type: Number,
+    default: 30  // minutos sin ubicaciones antes de alertar
+  },
+  lastSignalAt: {
+    type: Date  // última ubicación o check-in recibido
+  },
+  alertReason: {
+    type: String,
+    enum: ['overdue', 'no_signal']
+  },
+  alertLevel: {
+    type: Number,
+    default: 0  // 0 = sin alerta, 1 = aviso al usuario, 2+ = avisos a los contactos
+  },
+  lastAlertAt: {
+    type: Date
+  },
+  nextCheckAt: {
+    type: Date  // próxima revisión del planificador; sin valor, no hay nada pendiente
+  }
+}, { _id: false });
+
 // Esquema para el tracking en tiempo real
 export const activityTrackingSchema = new Schema({
   userId: {
@@ -82,9 +212,40 @@ export const activityTrackingSchema = new Schema({
     type: Number,
     default: 0  // en metros
   },
-  locationPoints: [locationPointSchema]
+  locationPoints: [locationPointSchema],
+  gpsFilter: {
+    type: gpsFilterSchema,
+    default: () => ({})
+  },
+  autoPause: {
+    type: autoPauseSchema,
+    default: () => ({})
+  },
+  processedBatchIds: {
+    type: [String],
+    default: []  // lotes ya procesados, para que los reintentos sean idempotentes
+  },
+  pauseIntervals: {
+    type: [pauseIntervalSchema],
+    default: []
+  },
+  laps: {
+    type: [lapMarkSchema],
+    default: []
+  },
+  liveShares: {
+    type: [liveShareSchema],
+    default: []
+  },
+  safetyBeacon: {
+    type: safetyBeaconSchema,
+    default: () => ({})
+  }
 });
 
+activityTrackingSchema.index({ 'liveShares.token': 1 });
+activityTrackingSchema.index({ 'safetyBeacon.enabled': 1, 'safetyBeacon.nextCheckAt': 1 });
+
 // Interfaz para un punto de ubicación
 export interface ILocationPoint {
   latitude: number;
@@ -92,6 +253,59 @@ export interface ILocationPoint {
   altitude?: number;
   timestamp?: Date;
   speed?: number;
+  accuracy?: number;
+}
+
+// Interfaz para el estado del filtro GPS
+export interface IGpsFilterState {
+  rawPointCount: number;
+  cleanedPointCount: number;
+  rejectedBySpeed: number;
+  rejectedByAccuracy: number;
+  ignoredStationary: number;
+  smoothedAltitude?: number;
+  altitudeReference?: number;
+}
+
+// Interfaz para el estado de la pausa automática
+export interface IAutoPauseState {
+  enabled: boolean;
+  isAutoPaused: boolean;
+  lastResumedAt?: Date;
+}
+
+// Interfaz para un intervalo en pausa
+export interface IPauseInterval {
+  start: Date;
+  end: Date;
+}
+
+// Interfaz para una vuelta marcada
+export interface ILapMark {
+  timestamp: Date;
+  distance: number;
+  duration: number;
+}
+
+// Interfaz para un enlace de seguimiento en directo
+export interface ILiveShare {
+  token: string;
+  createdAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+}
+
+// Interfaz para la baliza de seguridad
+export interface ISafetyBeacon {
+  enabled: boolean;
+  contacts: mongoose.Types.ObjectId[];
+  expectedFinishTime?: Date;
+  noSignalMinutes: number;
+  lastSignalAt?: Date;
+  alertReason?: 'overdue' | 'no_signal';
+  alertLevel: number;
+  lastAlertAt?: Date;
+  nextCheckAt?: Date;
 }
 
 // Interfaz para el tracking de actividad
@@ -111,6 +325,13 @@ export interface IActivityTracking extends Document {
   maxSpeed: number;
   elevationGain: number;
   locationPoints: ILocationPoint[];
+  gpsFilter: IGpsFilterState;
+  autoPause: IAutoPauseState;
+  processedBatchIds: string[];
+  pauseIntervals: IPauseInterval[];
+  laps: ILapMark[];
+  liveShares: ILiveShare[];
+  safetyBeacon: ISafetyBeacon;
 }
 
 const ActivityTrackingModel = mongoose.model<IActivityTracking>('ActivityTracking', activityTrackingSchema);
@@ -0,0 +1,72 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Sesión de un dispositivo. Cada sesión es una familia de refresh tokens: al refrescar se emite
+// un token nuevo (jti nuevo) y solo el último es válido. Reutilizar uno anterior revoca la sesión.
+export const authSessionSchema = new Schema({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  currentTokenId: {
+    type: String,
+    required: true  // jti del último refresh token emitido
+  },
+  deviceName: {
+    type: String,
+    default: null
+  },
+  userAgent: {
+    type: String,
+    default: null
+  },
+  ip: {
+    type: String,
+    default: null
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  lastUsedAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  },
+  revokedReason: {
+    type: String,
+    enum: ['logout', 'revoked', 'reuse_detected', 'password_changed', null],
+    default: null
+  }
+});
+
+authSessionSchema.index({ userId: 1, revokedAt: 1, expiresAt: -1 });
+// Las sesiones caducadas se eliminan solas (las revocadas se conservan hasta caducar para detectar reutilizaciones)
+authSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export type SessionRevokedReason = 'logout' | 'revoked' | 'reuse_detected' | 'password_changed';
+
+// Interfaz para una sesión de dispositivo
+export interface IAuthSession extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  currentTokenId: string;
+  deviceName: string | null;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  revokedReason: SessionRevokedReason | null;
+}
+
+const AuthSessionModel = mongoose.model<IAuthSession>('AuthSession', authSessionSchema);
+export default AuthSessionModel;
@@ -1,20 +1,85 @@
 import mongoose, {ObjectId,Schema, model, Types} from "mongoose"
 
-export const challengeSchema = new Schema<IChallenge>({
-    title: { 
-        type: String, 
+export const CHALLENGE_GOAL_METRICS = ['distance', 'duration', 'activity_count', 'elevation'] as const;
+export const CHALLENGE_GOAL_MODES = ['cumulative', 'single'] as const;
+export const CHALLENGE_VISIBILITIES = ['public', 'followers', 'private'] as const;
+export const CHALLENGE_INVITATION_STATUSES = ['pending', 'accepted', 'declined'] as const;
+
+export type ChallengeGoalMetric = typeof CHALLENGE_GOAL_METRICS[number];
+export type ChallengeGoalMode = typeof CHALLENGE_GOAL_MODES[number];
+export type ChallengeVisibility = typeof CHALLENGE_VISIBILITIES[number];
+export type ChallengeInvitationStatus = typeof CHALLENGE_INVITATION_STATUSES[number];
+
+// Objectiu mesurable del repte. Unitats: distància i desnivell en metres, durada en segons
+export const challengeGoalSchema = new Schema({
+    metric: {
+        type: String,
+        enum: CHALLENGE_GOAL_METRICS,
         required: true
     },
-    description: { 
-        type: String, 
+    target: {
+        type: Number,
+        required: true,
+        min: 0
+    },
+    activityType: { // Només compten les activitats d'aquest tipus
+        type: String,
+        enum: ['running', 'cycling', 'hiking', 'walking', 'all'],
+        default: 'all'
+    },
+    mode: { // cumulative: suma de totes les activitats del període; single: la millor activitat
+        type: String,
+        enum: CHALLENGE_GOAL_MODES,
+        default: 'cumulative'
+    }
+}, { _id: false });
+
+// Invitació a un repte creat per un usuari
+const challengeInvitationSchema = new Schema({
+    userId: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    status: {
+        type: String,
+        enum: CHALLENGE_INVITATION_STATUSES,
+        default: 'pending'
+    },
+    invitedAt: {
+        type: Date,
+        default: Date.now
+    },
+    respondedAt: {
+        type: Date,
+        default: null
+    }
+}, { _id: false });
+
+// Resum final d'un repte tancat: el rànquing complet queda a les inscripcions (rank)
+const challengeResultsSchema = new Schema({
+    participants: { type: Number, default: 0 },
+    completedCount: { type: Number, default: 0 },
+    podium: [{
+        _id: false,
+        userId: { type: Schema.Types.ObjectId, ref: 'User' },
+        rank: Number,
+        value: Number,
+        completed: Boolean
+    }]
+}, { _id: false });
+
+export const challengeSchema = new Schema<IChallenge>({
+    title: {
+        type: String,
         required: true
-    }, 
-    goalType: { // Pot ser distància, temps, velocitat, etc
-        type: String, 
+    },
+    description: {
+        type: String,
         required: true
     },
-    goalValue: { // Valor de la meta, pot ser 5km, 10min, 20km/h, etc
-        type: String, 
+    goal: {
+        type: challengeGoalSchema,
         required: true
     },
     reward: { // Recompensa en punts
@@ -28,19 +93,83 @@ export const challengeSchema = new Schema<IChallenge>({
     endDate: { // Data de finalització del repte
         type: Date,
         required: true
+    },
+    createdBy: { // null: repte global creat per un administrador
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        default: null
+    },
+    visibility: { // public: tothom; followers: seguidors del creador; private: només els convidats
+        type: String,
+        enum: CHALLENGE_VISIBILITIES,
+        default: 'public'
+    },
+    invitations: {
+        type: [challengeInvitationSchema],
+        default: []
+    },
+    chatRoomId: { // Xat de grup dels participants (només reptes entre amics)
+        type: Schema.Types.ObjectId,
+        ref: 'ChatRoom',
+        default: null
+    },
+    templateId: { // Plantilla recurrent que l'ha generat
+        type: Schema.Types.ObjectId,
+        ref: 'ChallengeTemplate',
+        default: null
+    },
+    closedAt: { // El planificador el tanca quan acaba: deixa de comptar el progrés
+        type: Date,
+        default: null
+    },
+    results: { // Resultats arxivats en tancar el repte
+        type: challengeResultsSchema,
+        default: null
     }
 });
 
+challengeSchema.index({ startDate: 1, endDate: 1 });
+challengeSchema.index({ createdBy: 1 });
+challengeSchema.index({ 'invitations.userId': 1 });
+challengeSchema.index({ templateId: 1, startDate: 1 }, { unique: true, partialFilterExpression: { templateId: { $type: 'objectId' } } });
+challengeSchema.index({ closedAt: 1, endDate: 1 });
+
+export interface IChallengeGoal {
+    metric: ChallengeGoalMetric;
+    target: number;
+    activityType: 'running' | 'cycling' | 'hiking' | 'walking' | 'all';
+    mode: ChallengeGoalMode;
+}
+
+export interface IChallengeInvitation {
+    userId: mongoose.Types.ObjectId;
+    status: ChallengeInvitationStatus;
+    invitedAt: Date;
+    respondedAt: Date | null;
+}
+
+export interface IChallengeResults {
+    participants: number;
+    completedCount: number;
+    podium: Array<{ userId: mongoose.Types.ObjectId; rank: number; value: number; completed: boolean }>;
+}
+
 export interface IChallenge {
     _id?: mongoose.Types.ObjectId;
     title: string;
-    description: string; 
-    goalType: string;
-    goalValue: string;
+    description: string;
+    goal: IChallengeGoal;
     reward: number;
     startDate: Date;
     endDate: Date;
+    createdBy?: mongoose.Types.ObjectId | null;
+    visibility?: ChallengeVisibility;
+    invitations?: IChallengeInvitation[];
+    chatRoomId?: mongoose.Types.ObjectId | null;
+    templateId?: mongoose.Types.ObjectId | null;
+    closedAt?: Date | null;
+    results?: IChallengeResults | null;
 }
 
 const ChallengeModel = mongoose.model('Challenge', challengeSchema);
-export default ChallengeModel;
\ No newline at end of file
+export default ChallengeModel;
@@ -0,0 +1,72 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Inscripció d'un usuari a un repte i el seu progrés (en les unitats de l'objectiu del repte)
+export const challengeParticipationSchema = new Schema({
+  challengeId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Challenge',
+    required: true
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  joinedAt: {
+    type: Date,
+    default: Date.now
+  },
+  progress: {
+    type: Number,
+    default: 0
+  },
+  activityCount: {
+    type: Number,
+    default: 0 // activitats del període que compten per a l'objectiu
+  },
+  lastActivityAt: {
+    type: Date,
+    default: null
+  },
+  completed: {
+    type: Boolean,
+    default: false
+  },
+  completedAt: {
+    type: Date,
+    default: null
+  },
+  rewardGranted: {
+    type: Number,
+    default: 0
+  },
+  rank: {
+    type: Number,
+    default: null // posició al rànquing global; null mentre no té cap activitat que compti
+  }
+}, {
+  versionKey: false,
+  timestamps: true
+});
+
+challengeParticipationSchema.index({ challengeId: 1, userId: 1 }, { unique: true });
+challengeParticipationSchema.index({ userId: 1, completed: 1 });
+
+export interface IChallengeParticipation extends Document {
+  _id: mongoose.Types.ObjectId;
+  challengeId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  joinedAt: Date;
+  progress: number;
+  activityCount: number;
+  lastActivityAt: Date | null;
+  completed: boolean;
+  completedAt: Date | null;
+  rewardGranted: number;
+  rank: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ChallengeParticipationModel = mongoose.model<IChallengeParticipation>('ChallengeParticipation', challengeParticipationSchema);
+export default ChallengeParticipationModel;
@@ -0,0 +1,70 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { challengeGoalSchema, IChallengeGoal } from './challenge';
+
+export const CHALLENGE_RECURRENCES = ['weekly', 'monthly', 'seasonal'] as const;
+export type ChallengeRecurrence = typeof CHALLENGE_RECURRENCES[number];
+
+// Plantilla d'un repte global que es repeteix. El planificador en crea una instància (Challenge)
+// per a cada període: setmana (de dilluns a diumenge), mes natural o estació meteorològica, en UTC
+export const challengeTemplateSchema = new Schema({
+  title: {
+    type: String,
+    required: true
+  },
+  description: {
+    type: String,
+    required: true
+  },
+  goal: {
+    type: challengeGoalSchema,
+    required: true
+  },
+  reward: {
+    type: Number,
+    required: true
+  },
+  recurrence: {
+    type: String,
+    enum: CHALLENGE_RECURRENCES,
+    required: true
+  },
+  active: {
+    type: Boolean,
+    default: true
+  },
+  startsAt: { // No es generen períodes que comencin abans d'aquesta data
+    type: Date,
+    default: null
+  },
+  endsAt: { // Ni que comencin després d'aquesta
+    type: Date,
+    default: null
+  },
+  lastPeriodStart: { // Inici de l'últim període generat
+    type: Date,
+    default: null
+  }
+}, {
+  versionKey: false,
+  timestamps: true
+});
+
+challengeTemplateSchema.index({ active: 1 });
+
+export interface IChallengeTemplate extends Document {
+  _id: mongoose.Types.ObjectId;
+  title: string;
+  description: string;
+  goal: IChallengeGoal;
+  reward: number;
+  recurrence: ChallengeRecurrence;
+  active: boolean;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  lastPeriodStart: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ChallengeTemplateModel = mongoose.model<IChallengeTemplate>('ChallengeTemplate', challengeTemplateSchema);
+export default ChallengeTemplateModel;
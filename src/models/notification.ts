@@ -13,10 +13,12 @@ const notificationSchema = new Schema({
             'new_follower',          
             'achievement_unlocked',  
             'challenge_completed',  
+            'challenge_started',
             'activity_update',       
             'chat_message',          
             'friend_request', 
             'friend_request_accepted',      
+            'safety_alert',
             'system'                 
         ],
         required: true
@@ -149,7 +151,7 @@ notificationSchema.set('toObject', { virtuals: true });
 export interface INotification extends Document {
     _id: Types.ObjectId;
     userId: Types.ObjectId;
-    type: 'new_follower' | 'achievement_unlocked' | 'challenge_completed' | 'activity_update' | 'chat_message' | 'friend_request' | 'friend_request_accepted' | 'system';
+    type: 'new_follower' | 'achievement_unlocked' | 'challenge_completed' | 'challenge_started' | 'activity_update' | 'chat_message' | 'friend_request' | 'friend_request_accepted' | 'safety_alert' | 'system';
     title: string;
     message: string;
     data?: {
@@ -16,6 +16,12 @@ const referencePointSchema = new mongoose.Schema({
     altitude :{
         type: Number,
         require: true
+    },
+    // Usuario que creó el punto con POST /api/referencePoints (los generados desde un track no lo tienen)
+    createdBy :{
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        require: false
     }
 });
 
@@ -24,6 +30,7 @@ export interface IReferencePoint{
     latitude: number;
     longitude: number;
     altitude: number;
+    createdBy?: mongoose.Types.ObjectId;
 }
 
 const ReferencePointModel = mongoose.model('ReferencePoint', referencePointSchema);
@@ -40,6 +40,11 @@ const userSchema = new Schema({
         default: 0,
         required: true
     },
+    // Punts acumulats en completar reptes (recompensa de cada repte)
+    points: {
+        type: Number,
+        default: 0
+    },
     googleId: {
         type: String,
         unique: true,    
@@ -75,10 +80,24 @@ const userSchema = new Schema({
         default: 'user',
         required: true
     },
-    refreshToken: {
-        type: String,
+    // Sense valor per defecte: els comptes anteriors a la verificació per correu no tenen restriccions
+    emailVerified: {
+        type: Boolean,
+        required: false
+    },
+    emailVerifiedAt: {
+        type: Date,
         default: null
     },
+    // Autenticació en dos passos (TOTP). Els codis de recuperació es guarden amb hash bcrypt
+    twoFactor: {
+        enabled: { type: Boolean, default: false },
+        secret: { type: String, default: null },
+        pendingSecret: { type: String, default: null }, // secret generat però encara no confirmat amb un codi
+        recoveryCodes: { type: [String], default: [] },
+        lastUsedStep: { type: Number, default: null }, // impedeix reutilitzar un codi dins la seva finestra
+        enabledAt: { type: Date, default: null }
+    },
     fcmToken: {
         type: String,
         default: null,
@@ -238,7 +257,8 @@ userSchema.set('toJSON', {
     transform: function(doc, ret) {
         // Eliminar camps sensibles
         delete ret.password;
-        delete ret.refreshToken;
+        ret.twoFactorEnabled = !!ret.twoFactor?.enabled;
+        delete ret.twoFactor;
         return ret;
     }
 });
@@ -312,6 +332,7 @@ export interface IUser extends Document {
     level: number;
     totalDistance: number;
     totalTime: number;
+    points?: number;
     googleId?: string;
     activities: Types.ObjectId[];
     achievements: Types.ObjectId[];
@@ -320,7 +341,16 @@ export interface IUser extends Document {
     updatedAt: Date;
     visibility: boolean;
     role: 'user' | 'admin';
-    refreshToken?: string;
+    emailVerified?: boolean; // false: compte registrat pendent de verificar el correu
+    emailVerifiedAt?: Date | null;
+    twoFactor?: {
+        enabled: boolean;
+        secret?: string | null;
+        pendingSecret?: string | null;
+        recoveryCodes: string[];
+        lastUsedStep?: number | null;
+        enabledAt?: Date | null;
+    };
     fcmToken?: string;
     fcmTokens?: string[]; // per compatibilitat amb múltiples dispositius
     fcmTokenUpdatedAt?: Date; // data de l'última actualització del token FCM
@@ -0,0 +1,77 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Agregats d'un tipus d'activitat (o de tots, amb la clau 'all')
+const activityTypeStatsSchema = new Schema({
+  count: { type: Number, default: 0 },
+  bestDistance: { type: Number, default: 0 },      // metres, millor activitat individual
+  bestDuration: { type: Number, default: 0 },      // segons
+  bestElevationGain: { type: Number, default: 0 }, // metres
+  averageSpeedSum: { type: Number, default: 0 }    // suma de averageSpeed per calcular-ne la mitjana
+}, { _id: false });
+
+// Agregats per usuari que manté el motor d'assoliments a cada alta, canvi o baixa d'activitat.
+// Les claus de mes, any i dia fan servir l'hora local del servidor (YYYY-MM, YYYY, YYYY-MM-DD)
+export const userActivityStatsSchema = new Schema({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    unique: true
+  },
+  activityCount: { type: Number, default: 0 },
+  totalDistance: { type: Number, default: 0 },
+  totalTime: { type: Number, default: 0 },
+  byType: {
+    type: Map,
+    of: activityTypeStatsSchema,
+    default: {}
+  },
+  monthlyTime: { // segons per mes
+    type: Map,
+    of: Number,
+    default: {}
+  },
+  yearlyTime: { // segons per any
+    type: Map,
+    of: Number,
+    default: {}
+  },
+  activeDays: { // activitats per dia, per a les ratxes de dies consecutius
+    type: Map,
+    of: Number,
+    default: {}
+  },
+  rebuiltAt: { // última reconstrucció completa a partir de les activitats
+    type: Date,
+    default: null
+  }
+}, {
+  versionKey: false,
+  timestamps: true
+});
+
+export interface IActivityTypeStats {
+  count: number;
+  bestDistance: number;
+  bestDuration: number;
+  bestElevationGain: number;
+  averageSpeedSum: number;
+}
+
+export interface IUserActivityStats extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  activityCount: number;
+  totalDistance: number;
+  totalTime: number;
+  byType: Map<string, IActivityTypeStats>;
+  monthlyTime: Map<string, number>;
+  yearlyTime: Map<string, number>;
+  activeDays: Map<string, number>;
+  rebuiltAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const UserActivityStatsModel = mongoose.model<IUserActivityStats>('UserActivityStats', userActivityStatsSchema);
+export default UserActivityStatsModel;
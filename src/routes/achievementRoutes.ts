@@ -1,5 +1,10 @@
 import {Router} from 'express';
 import * as achievementController from '../controllers/achievementController';
+import { checkRole } from '../middleware/session';
+import { checkSelf } from '../middleware/ownership';
+import { validate } from '../middleware/validate';
+import { idParams, paginationQuery, userIdParams } from '../schemas/common';
+import { achievementCreateBody, achievementUpdateBody, nextMilestonesQuery } from '../schemas/achievementSchemas';
 
 const router = Router();
 
@@ -64,6 +69,46 @@ const router = Router();
  *         difficulty: "bronze"
  *         points: 10
  *         usersUnlocked: []
+ *     AchievementProgress:
+ *       type: object
+ *       properties:
+ *         achievement:
+ *           type: object
+ *           description: Datos del logro (sin usersUnlocked)
+ *         unlocked:
+ *           type: boolean
+ *         currentValue:
+ *           type: number
+ *           description: Valor actual del usuario, en la unidad indicada
+ *         targetValue:
+ *           type: number
+ *         unit:
+ *           type: string
+ *           enum: [meters, seconds, activities, days, m/s]
+ *         percentage:
+ *           type: number
+ *           description: Porcentaje completado (0-100, con un decimal)
+ *         remaining:
+ *           type: number
+ *           description: Lo que falta para el objetivo (0 si ya se ha alcanzado)
+ *         estimatedCompletion:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Fecha estimada al ritmo de los últimos 30 días (null si no se puede estimar o no llega a tiempo en el periodo)
+ *       example:
+ *         achievement:
+ *           title: "Diez Kilómetros"
+ *           type: "distance_total"
+ *           targetValue: 10000
+ *           difficulty: "bronze"
+ *         unlocked: false
+ *         currentValue: 7300
+ *         targetValue: 10000
+ *         unit: "meters"
+ *         percentage: 73
+ *         remaining: 2700
+ *         estimatedCompletion: "2026-10-24T09:30:00.000Z"
  */
 
 /**
@@ -77,7 +122,7 @@ const router = Router();
  *       content:
  *         application/json:
  *           schema:
- *             $ref: '#/components/schemas/Achievement'
+ *             $ref: '#/components/schemas/AchievementCreateInput'
  *     responses:
  *       201:
  *         description: Logro creado exitosamente
@@ -86,7 +131,7 @@ const router = Router();
  *       500:
  *         description: Error interno del servidor
  */
-router.post('/', achievementController.createAchievementHandler);
+router.post('/', checkRole(['admin']), validate({ body: achievementCreateBody }), achievementController.createAchievementHandler);
 
 /**
  * @openapi
@@ -109,7 +154,7 @@ router.post('/', achievementController.createAchievementHandler);
  *       500:
  *         description: Error interno del servidor
  */
-router.get('/:id', achievementController.getAchievementbyIdHandler);
+router.get('/:id', validate({ params: idParams }), achievementController.getAchievementbyIdHandler);
 
 /**
  * @openapi
@@ -136,7 +181,7 @@ router.get('/:id', achievementController.getAchievementbyIdHandler);
  *       500:
  *         description: Error interno del servidor
  */
-router.get('/', achievementController.getAchievementsController);
+router.get('/', validate({ query: paginationQuery }), achievementController.getAchievementsController);
 
 /**
  * @openapi
@@ -173,7 +218,89 @@ router.get('/all/list', achievementController.getAllAchievementsController);
  *       500:
  *         description: Error interno del servidor
  */
-router.get('/user/:userId', achievementController.getUserAchievementsController);
+router.get('/user/:userId', validate({ params: userIdParams }), achievementController.getUserAchievementsController);
+
+/**
+ * @openapi
+ * /api/achievements/user/{userId}/progress:
+ *   get:
+ *     summary: Get the user's progress towards every achievement
+ *     tags: [Achievements]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: ID del usuario
+ *     responses:
+ *       200:
+ *         description: Progreso de logros obtenido exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 progress:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AchievementProgress'
+ *                 total:
+ *                   type: integer
+ *       403:
+ *         description: Solo el propio usuario o un administrador
+ *       404:
+ *         description: Usuario no encontrado
+ *       500:
+ *         description: Error interno del servidor
+ */
+router.get('/user/:userId/progress', validate({ params: userIdParams }), checkSelf(), achievementController.getUserAchievementProgressController);
+
+/**
+ * @openapi
+ * /api/achievements/user/{userId}/next-milestones:
+ *   get:
+ *     summary: Get the locked achievements closest to being unlocked
+ *     tags: [Achievements]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: ID del usuario
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 10
+ *           default: 3
+ *         description: Número de logros a devolver
+ *     responses:
+ *       200:
+ *         description: Próximos logros ordenados por porcentaje completado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 milestones:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AchievementProgress'
+ *       403:
+ *         description: Solo el propio usuario o un administrador
+ *       404:
+ *         description: Usuario no encontrado
+ *       500:
+ *         description: Error interno del servidor
+ */
+router.get('/user/:userId/next-milestones', validate({ params: userIdParams, query: nextMilestonesQuery }), checkSelf(), achievementController.getNextMilestonesController);
 
 /**
  * @openapi
@@ -196,7 +323,55 @@ router.get('/user/:userId', achievementController.getUserAchievementsController)
  *       500:
  *         description: Error interno del servidor
  */
-router.post('/user/:userId/check', achievementController.checkUserAchievementsController);
+router.post('/user/:userId/check', validate({ params: userIdParams }), checkSelf(), achievementController.checkUserAchievementsController);
+
+/**
+ * @openapi
+ * /api/achievements/user/{userId}/rebuild:
+ *   post:
+ *     summary: Rebuild a user's derived stats from their activities
+ *     description: Recalcula los agregados de actividades, totalDistance y totalTime del usuario, desbloquea los logros que falten, retira los que ya no se cumplen y recalcula el progreso y el ranking de sus retos abiertos.
+ *     tags: [Achievements]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: ID del usuario
+ *     responses:
+ *       200:
+ *         description: Estadísticas recalculadas
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 activityCount:
+ *                   type: integer
+ *                 totalDistance:
+ *                   type: number
+ *                 totalTime:
+ *                   type: number
+ *                 unlocked:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Achievement'
+ *                 revoked:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Achievement'
+ *                 challengesUpdated:
+ *                   type: integer
+ *                   description: Inscripciones en retos abiertos recalculadas
+ *       404:
+ *         description: Usuario no encontrado
+ *       500:
+ *         description: Error interno del servidor
+ */
+router.post('/user/:userId/rebuild', checkRole(['admin']), validate({ params: userIdParams }), achievementController.rebuildUserStatsController);
 
 /**
  * @openapi
@@ -210,7 +385,7 @@ router.post('/user/:userId/check', achievementController.checkUserAchievementsCo
  *       500:
  *         description: Error eliminando duplicados
  */
-router.post('/cleanup-duplicates', achievementController.cleanupDuplicatesController);
+router.post('/cleanup-duplicates', checkRole(['admin']), achievementController.cleanupDuplicatesController);
 
 /**
  * @openapi
@@ -224,7 +399,7 @@ router.post('/cleanup-duplicates', achievementController.cleanupDuplicatesContro
  *       500:
  *         description: Error interno del servidor
  */
-router.post('/initialize/defaults', achievementController.initializeAchievementsController);
+router.post('/initialize/defaults', checkRole(['admin']), achievementController.initializeAchievementsController);
 
 /**
  * @openapi
@@ -238,7 +413,7 @@ router.post('/initialize/defaults', achievementController.initializeAchievements
  *       500:
  *         description: Error interno del servidor
  */
-router.post('/initialize/general', achievementController.initializeGeneralAchievementsController);
+router.post('/initialize/general', checkRole(['admin']), achievementController.initializeGeneralAchievementsController);
 
 /**
  * @openapi
@@ -252,7 +427,7 @@ router.post('/initialize/general', achievementController.initializeGeneralAchiev
  *       500:
  *         description: Error interno del servidor
  */
-router.post('/initialize/distance-total', achievementController.initializeDistanceTotalAchievementsController);
+router.post('/initialize/distance-total', checkRole(['admin']), achievementController.initializeDistanceTotalAchievementsController);
 
 /**
  * @openapi
@@ -266,7 +441,7 @@ router.post('/initialize/distance-total', achievementController.initializeDistan
  *       500:
  *         description: Error interno del servidor
  */
-router.post('/initialize/distance-single', achievementController.initializeDistanceSingleAchievementsController);
+router.post('/initialize/distance-single', checkRole(['admin']), achievementController.initializeDistanceSingleAchievementsController);
 
 /**
  * @openapi
@@ -280,7 +455,7 @@ router.post('/initialize/distance-single', achievementController.initializeDista
  *       500:
  *         description: Error interno del servidor
  */
-router.post('/initialize/activity-specific', achievementController.initializeActivitySpecificAchievementsController);
+router.post('/initialize/activity-specific', checkRole(['admin']), achievementController.initializeActivitySpecificAchievementsController);
 
 /**
  * @openapi
@@ -300,7 +475,7 @@ router.post('/initialize/activity-specific', achievementController.initializeAct
  *       content:
  *         application/json:
  *           schema:
- *             $ref: '#/components/schemas/Achievement'
+ *             $ref: '#/components/schemas/AchievementUpdateInput'
  *     responses:
  *       200:
  *         description: Logro actualizado exitosamente
@@ -309,7 +484,7 @@ router.post('/initialize/activity-specific', achievementController.initializeAct
  *       500:
  *         description: Error interno del servidor
  */
-router.put('/:id', achievementController.updateAchievementHandler);
+router.put('/:id', checkRole(['admin']), validate({ params: idParams, body: achievementUpdateBody }), achievementController.updateAchievementHandler);
 
 /**
  * @openapi
@@ -332,6 +507,6 @@ router.put('/:id', achievementController.updateAchievementHandler);
  *       500:
  *         description: Error interno del servidor
  */
-router.delete('/:id', achievementController.deleteAchievementHandler);
+router.delete('/:id', checkRole(['admin']), validate({ params: idParams }), achievementController.deleteAchievementHandler);
 
 export default router;
\ No newline at end of file
@@ -1,5 +1,10 @@
 import express from 'express';
 import * as activityHistoryController from '../controllers/activityHistoryController';
+import { checkRole } from '../middleware/session';
+import { checkActivityOwner } from '../middleware/ownership';
+import { validate } from '../middleware/validate';
+import { idParams, paginationQuery } from '../schemas/common';
+import { activityHistoryParams, activityHistorySearchBody } from '../schemas/activityHistorySchemas';
 
 const router = express.Router();
 
@@ -34,7 +39,7 @@ const router = express.Router();
  *       500:
  *         description: Server error
  */
-router.get('/activity/:activityId', activityHistoryController.getHistoryByActivityIdController);
+router.get('/activity/:activityId', validate({ params: activityHistoryParams, query: paginationQuery }), checkActivityOwner('activityId'), activityHistoryController.getHistoryByActivityIdController);
 
 /**
  * @openapi
@@ -61,7 +66,7 @@ router.get('/activity/:activityId', activityHistoryController.getHistoryByActivi
  *       500:
  *         description: Server error
  */
-router.get('/', activityHistoryController.getAllActivityHistoryController);
+router.get('/', checkRole(['admin']), validate({ query: paginationQuery }), activityHistoryController.getAllActivityHistoryController);
 
 /**
  * @openapi
@@ -74,15 +79,7 @@ router.get('/', activityHistoryController.getAllActivityHistoryController);
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             properties:
- *               query:
- *                 type: object
- *               userId:
- *                 type: string
- *               changeType:
- *                 type: string
- *                 enum: [create, update, delete]
+ *             $ref: '#/components/schemas/ActivityHistorySearchInput'
  *     parameters:
  *       - in: query
  *         name: page
@@ -102,7 +99,7 @@ router.get('/', activityHistoryController.getAllActivityHistoryController);
  *       500:
  *         description: Server error
  */
-router.post('/search', activityHistoryController.searchActivityHistoryController);
+router.post('/search', checkRole(['admin']), validate({ query: paginationQuery, body: activityHistorySearchBody }), activityHistoryController.searchActivityHistoryController);
 
 /**
  * @openapi
@@ -125,7 +122,7 @@ router.post('/search', activityHistoryController.searchActivityHistoryController
  *       500:
  *         description: Server error
  */
-router.delete('/:id', (req, res) => {
+router.delete('/:id', checkRole(['admin']), validate({ params: idParams }), (req, res) => {
     activityHistoryController.deleteActivityHistoryController(req, res);
   });
   
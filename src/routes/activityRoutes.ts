@@ -1,5 +1,11 @@
 import express from 'express';
 import * as activityController from '../controllers/activityController';
+import { uploadActivityFile } from '../middleware/activityFileUpload';
+import { checkActivityOwner, checkBodyOwner, checkSelf } from '../middleware/ownership';
+import { checkVerifiedEmail } from '../middleware/session';
+import { validate } from '../middleware/validate';
+import { idParams, userIdParams, paginationQuery } from '../schemas/common';
+import { activityCreateBody, activityUpdateBody, activityImportBody, activityExportParams } from '../schemas/activitySchemas';
 
 const router = express.Router();
 
@@ -57,7 +63,7 @@ const router = express.Router();
  *           items:
  *             type: string
  *             format: objectId
- *           description: Array of reference point IDs representing the activity route
+ *           description: Array of reference point IDs representing the activity route (simplified to at most 500 points; the full timestamped track is available at /api/activities/{id}/track)
  *         musicPlaylist:
  *           type: array
  *           items:
@@ -83,6 +89,43 @@ const router = express.Router();
  *         type: "running"
  */
 
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     ActivitySplit:
+ *       type: object
+ *       properties:
+ *         index:
+ *           type: integer
+ *         startDistance:
+ *           type: number
+ *           description: Metres from the start of the activity
+ *         distance:
+ *           type: number
+ *           description: Split distance in metres
+ *         duration:
+ *           type: number
+ *           description: Moving time in seconds
+ *         pace:
+ *           type: number
+ *           description: Seconds per km (seconds per mile for mile splits)
+ *         averageSpeed:
+ *           type: number
+ *           description: Metres per second
+ *         elevationGain:
+ *           type: number
+ *         startTime:
+ *           type: string
+ *           format: date-time
+ *         endTime:
+ *           type: string
+ *           format: date-time
+ *         partial:
+ *           type: boolean
+ *           description: True for the last, shorter split
+ */
+
 /**
  * @openapi
  * /api/activities:
@@ -94,51 +137,56 @@ const router = express.Router();
  *       content:
  *         application/json:
  *           schema:
+ *             $ref: '#/components/schemas/ActivityCreateInput'
+ *     responses:
+ *       201:
+ *         description: Activity created successfully
+ */
+router.post('/', validate({ body: activityCreateBody }), checkVerifiedEmail('publish'), checkBodyOwner('author'), activityController.createActivityController);
+
+/**
+ * @openapi
+ * /api/activities/import:
+ *   post:
+ *     summary: Import an activity from a GPX, TCX or FIT device file
+ *     description: Parses the recorded route, derives distance, duration, elevation gain and average speed, and creates the activity with its reference points.
+ *     tags: [Activities]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
  *             type: object
  *             required:
+ *               - file
  *               - author
- *               - name
- *               - startTime
- *               - endTime
- *               - duration
- *               - distance
- *               - elevationGain
- *               - averageSpeed
- *               - route
- *               - type
  *             properties:
- *               author:
- *                 type: objectId
- *                 description: The ID of the user who created the activity
- *               name:
+ *               file:
  *                 type: string
- *               startTime:
+ *                 format: binary
+ *                 description: GPX, TCX or FIT file (max 25MB)
+ *               author:
  *                 type: string
- *                 format: date-time
- *               endTime:
+ *                 description: The ID of the user who owns the activity
+ *               name:
  *                 type: string
- *                 format: date-time
- *               duration:
- *                 type: number
- *               distance:
- *                 type: number
- *               elevationGain:
- *                 type: number
- *               averageSpeed:
- *                 type: number
- *               route:
- *                 type: array
- *                 items: 
- *                   referencePoint:
- *                     type: objectId
+ *                 description: Optional name; defaults to the name stored in the file
  *               type:
  *                 type: string
  *                 enum: [running, cycling, hiking, walking]
+ *                 description: Optional type; overrides the sport stored in the file
  *     responses:
  *       201:
- *         description: Activity created successfully
+ *         description: Activity imported successfully
+ *       400:
+ *         description: Missing file, unsupported or unreadable file, or unknown activity type
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Server error
  */
-router.post('/', activityController.createActivityController);
+router.post('/import', checkVerifiedEmail('publish'), uploadActivityFile.single('file'), validate({ body: activityImportBody }), checkBodyOwner('author'), activityController.importActivityController);
+
 /**
  * @openapi
  * /api/activities/following/{userId}:
@@ -191,7 +239,7 @@ router.post('/', activityController.createActivityController);
  *       500:
  *         description: Server error
  */
-router.get('/following/:userId', activityController.getFollowingActivitiesController);
+router.get('/following/:userId', validate({ params: userIdParams, query: paginationQuery }), checkSelf(), activityController.getFollowingActivitiesController);
 
 /**
  * @openapi
@@ -212,7 +260,169 @@ router.get('/following/:userId', activityController.getFollowingActivitiesContro
  *       404:
  *         description: Activity not found
  */
-router.get('/:id', activityController.getActivityByIdController);
+router.get('/:id', validate({ params: idParams }), checkActivityOwner(), activityController.getActivityByIdController);
+
+/**
+ * @openapi
+ * /api/activities/{id}/export/{format}:
+ *   get:
+ *     summary: Export an activity's recorded route as a GPX 1.1 or TCX file
+ *     description: Activities recorded with live tracking keep per-point timestamps and speed in the export.
+ *     tags: [Activities]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Activity ID
+ *       - in: path
+ *         name: format
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [gpx, tcx]
+ *         description: Export format
+ *     responses:
+ *       200:
+ *         description: Route file as an attachment
+ *         content:
+ *           application/gpx+xml:
+ *             schema:
+ *               type: string
+ *           application/vnd.garmin.tcx+xml:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid export format
+ *       404:
+ *         description: Activity not found
+ *       500:
+ *         description: Server error
+ */
+router.get('/:id/export/:format', validate({ params: activityExportParams }), checkActivityOwner(), activityController.exportActivityController);
+
+/**
+ * @openapi
+ * /api/activities/{id}/splits:
+ *   get:
+ *     summary: Get per-kilometre and per-mile splits, manual laps and fastest segments of an activity
+ *     description: >
+ *       Computed from the timestamped route points of live-tracked or imported activities. Durations are moving
+ *       time in seconds (pauses excluded). Pace is seconds per km, or seconds per mile for mile splits.
+ *     tags: [Activities]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Activity ID
+ *     responses:
+ *       200:
+ *         description: Activity splits
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 kilometers:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ActivitySplit'
+ *                 miles:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ActivitySplit'
+ *                 laps:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ActivitySplit'
+ *                 fastestSegments:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       label:
+ *                         type: string
+ *                         example: "5 km"
+ *                       distance:
+ *                         type: number
+ *                       duration:
+ *                         type: number
+ *                       pace:
+ *                         type: number
+ *                       startDistance:
+ *                         type: number
+ *                       startTime:
+ *                         type: string
+ *                         format: date-time
+ *                 computedAt:
+ *                   type: string
+ *                   format: date-time
+ *       404:
+ *         description: Activity not found, or it has no timestamped points
+ *       500:
+ *         description: Server error
+ */
+router.get('/:id/splits', validate({ params: idParams }), checkActivityOwner(), activityController.getActivitySplitsController);
+
+/**
+ * @openapi
+ * /api/activities/{id}/track:
+ *   get:
+ *     summary: Get the full-fidelity recorded track of an activity
+ *     description: >
+ *       Every recorded point with its timestamp and speed. The activity's route field only holds a simplified
+ *       list of reference points for drawing maps. source tells where the points come from - track (stored
+ *       full track), tracking (legacy activities, read from the original tracking session) or route (no
+ *       timestamps available).
+ *     tags: [Activities]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Activity ID
+ *     responses:
+ *       200:
+ *         description: Activity track
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 activityId:
+ *                   type: string
+ *                 source:
+ *                   type: string
+ *                   enum: [track, tracking, route]
+ *                 pointCount:
+ *                   type: integer
+ *                 points:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       latitude:
+ *                         type: number
+ *                       longitude:
+ *                         type: number
+ *                       altitude:
+ *                         type: number
+ *                       timestamp:
+ *                         type: string
+ *                         format: date-time
+ *                       speed:
+ *                         type: number
+ *                         description: Metres per second
+ *       404:
+ *         description: Activity not found
+ *       500:
+ *         description: Server error
+ */
+router.get('/:id/track', validate({ params: idParams }), checkActivityOwner(), activityController.getActivityTrackController);
 
 /**
  * @openapi
@@ -231,7 +441,7 @@ router.get('/:id', activityController.getActivityByIdController);
  *       200:
  *         description: List of activities
  */
-router.get('/user/:userId', activityController.getActivitiesByUserIdController);
+router.get('/user/:userId', validate({ params: userIdParams, query: paginationQuery }), activityController.getActivitiesByUserIdController);
 
 /**
  * @openapi
@@ -280,34 +490,7 @@ router.get('/', activityController.getActivitiesHandler);
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             properties:
- *               name:
- *                 type: string
- *               startTime:
- *                 type: string
- *                 format: date-time
- *               endTime:
- *                 type: string
- *                 format: date-time
- *               duration:
- *                 type: number
- *               distance:
- *                 type: number
- *               elevationGain:
- *                 type: number
- *               averageSpeed:
- *                 type: number
- *               route:
- *                 type: array
- *                 items: 
- *                   referencePoint:
- *                     type: objectId
- *               caloriesBurned:
- *                 type: number
- *               type:
- *                 type: string
- *                 enum: [running, cycling, hiking, walking]
+ *             $ref: '#/components/schemas/ActivityUpdateInput'
  *     responses:
  *       200:
  *         description: Activity updated successfully
@@ -316,7 +499,7 @@ router.get('/', activityController.getActivitiesHandler);
  *       500:
  *         description: Error updating activity
  */
-router.put('/:id', activityController.updateActivityController);
+router.put('/:id', validate({ params: idParams, body: activityUpdateBody }), checkActivityOwner(), activityController.updateActivityController);
 
 /**
  * @openapi
@@ -339,6 +522,6 @@ router.put('/:id', activityController.updateActivityController);
  *       500:
  *         description: Error deleting activity
  */
-router.delete('/:id', activityController.deleteActivityController);
+router.delete('/:id', validate({ params: idParams }), checkActivityOwner(), activityController.deleteActivityController);
 
 export default router;
@@ -1,5 +1,22 @@
 import express from 'express';
 import * as activityTrackingController from '../controllers/activityTrackingController';
+import { checkBodyOwner, checkSelf, checkTrackingOwner } from '../middleware/ownership';
+import { checkVerifiedEmail } from '../middleware/session';
+import { validate } from '../middleware/validate';
+import { userIdParams } from '../schemas/common';
+import {
+  liveShareCreateBody,
+  liveShareParams,
+  liveSnapshotParams,
+  safetyBeaconBody,
+  safetyCheckInBody,
+  trackingAutoPauseBody,
+  trackingFinishBody,
+  trackingLocationBatchBody,
+  trackingLocationBody,
+  trackingParams,
+  trackingStartBody
+} from '../schemas/activityTrackingSchemas';
 
 const router = express.Router();
 
@@ -29,6 +46,27 @@ const router = express.Router();
  *         speed:
  *           type: number
  *           description: Velocidad en metros por segundo (opcional)
+ *         accuracy:
+ *           type: number
+ *           description: Precisión horizontal del GPS en metros (opcional)
+ *     GpsFilter:
+ *       type: object
+ *       properties:
+ *         rawPointCount:
+ *           type: integer
+ *           description: Puntos recibidos del cliente
+ *         cleanedPointCount:
+ *           type: integer
+ *           description: Puntos aceptados tras el filtrado
+ *         rejectedBySpeed:
+ *           type: integer
+ *           description: Puntos descartados por velocidad imposible para el tipo de actividad
+ *         rejectedByAccuracy:
+ *           type: integer
+ *           description: Puntos descartados por precisión insuficiente
+ *         ignoredStationary:
+ *           type: integer
+ *           description: Puntos ignorados por moverse menos que la precisión del GPS
  *     ActivityTracking:
  *       type: object
  *       required:
@@ -56,6 +94,15 @@ const router = express.Router();
  *         isPaused:
  *           type: boolean
  *           description: Indica si el tracking está en pausa
+ *         autoPause:
+ *           type: object
+ *           properties:
+ *             enabled:
+ *               type: boolean
+ *               description: Pausa automática activada para la sesión
+ *             isAutoPaused:
+ *               type: boolean
+ *               description: La pausa actual la ha activado el servidor
  *         currentDistance:
  *           type: number
  *           description: Distancia actual en metros
@@ -78,6 +125,8 @@ const router = express.Router();
  *           type: array
  *           items:
  *             $ref: '#/components/schemas/LocationPoint'
+ *         gpsFilter:
+ *           $ref: '#/components/schemas/GpsFilter'
  */
 
 /**
@@ -91,18 +140,7 @@ const router = express.Router();
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - userId
- *               - activityType
- *             properties:
- *               userId:
- *                 type: string
- *                 description: ID del usuario
- *               activityType:
- *                 type: string
- *                 enum: [running, cycling, hiking, walking]
- *                 description: Tipo de actividad
+ *             $ref: '#/components/schemas/TrackingStartInput'
  *     responses:
  *       201:
  *         description: Tracking iniciado con éxito
@@ -113,13 +151,14 @@ const router = express.Router();
  *       500:
  *         description: Error del servidor
  */
-router.post('/start', activityTrackingController.startTrackingController);
+router.post('/start', validate({ body: trackingStartBody }), checkBodyOwner('userId'), activityTrackingController.startTrackingController);
 
 /**
  * @openapi
  * /api/activity-tracking/{trackingId}/location:
  *   post:
  *     summary: Actualizar ubicación en un tracking existente
+ *     description: El punto pasa por el filtro de señal GPS; los saltos imposibles, los puntos imprecisos y el ruido estando parado no suman distancia.
  *     tags: [ActivityTracking]
  *     parameters:
  *       - in: path
@@ -133,23 +172,7 @@ router.post('/start', activityTrackingController.startTrackingController);
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - latitude
- *               - longitude
- *             properties:
- *               latitude:
- *                 type: number
- *                 description: Latitud del punto GPS
- *               longitude:
- *                 type: number
- *                 description: Longitud del punto GPS
- *               altitude:
- *                 type: number
- *                 description: Altura sobre el nivel del mar (opcional)
- *               speed:
- *                 type: number
- *                 description: Velocidad en metros por segundo (opcional)
+ *             $ref: '#/components/schemas/TrackingLocationInput'
  *     responses:
  *       200:
  *         description: Ubicación actualizada con éxito
@@ -160,7 +183,41 @@ router.post('/start', activityTrackingController.startTrackingController);
  *       500:
  *         description: Error del servidor
  */
-router.post('/:trackingId/location', activityTrackingController.updateLocationController);
+router.post('/:trackingId/location', validate({ params: trackingParams, body: trackingLocationBody }), checkTrackingOwner(), activityTrackingController.updateLocationController);
+
+/**
+ * @openapi
+ * /api/activity-tracking/{trackingId}/locations/batch:
+ *   post:
+ *     summary: Subir un lote de ubicaciones registradas sin conexión
+ *     description: >
+ *       Inserta los puntos según su marca de tiempo, aunque lleguen desordenados o solapados con lotes anteriores,
+ *       y recalcula distancia, desnivel, velocidades y duración. Reenviar un lote con el mismo batchId no duplica puntos.
+ *     tags: [ActivityTracking]
+ *     parameters:
+ *       - in: path
+ *         name: trackingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID del tracking
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TrackingLocationBatchInput'
+ *     responses:
+ *       200:
+ *         description: Lote procesado; incluye cuántos puntos se insertaron, se ignoraron por duplicados o quedaron fuera del rango del tracking
+ *       400:
+ *         description: Datos inválidos o lote demasiado grande
+ *       404:
+ *         description: Tracking no encontrado o no está activo
+ *       500:
+ *         description: Error del servidor
+ */
+router.post('/:trackingId/locations/batch', validate({ params: trackingParams, body: trackingLocationBatchBody }), checkTrackingOwner(), activityTrackingController.uploadLocationBatchController);
 
 /**
  * @openapi
@@ -185,7 +242,31 @@ router.post('/:trackingId/location', activityTrackingController.updateLocationCo
  *       500:
  *         description: Error del servidor
  */
-router.post('/:trackingId/pause', activityTrackingController.pauseTrackingController);
+router.post('/:trackingId/pause', validate({ params: trackingParams }), checkTrackingOwner(), activityTrackingController.pauseTrackingController);
+
+/**
+ * @openapi
+ * /api/activity-tracking/{trackingId}/lap:
+ *   post:
+ *     summary: Marcar una vuelta manual
+ *     description: Las vueltas aparecen como parciales en GET /api/activities/{id}/splits al finalizar el tracking.
+ *     tags: [ActivityTracking]
+ *     parameters:
+ *       - in: path
+ *         name: trackingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID del tracking
+ *     responses:
+ *       200:
+ *         description: Vuelta marcada con éxito
+ *       404:
+ *         description: Tracking no encontrado o no está activo
+ *       500:
+ *         description: Error del servidor
+ */
+router.post('/:trackingId/lap', validate({ params: trackingParams }), checkTrackingOwner(), activityTrackingController.markLapController);
 
 /**
  * @openapi
@@ -210,7 +291,39 @@ router.post('/:trackingId/pause', activityTrackingController.pauseTrackingContro
  *       500:
  *         description: Error del servidor
  */
-router.post('/:trackingId/resume', activityTrackingController.resumeTrackingController);
+router.post('/:trackingId/resume', validate({ params: trackingParams }), checkTrackingOwner(), activityTrackingController.resumeTrackingController);
+
+/**
+ * @openapi
+ * /api/activity-tracking/{trackingId}/auto-pause:
+ *   put:
+ *     summary: Activar o desactivar la pausa automática de un tracking
+ *     description: Con la pausa automática activa, las paradas detectadas en los puntos recibidos se suman a totalPausedTime y se emiten los eventos tracking_paused/tracking_resumed con auto=true.
+ *     tags: [ActivityTracking]
+ *     parameters:
+ *       - in: path
+ *         name: trackingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID del tracking
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TrackingAutoPauseInput'
+ *     responses:
+ *       200:
+ *         description: Configuración actualizada
+ *       400:
+ *         description: Datos inválidos
+ *       404:
+ *         description: Tracking no encontrado o no está activo
+ *       500:
+ *         description: Error del servidor
+ */
+router.put('/:trackingId/auto-pause', validate({ params: trackingParams, body: trackingAutoPauseBody }), checkTrackingOwner(), activityTrackingController.setAutoPauseController);
 
 /**
  * @openapi
@@ -229,11 +342,7 @@ router.post('/:trackingId/resume', activityTrackingController.resumeTrackingCont
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             properties:
- *               name:
- *                 type: string
- *                 description: Nombre opcional para la actividad
+ *             $ref: '#/components/schemas/TrackingFinishInput'
  *     responses:
  *       200:
  *         description: Tracking finalizado y actividad creada con éxito
@@ -244,7 +353,7 @@ router.post('/:trackingId/resume', activityTrackingController.resumeTrackingCont
  *       500:
  *         description: Error del servidor
  */
-router.post('/:trackingId/finish', activityTrackingController.finishTrackingController);
+router.post('/:trackingId/finish', validate({ params: trackingParams, body: trackingFinishBody }), checkTrackingOwner(), activityTrackingController.finishTrackingController);
 
 /**
  * @openapi
@@ -269,7 +378,7 @@ router.post('/:trackingId/finish', activityTrackingController.finishTrackingCont
  *       500:
  *         description: Error del servidor
  */
-router.delete('/:trackingId/discard', activityTrackingController.discardTrackingController);
+router.delete('/:trackingId/discard', validate({ params: trackingParams }), checkTrackingOwner(), activityTrackingController.discardTrackingController);
 
 /**
  * @openapi
@@ -294,7 +403,7 @@ router.delete('/:trackingId/discard', activityTrackingController.discardTracking
  *       500:
  *         description: Error del servidor
  */
-router.get('/:trackingId', activityTrackingController.getTrackingController);
+router.get('/:trackingId', validate({ params: trackingParams }), checkTrackingOwner(), activityTrackingController.getTrackingController);
 
 /**
  * @openapi
@@ -317,6 +426,276 @@ router.get('/:trackingId', activityTrackingController.getTrackingController);
  *       500:
  *         description: Error del servidor
  */
-router.get('/user/:userId/active', activityTrackingController.getActiveTrackingsController);
+router.get('/user/:userId/active', validate({ params: userIdParams }), checkSelf(), activityTrackingController.getActiveTrackingsController);
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     LiveShare:
+ *       type: object
+ *       properties:
+ *         token:
+ *           type: string
+ *           description: Token secreto que da acceso al seguimiento en directo
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *         revokedAt:
+ *           type: string
+ *           format: date-time
+ *     LiveSnapshot:
+ *       type: object
+ *       properties:
+ *         trackingId:
+ *           type: string
+ *         owner:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *             username:
+ *               type: string
+ *         activityType:
+ *           type: string
+ *           enum: [running, cycling, hiking, walking]
+ *         startTime:
+ *           type: string
+ *           format: date-time
+ *         isActive:
+ *           type: boolean
+ *         isPaused:
+ *           type: boolean
+ *         lastPosition:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             latitude:
+ *               type: number
+ *             longitude:
+ *               type: number
+ *             altitude:
+ *               type: number
+ *             timestamp:
+ *               type: string
+ *               format: date-time
+ *         currentDistance:
+ *           type: number
+ *           description: Distancia en metros
+ *         currentDuration:
+ *           type: number
+ *           description: Duración en segundos
+ *         currentSpeed:
+ *           type: number
+ *           description: Velocidad en metros por segundo
+ *         averageSpeed:
+ *           type: number
+ *         elevationGain:
+ *           type: number
+ */
+
+/**
+ * @openapi
+ * /api/activity-tracking/{trackingId}/shares:
+ *   post:
+ *     summary: Crear un enlace para seguir el tracking en directo
+ *     description: >
+ *       Los espectadores usan el token para obtener el estado actual (GET /api/activity-tracking/live/{token})
+ *       y para suscribirse por Socket.IO con el evento live_subscribe, tras lo cual reciben live_update,
+ *       live_finished y live_share_revoked.
+ *     tags: [ActivityTracking]
+ *     parameters:
+ *       - in: path
+ *         name: trackingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID del tracking
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LiveShareCreateInput'
+ *     responses:
+ *       201:
+ *         description: Enlace creado con éxito
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 share:
+ *                   $ref: '#/components/schemas/LiveShare'
+ *       400:
+ *         description: Datos inválidos o tracking ya finalizado
+ *       403:
+ *         description: El usuario no es el propietario del tracking
+ *       404:
+ *         description: Tracking no encontrado
+ *       500:
+ *         description: Error del servidor
+ *   get:
+ *     summary: Listar los enlaces vigentes de un tracking
+ *     tags: [ActivityTracking]
+ *     parameters:
+ *       - in: path
+ *         name: trackingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID del tracking
+ *     responses:
+ *       200:
+ *         description: Enlaces no caducados ni revocados
+ *       403:
+ *         description: El usuario no es el propietario del tracking
+ *       404:
+ *         description: Tracking no encontrado
+ *       500:
+ *         description: Error del servidor
+ */
+router.post('/:trackingId/shares', validate({ params: trackingParams, body: liveShareCreateBody }), checkTrackingOwner(), checkVerifiedEmail('live_share'), activityTrackingController.createLiveShareController);
+router.get('/:trackingId/shares', validate({ params: trackingParams }), checkTrackingOwner(), activityTrackingController.getLiveSharesController);
+
+/**
+ * @openapi
+ * /api/activity-tracking/{trackingId}/shares/{token}:
+ *   delete:
+ *     summary: Revocar un enlace de seguimiento en directo
+ *     description: Los espectadores conectados reciben live_share_revoked y dejan de recibir actualizaciones.
+ *     tags: [ActivityTracking]
+ *     parameters:
+ *       - in: path
+ *         name: trackingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID del tracking
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Token del enlace
+ *     responses:
+ *       200:
+ *         description: Enlace revocado con éxito
+ *       403:
+ *         description: El usuario no es el propietario del tracking
+ *       404:
+ *         description: Tracking o enlace no encontrado
+ *       500:
+ *         description: Error del servidor
+ */
+router.delete('/:trackingId/shares/:token', validate({ params: liveShareParams }), checkTrackingOwner(), activityTrackingController.revokeLiveShareController);
+
+/**
+ * @openapi
+ * /api/activity-tracking/live/{token}:
+ *   get:
+ *     summary: Ver el estado en directo de un tracking compartido
+ *     description: Acceso público con el token del enlace; solo expone la última posición y las métricas actuales.
+ *     tags: [ActivityTracking]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Token del enlace
+ *     responses:
+ *       200:
+ *         description: Estado actual del tracking
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 snapshot:
+ *                   $ref: '#/components/schemas/LiveSnapshot'
+ *       404:
+ *         description: Enlace no encontrado
+ *       410:
+ *         description: Enlace caducado o revocado
+ *       500:
+ *         description: Error del servidor
+ */
+router.get('/live/:token', validate({ params: liveSnapshotParams }), activityTrackingController.getLiveSnapshotController);
+
+/**
+ * @openapi
+ * /api/activity-tracking/{trackingId}/safety-beacon:
+ *   put:
+ *     summary: Configurar la baliza de seguridad de un tracking activo
+ *     description: >
+ *       Si el tracking sigue activo pasada la hora prevista de llegada, o no llega ninguna ubicación durante
+ *       noSignalMinutes, primero se avisa al usuario y, si no responde en 10 minutos, se envía una alerta de
+ *       prioridad alta con la última posición conocida a los contactos de confianza. Las alertas se repiten
+ *       a los 30 minutos y después cada hora (máximo 5). Cualquier ubicación, pausa, reanudación o check-in
+ *       cuenta como señal de vida; cuando se resuelve la alerta los contactos reciben un aviso.
+ *     tags: [ActivityTracking]
+ *     parameters:
+ *       - in: path
+ *         name: trackingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID del tracking
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SafetyBeaconInput'
+ *     responses:
+ *       200:
+ *         description: Baliza actualizada
+ *       400:
+ *         description: Datos inválidos o tracking ya finalizado
+ *       403:
+ *         description: El usuario no es el propietario del tracking
+ *       404:
+ *         description: Tracking no encontrado
+ *       500:
+ *         description: Error del servidor
+ */
+router.put('/:trackingId/safety-beacon', validate({ params: trackingParams, body: safetyBeaconBody }), checkTrackingOwner(), activityTrackingController.configureSafetyBeaconController);
+
+/**
+ * @openapi
+ * /api/activity-tracking/{trackingId}/safety-beacon/check-in:
+ *   post:
+ *     summary: Confirmar que el usuario está bien
+ *     description: Cancela las alertas en curso. Si ya había pasado la hora prevista y no se indica otra, se pospone noSignalMinutes.
+ *     tags: [ActivityTracking]
+ *     parameters:
+ *       - in: path
+ *         name: trackingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID del tracking
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SafetyCheckInInput'
+ *     responses:
+ *       200:
+ *         description: Check-in registrado
+ *       400:
+ *         description: Datos inválidos, baliza desactivada o tracking ya finalizado
+ *       403:
+ *         description: El usuario no es el propietario del tracking
+ *       404:
+ *         description: Tracking no encontrado
+ *       500:
+ *         description: Error del servidor
+ */
+router.post('/:trackingId/safety-beacon/check-in', validate({ params: trackingParams, body: safetyCheckInBody }), checkTrackingOwner(), activityTrackingController.safetyCheckInController);
 
 export default router;
\ No newline at end of file
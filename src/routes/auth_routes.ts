@@ -4,67 +4,47 @@ import {
     loginCtrl, 
     refreshTokenCtrl, 
     logoutCtrl,
+    getSessionsCtrl,
+    revokeSessionCtrl,
+    revokeAllSessionsCtrl,
+    requestEmailVerificationCtrl,
+    verifyEmailCtrl,
+    forgotPasswordCtrl,
+    resetPasswordCtrl,
+    setupTwoFactorCtrl,
+    enableTwoFactorCtrl,
+    disableTwoFactorCtrl,
+    regenerateRecoveryCodesCtrl,
+    verifyTwoFactorCtrl,
     googleAuthCtrl,
-    googleCallbackCtrl 
+    googleCallbackCtrl,
+    linkGoogleCtrl,
+    unlinkGoogleCtrl
 } from '../controllers/auth_controller';
-import { checkJwt } from "../middleware/session";
+import { loginProtection } from '../middleware/rateLimit';
+import { getTwoFactorChallengeUserId } from '../services/twoFactorService';
+import { validate } from '../middleware/validate';
+import { userIdParams } from '../schemas/common';
+import {
+    registerBody,
+    loginBody,
+    refreshBody,
+    revokeAllSessionsQuery,
+    sessionIdParams,
+    emailBody,
+    accountTokenBody,
+    resetPasswordBody,
+    twoFactorCodeBody,
+    twoFactorDisableBody,
+    twoFactorVerifyBody,
+    googleCallbackQuery,
+    googleLinkBody
+} from '../schemas/authSchemas';
 import { ParamsDictionary } from 'express-serve-static-core';
 import { ParsedQs } from 'qs';
 
 const router: Router = express.Router();
 
-/**
- * @swagger
- * components:
- *   schemas:
- *     AuthRegister:
- *       type: object
- *       required:
- *         - username
- *         - password
- *         - email
- *       properties:
- *         username:
- *           type: string
- *           description: El nombre de usuario (obligatorio)
- *         password:
- *           type: string
- *           description: La contraseña del usuario
- *         email:
- *           type: string
- *           description: El correo electrónico del usuario
- * 
- *       example:
- *         username: "Usuario Ejemplo"
- *         password: "contraseña123"
- *         email: "usuario@example.com"
- *     AuthLogin:
- *       type: object
- *       required:
- *         - email
- *         - password
- *       properties:
- *         email:
- *           type: string
- *           description: El email del usuario
- *         password:
- *           type: string
- *           description: La contraseña del usuario
- *       example:
- *         email: "usuario@ejemplo.com"
- *         password: "contraseña123"
- *     RefreshToken:
- *       type: object
- *       required:
- *         - refreshToken
- *       properties:
- *         refreshToken:
- *           type: string
- *           description: El token de refresco
- *       example:
- *         refreshToken: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
- */
-
 /**
  * @swagger
  * /api/auth/register:
@@ -79,11 +59,11 @@ const router: Router = express.Router();
  *             $ref: '#/components/schemas/AuthRegister'
  *     responses:
  *       200:
- *         description: Usuario registrado exitosamente
+ *         description: Usuario registrado exitosamente; se envía un correo de verificación
  *       400:
  *         description: Error en la solicitud
  */
-router.post("/register", async (req: Request, res: Response) => {
+router.post("/register", validate({ body: registerBody }), async (req: Request, res: Response) => {
     try {
         await registerCtrl(req, res);
     } catch (error) {
@@ -105,11 +85,15 @@ router.post("/register", async (req: Request, res: Response) => {
  *             $ref: '#/components/schemas/AuthLogin'
  *     responses:
  *       200:
- *         description: Inicio de sesión exitoso
+ *         description: Inicio de sesión exitoso. Si la cuenta tiene la verificación en dos pasos activada, devuelve twoFactorRequired y un challengeToken en lugar de los tokens (ver /api/auth/2fa/verify)
  *       400:
  *         description: Error en la solicitud
+ *       403:
+ *         description: Contraseña incorrecta o correo sin verificar (si UNVERIFIED_RESTRICTIONS incluye login)
+ *       429:
+ *         description: Demasiados intentos fallidos; la cabecera Retry-After indica los segundos de espera
  */
-router.post("/login", async (req: Request, res: Response) => {
+router.post("/login", validate({ body: loginBody }), loginProtection('email'), async (req: Request, res: Response) => {
     try {
         await loginCtrl(req, res);
     } catch (error) {
@@ -138,7 +122,7 @@ router.post("/login", async (req: Request, res: Response) => {
  *       500:
  *         description: Error del servidor
  */
-router.get('/user/:userId', checkJwt, async (req: Request, res: Response) => {
+router.get('/user/:userId', validate({ params: userIdParams }), async (req: Request, res: Response) => {
     try {
         await getUserByIdCtrl(req, res);
     } catch (error) {
@@ -151,6 +135,7 @@ router.get('/user/:userId', checkJwt, async (req: Request, res: Response) => {
  * /api/auth/refresh:
  *   post:
  *     summary: Refresca el token de acceso
+ *     description: Rota el refresh token de la sesión; el anterior deja de ser válido. Reutilizar un refresh token ya rotado cierra la sesión de ese dispositivo.
  *     tags: [Auth]
  *     requestBody:
  *       required: true
@@ -160,11 +145,11 @@ router.get('/user/:userId', checkJwt, async (req: Request, res: Response) => {
  *             $ref: '#/components/schemas/RefreshToken'
  *     responses:
  *       200:
- *         description: Token refrescado exitosamente
+ *         description: Token refrescado exitosamente (devuelve token y el nuevo refreshToken)
  *       401:
- *         description: Token de refresco inválido
+ *         description: Token de refresco inválido, ya utilizado o de una sesión cerrada
  */
-router.post("/refresh", async (req: Request, res: Response) => {
+router.post("/refresh", validate({ body: refreshBody }), async (req: Request, res: Response) => {
     try {
         await refreshTokenCtrl(req, res);
     } catch (error) {
@@ -176,7 +161,7 @@ router.post("/refresh", async (req: Request, res: Response) => {
  * @swagger
  * /api/auth/logout:
  *   post:
- *     summary: Cierra la sesión del usuario
+ *     summary: Cierra la sesión del dispositivo actual
  *     tags: [Auth]
  *     security:
  *       - bearerAuth: []
@@ -187,7 +172,7 @@ router.post("/refresh", async (req: Request, res: Response) => {
  *         description: No autorizado
  */
 
-router.post("/logout", checkJwt, async (req: Request, res: Response) => {
+router.post("/logout", async (req: Request, res: Response) => {
     try {
         await logoutCtrl(req, res);
     } catch (error) {
@@ -195,6 +180,386 @@ router.post("/logout", checkJwt, async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AuthSession:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         deviceName:
+ *           type: string
+ *           nullable: true
+ *         userAgent:
+ *           type: string
+ *           nullable: true
+ *         ip:
+ *           type: string
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         lastUsedAt:
+ *           type: string
+ *           format: date-time
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *         current:
+ *           type: boolean
+ *           description: Sesión del token con el que se hace la petición
+ */
+
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   get:
+ *     summary: Lista las sesiones activas (una por dispositivo)
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sesiones activas del usuario
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 sessions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AuthSession'
+ *       401:
+ *         description: No autorizado
+ *   delete:
+ *     summary: Cierra todas las sesiones del usuario
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: exceptCurrent
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Conservar la sesión del dispositivo actual
+ *     responses:
+ *       200:
+ *         description: Sesiones cerradas (devuelve revokedCount)
+ *       401:
+ *         description: No autorizado
+ */
+router.get('/sessions', async (req: Request, res: Response) => {
+    try {
+        await getSessionsCtrl(req, res);
+    } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+    }
+});
+
+router.delete('/sessions', validate({ query: revokeAllSessionsQuery }), async (req: Request, res: Response) => {
+    try {
+        await revokeAllSessionsCtrl(req, res);
+    } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+    }
+});
+
+/**
+ * @swagger
+ * /api/auth/sessions/{sessionId}:
+ *   delete:
+ *     summary: Cierra una sesión concreta
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de la sesión
+ *     responses:
+ *       200:
+ *         description: Sesión cerrada correctamente
+ *       404:
+ *         description: Sesión no encontrada
+ */
+router.delete('/sessions/:sessionId', validate({ params: sessionIdParams }), async (req: Request, res: Response) => {
+    try {
+        await revokeSessionCtrl(req, res);
+    } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+    }
+});
+
+/**
+ * @swagger
+ * /api/auth/verify-email/request:
+ *   post:
+ *     summary: Reenvía el correo de verificación
+ *     description: Responde igual exista o no la cuenta, para no revelar qué correos están registrados.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/EmailInput'
+ *     responses:
+ *       200:
+ *         description: Solicitud procesada
+ *       400:
+ *         description: Falta el email
+ */
+router.post('/verify-email/request', validate({ body: emailBody }), async (req: Request, res: Response) => {
+    try {
+        await requestEmailVerificationCtrl(req, res);
+    } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+    }
+});
+
+/**
+ * @swagger
+ * /api/auth/verify-email:
+ *   post:
+ *     summary: Verifica el correo con el token recibido por email
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AccountTokenInput'
+ *     responses:
+ *       200:
+ *         description: Correo verificado
+ *       400:
+ *         description: Token inválido, ya usado o caducado
+ */
+router.post('/verify-email', validate({ body: accountTokenBody }), async (req: Request, res: Response) => {
+    try {
+        await verifyEmailCtrl(req, res);
+    } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+    }
+});
+
+/**
+ * @swagger
+ * /api/auth/password/forgot:
+ *   post:
+ *     summary: Envía un enlace para restablecer la contraseña
+ *     description: Responde igual exista o no la cuenta, para no revelar qué correos están registrados.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/EmailInput'
+ *     responses:
+ *       200:
+ *         description: Solicitud procesada
+ *       400:
+ *         description: Falta el email
+ */
+router.post('/password/forgot', validate({ body: emailBody }), async (req: Request, res: Response) => {
+    try {
+        await forgotPasswordCtrl(req, res);
+    } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+    }
+});
+
+/**
+ * @swagger
+ * /api/auth/password/reset:
+ *   post:
+ *     summary: Restablece la contraseña con el token recibido por email
+ *     description: El token es de un solo uso. Al cambiar la contraseña se cierran todas las sesiones.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ResetPasswordInput'
+ *     responses:
+ *       200:
+ *         description: Contraseña restablecida
+ *       400:
+ *         description: Token inválido, ya usado o caducado, o contraseña demasiado corta
+ */
+router.post('/password/reset', validate({ body: resetPasswordBody }), async (req: Request, res: Response) => {
+    try {
+        await resetPasswordCtrl(req, res);
+    } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+    }
+});
+
+/**
+ * @swagger
+ * /api/auth/2fa/setup:
+ *   post:
+ *     summary: Inicia la activación de la verificación en dos pasos (TOTP)
+ *     description: Genera un secreto nuevo y la URI otpauth:// para añadir la cuenta a una app de autenticación. No se activa hasta confirmarlo con /api/auth/2fa/enable.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secreto generado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 secret:
+ *                   type: string
+ *                   description: Secreto en base32 (para introducirlo a mano)
+ *                 otpauthUri:
+ *                   type: string
+ *                   description: URI otpauth:// (para mostrarla como código QR)
+ *       409:
+ *         description: La verificación en dos pasos ya está activada
+ */
+router.post('/2fa/setup', async (req: Request, res: Response) => {
+    try {
+        await setupTwoFactorCtrl(req, res);
+    } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+    }
+});
+
+/**
+ * @swagger
+ * /api/auth/2fa/enable:
+ *   post:
+ *     summary: Activa la verificación en dos pasos
+ *     description: Confirma el secreto con un código de la app. Devuelve los códigos de recuperación; solo se muestran esta vez.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorCodeInput'
+ *     responses:
+ *       200:
+ *         description: Verificación en dos pasos activada (devuelve recoveryCodes)
+ *       400:
+ *         description: Falta el código o no se ha iniciado la configuración
+ *       401:
+ *         description: Código incorrecto
+ */
+router.post('/2fa/enable', validate({ body: twoFactorCodeBody }), async (req: Request, res: Response) => {
+    try {
+        await enableTwoFactorCtrl(req, res);
+    } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+    }
+});
+
+/**
+ * @swagger
+ * /api/auth/2fa/disable:
+ *   post:
+ *     summary: Desactiva la verificación en dos pasos
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorDisableInput'
+ *     responses:
+ *       200:
+ *         description: Verificación en dos pasos desactivada
+ *       401:
+ *         description: Código incorrecto
+ *       403:
+ *         description: Contraseña incorrecta
+ */
+router.post('/2fa/disable', validate({ body: twoFactorDisableBody }), async (req: Request, res: Response) => {
+    try {
+        await disableTwoFactorCtrl(req, res);
+    } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+    }
+});
+
+/**
+ * @swagger
+ * /api/auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Genera códigos de recuperación nuevos
+ *     description: Los códigos anteriores dejan de funcionar. Requiere un código de la app de autenticación.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorCodeInput'
+ *     responses:
+ *       200:
+ *         description: Códigos de recuperación nuevos (recoveryCodes)
+ *       401:
+ *         description: Código incorrecto
+ */
+router.post('/2fa/recovery-codes', validate({ body: twoFactorCodeBody }), async (req: Request, res: Response) => {
+    try {
+        await regenerateRecoveryCodesCtrl(req, res);
+    } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+    }
+});
+
+/**
+ * @swagger
+ * /api/auth/2fa/verify:
+ *   post:
+ *     summary: Completa el inicio de sesión con el segundo factor
+ *     description: Cuando el login devuelve twoFactorRequired, se envía aquí el challengeToken (válido 5 minutos) junto con un código de la app o un código de recuperación. Cada código de recuperación solo se puede usar una vez.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorVerifyInput'
+ *     responses:
+ *       200:
+ *         description: Inicio de sesión completado (devuelve token, refreshToken y user)
+ *       401:
+ *         description: Código incorrecto o desafío caducado
+ *       429:
+ *         description: Demasiados intentos fallidos; la cabecera Retry-After indica los segundos de espera
+ */
+router.post('/2fa/verify', validate({ body: twoFactorVerifyBody }), loginProtection(req => {
+    const userId = getTwoFactorChallengeUserId(req.body?.challengeToken);
+    return userId ? `2fa:${userId}` : undefined;
+}), async (req: Request, res: Response) => {
+    try {
+        await verifyTwoFactorCtrl(req, res);
+    } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+    }
+});
+
 /**
  * @swagger
  * /api/auth/google:
@@ -218,14 +583,19 @@ router.get('/google', async (req: Request, res: Response) => {
  * /api/auth/google/callback:
  *   get:
  *     summary: Callback de Google OAuth
+ *     description: Busca la cuenta por el googleId vinculado y, si no hay ninguna, por el correo (verificado en Google y en la cuenta). Si no existe, la crea.
  *     tags: [Auth]
  *     responses:
  *       200:
  *         description: Autenticación exitosa, redirige al frontend con el token
  *       400:
  *         description: Error en la autenticación
+ *       403:
+ *         description: El correo de la cuenta de Google no está verificado
+ *       409:
+ *         description: Ya existe una cuenta con ese correo que no se puede vincular automáticamente (correo sin verificar o vinculada a otra cuenta de Google)
  */
-router.get('/google/callback', async (req: Request, res: Response) => {
+router.get('/google/callback', validate({ query: googleCallbackQuery }), async (req: Request, res: Response) => {
     try {
         await googleCallbackCtrl(req, res);
     } catch (error) {
@@ -233,6 +603,58 @@ router.get('/google/callback', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * @swagger
+ * /api/auth/google/link:
+ *   post:
+ *     summary: Vincula una cuenta de Google a la cuenta autenticada
+ *     description: Acepta un id_token de Google Sign-In o un código de autorización. Después se puede iniciar sesión con Google en esta cuenta.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/GoogleLinkInput'
+ *     responses:
+ *       200:
+ *         description: Cuenta de Google vinculada
+ *       400:
+ *         description: Falta idToken o code
+ *       401:
+ *         description: Credencial de Google inválida
+ *       409:
+ *         description: La cuenta de Google ya está vinculada a otro usuario, o la cuenta ya tiene otra cuenta de Google vinculada
+ *   delete:
+ *     summary: Desvincula la cuenta de Google
+ *     description: La cuenta sigue accesible con la contraseña; si no se conoce, se puede restablecer con /api/auth/password/forgot.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Cuenta de Google desvinculada
+ *       400:
+ *         description: La cuenta no está vinculada a Google
+ */
+router.post('/google/link', validate({ body: googleLinkBody }), async (req: Request, res: Response) => {
+    try {
+        await linkGoogleCtrl(req, res);
+    } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+    }
+});
+
+router.delete('/google/link', async (req: Request, res: Response) => {
+    try {
+        await unlinkGoogleCtrl(req, res);
+    } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+    }
+});
+
 export default router;
 
 function getUserByIdCtrl(req: express.Request<ParamsDictionary, any, any, ParsedQs, Record<string, any>>, res: express.Response<any, Record<string, any>>) {
@@ -1,5 +1,21 @@
 import express from 'express';
 import * as challengeController from '../controllers/challengeController';
+import * as challengeTemplateController from '../controllers/challengeTemplateController';
+import { checkRole } from '../middleware/session';
+import { checkChallengeOwner, checkSelf } from '../middleware/ownership';
+import { validate } from '../middleware/validate';
+import { idParams, paginationQuery, userIdParams } from '../schemas/common';
+import {
+    challengeCreateBody,
+    challengeDeleteParams,
+    challengeInviteBody,
+    challengeTemplateCreateBody,
+    challengeTemplateUpdateBody,
+    challengeUpdateBody,
+    friendChallengeCreateBody,
+    leaderboardQuery,
+    userChallengesQuery
+} from '../schemas/challengeSchemas';
 
 const router = express.Router();
 
@@ -12,8 +28,7 @@ const router = express.Router();
  *       required:
  *         - title
  *         - description
- *         - goalType
- *         - goalValue
+ *         - goal
  *         - reward
  *         - startDate
  *         - endDate
@@ -24,15 +39,28 @@ const router = express.Router();
  *         description:
  *           type: string
  *           description: La descripció del repte
- *         goalType:
- *           type: string
- *           description: El tipus d'objectiu a batre (distància, temps, velocitat)
- *         goalValue:
- *           type: string
- *           description: El valor numèric de l'objectiu a batre ("5 km", "10 min", "20 km/h")
+ *         goal:
+ *           type: object
+ *           description: Objectiu mesurable del repte
+ *           properties:
+ *             metric:
+ *               type: string
+ *               enum: [distance, duration, activity_count, elevation]
+ *               description: Què es mesura (distància i desnivell en metres, durada en segons)
+ *             target:
+ *               type: number
+ *               description: El valor a assolir
+ *             activityType:
+ *               type: string
+ *               enum: [running, cycling, hiking, walking, all]
+ *               description: Només compten les activitats d'aquest tipus
+ *             mode:
+ *               type: string
+ *               enum: [cumulative, single]
+ *               description: Suma de les activitats del període o millor activitat individual
  *         reward:
  *           type: number
- *           description: Els punts d'experiència que aporta completar el repte
+ *           description: Els punts que aporta completar el repte
  *         startDate:
  *           type: string
  *           format: date-time
@@ -41,14 +69,207 @@ const router = express.Router();
  *           type: string
  *           format: date-time
  *           description: El dia que acaba el repte
+ *         createdBy:
+ *           type: string
+ *           nullable: true
+ *           description: Creador del repte (null en els reptes globals)
+ *         visibility:
+ *           type: string
+ *           enum: [public, followers, private]
+ *           description: Qui pot veure el repte i inscriure-s'hi
+ *         invitations:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               userId:
+ *                 type: string
+ *               status:
+ *                 type: string
+ *                 enum: [pending, accepted, declined]
+ *               invitedAt:
+ *                 type: string
+ *                 format: date-time
+ *               respondedAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *         chatRoomId:
+ *           type: string
+ *           nullable: true
+ *           description: Xat de grup dels participants (reptes entre amics)
+ *         templateId:
+ *           type: string
+ *           nullable: true
+ *           description: Plantilla recurrent que ha generat el repte
+ *         closedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Quan el planificador el va tancar (a partir d'aquí el progrés no canvia)
+ *         results:
+ *           type: object
+ *           nullable: true
+ *           description: Resultats arxivats en tancar el repte
+ *           properties:
+ *             participants:
+ *               type: integer
+ *             completedCount:
+ *               type: integer
+ *             podium:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   userId:
+ *                     type: string
+ *                   rank:
+ *                     type: integer
+ *                   value:
+ *                     type: number
+ *                   completed:
+ *                     type: boolean
  *       example:
  *         title: "5K Run Challenge"
- *         description: "Completa una ruta de 5 quilòmetres"
- *         goalType: "distance"
- *         goalValue: "5 km"
+ *         description: "Corre 5 quilòmetres en una sola activitat"
+ *         goal:
+ *           metric: "distance"
+ *           target: 5000
+ *           activityType: "running"
+ *           mode: "single"
  *         reward: 100
  *         startDate: "2025-04-01T00:00:00Z"
  *         endDate: "2025-04-30T23:59:59Z"
+ *     ChallengeProgress:
+ *       type: object
+ *       properties:
+ *         challengeId:
+ *           type: string
+ *         joined:
+ *           type: boolean
+ *         metric:
+ *           type: string
+ *         mode:
+ *           type: string
+ *         activityType:
+ *           type: string
+ *         target:
+ *           type: number
+ *         progress:
+ *           type: number
+ *           description: Valor actual, en les unitats de l'objectiu
+ *         percentage:
+ *           type: number
+ *         remaining:
+ *           type: number
+ *         activityCount:
+ *           type: integer
+ *         completed:
+ *           type: boolean
+ *         completedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         joinedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *     ChallengeTemplate:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         title:
+ *           type: string
+ *           description: Títol base; cada període hi afegeix l'etiqueta (p. ex. "octubre 2026")
+ *         description:
+ *           type: string
+ *         goal:
+ *           type: object
+ *         reward:
+ *           type: number
+ *         recurrence:
+ *           type: string
+ *           enum: [weekly, monthly, seasonal]
+ *         active:
+ *           type: boolean
+ *         startsAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         endsAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         lastPeriodStart:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *     ChallengeLeaderboard:
+ *       type: object
+ *       properties:
+ *         challenge:
+ *           type: object
+ *           properties:
+ *             _id:
+ *               type: string
+ *             title:
+ *               type: string
+ *             metric:
+ *               type: string
+ *             mode:
+ *               type: string
+ *             activityType:
+ *               type: string
+ *             target:
+ *               type: number
+ *         scope:
+ *           type: string
+ *           enum: [global, following]
+ *         activityType:
+ *           type: string
+ *         rankings:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               rank:
+ *                 type: integer
+ *               user:
+ *                 type: object
+ *                 nullable: true
+ *                 description: null si el perfil és ocult
+ *                 properties:
+ *                   _id:
+ *                     type: string
+ *                   username:
+ *                     type: string
+ *                   profilePicture:
+ *                     type: string
+ *                     nullable: true
+ *               value:
+ *                 type: number
+ *                 description: Valor en les unitats de l'objectiu
+ *               activityCount:
+ *                 type: integer
+ *               completed:
+ *                 type: boolean
+ *               isMe:
+ *                 type: boolean
+ *         me:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             rank:
+ *               type: integer
+ *             value:
+ *               type: number
+ *         totalRanked:
+ *           type: integer
+ *         totalPages:
+ *           type: integer
+ *         currentPage:
+ *           type: integer
  */
 
 /**
@@ -62,24 +283,7 @@ const router = express.Router();
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             properties:
- *               title:
- *                 type: string
- *               description:
- *                 type: string
- *               goalType:
- *                 type: string
- *               goalValue:
- *                 type: string
- *               reward:
- *                 type: number
- *               startDate:
- *                 type: string
- *                 format: date
- *               endDate:
- *                 type: string
- *                 format: date
+ *             $ref: '#/components/schemas/ChallengeCreateInput'
  *     responses:
  *       201:
  *         description: Challenge creado con éxito
@@ -97,12 +301,9 @@ const router = express.Router();
  *                 description:
  *                   type: string
  *                   description: Descripción del challenge
- *                 goalType:
- *                   type: string
- *                   description: Tipo de objetivo
- *                 goalValue:
- *                   type: string
- *                   description: Objetivo del challenge
+ *                 goal:
+ *                   type: object
+ *                   description: Objetivo del challenge (metric, target, activityType, mode)
  *                 reward:
  *                   type: number
  *                   description: Recompensa del challenge
@@ -133,75 +334,7 @@ const router = express.Router();
  *                 message:
  *                   type: string
  */
-router.post('/', challengeController.createChallengeController);
-
-/**
- * @openapi
- * /api/challenges/{id}:
- *   get:
- *     summary: Get a challenge by its ID
- *     tags: [Challenges]
- *     parameters:
- *       - in: path
- *         name: id
- *         schema:
- *           type: string
- *         required: true
- *         description: ID del challenge a buscar
- *     responses:
- *       200:
- *         description: Challenge encontrado exitosamente
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 _id:
- *                   type: string
- *                   description: ID único del challenge
- *                 title:
- *                   type: string
- *                   description: Título del challenge
- *                 description:
- *                   type: string
- *                   description: Descripción del challenge
- *                 goalType:
- *                   type: string
- *                   description: Tipo de objetivo
- *                 goalValue:
- *                   type: string
- *                   description: Valor del objetivo
- *                 reward:
- *                   type: number
- *                   description: Recompensa del challenge
- *                 startDate:
- *                   type: string
- *                   format: date
- *                   description: Fecha de inicio
- *                 endDate:
- *                   type: string
- *                   format: date
- *                   description: Fecha de finalización
- *       404:
- *         description: Challenge no encontrado
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 message:
- *                   type: string
- *       500:
- *         description: Error interno del servidor
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 message:
- *                   type: string
- */
-router.get('/:id', challengeController.getChallengeByIdController);
+router.post('/', checkRole(['admin']), validate({ body: challengeCreateBody }), challengeController.createChallengeController);
 
 /**
  * @openapi
@@ -239,12 +372,9 @@ router.get('/:id', challengeController.getChallengeByIdController);
  *                 description:
  *                   type: string
  *                   description: Descripció del repte
- *                 goalType:
- *                   type: string
- *                   description: Tipus d'objectiu
- *                 goalValue:
- *                   type: string
- *                   description: Valor de l'objectiu
+ *                 goal:
+ *                   type: object
+ *                   description: Objetivo del challenge (metric, target, activityType, mode)
  *                 reward:
  *                   type: number
  *                   description: Recompensa del repte
@@ -268,7 +398,7 @@ router.get('/:id', challengeController.getChallengeByIdController);
  *                 message:
  *                   type: Error interno del servidor
  */
-router.get('/', challengeController.getChallengesController);
+router.get('/', validate({ query: paginationQuery }), challengeController.getChallengesController);
 
 /**
  * @openapi
@@ -302,12 +432,9 @@ router.get('/', challengeController.getChallengesController);
  *                       description:
  *                         type: string
  *                         description: Descripción del challenge
- *                       goalType:
- *                         type: string
- *                         description: Tipo de objetivo
- *                       goalValue:
- *                         type: string
- *                         description: Valor del objetivo
+ *                       goal:
+ *                         type: object
+ *                         description: Objetivo del challenge (metric, target, activityType, mode)
  *                       reward:
  *                         type: number
  *                         description: Recompensa del challenge
@@ -374,12 +501,9 @@ router.get('/active', challengeController.getActiveChallengesController);
  *                       description:
  *                         type: string
  *                         description: Descripción del challenge
- *                       goalType:
- *                         type: string
- *                         description: Tipo de objetivo
- *                       goalValue:
- *                         type: string
- *                         description: Valor del objetivo
+ *                       goal:
+ *                         type: object
+ *                         description: Objetivo del challenge (metric, target, activityType, mode)
  *                       reward:
  *                         type: number
  *                         description: Recompensa del challenge
@@ -391,6 +515,15 @@ router.get('/active', challengeController.getActiveChallengesController);
  *                         type: string
  *                         format: date
  *                         description: Fecha de finalización
+ *                       closedAt:
+ *                         type: string
+ *                         format: date-time
+ *                         nullable: true
+ *                         description: Cuándo lo cerró el planificador
+ *                       results:
+ *                         type: object
+ *                         nullable: true
+ *                         description: Resultados archivados (participants, completedCount, podium)
  *       404:
  *         description: No se encontraron challenges inactivos
  *         content:
@@ -416,92 +549,71 @@ router.get('/inactive', challengeController.getInactiveChallengesController);
 
 /**
  * @openapi
- * /api/challenges/{id}:
- *   put:
- *     summary: Update a challenge
+ * /api/challenges/friends:
+ *   post:
+ *     summary: Create a challenge between friends
+ *     description: Cualquier usuario puede crearlo. Solo se puede invitar a usuarios a los que se sigue, no da puntos y abre un chat de grupo para los participantes. El creador queda inscrito.
  *     tags: [Challenges]
- *     parameters:
- *       - in: path
- *         name: id
- *         schema:
- *           type: string
- *         required: true
- *         description: ID del challenge a actualizar
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             properties:
- *               title:
- *                 type: string
- *                 description: Nuevo título del challenge
- *               description:
- *                 type: string
- *                 description: Nueva descripción del challenge
- *               goalType:
- *                 type: string
- *                 description: Nuevo tipo de objetivo
- *               goalValue:
- *                 type: string
- *                 description: Nuevo valor del objetivo
- *               reward:
- *                 type: number
- *                 description: Nueva recompensa del challenge
- *               startDate:
- *                 type: string
- *                 format: date
- *                 description: Nueva fecha de inicio
- *               endDate:
- *                 type: string
- *                 format: date
- *                 description: Nueva fecha de finalización
+ *             $ref: '#/components/schemas/FriendChallengeCreateInput'
  *     responses:
- *       200:
- *         description: Challenge actualizado exitosamente
+ *       201:
+ *         description: Challenge creado
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
- *                 _id:
- *                   type: string
- *                   description: ID del challenge
- *                 title:
- *                   type: string
- *                   description: Título actualizado
- *                 description:
- *                   type: string
- *                   description: Descripción actualizada
- *                 goalType:
- *                   type: string
- *                   description: Tipo de objetivo actualizado
- *                 goalValue:
- *                   type: string
- *                   description: Valor del objetivo actualizado
- *                 reward:
- *                   type: number
- *                   description: Recompensa actualizada
- *                 startDate:
- *                   type: string
- *                   format: date
- *                   description: Fecha de inicio actualizada
- *                 endDate:
+ *                 message:
  *                   type: string
- *                   format: date
- *                   description: Fecha de finalización actualizada
- *       404:
- *         description: Challenge no encontrado
+ *                 challenge:
+ *                   $ref: '#/components/schemas/Challenge'
+ *       400:
+ *         description: Datos no válidos o invitados a los que no sigues
+ */
+router.post('/friends', validate({ body: friendChallengeCreateBody }), challengeController.createFriendChallengeController);
+
+/**
+ * @openapi
+ * /api/challenges/invitations:
+ *   get:
+ *     summary: Get the authenticated user's pending challenge invitations
+ *     tags: [Challenges]
+ *     responses:
+ *       200:
+ *         description: Retos con una invitación pendiente que aún no han terminado
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
- *                 message:
- *                   type: string
- *       500:
- *         description: Error interno del servidor
+ *                 challenges:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Challenge'
+ */
+router.get('/invitations', challengeController.getPendingInvitationsController);
+
+/**
+ * @openapi
+ * /api/challenges/templates:
+ *   post:
+ *     summary: Create a recurring challenge template (admin only)
+ *     description: El planificador crea un challenge por periodo (semana de lunes a domingo, mes natural o estación meteorológica, en UTC), cierra los terminados archivando sus resultados y avisa a los inscritos del periodo anterior. El challenge del periodo actual se genera al crear la plantilla.
+ *     tags: [Challenges]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ChallengeTemplateCreateInput'
+ *     responses:
+ *       201:
+ *         description: Plantilla creada
  *         content:
  *           application/json:
  *             schema:
@@ -509,47 +621,287 @@ router.get('/inactive', challengeController.getInactiveChallengesController);
  *               properties:
  *                 message:
  *                   type: string
+ *                 template:
+ *                   $ref: '#/components/schemas/ChallengeTemplate'
+ *                 challenge:
+ *                   nullable: true
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/Challenge'
+ *       400:
+ *         description: Datos no válidos
+ *   get:
+ *     summary: Get all challenge templates (admin only)
+ *     tags: [Challenges]
+ *     responses:
+ *       200:
+ *         description: Lista de plantillas
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 templates:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ChallengeTemplate'
  */
-router.put('/:id', challengeController.updateChallengeController);
+router.post('/templates', checkRole(['admin']), validate({ body: challengeTemplateCreateBody }), challengeTemplateController.createChallengeTemplateController);
+router.get('/templates', checkRole(['admin']), challengeTemplateController.getChallengeTemplatesController);
 
 /**
  * @openapi
- * /api/challenges/{id}:
- *   delete:
- *     summary: Delete a challenge
+ * /api/challenges/templates/{id}:
+ *   put:
+ *     summary: Update a challenge template (admin only)
+ *     description: Los cambios se aplican a los periodos que se generen a partir de ahora.
  *     tags: [Challenges]
  *     parameters:
  *       - in: path
  *         name: id
+ *         required: true
  *         schema:
  *           type: string
- *         required: true
- *         description: ID del challenge a eliminar
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ChallengeTemplateUpdateInput'
  *     responses:
  *       200:
- *         description: Challenge eliminado exitosamente
+ *         description: Plantilla actualizada
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 message:
- *                   type: string
- *                   description: Mensaje de confirmación
- *                   example: "Challenge eliminado exitosamente"
+ *               $ref: '#/components/schemas/ChallengeTemplate'
+ *       400:
+ *         description: Datos no válidos
  *       404:
- *         description: Challenge no encontrado
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 message:
- *                   type: string
- *                   example: "No se encontró el challenge"
- *       500:
- *         description: Error interno del servidor
- *         content:
+ *         description: Plantilla no encontrada
+ *   delete:
+ *     summary: Delete a challenge template (admin only)
+ *     description: Los challenges ya generados se conservan.
+ *     tags: [Challenges]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Plantilla eliminada
+ *       404:
+ *         description: Plantilla no encontrada
+ */
+router.put('/templates/:id', checkRole(['admin']), validate({ params: idParams, body: challengeTemplateUpdateBody }), challengeTemplateController.updateChallengeTemplateController);
+router.delete('/templates/:id', checkRole(['admin']), validate({ params: idParams }), challengeTemplateController.deleteChallengeTemplateController);
+
+/**
+ * @openapi
+ * /api/challenges/templates/{id}/instances:
+ *   get:
+ *     summary: Get the challenges generated by a template, with archived results (admin only)
+ *     tags: [Challenges]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Plantilla y sus challenges, del más reciente al más antiguo
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 template:
+ *                   $ref: '#/components/schemas/ChallengeTemplate'
+ *                 challenges:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Challenge'
+ *       404:
+ *         description: Plantilla no encontrada
+ */
+router.get('/templates/:id/instances', checkRole(['admin']), validate({ params: idParams }), challengeTemplateController.getTemplateInstancesController);
+
+/**
+ * @openapi
+ * /api/challenges/{id}:
+ *   get:
+ *     summary: Get a challenge by its ID
+ *     tags: [Challenges]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: ID del challenge a buscar
+ *     responses:
+ *       200:
+ *         description: Challenge encontrado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 _id:
+ *                   type: string
+ *                   description: ID único del challenge
+ *                 title:
+ *                   type: string
+ *                   description: Título del challenge
+ *                 description:
+ *                   type: string
+ *                   description: Descripción del challenge
+ *                 goal:
+ *                   type: object
+ *                   description: Objetivo del challenge (metric, target, activityType, mode)
+ *                 reward:
+ *                   type: number
+ *                   description: Recompensa del challenge
+ *                 startDate:
+ *                   type: string
+ *                   format: date
+ *                   description: Fecha de inicio
+ *                 endDate:
+ *                   type: string
+ *                   format: date
+ *                   description: Fecha de finalización
+ *       404:
+ *         description: Challenge no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *       500:
+ *         description: Error interno del servidor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ */
+router.get('/:id', validate({ params: idParams }), challengeController.getChallengeByIdController);
+
+/**
+ * @openapi
+ * /api/challenges/{id}:
+ *   put:
+ *     summary: Update a challenge
+ *     tags: [Challenges]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: ID del challenge a actualizar
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ChallengeUpdateInput'
+ *     responses:
+ *       200:
+ *         description: Challenge actualizado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 _id:
+ *                   type: string
+ *                   description: ID del challenge
+ *                 title:
+ *                   type: string
+ *                   description: Título actualizado
+ *                 description:
+ *                   type: string
+ *                   description: Descripción actualizada
+ *                 goal:
+ *                   type: object
+ *                   description: Objetivo del challenge (metric, target, activityType, mode)
+ *                 reward:
+ *                   type: number
+ *                   description: Recompensa actualizada
+ *                 startDate:
+ *                   type: string
+ *                   format: date
+ *                   description: Fecha de inicio actualizada
+ *                 endDate:
+ *                   type: string
+ *                   format: date
+ *                   description: Fecha de finalización actualizada
+ *       404:
+ *         description: Challenge no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *       500:
+ *         description: Error interno del servidor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ */
+router.put('/:id', checkRole(['admin']), validate({ params: idParams, body: challengeUpdateBody }), challengeController.updateChallengeController);
+
+/**
+ * @openapi
+ * /api/challenges/delete/{challengeId}:
+ *   delete:
+ *     summary: Delete a challenge
+ *     tags: [Challenges]
+ *     parameters:
+ *       - in: path
+ *         name: challengeId
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: ID del challenge a eliminar
+ *     responses:
+ *       200:
+ *         description: Challenge eliminado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   description: Mensaje de confirmación
+ *                   example: "Challenge eliminado exitosamente"
+ *       404:
+ *         description: Challenge no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: "No se encontró el challenge"
+ *       500:
+ *         description: Error interno del servidor
+ *         content:
  *           application/json:
  *             schema:
  *               type: object
@@ -558,6 +910,287 @@ router.put('/:id', challengeController.updateChallengeController);
  *                   type: string
  *                   example: "Error al eliminar el challenge"
  */
-router.delete('/delete/:challengeId', challengeController.deleteChallengeController);
+router.delete('/delete/:challengeId', checkRole(['admin']), validate({ params: challengeDeleteParams }), challengeController.deleteChallengeController);
+
+/**
+ * @openapi
+ * /api/challenges/{id}/join:
+ *   post:
+ *     summary: Join a challenge
+ *     description: El progrés inclou les activitats ja fetes dins del període del repte. En assolir l'objectiu es reben els punts de la recompensa i una notificació challenge_completed.
+ *     tags: [Challenges]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       201:
+ *         description: Inscripción realizada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 progress:
+ *                   $ref: '#/components/schemas/ChallengeProgress'
+ *       400:
+ *         description: El challenge ya ha finalizado o no tiene un objetivo medible
+ *       404:
+ *         description: Challenge no encontrado
+ *       409:
+ *         description: Ya inscrito
+ *   delete:
+ *     summary: Leave a challenge
+ *     tags: [Challenges]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Inscripción eliminada
+ *       400:
+ *         description: El challenge ya está completado
+ *       404:
+ *         description: No inscrito en el challenge
+ */
+router.post('/:id/join', validate({ params: idParams }), challengeController.joinChallengeController);
+router.delete('/:id/join', validate({ params: idParams }), challengeController.leaveChallengeController);
+
+/**
+ * @openapi
+ * /api/challenges/{id}/invitations:
+ *   post:
+ *     summary: Invite more users to a challenge between friends
+ *     description: Solo el creador. Quien había rechazado la invitación vuelve a quedar pendiente.
+ *     tags: [Challenges]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ChallengeInviteInput'
+ *     responses:
+ *       200:
+ *         description: Invitaciones enviadas
+ *       400:
+ *         description: Datos no válidos o invitados a los que no sigues
+ *       403:
+ *         description: Solo el creador puede invitar
+ *       404:
+ *         description: Challenge no encontrado
+ */
+router.post('/:id/invitations', validate({ params: idParams, body: challengeInviteBody }), checkChallengeOwner(), challengeController.inviteToChallengeController);
+
+/**
+ * @openapi
+ * /api/challenges/{id}/invitations/accept:
+ *   post:
+ *     summary: Accept a challenge invitation
+ *     description: Inscribe al usuario en el reto y lo añade a su chat de grupo.
+ *     tags: [Challenges]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitación aceptada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 progress:
+ *                   $ref: '#/components/schemas/ChallengeProgress'
+ *       400:
+ *         description: El challenge ya ha finalizado
+ *       404:
+ *         description: No hay ninguna invitación pendiente
+ */
+router.post('/:id/invitations/accept', validate({ params: idParams }), challengeController.acceptInvitationController);
+
+/**
+ * @openapi
+ * /api/challenges/{id}/invitations/decline:
+ *   post:
+ *     summary: Decline a challenge invitation
+ *     tags: [Challenges]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitación rechazada
+ *       404:
+ *         description: No hay ninguna invitación pendiente
+ */
+router.post('/:id/invitations/decline', validate({ params: idParams }), challengeController.declineInvitationController);
+
+/**
+ * @openapi
+ * /api/challenges/{id}/progress:
+ *   get:
+ *     summary: Get the authenticated user's progress in a challenge
+ *     tags: [Challenges]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Progreso del usuario (joined false si no está inscrito)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ChallengeProgress'
+ *       400:
+ *         description: El challenge no tiene un objetivo medible
+ *       404:
+ *         description: Challenge no encontrado
+ */
+router.get('/:id/progress', validate({ params: idParams }), challengeController.getChallengeProgressController);
+
+/**
+ * @openapi
+ * /api/challenges/{id}/leaderboard:
+ *   get:
+ *     summary: Get the ranking of all participants in a challenge
+ *     description: Solo aparecen los participantes con alguna actividad que cuenta. Los cambios de posición se notifican por Socket.IO con el evento challenge_rank_changed.
+ *     tags: [Challenges]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: activityType
+ *         schema:
+ *           type: string
+ *           enum: [running, cycling, hiking, walking, all]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Clasificación paginada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ChallengeLeaderboard'
+ *       400:
+ *         description: El challenge no tiene un objetivo medible
+ *       404:
+ *         description: Challenge no encontrado
+ */
+router.get('/:id/leaderboard', validate({ params: idParams, query: leaderboardQuery }), challengeController.getChallengeLeaderboardController);
+
+/**
+ * @openapi
+ * /api/challenges/{id}/leaderboard/following:
+ *   get:
+ *     summary: Get the ranking among the authenticated user and the people they follow
+ *     tags: [Challenges]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: activityType
+ *         schema:
+ *           type: string
+ *           enum: [running, cycling, hiking, walking, all]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Clasificación paginada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ChallengeLeaderboard'
+ *       400:
+ *         description: El challenge no tiene un objetivo medible
+ *       404:
+ *         description: Challenge no encontrado
+ */
+router.get('/:id/leaderboard/following', validate({ params: idParams, query: leaderboardQuery }), challengeController.getChallengeFollowingLeaderboardController);
+
+/**
+ * @openapi
+ * /api/challenges/user/{userId}:
+ *   get:
+ *     summary: Get the challenges a user has joined, with progress
+ *     tags: [Challenges]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, completed, all]
+ *           default: all
+ *     responses:
+ *       200:
+ *         description: Challenges del usuario
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 challenges:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       challenge:
+ *                         $ref: '#/components/schemas/Challenge'
+ *                       progress:
+ *                         $ref: '#/components/schemas/ChallengeProgress'
+ */
+router.get('/user/:userId', validate({ params: userIdParams, query: userChallengesQuery }), checkSelf(), challengeController.getUserChallengesController);
 
 export default router;
\ No newline at end of file
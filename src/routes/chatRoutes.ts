@@ -2,6 +2,11 @@ import express from 'express';
 import { Router } from 'express';
 import * as chatController from '../controllers/chatController';
 import { uploadGroupPictureCloudinary } from '../middleware/cloudinaryGroupUpload';
+import { checkBodyOwner, checkChatParticipant, checkSelf } from '../middleware/ownership';
+import { checkVerifiedEmail } from '../middleware/session';
+import { validate } from '../middleware/validate';
+import { idParams, userIdParams } from '../schemas/common';
+import { chatMessageBody, chatMessagesQuery, chatReadBody, chatRoomCreateBody, chatRoomIdParams } from '../schemas/chatSchemas';
 
 
 const router: Router = express.Router();
@@ -42,7 +47,7 @@ const router: Router = express.Router();
  *       content:
  *         application/json:
  *           schema:
- *             $ref: '#/components/schemas/ChatRoom'
+ *             $ref: '#/components/schemas/ChatRoomCreateInput'
  *     responses:
  *       201:
  *         description: Chat room created successfully
@@ -51,7 +56,7 @@ const router: Router = express.Router();
  *       500:
  *         description: Server error
  */
-router.post('/rooms', async (req, res) => {
+router.post('/rooms', validate({ body: chatRoomCreateBody }), checkVerifiedEmail('social'), async (req, res) => {
   await chatController.createChatRoomController(req, res);
 });
 
@@ -75,7 +80,7 @@ router.post('/rooms', async (req, res) => {
  *       500:
  *         description: Server error
  */
-router.get('/rooms/user/:userId', async (req, res) => {
+router.get('/rooms/user/:userId', validate({ params: userIdParams }), checkSelf(), async (req, res) => {
   await chatController.getChatRoomsForUserController(req, res);
 });
 
@@ -99,7 +104,7 @@ router.get('/rooms/user/:userId', async (req, res) => {
  *       500:
  *         description: Server error
  */
-router.get('/rooms/:id', async (req, res) => {
+router.get('/rooms/:id', validate({ params: idParams }), checkChatParticipant(), async (req, res) => {
   await chatController.getChatRoomByIdController(req, res);
 });
 
@@ -133,7 +138,7 @@ router.get('/rooms/:id', async (req, res) => {
  *       500:
  *         description: Server error
  */
-router.get('/messages/:roomId', async (req, res) => {
+router.get('/messages/:roomId', validate({ params: chatRoomIdParams, query: chatMessagesQuery }), checkChatParticipant('roomId'), async (req, res) => {
   await chatController.getMessagesForRoomController(req, res);
 });
 
@@ -148,18 +153,7 @@ router.get('/messages/:roomId', async (req, res) => {
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - roomId
- *               - senderId
- *               - content
- *             properties:
- *               roomId:
- *                 type: string
- *               senderId:
- *                 type: string
- *               content:
- *                 type: string
+ *             $ref: '#/components/schemas/ChatMessageInput'
  *     responses:
  *       201:
  *         description: Message sent successfully
@@ -168,7 +162,7 @@ router.get('/messages/:roomId', async (req, res) => {
  *       500:
  *         description: Server error
  */
-router.post('/messages', async (req, res) => {
+router.post('/messages', validate({ body: chatMessageBody }), checkVerifiedEmail('social'), checkChatParticipant(), checkBodyOwner('senderId'), async (req, res) => {
   await chatController.sendMessageController(req, res);
 });
 
@@ -183,15 +177,7 @@ router.post('/messages', async (req, res) => {
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - roomId
- *               - userId
- *             properties:
- *               roomId:
- *                 type: string
- *               userId:
- *                 type: string
+ *             $ref: '#/components/schemas/ChatReadInput'
  *     responses:
  *       200:
  *         description: Messages marked as read
@@ -200,7 +186,7 @@ router.post('/messages', async (req, res) => {
  *       500:
  *         description: Server error
  */
-router.post('/messages/read', async (req, res) => {
+router.post('/messages/read', validate({ body: chatReadBody }), checkChatParticipant(), checkBodyOwner('userId'), async (req, res) => {
   await chatController.markMessagesAsReadController(req, res);
 });
 
@@ -252,6 +238,8 @@ router.post('/messages/read', async (req, res) => {
  */
 router.patch(
   '/rooms/:id/group-picture',
+  validate({ params: idParams }),
+  checkChatParticipant(),
   uploadGroupPictureCloudinary.single('groupPicture'),
   async (req, res): Promise<void> => {
     try {
@@ -304,7 +292,7 @@ router.patch(
  *       500:
  *         description: Server error
  */
-router.delete('/rooms/:id', async (req, res) => {
+router.delete('/rooms/:id', validate({ params: idParams }), checkChatParticipant(), async (req, res) => {
   await chatController.deleteChatRoomController(req, res);
 });
 
@@ -328,7 +316,7 @@ router.delete('/rooms/:id', async (req, res) => {
  *       500:
  *         description: Server error
  */
-router.get('/unread/:userId', async (req, res) => {
+router.get('/unread/:userId', validate({ params: userIdParams }), checkSelf(), async (req, res) => {
   await chatController.getUnreadMessagesCountController(req, res);
 });
 
@@ -1,6 +1,17 @@
 // src/routes/notificationRoutes.ts
 import { Router } from 'express';
 import * as notificationController from '../controllers/notificationController';
+import { checkRole } from '../middleware/session';
+import { checkBodyOwner, checkNotificationOwner, checkSelf } from '../middleware/ownership';
+import { validate } from '../middleware/validate';
+import { userIdParams } from '../schemas/common';
+import {
+    notificationCleanupQuery,
+    notificationCreateBody,
+    notificationIdParams,
+    notificationOwnerBody,
+    userNotificationsQuery
+} from '../schemas/notificationSchemas';
 
 const router = Router();
 
@@ -56,7 +67,7 @@ const router = Router();
  *                         type: string
  *                       type:
  *                         type: string
- *                         enum: [new_follower, achievement_unlocked, challenge_completed, activity_update, chat_message, friend_request, system]
+ *                         enum: [new_follower, achievement_unlocked, challenge_completed, challenge_started, activity_update, chat_message, friend_request, friend_request_accepted, safety_alert, system]
  *                       title:
  *                         type: string
  *                       message:
@@ -84,7 +95,7 @@ const router = Router();
  *       500:
  *         description: Server error
  */
-router.get('/:userId', notificationController.getUserNotificationsController);
+router.get('/:userId', validate({ params: userIdParams, query: userNotificationsQuery }), checkSelf(), notificationController.getUserNotificationsController);
 
 /**
  * @openapi
@@ -100,17 +111,10 @@ router.get('/:userId', notificationController.getUserNotificationsController);
  *           type: string
  *         description: Notification ID
  *     requestBody:
- *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - userId
- *             properties:
- *               userId:
- *                 type: string
- *                 description: ID of the user who owns the notification
+ *             $ref: '#/components/schemas/NotificationOwnerInput'
  *     responses:
  *       200:
  *         description: Notification marked as read successfully
@@ -130,7 +134,7 @@ router.get('/:userId', notificationController.getUserNotificationsController);
  *       500:
  *         description: Server error
  */
-router.put('/:notificationId/read', notificationController.markNotificationAsReadController);
+router.put('/:notificationId/read', validate({ params: notificationIdParams, body: notificationOwnerBody }), checkNotificationOwner(), checkBodyOwner('userId'), notificationController.markNotificationAsReadController);
 
 /**
  * @openapi
@@ -163,7 +167,39 @@ router.put('/:notificationId/read', notificationController.markNotificationAsRea
  *       500:
  *         description: Server error
  */
-router.put('/:userId/read-all', notificationController.markAllNotificationsAsReadController);
+router.put('/:userId/read-all', validate({ params: userIdParams }), checkSelf(), notificationController.markAllNotificationsAsReadController);
+
+/**
+ * @openapi
+ * /api/notifications/cleanup:
+ *   delete:
+ *     summary: Clean up old read notifications
+ *     tags: [Notifications]
+ *     parameters:
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           default: 30
+ *         description: Number of days old for notifications to be deleted
+ *     responses:
+ *       200:
+ *         description: Old notifications cleaned up successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 deletedCount:
+ *                   type: integer
+ *       400:
+ *         description: Invalid days parameter
+ *       500:
+ *         description: Server error
+ */
+router.delete('/cleanup', checkRole(['admin']), validate({ query: notificationCleanupQuery }), notificationController.cleanupOldNotificationsController);
 
 /**
  * @openapi
@@ -179,17 +215,10 @@ router.put('/:userId/read-all', notificationController.markAllNotificationsAsRea
  *           type: string
  *         description: Notification ID
  *     requestBody:
- *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - userId
- *             properties:
- *               userId:
- *                 type: string
- *                 description: ID of the user who owns the notification
+ *             $ref: '#/components/schemas/NotificationOwnerInput'
  *     responses:
  *       200:
  *         description: Notification deleted successfully
@@ -200,7 +229,7 @@ router.put('/:userId/read-all', notificationController.markAllNotificationsAsRea
  *       500:
  *         description: Server error
  */
-router.delete('/:notificationId', notificationController.deleteNotificationController);
+router.delete('/:notificationId', validate({ params: notificationIdParams, body: notificationOwnerBody }), checkNotificationOwner(), checkBodyOwner('userId'), notificationController.deleteNotificationController);
 
 /**
  * @openapi
@@ -232,7 +261,7 @@ router.delete('/:notificationId', notificationController.deleteNotificationContr
  *       500:
  *         description: Server error
  */
-router.get('/:userId/unread-count', notificationController.getUnreadCountController);
+router.get('/:userId/unread-count', validate({ params: userIdParams }), checkSelf(), notificationController.getUnreadCountController);
 
 /**
  * @openapi
@@ -273,7 +302,7 @@ router.get('/:userId/unread-count', notificationController.getUnreadCountControl
  *       500:
  *         description: Server error
  */
-router.get('/:userId/stats', notificationController.getNotificationStatsController);
+router.get('/:userId/stats', validate({ params: userIdParams }), checkSelf(), notificationController.getNotificationStatsController);
 
 /**
  * @openapi
@@ -286,25 +315,7 @@ router.get('/:userId/stats', notificationController.getNotificationStatsControll
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - userId
- *               - type
- *               - title
- *               - message
- *             properties:
- *               userId:
- *                 type: string
- *               type:
- *                 type: string
- *                 enum: [new_follower, achievement_unlocked, challenge_completed, activity_update, chat_message, friend_request, system]
- *               title:
- *                 type: string
- *               message:
- *                 type: string
- *               data:
- *                 type: object
- *                 description: Additional data for the notification
+ *             $ref: '#/components/schemas/NotificationCreateInput'
  *     responses:
  *       201:
  *         description: Test notification created successfully
@@ -322,38 +333,6 @@ router.get('/:userId/stats', notificationController.getNotificationStatsControll
  *       500:
  *         description: Server error
  */
-router.post('/test', notificationController.createTestNotificationController);
-
-/**
- * @openapi
- * /api/notifications/cleanup:
- *   delete:
- *     summary: Clean up old read notifications
- *     tags: [Notifications]
- *     parameters:
- *       - in: query
- *         name: days
- *         schema:
- *           type: integer
- *           default: 30
- *         description: Number of days old for notifications to be deleted
- *     responses:
- *       200:
- *         description: Old notifications cleaned up successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 message:
- *                   type: string
- *                 deletedCount:
- *                   type: integer
- *       400:
- *         description: Invalid days parameter
- *       500:
- *         description: Server error
- */
-router.delete('/cleanup', notificationController.cleanupOldNotificationsController);
+router.post('/test', checkRole(['admin']), validate({ body: notificationCreateBody }), notificationController.createTestNotificationController);
 
 export default router;
@@ -1,5 +1,9 @@
 import express from 'express';
 import * as referencePointController from '../controllers/referencePointController';
+import { checkReferencePointOwner } from '../middleware/ownership';
+import { validate } from '../middleware/validate';
+import { idParams } from '../schemas/common';
+import { referencePointCreateBody, referencePointUpdateBody } from '../schemas/referencePointSchemas';
 
 const router = express.Router();
 
@@ -45,25 +49,14 @@ const router = express.Router();
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - latitude
- *               - longitude
- *               - altitude
- *             properties:
- *               latitude:
- *                 type: number
- *               longitude:
- *                 type: number
- *               altitude:
- *                 type: number
+ *             $ref: '#/components/schemas/ReferencePointCreateInput'
  *     responses:
  *       201:
  *         description: Reference point created successfully
  *       500:
  *         description: Error creating reference point
  */
-router.post('/', referencePointController.addReferencePointController);
+router.post('/', validate({ body: referencePointCreateBody }), referencePointController.addReferencePointController);
 
 
 /**
@@ -87,7 +80,7 @@ router.post('/', referencePointController.addReferencePointController);
  *       500:
  *         description: Error fetching reference point
  */
-router.get('/:id', referencePointController.getReferencePointByIdController);
+router.get('/:id', validate({ params: idParams }), referencePointController.getReferencePointByIdController);
 
 /**
  * @openapi
@@ -107,14 +100,7 @@ router.get('/:id', referencePointController.getReferencePointByIdController);
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             properties:
- *               latitude:
- *                 type: number
- *               longitude:
- *                 type: number
- *               altitude:
- *                 type: number
+ *             $ref: '#/components/schemas/ReferencePointUpdateInput'
  *     responses:
  *       200:
  *         description: Reference point updated successfully
@@ -123,7 +109,7 @@ router.get('/:id', referencePointController.getReferencePointByIdController);
  *       500:
  *         description: Error updating reference point
  */
-router.put('/:id', referencePointController.updateReferencePointController);
+router.put('/:id', validate({ params: idParams, body: referencePointUpdateBody }), checkReferencePointOwner(), referencePointController.updateReferencePointController);
 
 /**
  * @openapi
@@ -146,6 +132,6 @@ router.put('/:id', referencePointController.updateReferencePointController);
  *       500:
  *         description: Error deleting reference point
  */
-router.delete('/:id', referencePointController.deleteReferencePointController);
+router.delete('/:id', validate({ params: idParams }), checkReferencePointOwner(), referencePointController.deleteReferencePointController);
 
 export default router;
@@ -1,5 +1,9 @@
 import express from 'express';
 import * as songController from '../controllers/songController';
+import { checkRole } from '../middleware/session';
+import { validate } from '../middleware/validate';
+import { idParams, paginationQuery } from '../schemas/common';
+import { songArtistParams, songBpmParams, songCreateBody, songGenreParams, songNameParams, songUpdateBody } from '../schemas/songSchemas';
 
 const router = express.Router();
 
@@ -57,26 +61,7 @@ const router = express.Router();
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - title
- *               - artist
- *               - album
- *             properties:
- *               title:
- *                 type: string
- *               artist:
- *                 type: string
- *               album:
- *                 type: string
- *               genre:
- *                 type: string
- *               duration:
- *                type: number
- *               spotifyLink:
- *                type: string
- *               bpm:
- *                type: number
+ *             $ref: '#/components/schemas/SongCreateInput'
  *     responses:
  *       201:
  *         description: Canción creada exitosamente
@@ -85,7 +70,7 @@ const router = express.Router();
  *       500:
  *        description: Error del servidor
  */
-router.post('/', songController.createSongHandler);
+router.post('/', checkRole(['admin']), validate({ body: songCreateBody }), songController.createSongHandler);
 
 /**
  * @openapi
@@ -114,7 +99,7 @@ router.post('/', songController.createSongHandler);
  *       500:
  *        description: Error del servidor
  */
-router.get('/', songController.getSongsHandler);
+router.get('/', validate({ query: paginationQuery }), songController.getSongsHandler);
 
 /**
  * @openapi
@@ -137,7 +122,7 @@ router.get('/', songController.getSongsHandler);
  *       500:
  *         description: Error del servidor
  */
-router.get('/:id', songController.getSongByIdHandler);
+router.get('/:id', validate({ params: idParams }), songController.getSongByIdHandler);
 
 /**
  * @openapi
@@ -160,7 +145,7 @@ router.get('/:id', songController.getSongByIdHandler);
  *       500:
  *         description: Error del servidor
  */
-router.get('/name/:name', songController.getSongByNameHandler);
+router.get('/name/:name', validate({ params: songNameParams }), songController.getSongByNameHandler);
 
 /**
  * @openapi
@@ -183,7 +168,7 @@ router.get('/name/:name', songController.getSongByNameHandler);
  *       500:
  *         description: Error del servidor
  */
-router.get('/artist/:artist', songController.getSongsByArtistHandler);
+router.get('/artist/:artist', validate({ params: songArtistParams }), songController.getSongsByArtistHandler);
 
 /**
  * @openapi
@@ -206,7 +191,7 @@ router.get('/artist/:artist', songController.getSongsByArtistHandler);
  *       500:
  *         description: Error del servidor
  */
-router.get('/genre/:genre', songController.getSongsByGenreHandler);
+router.get('/genre/:genre', validate({ params: songGenreParams }), songController.getSongsByGenreHandler);
 
 /**
  * @openapi
@@ -229,7 +214,7 @@ router.get('/genre/:genre', songController.getSongsByGenreHandler);
  *       500:
  *         description: Error del servidor
  */
-router.get('/bpm/:bpm', songController.getSimilarBPMHandler);
+router.get('/bpm/:bpm', validate({ params: songBpmParams }), songController.getSimilarBPMHandler);
 
 /**
  * @openapi
@@ -248,22 +233,7 @@ router.get('/bpm/:bpm', songController.getSimilarBPMHandler);
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             properties:
- *                 title:
- *                   type: string
- *                 artist:
- *                   type: string
- *                 album:
- *                   type: string
- *                 genre:
- *                   type: string
- *                 duration:
- *                   type: number
- *                 spotifyLink:
- *                   type: string
- *                 bpm:
- *                   type: number
+ *             $ref: '#/components/schemas/SongUpdateInput'
  *     responses:
  *       200:
  *         description: Canción actualizada exitosamente
@@ -272,7 +242,7 @@ router.get('/bpm/:bpm', songController.getSimilarBPMHandler);
  *       500:
  *         description: Error del servidor
  */
-router.put('/:id', songController.updateSongHandler);
+router.put('/:id', checkRole(['admin']), validate({ params: idParams, body: songUpdateBody }), songController.updateSongHandler);
 
 /**
  * @openapi
@@ -295,6 +265,6 @@ router.put('/:id', songController.updateSongHandler);
  *       500:
  *         description: Error del servidor
  */
-router.delete('/:id', songController.deleteSongHandler);
+router.delete('/:id', checkRole(['admin']), validate({ params: idParams }), songController.deleteSongHandler);
 
 export default router;
\ No newline at end of file
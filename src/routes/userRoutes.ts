@@ -1,6 +1,22 @@
 import { Router } from 'express';
 import * as userController from '../controllers/userController';
 import { uploadProfilePictureCloudinary } from '../middleware/cloudinaryUpload';
+import { checkRole, checkVerifiedEmail } from '../middleware/session';
+import { checkSelf } from '../middleware/ownership';
+import { loginProtection } from '../middleware/rateLimit';
+import { validate } from '../middleware/validate';
+import { idParams, userIdParams, userTargetParams } from '../schemas/common';
+import {
+  userSearchQuery,
+  userListQuery,
+  userCreateBody,
+  userLoginBody,
+  userUpdateBody,
+  userLimitQuery,
+  searchToFollowQuery,
+  fcmTokenBody,
+  testNotificationBody
+} from '../schemas/userSchemas';
 
 const router = Router();
 
@@ -27,7 +43,7 @@ const router = Router();
  *       500:
  *         description: Error interno del servidor
  */
-router.get('/search', userController.searchUsers);
+router.get('/search', validate({ query: userSearchQuery }), userController.searchUsers);
 /**
  * @openapi
  * /api/users:
@@ -61,7 +77,50 @@ router.get('/search', userController.searchUsers);
  *       500:
  *         description: Error fetching users
  */
-router.get('/', userController.getUsers);
+router.get('/', validate({ query: userListQuery }), userController.getUsers);
+
+/**
+ * @openapi
+ * /api/users/fcm-stats:
+ *   get:
+ *     summary: Obtener estadísticas de FCM tokens (Admin)
+ *     tags: [Users]
+ *     responses:
+ *       200:
+ *         description: Estadísticas obtenidas correctamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     totalUsers:
+ *                       type: number
+ *                       example: 150
+ *                       description: Total de usuarios registrados
+ *                     usersWithTokens:
+ *                       type: number
+ *                       example: 120
+ *                       description: Usuarios con FCM token configurado
+ *                     percentage:
+ *                       type: string
+ *                       example: "80.00"
+ *                       description: Porcentaje de adopción de notificaciones
+ *                     retrievedAt:
+ *                       type: string
+ *                       format: date-time
+ *                     description:
+ *                       type: string
+ *                       example: "Estadísticas básicas de FCM tokens"
+ *       500:
+ *         description: Error interno del servidor
+ */
+router.get('/fcm-stats', checkRole(['admin']), userController.getFcmTokenStats);
 
 /**
  * @openapi
@@ -84,7 +143,7 @@ router.get('/', userController.getUsers);
  *       500:
  *         description: Error fetching user
  */
-router.get('/:id', userController.getUserById);
+router.get('/:id', validate({ params: idParams }), userController.getUserById);
 
 /**
  * @openapi
@@ -97,26 +156,7 @@ router.get('/:id', userController.getUserById);
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - username
- *               - email
- *               - password
- *             properties:
- *               username:
- *                 type: string
- *               email:
- *                 type: string
- *               password:
- *                 type: string
- *               profilePicture:
- *                 type: string
- *               bio:
- *                 type: string
- *               role:
- *                 type: string
- *                 enum: [user, admin]
- *                 description: Rol del usuario (por defecto 'user')
+ *             $ref: '#/components/schemas/UserCreateInput'
  *     responses:
  *       201:
  *         description: User created successfully
@@ -125,7 +165,7 @@ router.get('/:id', userController.getUserById);
  *       500:
  *         description: Error creating user
  */
-router.post('/', userController.createUser);
+router.post('/', checkRole(['admin']), validate({ body: userCreateBody }), userController.createUser);
 
 /**
  * @openapi
@@ -138,24 +178,18 @@ router.post('/', userController.createUser);
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - username
- *               - password
- *             properties:
- *               username:
- *                 type: string
- *               password:
- *                 type: string
+ *             $ref: '#/components/schemas/UserLoginInput'
  *     responses:
  *       200:
  *         description: Login successful
  *       401:
  *         description: Invalid credentials
+ *       429:
+ *         description: Too many failed attempts (see the Retry-After header)
  *       500:
  *         description: Error logging in
  */
-router.post('/login', userController.loginUser);
+router.post('/login', validate({ body: userLoginBody }), loginProtection('username'), userController.loginUser);
 
 
 
@@ -177,22 +211,7 @@ router.post('/login', userController.loginUser);
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             properties:
- *               username:
- *                 type: string
- *               email:
- *                 type: string
- *               password:
- *                 type: string
- *               profilePicture:
- *                 type: string
- *               bio:
- *                 type: string
- *               role:
- *                 type: string
- *                 enum: [user, admin]
- *                 description: Rol del usuario (user o admin)
+ *             $ref: '#/components/schemas/UserUpdateInput'
  *     responses:
  *       200:
  *         description: User updated successfully
@@ -201,7 +220,7 @@ router.post('/login', userController.loginUser);
  *       500:
  *         description: Error updating user
  */
-router.put('/:id', userController.updateUser);
+router.put('/:id', validate({ params: idParams, body: userUpdateBody }), checkSelf('id'), userController.updateUser);
 
 /**
  * @openapi
@@ -224,7 +243,7 @@ router.put('/:id', userController.updateUser);
  *       500:
  *         description: Error deleting user
  */
-router.delete('/:id', userController.deleteUser);
+router.delete('/:id', validate({ params: idParams }), checkSelf('id'), userController.deleteUser);
 
 /**
  * @openapi
@@ -247,7 +266,7 @@ router.delete('/:id', userController.deleteUser);
  *       500:
  *         description: Error toggling user visibility
  */
-router.put('/:id/toggle-visibility', userController.toggleUserVisibility);
+router.put('/:id/toggle-visibility', validate({ params: idParams }), checkSelf('id'), userController.toggleUserVisibility);
 
 // =============================
 // RUTAS DE PERFIL Y CLOUDINARY
@@ -288,6 +307,8 @@ router.put('/:id/toggle-visibility', userController.toggleUserVisibility);
  *         description: Error uploading profile picture
  */
 router.post('/:userId/profile-picture', 
+  validate({ params: userIdParams }),
+  checkSelf(),
   uploadProfilePictureCloudinary.single('profilePicture'), 
   userController.uploadProfilePictureCloudinary
 );
@@ -315,7 +336,7 @@ router.post('/:userId/profile-picture',
  *       500:
  *         description: Error deleting profile picture
  */
-router.delete('/:userId/profile-picture', userController.deleteProfilePictureCloudinary);
+router.delete('/:userId/profile-picture', validate({ params: userIdParams }), checkSelf(), userController.deleteProfilePictureCloudinary);
 
 // =============================
 // SISTEMA DE SEGUIMIENTO COMPLETO
@@ -364,7 +385,7 @@ router.delete('/:userId/profile-picture', userController.deleteProfilePictureClo
  *       500:
  *         description: Error fetching user followers
  */
-router.get('/:id/followers', userController.getUserFollowersController);
+router.get('/:id/followers', validate({ params: idParams }), userController.getUserFollowersController);
 
 /**
  * @openapi
@@ -409,7 +430,7 @@ router.get('/:id/followers', userController.getUserFollowersController);
  *       500:
  *         description: Error fetching user following
  */
-router.get('/:id/following', userController.getUserFollowingController);
+router.get('/:id/following', validate({ params: idParams }), userController.getUserFollowingController);
 
 /**
  * @openapi
@@ -449,7 +470,7 @@ router.get('/:id/following', userController.getUserFollowingController);
  *       500:
  *         description: Error following user
  */
-router.post('/:userId/follow/:targetUserId', userController.followUserController);
+router.post('/:userId/follow/:targetUserId', validate({ params: userTargetParams }), checkSelf(), checkVerifiedEmail('social'), userController.followUserController);
 
 /**
  * @openapi
@@ -489,7 +510,7 @@ router.post('/:userId/follow/:targetUserId', userController.followUserController
  *       500:
  *         description: Error unfollowing user
  */
-router.post('/:userId/unfollow/:targetUserId', userController.unfollowUserController);
+router.post('/:userId/unfollow/:targetUserId', validate({ params: userTargetParams }), checkSelf(), userController.unfollowUserController);
 
 /**
  * @openapi
@@ -535,7 +556,7 @@ router.post('/:userId/unfollow/:targetUserId', userController.unfollowUserContro
  *       500:
  *         description: Error checking follow status
  */
-router.get('/:userId/follow-status/:targetUserId', userController.checkFollowStatusController);
+router.get('/:userId/follow-status/:targetUserId', validate({ params: userTargetParams }), userController.checkFollowStatusController);
 
 /**
  * @openapi
@@ -581,7 +602,7 @@ router.get('/:userId/follow-status/:targetUserId', userController.checkFollowSta
  *       500:
  *         description: Error getting user follow stats
  */
-router.get('/:id/follow-stats', userController.getUserFollowStatsController);
+router.get('/:id/follow-stats', validate({ params: idParams }), userController.getUserFollowStatsController);
 
 /**
  * @openapi
@@ -634,7 +655,7 @@ router.get('/:id/follow-stats', userController.getUserFollowStatsController);
  *       500:
  *         description: Error getting suggested users
  */
-router.get('/:id/suggested', userController.getSuggestedUsersController);
+router.get('/:id/suggested', validate({ params: idParams, query: userLimitQuery }), checkSelf('id'), userController.getSuggestedUsersController);
 
 /**
  * @openapi
@@ -699,7 +720,7 @@ router.get('/:id/suggested', userController.getSuggestedUsersController);
  *       500:
  *         description: Error searching users to follow
  */
-router.get('/:userId/search-to-follow', userController.searchUsersToFollowController);
+router.get('/:userId/search-to-follow', validate({ params: userIdParams, query: searchToFollowQuery }), checkSelf(), userController.searchUsersToFollowController);
 
 // ========================
 // RUTAS DE COMPATIBILIDAD
@@ -736,7 +757,7 @@ router.get('/:userId/search-to-follow', userController.searchUsersToFollowContro
  *       500:
  *         description: Error starting to follow user
  */
-router.put('/followers/:userId/:targetUserId', userController.startFollowingUserController);
+router.put('/followers/:userId/:targetUserId', validate({ params: userTargetParams }), checkSelf(), checkVerifiedEmail('social'), userController.startFollowingUserController);
 
 /**
  * @openapi
@@ -761,7 +782,7 @@ router.put('/followers/:userId/:targetUserId', userController.startFollowingUser
  *       500:
  *         description: Error fetching user followers
  */
-router.get('/followers/:id', userController.getUserFollowersController);
+router.get('/followers/:id', validate({ params: idParams }), userController.getUserFollowersController);
 
 /**
  * @openapi
@@ -781,19 +802,7 @@ router.get('/followers/:id', userController.getUserFollowersController);
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - fcmToken
- *             properties:
- *               fcmToken:
- *                 type: string
- *                 description: Token FCM del dispositivo
- *                 example: "c-gvd79xZPnXGGXmB7aAip:APA91bE..."
- *               platform:
- *                 type: string
- *                 enum: [web, android, ios]
- *                 default: web
- *                 description: Plataforma del dispositivo
+ *             $ref: '#/components/schemas/FcmTokenInput'
  *     responses:
  *       200:
  *         description: FCM token actualizado correctamente
@@ -825,7 +834,7 @@ router.get('/followers/:id', userController.getUserFollowersController);
  *       500:
  *         description: Error interno del servidor
  */
-router.post('/:userId/fcm-token', userController.updateFcmToken);
+router.post('/:userId/fcm-token', validate({ params: userIdParams, body: fcmTokenBody }), checkSelf(), userController.updateFcmToken);
 
 /**
  * @openapi
@@ -845,16 +854,7 @@ router.post('/:userId/fcm-token', userController.updateFcmToken);
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             properties:
- *               title:
- *                 type: string
- *                 default: "Notificación de prueba"
- *                 description: Título de la notificación
- *               message:
- *                 type: string
- *                 default: "Esta es una prueba desde el backend"
- *                 description: Mensaje de la notificación
+ *             $ref: '#/components/schemas/TestNotificationInput'
  *     responses:
  *       200:
  *         description: Notificación enviada correctamente
@@ -888,49 +888,7 @@ router.post('/:userId/fcm-token', userController.updateFcmToken);
  *       500:
  *         description: Error enviando notificación
  */
-router.post('/:userId/test-notification', userController.sendTestNotification);
+router.post('/:userId/test-notification', validate({ params: userIdParams, body: testNotificationBody }), checkSelf(), userController.sendTestNotification);
 
-/**
- * @openapi
- * /api/users/fcm-stats:
- *   get:
- *     summary: Obtener estadísticas de FCM tokens (Admin)
- *     tags: [Users]
- *     responses:
- *       200:
- *         description: Estadísticas obtenidas correctamente
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   example: true
- *                 data:
- *                   type: object
- *                   properties:
- *                     totalUsers:
- *                       type: number
- *                       example: 150
- *                       description: Total de usuarios registrados
- *                     usersWithTokens:
- *                       type: number
- *                       example: 120
- *                       description: Usuarios con FCM token configurado
- *                     percentage:
- *                       type: string
- *                       example: "80.00"
- *                       description: Porcentaje de adopción de notificaciones
- *                     retrievedAt:
- *                       type: string
- *                       format: date-time
- *                     description:
- *                       type: string
- *                       example: "Estadísticas básicas de FCM tokens"
- *       500:
- *         description: Error interno del servidor
- */
-router.get('/fcm-stats', userController.getFcmTokenStats);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,26 @@
+import { v } from '../utils/schema.handle';
+import { activityTypes } from './common';
+
+export const achievementTypes = ['distance_total', 'distance_single', 'time_total', 'time_single', 'time_monthly', 'time_yearly', 'activity_count', 'consecutive_days', 'speed_average', 'elevation_gain'] as const;
+export const achievementDifficulties = ['bronze', 'silver', 'gold', 'diamond'] as const;
+
+// Los usuarios que lo han desbloqueado los gestiona el servidor: no se aceptan en el body
+const achievementFields = {
+    title: v.string({ trim: true, minLength: 1, maxLength: 120 }),
+    description: v.string({ trim: true, minLength: 1, maxLength: 500 }),
+    condition: v.string({ trim: true, minLength: 1, maxLength: 200, description: 'Condición para desbloquear el logro' }),
+    icon: v.string({ trim: true, minLength: 1, maxLength: 500, description: 'URL o nombre del icono' }),
+    type: v.string({ enum: achievementTypes }),
+    targetValue: v.number({ min: 0, description: 'Valor que hay que alcanzar para desbloquear el logro' }),
+    activityType: v.optional(v.string({ enum: [...activityTypes, 'all'], description: 'Por defecto, all' })),
+    difficulty: v.string({ enum: achievementDifficulties }),
+    points: v.optional(v.integer({ min: 0, description: 'Por defecto, 10' }))
+};
+
+export const achievementCreateBody = v.object(achievementFields);
+
+export const achievementUpdateBody = v.partial(v.object(achievementFields));
+
+export const nextMilestonesQuery = v.object({
+    limit: v.optional(v.integer({ min: 1, max: 10, description: 'Por defecto, 3' }))
+});
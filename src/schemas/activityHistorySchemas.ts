@@ -0,0 +1,16 @@
+import { v } from '../utils/schema.handle';
+
+const changeType = () => v.string({ enum: ['create', 'update', 'delete'] });
+
+export const activityHistoryParams = v.object({ activityId: v.objectId() });
+
+// La consulta solo admite filtros por igualdad sobre estos campos
+export const activityHistorySearchBody = v.object({
+    query: v.optional(v.object({
+        activityId: v.optional(v.objectId()),
+        userId: v.optional(v.objectId()),
+        changeType: v.optional(changeType())
+    })),
+    userId: v.optional(v.objectId()),
+    changeType: v.optional(changeType())
+});
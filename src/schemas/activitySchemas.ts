@@ -0,0 +1,36 @@
+import { v } from '../utils/schema.handle';
+import { activityTypes } from './common';
+
+const activityFields = {
+    name: v.string({ trim: true, minLength: 1, maxLength: 120 }),
+    startTime: v.date(),
+    endTime: v.date(),
+    duration: v.number({ min: 0 }),
+    distance: v.number({ min: 0, description: 'Distancia en metros' }),
+    elevationGain: v.number({ min: 0 }),
+    averageSpeed: v.number({ min: 0 }),
+    caloriesBurned: v.optional(v.number({ min: 0 })),
+    route: v.array(v.objectId(), { maxItems: 100000, description: 'IDs de los puntos de referencia de la ruta' }),
+    musicPlaylist: v.optional(v.array(v.objectId(), { maxItems: 500 })),
+    type: v.string({ enum: activityTypes })
+};
+
+// El autor se completa con el usuario autenticado si no se envía (checkBodyOwner)
+export const activityCreateBody = v.object({
+    author: v.optional(v.objectId({ description: 'ID del usuario que crea la actividad' })),
+    ...activityFields
+});
+
+// El autor, la sesión de tracking de origen y los parciales no se pueden cambiar
+export const activityUpdateBody = v.partial(v.object(activityFields));
+
+export const activityImportBody = v.object({
+    author: v.optional(v.objectId({ description: 'ID del usuario propietario de la actividad' })),
+    name: v.optional(v.string({ trim: true, minLength: 1, maxLength: 120, description: 'Por defecto, el nombre guardado en el archivo' })),
+    type: v.optional(v.string({ enum: activityTypes, description: 'Sustituye el deporte guardado en el archivo' }))
+});
+
+export const activityExportParams = v.object({
+    id: v.objectId(),
+    format: v.string({ pattern: /^(gpx|tcx)$/i, description: 'gpx o tcx' })
+});
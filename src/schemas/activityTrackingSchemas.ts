@@ -0,0 +1,55 @@
+import { v } from '../utils/schema.handle';
+import { activityTypes } from './common';
+import { MAX_BATCH_SIZE } from '../services/activityTrackingService';
+
+export const trackingParams = v.object({ trackingId: v.objectId() });
+export const liveShareParams = v.object({ trackingId: v.objectId(), token: v.string({ pattern: /^[0-9a-f]{48}$/ }) });
+export const liveSnapshotParams = v.object({ token: v.string({ pattern: /^[0-9a-f]{48}$/ }) });
+
+// El usuario se completa con el autenticado si no se envía (checkBodyOwner)
+export const trackingStartBody = v.object({
+    userId: v.optional(v.objectId()),
+    activityType: v.string({ enum: activityTypes }),
+    autoPause: v.optional(v.boolean({ description: 'Pausar automáticamente cuando el usuario se detiene' }))
+});
+
+const locationFields = {
+    latitude: v.number({ min: -90, max: 90 }),
+    longitude: v.number({ min: -180, max: 180 }),
+    altitude: v.optional(v.number()),
+    speed: v.optional(v.number({ min: 0 })),
+    accuracy: v.optional(v.number({ min: 0, description: 'Precisión del GPS en metros' }))
+};
+
+export const trackingLocationBody = v.object(locationFields);
+
+export const trackingLocationBatchBody = v.object({
+    points: v.array(
+        v.object({ ...locationFields, timestamp: v.date({ description: 'Hora del dispositivo en que se registró el punto' }) }),
+        { minItems: 1, maxItems: MAX_BATCH_SIZE }
+    ),
+    batchId: v.optional(v.string({ maxLength: 100, description: 'Identificador del lote para reintentos idempotentes' }))
+});
+
+export const trackingAutoPauseBody = v.object({ enabled: v.boolean() });
+
+export const trackingFinishBody = v.object({
+    name: v.optional(v.string({ trim: true, minLength: 1, maxLength: 120, description: 'Nombre de la actividad resultante' }))
+});
+
+export const liveShareCreateBody = v.object({
+    expiresInMinutes: v.optional(v.integer({ min: 1 })),
+    notifyFollowers: v.optional(v.boolean())
+});
+
+// Los límites de contactos y de minutos sin señal los comprueba el servicio con sus propios mensajes
+export const safetyBeaconBody = v.object({
+    enabled: v.optional(v.boolean({ description: 'false para desactivar la baliza' })),
+    contacts: v.optional(v.array(v.objectId(), { description: 'IDs de los usuarios de confianza' })),
+    expectedFinishTime: v.optional(v.nullable(v.date({ description: 'Hora prevista de llegada (null para quitarla)' }))),
+    noSignalMinutes: v.optional(v.number({ description: 'Minutos sin ubicaciones antes de alertar' }))
+});
+
+export const safetyCheckInBody = v.object({
+    expectedFinishTime: v.optional(v.date({ description: 'Nueva hora prevista de llegada' }))
+});
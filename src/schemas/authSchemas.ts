@@ -0,0 +1,68 @@
+import { v } from '../utils/schema.handle';
+import { newPassword } from './common';
+
+const email = () => v.string({ trim: true, format: 'email', maxLength: 254 });
+const deviceName = () => v.optional(v.string({ maxLength: 100, description: 'Nombre del dispositivo para identificar la sesión' }));
+const totpCode = () => v.string({ pattern: /^\d{6}$/, description: 'Código de 6 dígitos de la app de autenticación', example: '123456' });
+const recoveryCode = () => v.string({ maxLength: 20, description: 'Código de recuperación', example: 'a1b2c-3d4e5' });
+
+export const registerBody = v.object({
+    username: v.string({ trim: true, minLength: 1, maxLength: 50 }),
+    email: email(),
+    password: newPassword(),
+    deviceName: deviceName()
+}, { example: { username: 'Usuario Ejemplo', password: 'contraseña123', email: 'usuario@example.com' } });
+
+// Sin longitud mínima: las cuentas antiguas pueden tener contraseñas más cortas
+export const loginBody = v.object({
+    email: email(),
+    password: v.string({ minLength: 1, maxLength: 128 }),
+    deviceName: deviceName()
+}, { example: { email: 'usuario@ejemplo.com', password: 'contraseña123' } });
+
+// El refresh token también puede llegar en la cookie
+export const refreshBody = v.object({
+    refreshToken: v.optional(v.string({ maxLength: 2048, description: 'El token de refresco (si no se envía en la cookie)' })),
+    deviceName: deviceName()
+}, { example: { refreshToken: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' } });
+
+export const revokeAllSessionsQuery = v.object({
+    exceptCurrent: v.optional(v.string({ enum: ['true', 'false'], description: 'Conservar la sesión del dispositivo actual' }))
+});
+
+export const sessionIdParams = v.object({ sessionId: v.objectId() });
+
+export const emailBody = v.object({ email: email() });
+
+export const accountTokenBody = v.object({
+    token: v.string({ minLength: 1, maxLength: 200, description: 'Token recibido por correo' })
+});
+
+export const resetPasswordBody = v.object({
+    token: v.string({ minLength: 1, maxLength: 200, description: 'Token recibido por correo' }),
+    password: newPassword()
+});
+
+export const twoFactorCodeBody = v.object({ code: totpCode() });
+
+export const twoFactorDisableBody = v.object({
+    password: v.string({ minLength: 1, maxLength: 128 }),
+    code: v.optional(totpCode()),
+    recoveryCode: v.optional(recoveryCode())
+});
+
+export const twoFactorVerifyBody = v.object({
+    challengeToken: v.string({ minLength: 1, maxLength: 2048, description: 'Token de desafío devuelto por el login (válido 5 minutos)' }),
+    code: v.optional(totpCode()),
+    recoveryCode: v.optional(recoveryCode()),
+    deviceName: deviceName()
+});
+
+export const googleCallbackQuery = v.object({
+    code: v.string({ minLength: 1, maxLength: 2048 })
+});
+
+export const googleLinkBody = v.object({
+    idToken: v.optional(v.string({ maxLength: 4096, description: 'id_token de Google emitido para nuestro GOOGLE_CLIENT_ID' })),
+    code: v.optional(v.string({ maxLength: 2048, description: 'Código de autorización de Google (alternativa a idToken)' }))
+});
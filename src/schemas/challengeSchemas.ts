@@ -0,0 +1,70 @@
+import { v } from '../utils/schema.handle';
+import { activityTypes, paginationQuery } from './common';
+import { CHALLENGE_GOAL_METRICS, CHALLENGE_GOAL_MODES, CHALLENGE_VISIBILITIES } from '../models/challenge';
+import { CHALLENGE_RECURRENCES } from '../models/challengeTemplate';
+
+export const MAX_CHALLENGE_INVITEES = 50;
+
+// Unidades: distancia y desnivel en metros, duración en segundos
+export const challengeGoalSchema = v.object({
+    metric: v.string({ enum: CHALLENGE_GOAL_METRICS, description: 'distance (m), duration (s), activity_count o elevation (m)' }),
+    target: v.number({ min: 1, description: 'Valor que hay que alcanzar, en las unidades de la métrica' }),
+    activityType: v.optional(v.string({ enum: [...activityTypes, 'all'], description: 'Solo cuentan las actividades de este tipo (por defecto, all)' })),
+    mode: v.optional(v.string({ enum: CHALLENGE_GOAL_MODES, description: 'cumulative: suma del periodo; single: mejor actividad (por defecto, cumulative)' }))
+});
+
+const challengeFields = {
+    title: v.string({ trim: true, minLength: 1, maxLength: 120 }),
+    description: v.string({ trim: true, minLength: 1, maxLength: 1000 }),
+    goal: challengeGoalSchema,
+    reward: v.number({ min: 0, description: 'Puntos que recibe quien completa el reto' }),
+    startDate: v.date(),
+    endDate: v.date()
+};
+
+export const challengeCreateBody = v.object(challengeFields);
+
+export const challengeUpdateBody = v.partial(v.object(challengeFields));
+
+export const challengeDeleteParams = v.object({ challengeId: v.objectId() });
+
+export const userChallengesQuery = v.object({
+    status: v.optional(v.string({ enum: ['active', 'completed', 'all'], description: 'Por defecto, all' }))
+});
+
+export const leaderboardQuery = v.extend(paginationQuery, {
+    activityType: v.optional(v.string({ enum: [...activityTypes, 'all'], description: 'Clasificación solo con las actividades de este tipo (por defecto, el del objetivo)' }))
+});
+
+const invitees = (minItems = 0) => v.array(v.objectId(), { minItems, maxItems: MAX_CHALLENGE_INVITEES, description: 'Usuarios a los que sigue el creador' });
+
+// Retos entre amigos: sin recompensa (la fija el servidor a 0)
+export const friendChallengeCreateBody = v.object({
+    title: challengeFields.title,
+    description: challengeFields.description,
+    goal: challengeGoalSchema,
+    startDate: v.date(),
+    endDate: v.date(),
+    visibility: v.optional(v.string({ enum: CHALLENGE_VISIBILITIES, description: 'private: solo invitados; followers: seguidores del creador; public: todos (por defecto, private)' })),
+    invitees: v.optional(invitees())
+});
+
+export const challengeInviteBody = v.object({
+    invitees: invitees(1)
+});
+
+// Plantillas de retos recurrentes (periodos en UTC: semana de lunes a domingo, mes natural o estación)
+const challengeTemplateFields = {
+    title: challengeFields.title,
+    description: challengeFields.description,
+    goal: challengeGoalSchema,
+    reward: challengeFields.reward,
+    recurrence: v.string({ enum: CHALLENGE_RECURRENCES, description: 'weekly, monthly o seasonal (estaciones meteorológicas)' }),
+    active: v.optional(v.boolean()),
+    startsAt: v.optional(v.date({ description: 'No se generan periodos que empiecen antes de esta fecha' })),
+    endsAt: v.optional(v.date({ description: 'Ni periodos que empiecen después de esta' }))
+};
+
+export const challengeTemplateCreateBody = v.object(challengeTemplateFields);
+
+export const challengeTemplateUpdateBody = v.partial(v.object(challengeTemplateFields));
@@ -0,0 +1,29 @@
+import { v } from '../utils/schema.handle';
+
+export const chatRoomIdParams = v.object({ roomId: v.objectId() });
+
+// El creador debe figurar entre los participantes (lo comprueba el controlador)
+export const chatRoomCreateBody = v.object({
+    name: v.string({ trim: true, minLength: 1, maxLength: 100 }),
+    participants: v.array(v.objectId(), { minItems: 2, maxItems: 100, description: 'IDs de los participantes, incluido el creador' }),
+    description: v.optional(v.string({ trim: true, maxLength: 500 })),
+    isGroup: v.optional(v.boolean()),
+    groupPictureUrl: v.optional(v.string({ format: 'uri', description: 'URL de la imagen del grupo' }))
+});
+
+export const chatMessagesQuery = v.object({
+    limit: v.optional(v.integer({ min: 1, max: 100 })),
+    before: v.optional(v.date({ description: 'Solo mensajes anteriores a esta fecha' }))
+});
+
+// El remitente se completa con el usuario autenticado si no se envía (checkBodyOwner)
+export const chatMessageBody = v.object({
+    roomId: v.objectId(),
+    senderId: v.optional(v.objectId()),
+    content: v.string({ trim: true, minLength: 1, maxLength: 5000 })
+});
+
+export const chatReadBody = v.object({
+    roomId: v.objectId(),
+    userId: v.optional(v.objectId())
+});
@@ -0,0 +1,17 @@
+import { v } from '../utils/schema.handle';
+
+// Parámetros de ruta que se repiten en varios routers
+export const idParams = v.object({ id: v.objectId() });
+export const userIdParams = v.object({ userId: v.objectId() });
+export const userTargetParams = v.object({ userId: v.objectId(), targetUserId: v.objectId() });
+
+// Paginación (los controladores aplican sus propios valores por defecto)
+export const paginationQuery = v.object({
+    page: v.optional(v.integer({ min: 1 })),
+    limit: v.optional(v.integer({ min: 1, max: 100 }))
+});
+
+export const activityTypes = ['running', 'cycling', 'hiking', 'walking'] as const;
+
+// Contraseña nueva: mismo mínimo que el restablecimiento por correo
+export const newPassword = () => v.string({ minLength: 8, maxLength: 128 });
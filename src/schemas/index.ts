@@ -0,0 +1,97 @@
+import { toOpenApiSchema } from '../utils/schema.handle';
+import {
+    accountTokenBody,
+    emailBody,
+    googleLinkBody,
+    loginBody,
+    refreshBody,
+    registerBody,
+    resetPasswordBody,
+    twoFactorCodeBody,
+    twoFactorDisableBody,
+    twoFactorVerifyBody
+} from './authSchemas';
+import { fcmTokenBody, testNotificationBody, userCreateBody, userLoginBody, userUpdateBody } from './userSchemas';
+import { activityCreateBody, activityUpdateBody } from './activitySchemas';
+import { activityHistorySearchBody } from './activityHistorySchemas';
+import {
+    liveShareCreateBody,
+    safetyBeaconBody,
+    safetyCheckInBody,
+    trackingAutoPauseBody,
+    trackingFinishBody,
+    trackingLocationBatchBody,
+    trackingLocationBody,
+    trackingStartBody
+} from './activityTrackingSchemas';
+import { achievementCreateBody, achievementUpdateBody } from './achievementSchemas';
+import {
+    challengeCreateBody,
+    challengeInviteBody,
+    challengeTemplateCreateBody,
+    challengeTemplateUpdateBody,
+    challengeUpdateBody,
+    friendChallengeCreateBody
+} from './challengeSchemas';
+import { chatMessageBody, chatReadBody, chatRoomCreateBody } from './chatSchemas';
+import { notificationCreateBody, notificationOwnerBody } from './notificationSchemas';
+import { referencePointCreateBody, referencePointUpdateBody } from './referencePointSchemas';
+import { songCreateBody, songUpdateBody } from './songSchemas';
+
+// Esquemas de entrada que las rutas referencian con $ref: '#/components/schemas/<nombre>'.
+// Se generan a partir de los mismos esquemas que usa validate(), así la documentación no se desfasa
+const inputSchemas = {
+    AuthRegister: registerBody,
+    AuthLogin: loginBody,
+    RefreshToken: refreshBody,
+    EmailInput: emailBody,
+    AccountTokenInput: accountTokenBody,
+    ResetPasswordInput: resetPasswordBody,
+    TwoFactorCodeInput: twoFactorCodeBody,
+    TwoFactorDisableInput: twoFactorDisableBody,
+    TwoFactorVerifyInput: twoFactorVerifyBody,
+    GoogleLinkInput: googleLinkBody,
+
+    UserCreateInput: userCreateBody,
+    UserLoginInput: userLoginBody,
+    UserUpdateInput: userUpdateBody,
+    FcmTokenInput: fcmTokenBody,
+    TestNotificationInput: testNotificationBody,
+
+    ActivityCreateInput: activityCreateBody,
+    ActivityUpdateInput: activityUpdateBody,
+    ActivityHistorySearchInput: activityHistorySearchBody,
+
+    TrackingStartInput: trackingStartBody,
+    TrackingLocationInput: trackingLocationBody,
+    TrackingLocationBatchInput: trackingLocationBatchBody,
+    TrackingAutoPauseInput: trackingAutoPauseBody,
+    TrackingFinishInput: trackingFinishBody,
+    LiveShareCreateInput: liveShareCreateBody,
+    SafetyBeaconInput: safetyBeaconBody,
+    SafetyCheckInInput: safetyCheckInBody,
+
+    AchievementCreateInput: achievementCreateBody,
+    AchievementUpdateInput: achievementUpdateBody,
+    ChallengeCreateInput: challengeCreateBody,
+    ChallengeUpdateInput: challengeUpdateBody,
+    FriendChallengeCreateInput: friendChallengeCreateBody,
+    ChallengeInviteInput: challengeInviteBody,
+    ChallengeTemplateCreateInput: challengeTemplateCreateBody,
+    ChallengeTemplateUpdateInput: challengeTemplateUpdateBody,
+
+    ChatRoomCreateInput: chatRoomCreateBody,
+    ChatMessageInput: chatMessageBody,
+    ChatReadInput: chatReadBody,
+    NotificationCreateInput: notificationCreateBody,
+    NotificationOwnerInput: notificationOwnerBody,
+
+    ReferencePointCreateInput: referencePointCreateBody,
+    ReferencePointUpdateInput: referencePointUpdateBody,
+    SongCreateInput: songCreateBody,
+    SongUpdateInput: songUpdateBody
+};
+
+export const openApiSchemas: { [name: string]: { [key: string]: unknown } } = Object.fromEntries(
+    Object.entries(inputSchemas).map(([name, schema]) => [name, toOpenApiSchema(schema)])
+);
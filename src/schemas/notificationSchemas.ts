@@ -0,0 +1,27 @@
+import { v } from '../utils/schema.handle';
+import { paginationQuery } from './common';
+
+export const notificationTypes = ['new_follower', 'achievement_unlocked', 'challenge_completed', 'challenge_started', 'activity_update', 'chat_message', 'friend_request', 'friend_request_accepted', 'safety_alert', 'system'] as const;
+
+export const notificationIdParams = v.object({ notificationId: v.objectId() });
+
+export const userNotificationsQuery = v.extend(paginationQuery, {
+    unread: v.optional(v.string({ enum: ['true', 'false'], description: 'true para obtener solo las no leídas' }))
+});
+
+// El propietario se completa con el usuario autenticado si no se envía (checkBodyOwner)
+export const notificationOwnerBody = v.object({
+    userId: v.optional(v.objectId({ description: 'ID del propietario de la notificación (por defecto, el usuario autenticado)' }))
+});
+
+export const notificationCleanupQuery = v.object({
+    days: v.optional(v.integer({ min: 1, max: 365, description: 'Antigüedad mínima en días (por defecto 30)' }))
+});
+
+export const notificationCreateBody = v.object({
+    userId: v.objectId(),
+    type: v.string({ enum: notificationTypes }),
+    title: v.string({ minLength: 1, maxLength: 100 }),
+    message: v.string({ minLength: 1, maxLength: 500 }),
+    data: v.optional(v.any({ description: 'Datos adicionales para el cliente' }))
+});
@@ -0,0 +1,12 @@
+import { v } from '../utils/schema.handle';
+
+const referencePointFields = {
+    name: v.optional(v.string({ trim: true, maxLength: 120 })),
+    latitude: v.number({ min: -90, max: 90 }),
+    longitude: v.number({ min: -180, max: 180 }),
+    altitude: v.number({ description: 'Altura sobre el nivel del mar en metros' })
+};
+
+export const referencePointCreateBody = v.object(referencePointFields);
+
+export const referencePointUpdateBody = v.partial(v.object(referencePointFields));
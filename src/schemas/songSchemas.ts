@@ -0,0 +1,20 @@
+import { v } from '../utils/schema.handle';
+
+const songFields = {
+    title: v.string({ trim: true, minLength: 1, maxLength: 200 }),
+    artist: v.string({ trim: true, minLength: 1, maxLength: 200 }),
+    album: v.string({ trim: true, minLength: 1, maxLength: 200 }),
+    genre: v.optional(v.string({ trim: true, maxLength: 100 })),
+    duration: v.optional(v.number({ min: 0, description: 'Duración en segundos' })),
+    spotifyLink: v.optional(v.string({ format: 'uri' })),
+    bpm: v.optional(v.number({ min: 0, max: 400 }))
+};
+
+export const songCreateBody = v.object(songFields);
+
+export const songUpdateBody = v.partial(v.object(songFields));
+
+export const songNameParams = v.object({ name: v.string({ minLength: 1, maxLength: 200 }) });
+export const songArtistParams = v.object({ artist: v.string({ minLength: 1, maxLength: 200 }) });
+export const songGenreParams = v.object({ genre: v.string({ minLength: 1, maxLength: 100 }) });
+export const songBpmParams = v.object({ bpm: v.number({ min: 0, max: 400 }) });
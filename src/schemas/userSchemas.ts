@@ -0,0 +1,68 @@
+import { v } from '../utils/schema.handle';
+import { newPassword } from './common';
+
+const username = () => v.string({ trim: true, minLength: 1, maxLength: 50 });
+
+export const userSearchQuery = v.object({
+    search: v.string({ trim: true, minLength: 2, maxLength: 100 })
+});
+
+export const userListQuery = v.object({
+    page: v.optional(v.integer({ min: 1 })),
+    limit: v.optional(v.integer({ min: 1, max: 100 })),
+    includeInvisible: v.optional(v.boolean())
+});
+
+export const userCreateBody = v.object({
+    username: username(),
+    email: v.string({ trim: true, format: 'email', maxLength: 254 }),
+    password: newPassword(),
+    bio: v.optional(v.nullable(v.string({ maxLength: 500 }))),
+    role: v.optional(v.string({ enum: ['user', 'admin'], description: "Rol del usuario (por defecto 'user')" }))
+});
+
+export const userLoginBody = v.object({
+    username: v.string({ minLength: 1, maxLength: 50 }),
+    password: v.string({ minLength: 1, maxLength: 128 })
+});
+
+// Campos que cada usuario puede cambiar de su perfil. El rol y las estadísticas solo los cambia un administrador
+export const userUpdateBody = v.object({
+    username: v.optional(username()),
+    email: v.optional(v.string({ trim: true, format: 'email', maxLength: 254 })),
+    bio: v.optional(v.nullable(v.string({ maxLength: 500 }))),
+    profilePicture: v.optional(v.nullable(v.string({ format: 'uri', maxLength: 500 }))),
+    visibility: v.optional(v.boolean()),
+    password: v.optional(newPassword()),
+    currentPassword: v.optional(v.string({ maxLength: 128, description: 'Contraseña actual (obligatoria para cambiar la contraseña)' })),
+    notificationSettings: v.optional(v.object({
+        friendRequests: v.optional(v.boolean()),
+        activityUpdates: v.optional(v.boolean()),
+        achievements: v.optional(v.boolean()),
+        challenges: v.optional(v.boolean()),
+        chatMessages: v.optional(v.boolean())
+    })),
+    role: v.optional(v.privileged(v.string({ enum: ['user', 'admin'] }))),
+    level: v.optional(v.privileged(v.integer({ min: 0 }))),
+    totalDistance: v.optional(v.privileged(v.number({ min: 0 }))),
+    totalTime: v.optional(v.privileged(v.number({ min: 0 })))
+});
+
+export const userLimitQuery = v.object({
+    limit: v.optional(v.integer({ min: 1, max: 100 }))
+});
+
+export const searchToFollowQuery = v.object({
+    search: v.optional(v.string({ trim: true, maxLength: 100 })),
+    limit: v.optional(v.integer({ min: 1, max: 100 }))
+});
+
+export const fcmTokenBody = v.object({
+    fcmToken: v.string({ minLength: 1, maxLength: 4096, description: 'Token FCM del dispositivo', example: 'c-gvd79xZPnXGGXmB7aAip:APA91bE...' }),
+    platform: v.optional(v.string({ enum: ['web', 'android', 'ios'], description: 'Plataforma del dispositivo (por defecto web)' }))
+});
+
+export const testNotificationBody = v.object({
+    title: v.optional(v.string({ maxLength: 100, description: 'Título de la notificación' })),
+    message: v.optional(v.string({ maxLength: 500, description: 'Mensaje de la notificación' }))
+});
@@ -0,0 +1,142 @@
+import crypto from 'crypto';
+import AccountTokenModel, { AccountTokenPurpose } from '../models/accountToken';
+import UserModel, { IUser } from '../models/user';
+import { APP_URL, EMAIL_VERIFICATION_TOKEN_HOURS, PASSWORD_RESET_TOKEN_MINUTES } from '../config/config';
+import { encrypt } from '../utils/bcrypt.handle';
+import { sendMail } from './mailService';
+import { revokeAllSessions } from './sessionService';
+
+export type AccountTokenError = 'INVALID_TOKEN' | 'USER_NOT_FOUND';
+
+const TOKEN_SECRET = process.env.ACCOUNT_TOKEN_SECRET || process.env.JWT_SECRET || '';
+
+// Firma HMAC del token: es lo único que se guarda en la base de datos
+const signToken = (token: string, purpose: AccountTokenPurpose): string => {
+  return crypto.createHmac('sha256', TOKEN_SECRET).update(`${purpose}:${token}`).digest('hex');
+};
+
+// Crear un token nuevo; los anteriores del mismo tipo dejan de ser válidos
+const createAccountToken = async (user: IUser, purpose: AccountTokenPurpose, validForMs: number): Promise<string> => {
+  const token = crypto.randomBytes(32).toString('hex');
+
+  await AccountTokenModel.updateMany(
+    { userId: user._id, purpose, usedAt: null },
+    { $set: { usedAt: new Date() } }
+  );
+  await AccountTokenModel.create({
+    userId: user._id,
+    purpose,
+    tokenHash: signToken(token, purpose),
+    expiresAt: new Date(Date.now() + validForMs)
+  });
+
+  return token;
+};
+
+// El nombre de usuario es texto libre: se escapa antes de meterlo en el HTML del correo
+const escapeHtml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+// Marcar el token como usado de forma atómica: dos peticiones con el mismo token no pueden usarlo a la vez
+const consumeAccountToken = async (token: string, purpose: AccountTokenPurpose): Promise<IUser | AccountTokenError> => {
+  if (!token || typeof token !== 'string') {
+    return 'INVALID_TOKEN';
+  }
+
+  const accountToken = await AccountTokenModel.findOneAndUpdate(
+    { tokenHash: signToken(token, purpose), purpose, usedAt: null, expiresAt: { $gt: new Date() } },
+    { $set: { usedAt: new Date() } },
+    { new: true }
+  );
+  if (!accountToken) {
+    return 'INVALID_TOKEN';
+  }
+
+  const user = await UserModel.findById(accountToken.userId);
+  return user || 'USER_NOT_FOUND';
+};
+
+// Enviar el correo de verificación a un usuario recién registrado (o que lo vuelve a pedir)
+export const sendEmailVerification = async (user: IUser): Promise<void> => {
+  const token = await createAccountToken(user, 'email_verification', EMAIL_VERIFICATION_TOKEN_HOURS * 60 * 60 * 1000);
+  const link = `${APP_URL}/verify-email?token=${token}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verifica tu correo electrónico',
+    text: `Hola ${user.username},\n\nConfirma tu dirección de correo abriendo este enlace:\n${link}\n\n` +
+      `El enlace caduca en ${EMAIL_VERIFICATION_TOKEN_HOURS} horas.`,
+    html: `<p>Hola ${escapeHtml(user.username)},</p><p>Confirma tu dirección de correo abriendo este enlace:</p>` +
+      `<p><a href="${link}">Verificar correo</a></p><p>El enlace caduca en ${EMAIL_VERIFICATION_TOKEN_HOURS} horas.</p>`
+  });
+};
+
+// Reenviar la verificación. No indica si el correo existe para no revelar qué cuentas hay registradas
+export const requestEmailVerification = async (email: string): Promise<void> => {
+  const user = await UserModel.findOne({ email });
+  if (!user || user.emailVerified !== false) {
+    return;
+  }
+
+  await sendEmailVerification(user);
+};
+
+export const verifyEmail = async (token: string): Promise<IUser | AccountTokenError> => {
+  const user = await consumeAccountToken(token, 'email_verification');
+  if (typeof user === 'string') {
+    return user;
+  }
+
+  await UserModel.updateOne(
+    { _id: user._id },
+    { $set: { emailVerified: true, emailVerifiedAt: new Date() } },
+    { runValidators: false }
+  );
+  user.emailVerified = true;
+  return user;
+};
+
+// Enviar el enlace para restablecer la contraseña. Igual que la verificación, no revela si el correo existe
+export const requestPasswordReset = async (email: string): Promise<void> => {
+  const user = await UserModel.findOne({ email });
+  if (!user) {
+    return;
+  }
+
+  const token = await createAccountToken(user, 'password_reset', PASSWORD_RESET_TOKEN_MINUTES * 60 * 1000);
+  const link = `${APP_URL}/reset-password?token=${token}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Restablece tu contraseña',
+    text: `Hola ${user.username},\n\nPara elegir una contraseña nueva abre este enlace:\n${link}\n\n` +
+      `El enlace caduca en ${PASSWORD_RESET_TOKEN_MINUTES} minutos. Si no lo has pedido tú, ignora este correo.`,
+    html: `<p>Hola ${escapeHtml(user.username)},</p><p>Para elegir una contraseña nueva abre este enlace:</p>` +
+      `<p><a href="${link}">Restablecer contraseña</a></p>` +
+      `<p>El enlace caduca en ${PASSWORD_RESET_TOKEN_MINUTES} minutos. Si no lo has pedido tú, ignora este correo.</p>`
+  });
+};
+
+// Cambiar la contraseña con un token de restablecimiento y cerrar todas las sesiones abiertas
+export const resetPassword = async (token: string, newPassword: string): Promise<IUser | AccountTokenError> => {
+  const user = await consumeAccountToken(token, 'password_reset');
+  if (typeof user === 'string') {
+    return user;
+  }
+
+  // Quien recibe el enlace en su buzón ha demostrado que el correo es suyo
+  const update: any = { password: await encrypt(newPassword) };
+  if (user.emailVerified === false) {
+    update.emailVerified = true;
+    update.emailVerifiedAt = new Date();
+  }
+
+  await UserModel.updateOne({ _id: user._id }, { $set: update }, { runValidators: false });
+  await revokeAllSessions(user._id.toString(), undefined, 'password_changed');
+
+  return user;
+};
@@ -0,0 +1,181 @@
+import mongoose from 'mongoose';
+import AchievementModel, { IAchievement } from '../models/achievement';
+import ActivityModel from '../models/activity';
+import UserModel from '../models/user';
+import { getAchievementValue } from './achievementService';
+import { getUserActivityStats } from './userActivityStatsService';
+
+export type AchievementProgressError = 'USER_NOT_FOUND';
+
+type AchievementType = IAchievement['type'];
+
+export interface AchievementProgress {
+  achievement: Omit<IAchievement, 'usersUnlocked'>;
+  unlocked: boolean;
+  currentValue: number;
+  targetValue: number;
+  unit: string;
+  percentage: number;
+  remaining: number;
+  estimatedCompletion: Date | null;
+}
+
+// Ritmo reciente usado para estimar cuándo se completará un logro
+const RECENT_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MILESTONES = 3;
+
+// Unidades en las que se expresan currentValue y targetValue de cada tipo
+const ACHIEVEMENT_UNITS: { [type in AchievementType]: string } = {
+  distance_total: 'meters',
+  distance_single: 'meters',
+  elevation_gain: 'meters',
+  time_total: 'seconds',
+  time_single: 'seconds',
+  time_monthly: 'seconds',
+  time_yearly: 'seconds',
+  activity_count: 'activities',
+  consecutive_days: 'days',
+  speed_average: 'm/s'
+};
+
+interface RecentRates {
+  [activityType: string]: { distance: number; duration: number; count: number };
+}
+
+// Distancia, tiempo y actividades por día en los últimos RECENT_DAYS días, por tipo y en total ('all')
+const getRecentRates = async (userId: string, now: Date): Promise<RecentRates> => {
+  const rows = await ActivityModel.aggregate([
+    {
+      $match: {
+        author: new mongoose.Types.ObjectId(userId),
+        startTime: { $gte: new Date(now.getTime() - RECENT_DAYS * DAY_MS), $lte: now }
+      }
+    },
+    { $group: { _id: '$type', distance: { $sum: '$distance' }, duration: { $sum: '$duration' }, count: { $sum: 1 } } }
+  ]);
+
+  const rates: RecentRates = { all: { distance: 0, duration: 0, count: 0 } };
+  for (const row of rows) {
+    rates[row._id] = {
+      distance: row.distance / RECENT_DAYS,
+      duration: row.duration / RECENT_DAYS,
+      count: row.count / RECENT_DAYS
+    };
+    rates.all.distance += rates[row._id].distance;
+    rates.all.duration += rates[row._id].duration;
+    rates.all.count += rates[row._id].count;
+  }
+  return rates;
+};
+
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+// Fecha estimada si se mantiene el ritmo actual. null si no hay ritmo o si el logro no se consigue
+// acumulando (mejores marcas y velocidad media), o si el periodo (mes, año) acaba antes
+const estimateCompletion = (
+  achievement: IAchievement,
+  value: number,
+  rates: RecentRates,
+  now: Date
+): Date | null => {
+  const remaining = achievement.targetValue - value;
+  const typeRates = rates[achievement.activityType || 'all'];
+
+  switch (achievement.type) {
+    // Los totales del usuario no distinguen tipo de actividad
+    case 'distance_total':
+      return rates.all.distance > 0 ? addDays(now, remaining / rates.all.distance) : null;
+    case 'time_total':
+      return rates.all.duration > 0 ? addDays(now, remaining / rates.all.duration) : null;
+    case 'activity_count':
+      return typeRates && typeRates.count > 0 ? addDays(now, remaining / typeRates.count) : null;
+
+    // Ritmo del propio periodo: lo acumulado hasta ahora entre el tiempo transcurrido
+    case 'time_monthly':
+    case 'time_yearly': {
+      const periodStart = achievement.type === 'time_monthly'
+        ? new Date(now.getFullYear(), now.getMonth(), 1)
+        : new Date(now.getFullYear(), 0, 1);
+      const periodEnd = achievement.type === 'time_monthly'
+        ? new Date(now.getFullYear(), now.getMonth() + 1, 1)
+        : new Date(now.getFullYear() + 1, 0, 1);
+      const elapsedDays = (now.getTime() - periodStart.getTime()) / DAY_MS;
+      if (value <= 0 || elapsedDays <= 0) return null;
+
+      const estimate = addDays(now, remaining / (value / elapsedDays));
+      return estimate.getTime() < periodEnd.getTime() ? estimate : null;
+    }
+
+    // Un día con actividad más por cada día que falta; sin racha, hoy cuenta como el primero
+    case 'consecutive_days':
+      return addDays(now, value > 0 ? remaining : remaining - 1);
+
+    default:
+      return null;
+  }
+};
+
+// Progreso de un usuario en todos los logros: valor actual, objetivo, porcentaje y fecha estimada
+export const getAchievementProgress = async (
+  userId: string,
+  now: Date = new Date()
+): Promise<AchievementProgress[] | AchievementProgressError> => {
+  const user = await UserModel.findById(userId).select('totalDistance totalTime');
+  if (!user) {
+    return 'USER_NOT_FOUND';
+  }
+
+  const [achievements, stats, rates] = await Promise.all([
+    AchievementModel.find().sort({ difficulty: 1, targetValue: 1 }),
+    getUserActivityStats(userId),
+    getRecentRates(userId, now)
+  ]);
+  const context = {
+    user: { totalDistance: user.totalDistance, totalTime: user.totalTime },
+    stats,
+    now
+  };
+
+  return achievements.map(achievement => {
+    const { usersUnlocked, ...achievementData } = achievement.toObject() as IAchievement;
+    const unlocked = usersUnlocked.some(id => id.toString() === userId);
+    const currentValue = Math.round((getAchievementValue(achievement, context) ?? 0) * 100) / 100;
+    const targetValue = achievement.targetValue;
+    const completed = unlocked || currentValue >= targetValue;
+
+    return {
+      achievement: achievementData,
+      unlocked,
+      currentValue,
+      targetValue,
+      unit: ACHIEVEMENT_UNITS[achievement.type],
+      percentage: completed || targetValue <= 0
+        ? 100
+        : Math.min(100, Math.round((currentValue / targetValue) * 1000) / 10),
+      remaining: completed ? 0 : Math.round((targetValue - currentValue) * 100) / 100,
+      estimatedCompletion: completed ? null : estimateCompletion(achievement, currentValue, rates, now)
+    };
+  });
+};
+
+// Logros bloqueados más cercanos: mayor porcentaje primero y, a igualdad, el que antes se completaría
+export const getNextMilestones = async (
+  userId: string,
+  limit: number = DEFAULT_MILESTONES
+): Promise<AchievementProgress[] | AchievementProgressError> => {
+  const progress = await getAchievementProgress(userId);
+  if (typeof progress === 'string') {
+    return progress;
+  }
+
+  return progress
+    .filter(item => !item.unlocked && item.percentage < 100)
+    .sort((a, b) => {
+      if (b.percentage !== a.percentage) return b.percentage - a.percentage;
+      const aTime = a.estimatedCompletion?.getTime() ?? Infinity;
+      const bTime = b.estimatedCompletion?.getTime() ?? Infinity;
+      return aTime === bTime ? 0 : aTime < bTime ? -1 : 1;
+    })
+    .slice(0, limit);
+};
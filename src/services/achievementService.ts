@@ -1,6 +1,15 @@
 import AchievementModel, {IAchievement} from '../models/achievement';
 import UserModel from '../models/user';
-import ActivityModel from '../models/activity';
+import { IUserActivityStats } from '../models/userActivityStats';
+import {
+    ActivityChange,
+    applyActivityChange,
+    dayKey,
+    getUserActivityStats,
+    monthKey,
+    rebuildUserActivityStats,
+    yearKey
+} from './userActivityStatsService';
 import mongoose from 'mongoose';
 
 export const createAchievement = async(newAchievement: IAchievement)=> {
@@ -112,59 +121,195 @@ export const searchAchievements = async(searchText: string)=>{
     return await AchievementModel.find({title: {$regex: searchText, $options: 'i'}});
 };
 
-// Función para verificar y desbloquear logros automáticamente
-export const checkAndUnlockAchievements = async (userId: string): Promise<IAchievement[]> => {
+type AchievementType = IAchievement['type'];
+
+// Totales del usuario y agregados de sus actividades: todo lo que necesita el motor de logros
+interface AchievementContext {
+    user: { totalDistance: number; totalTime: number };
+    stats: IUserActivityStats;
+    now: Date;
+}
+
+// Tipos de logro que puede cambiar una actividad. Recuento, velocidad media y rachas cambian siempre;
+// el resto, solo si la actividad aporta esa magnitud
+export const getAffectedAchievementTypes = (change: ActivityChange): AchievementType[] => {
+    const types = new Set<AchievementType>(['activity_count', 'speed_average', 'consecutive_days']);
+
+    for (const activity of [change.added, change.removed]) {
+        if (!activity) continue;
+        if (activity.distance > 0) {
+            types.add('distance_total');
+            types.add('distance_single');
+        }
+        if (activity.duration > 0) {
+            types.add('time_total');
+            types.add('time_single');
+            types.add('time_monthly');
+            types.add('time_yearly');
+        }
+        if (activity.elevationGain > 0) {
+            types.add('elevation_gain');
+        }
+    }
+    return [...types];
+};
+
+// Días consecutivos con actividad terminando hoy (hora local del servidor), hasta un máximo
+const currentStreak = (activeDays: Map<string, number>, now: Date, limit: number): number => {
+    let streak = 0;
+    while (streak < limit) {
+        const checkDate = new Date(now);
+        checkDate.setDate(checkDate.getDate() - streak);
+        if (!((activeDays.get(dayKey(checkDate)) || 0) > 0)) break;
+        streak++;
+    }
+    return streak;
+};
+
+// Valor actual que se compara con targetValue. null si no hay ninguna actividad que cuente
+// (p. ej. la velocidad media o la mejor distancia de un tipo que el usuario nunca ha hecho)
+export const getAchievementValue = (achievement: IAchievement, context: AchievementContext): number | null => {
+    const { user, stats, now } = context;
+    const typeStats = stats.byType.get(achievement.activityType || 'all');
+    const count = typeStats?.count || 0;
+
+    switch (achievement.type) {
+        // Los totales son los del usuario (los mismos que muestra su perfil)
+        case 'distance_total':
+            return user.totalDistance || 0;
+        case 'time_total':
+            return user.totalTime || 0;
+
+        case 'distance_single':
+            return count > 0 ? typeStats!.bestDistance : null;
+        case 'time_single':
+            return count > 0 ? typeStats!.bestDuration : null;
+        case 'elevation_gain':
+            return count > 0 ? typeStats!.bestElevationGain : null;
+        case 'speed_average':
+            return count > 0 ? typeStats!.averageSpeedSum / count : null;
+
+        case 'activity_count':
+            return count;
+        case 'time_monthly':
+            return stats.monthlyTime.get(monthKey(now)) || 0;
+        case 'time_yearly':
+            return stats.yearlyTime.get(yearKey(now)) || 0;
+        case 'consecutive_days':
+            return currentStreak(stats.activeDays, now, Math.max(achievement.targetValue, 0));
+
+        default:
+            return null;
+    }
+};
+
+export const isAchievementMet = (achievement: IAchievement, context: AchievementContext): boolean => {
+    const value = getAchievementValue(achievement, context);
+    return value !== null && value >= achievement.targetValue;
+};
+
+// Racha más larga de días consecutivos con actividad en todo el historial
+const longestStreak = (activeDays: Map<string, number>): number => {
+    const days = new Set([...activeDays].filter(([, count]) => count > 0).map(([key]) => key));
+    let longest = 0;
+
+    for (const key of days) {
+        const [year, month, day] = key.split('-').map(Number);
+        const date = new Date(year, month - 1, day);
+        date.setDate(date.getDate() - 1);
+        if (days.has(dayKey(date))) continue; // no es el primer día de una racha
+
+        let streak = 1;
+        date.setDate(date.getDate() + 2);
+        while (days.has(dayKey(date))) {
+            streak++;
+            date.setDate(date.getDate() + 1);
+        }
+        longest = Math.max(longest, streak);
+    }
+    return longest;
+};
+
+// ¿Se ha cumplido la condición en algún momento? Los logros de un periodo (mes, año, racha)
+// se conservan al cambiar de periodo: solo se pierden si ningún periodo llega al objetivo
+const wasAchievementEverMet = (achievement: IAchievement, context: AchievementContext): boolean => {
+    const { user, stats } = context;
+    switch (achievement.type) {
+        // Los totales del perfil de usuarios antiguos pueden no incluir todas sus actividades
+        case 'distance_total':
+            return Math.max(user.totalDistance || 0, stats.totalDistance) >= achievement.targetValue;
+        case 'time_total':
+            return Math.max(user.totalTime || 0, stats.totalTime) >= achievement.targetValue;
+        case 'time_monthly':
+            return Math.max(0, ...stats.monthlyTime.values()) >= achievement.targetValue;
+        case 'time_yearly':
+            return Math.max(0, ...stats.yearlyTime.values()) >= achievement.targetValue;
+        case 'consecutive_days':
+            return longestStreak(stats.activeDays) >= achievement.targetValue;
+        default:
+            return isAchievementMet(achievement, context);
+    }
+};
+
+const buildAchievementContext = async (userId: string): Promise<AchievementContext | null> => {
+    const user = await UserModel.findById(userId).select('totalDistance totalTime');
+    if (!user) {
+        return null;
+    }
+    return {
+        user: { totalDistance: user.totalDistance, totalTime: user.totalTime },
+        stats: await getUserActivityStats(userId),
+        now: new Date()
+    };
+};
+
+// Función para verificar y desbloquear logros automáticamente. Sin tipos se revisan todos;
+// con tipos (los afectados por una actividad) solo esos. Solo se cargan los logros aún bloqueados
+export const checkAndUnlockAchievements = async (userId: string, types?: AchievementType[]): Promise<IAchievement[]> => {
     try {
-        const user = await UserModel.findById(userId).populate('activities');
+        const user = await UserModel.findById(userId).select('_id');
         if (!user) {
             console.error(`No se encontró el usuario con ID: ${userId}`);
             return [];
         }
 
-        const allAchievements = await getAllAchievements();
+        const query: { [key: string]: unknown } = { usersUnlocked: { $ne: user._id } };
+        if (types) {
+            if (types.length === 0) return [];
+            query.type = { $in: types };
+        }
+        const candidates = await AchievementModel.find(query)
+            .select('-usersUnlocked')
+            .sort({ difficulty: 1, targetValue: 1 });
+        if (candidates.length === 0) {
+            return [];
+        }
+
+        const context = await buildAchievementContext(userId);
+        if (!context) {
+            return [];
+        }
         const newlyUnlocked: IAchievement[] = [];
-        
-        console.log(`Verificando logros para usuario ${userId} (${user.username})`);
-        console.log(`El usuario tiene ${user.achievements?.length || 0} logros desbloqueados previamente`);
 
-        for (const achievement of allAchievements) {
-            // Si ya está desbloqueado, continuar
-            if (achievement.usersUnlocked.some(id => id.toString() === userId)) {
+        for (const achievement of candidates) {
+            if (!isAchievementMet(achievement, context)) {
                 continue;
             }
 
-            const isUnlocked = await checkAchievementCondition(achievement, user);
-            if (isUnlocked) {
-                console.log(`Logro "${achievement.title}" cumple condiciones para el usuario ${userId}`);
-                
-                // Actualizamos el logro añadiendo al usuario a la lista de usersUnlocked
-                await AchievementModel.findByIdAndUpdate(
-                    achievement._id,
-                    { $addToSet: { usersUnlocked: userId } }
-                );
-
-                // Actualizamos el usuario añadiendo el logro a su lista de achievements
-                const updateResult = await UserModel.findByIdAndUpdate(
-                    userId,
-                    { $addToSet: { achievements: achievement._id } },
-                    { new: true }
-                );
-                
-                if (updateResult) {
-                    console.log(`Usuario ${userId} actualizado con nuevo logro. Total logros: ${updateResult.achievements.length}`);
-                } else {
-                    console.error(`Error al actualizar logros del usuario ${userId}`);
-                }
-
-                newlyUnlocked.push(achievement);
-                
-                console.log(`Logro "${achievement.title}" desbloqueado para el usuario ${userId}`);
+            // $ne en la condición: si otra petición ya lo ha desbloqueado, no se duplica
+            const unlocked = await AchievementModel.updateOne(
+                { _id: achievement._id, usersUnlocked: { $ne: user._id } },
+                { $addToSet: { usersUnlocked: user._id } }
+            );
+            if (unlocked.modifiedCount === 0) {
+                continue;
             }
-        }
 
-        // Verificación final para asegurar que los logros se guardaron
-        const updatedUser = await UserModel.findById(userId);
-        console.log(`Después de la verificación, el usuario tiene ${updatedUser?.achievements?.length || 0} logros`);
+            await UserModel.findByIdAndUpdate(userId, { $addToSet: { achievements: achievement._id } });
+            newlyUnlocked.push(achievement);
+
+            console.log(`Logro "${achievement.title}" desbloqueado para el usuario ${userId}`);
+        }
 
         return newlyUnlocked;
     } catch (error) {
@@ -173,113 +318,86 @@ export const checkAndUnlockAchievements = async (userId: string): Promise<IAchie
     }
 };
 
-// Función para verificar si se cumple la condición de un logro
-const checkAchievementCondition = async (achievement: IAchievement, user: any): Promise<boolean> => {
-    try {
-        const activities = await ActivityModel.find({ author: user._id });
-
-        switch (achievement.type) {
-            case 'distance_total':
-                return user.totalDistance >= achievement.targetValue;
-
-            case 'distance_single':
-                return activities.some(activity => {
-                    if (achievement.activityType !== 'all' && activity.type !== achievement.activityType) {
-                        return false;
-                    }
-                    return activity.distance >= achievement.targetValue;
-                });
-
-            case 'time_total':
-                return user.totalTime >= achievement.targetValue;
-
-            case 'time_single':
-                return activities.some(activity => {
-                    if (achievement.activityType !== 'all' && activity.type !== achievement.activityType) {
-                        return false;
-                    }
-                    return activity.duration >= achievement.targetValue;
-                });
-
-            case 'time_monthly':
-                const currentMonth = new Date().getMonth();
-                const currentYear = new Date().getFullYear();
-                const monthlyActivities = activities.filter(activity => {
-                    const activityDate = new Date(activity.startTime);
-                    return activityDate.getMonth() === currentMonth && 
-                        activityDate.getFullYear() === currentYear;
-                });
-                const monthlyTime = monthlyActivities.reduce((total, activity) => total + activity.duration, 0);
-                return monthlyTime >= achievement.targetValue;
-
-            case 'time_yearly':
-                const currentYearActivities = activities.filter(activity => {
-                    const activityDate = new Date(activity.startTime);
-                    return activityDate.getFullYear() === currentYear;
-                });
-                const yearlyTime = currentYearActivities.reduce((total, activity) => total + activity.duration, 0);
-                return yearlyTime >= achievement.targetValue;
-
-            case 'activity_count':
-                if (achievement.activityType === 'all') {
-                    return activities.length >= achievement.targetValue;
-                } else {
-                    const typeActivities = activities.filter(activity => activity.type === achievement.activityType);
-                    return typeActivities.length >= achievement.targetValue;
-                }
-
-            case 'speed_average':
-                const speedActivities = activities.filter(activity => {
-                    if (achievement.activityType !== 'all' && activity.type !== achievement.activityType) {
-                        return false;
-                    }
-                    return true;
-                });
-                if (speedActivities.length === 0) return false;
-                const averageSpeed = speedActivities.reduce((total, activity) => total + activity.averageSpeed, 0) / speedActivities.length;
-                return averageSpeed >= achievement.targetValue;
-
-            case 'elevation_gain':
-                return activities.some(activity => {
-                    if (achievement.activityType !== 'all' && activity.type !== achievement.activityType) {
-                        return false;
-                    }
-                    return activity.elevationGain >= achievement.targetValue;
-                });
-
-            case 'consecutive_days':
-                // Implementar lógica para días consecutivos
-                const sortedActivities = activities.sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime());
-                let consecutiveDays = 0;
-                let currentDate = new Date();
-                
-                for (let i = 0; i < achievement.targetValue; i++) {
-                    const checkDate = new Date(currentDate);
-                    checkDate.setDate(checkDate.getDate() - i);
-                    
-                    const hasActivityOnDate = sortedActivities.some(activity => {
-                        const activityDate = new Date(activity.startTime);
-                        return activityDate.toDateString() === checkDate.toDateString();
-                    });
-                    
-                    if (hasActivityOnDate) {
-                        consecutiveDays++;
-                    } else {
-                        break;
-                    }
-                }
-                
-                return consecutiveDays >= achievement.targetValue;
-
-            default:
-                return false;
+// Retirar los logros desbloqueados cuya condición ya no se cumple (p. ej. tras eliminar una actividad
+// falsa o corregir su distancia). Sin tipos se revisan todos
+export const revokeUnmetAchievements = async (userId: string, types?: AchievementType[]): Promise<IAchievement[]> => {
+    const query: { [key: string]: unknown } = { usersUnlocked: new mongoose.Types.ObjectId(userId) };
+    if (types) {
+        if (types.length === 0) return [];
+        query.type = { $in: types };
+    }
+    const unlocked = await AchievementModel.find(query).select('-usersUnlocked');
+    if (unlocked.length === 0) {
+        return [];
+    }
+
+    const context = await buildAchievementContext(userId);
+    if (!context) {
+        return [];
+    }
+    const revoked: IAchievement[] = [];
+
+    for (const achievement of unlocked) {
+        if (wasAchievementEverMet(achievement, context)) {
+            continue;
         }
-    } catch (error) {
-        console.error('Error en checkAchievementCondition:', error);
-        return false;
+
+        await AchievementModel.updateOne({ _id: achievement._id }, { $pull: { usersUnlocked: new mongoose.Types.ObjectId(userId) } });
+        await UserModel.findByIdAndUpdate(userId, { $pull: { achievements: achievement._id } });
+        revoked.push(achievement);
+
+        console.log(`Logro "${achievement.title}" retirado al usuario ${userId}: ya no se cumple la condición`);
     }
+
+    return revoked;
+};
+
+export interface AchievementChanges {
+    unlocked: IAchievement[];
+    revoked: IAchievement[];
+}
+
+// Punto de entrada tras guardar, editar o eliminar una actividad: actualiza los agregados del usuario
+// y revisa solo los tipos de logro que el cambio puede afectar. Si se quita o modifica una actividad,
+// además se retiran los logros que dejan de cumplirse
+export const updateAchievementsForActivityChange = async (userId: string, change: ActivityChange): Promise<AchievementChanges> => {
+    await applyActivityChange(userId, change);
+    const types = getAffectedAchievementTypes(change);
+
+    const revoked = change.removed ? await revokeUnmetAchievements(userId, types) : [];
+    const unlocked = await checkAndUnlockAchievements(userId, types);
+    return { unlocked, revoked };
 };
 
+export type RebuildUserStatsError = 'USER_NOT_FOUND';
+
+// Recalcular desde cero todo lo que se deriva de las actividades de un usuario: agregados,
+// totales del perfil y logros (se desbloquean los que faltan y se retiran los que no se cumplen)
+export const rebuildUserDerivedStats = async (userId: string): Promise<(AchievementChanges & {
+    activityCount: number;
+    totalDistance: number;
+    totalTime: number;
+}) | RebuildUserStatsError> => {
+    if (!(await UserModel.exists({ _id: userId }))) {
+        return 'USER_NOT_FOUND';
+    }
+
+    const stats = await rebuildUserActivityStats(userId);
+    await UserModel.findByIdAndUpdate(userId, {
+        $set: { totalDistance: stats.totalDistance, totalTime: stats.totalTime }
+    });
+
+    const revoked = await revokeUnmetAchievements(userId);
+    const unlocked = await checkAndUnlockAchievements(userId);
+
+    return {
+        activityCount: stats.activityCount,
+        totalDistance: stats.totalDistance,
+        totalTime: stats.totalTime,
+        unlocked,
+        revoked
+    };
+};
 
 // Inicializar logros generales de conteo de actividades
 export const initializeGeneralAchievements = async (): Promise<IAchievement[]> => {
@@ -0,0 +1,199 @@
+import ActivityModel, { IActivity } from '../models/activity';
+import { ILocationPoint } from '../models/activityTracking';
+import { calculateDistance } from './activityTrackingService';
+import { getActivityTrackPoints } from './activityTrackService';
+
+export type ActivityExportFormat = 'gpx' | 'tcx';
+
+export interface ActivityExportFile {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+const CREATOR = 'Trazer';
+
+// Noms d'esport acceptats per l'esquema TCX (només admet Running, Biking i Other)
+const tcxSports: { [key in IActivity['type']]: string } = {
+  running: 'Running',
+  cycling: 'Biking',
+  hiking: 'Other',
+  walking: 'Other'
+};
+
+const escapeXml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+const toIso = (date: Date | string): string => new Date(date).toISOString();
+
+const slugify = (value: string): string => {
+  const slug = value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return slug || 'activity';
+};
+
+// Obtenir l'activitat i la seva ruta amb la màxima fidelitat disponible (amb temps i velocitat si n'hi ha)
+const getActivityTrack = async (activityId: string): Promise<{ activity: any; points: ILocationPoint[] } | null> => {
+  const activity = await ActivityModel.findById(activityId);
+  const track = activity ? await getActivityTrackPoints(activityId) : null;
+  if (!activity || !track) {
+    return null;
+  }
+
+  return { activity, points: track.points };
+};
+
+// Distància acumulada a cada punt, en metres
+const cumulativeDistances = (points: ILocationPoint[]): number[] => {
+  const distances: number[] = [];
+  let total = 0;
+
+  points.forEach((point, index) => {
+    if (index > 0) {
+      const prevPoint = points[index - 1];
+      total += calculateDistance(prevPoint.latitude, prevPoint.longitude, point.latitude, point.longitude);
+    }
+    distances.push(total);
+  });
+
+  return distances;
+};
+
+// TCX exigeix un temps per punt: si no el tenim, el repartim entre l'inici i el final segons la distància
+const estimateTimestamps = (activity: IActivity, points: ILocationPoint[], distances: number[]): Date[] => {
+  const start = new Date(activity.startTime).getTime();
+  const end = new Date(activity.endTime).getTime();
+  const totalDistance = distances[distances.length - 1] || 0;
+
+  return points.map((point, index) => {
+    if (point.timestamp) return new Date(point.timestamp);
+    if (totalDistance === 0 || points.length === 1) return new Date(start);
+    return new Date(start + ((end - start) * distances[index]) / totalDistance);
+  });
+};
+
+// Serialitzar una activitat en GPX 1.1
+const buildGpx = (activity: IActivity, points: ILocationPoint[]): string => {
+  const trackPoints = points.map(point => {
+    const children: string[] = [];
+    if (point.altitude !== undefined && point.altitude !== null) {
+      children.push(`<ele>${point.altitude}</ele>`);
+    }
+    if (point.timestamp) {
+      children.push(`<time>${toIso(point.timestamp)}</time>`);
+    }
+    if (point.speed !== undefined && point.speed !== null) {
+      children.push(`<extensions><gpxtpx:TrackPointExtension><gpxtpx:speed>${point.speed}</gpxtpx:speed></gpxtpx:TrackPointExtension></extensions>`);
+    }
+    return `      <trkpt lat="${point.latitude}" lon="${point.longitude}">${children.join('')}</trkpt>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${CREATOR}" xmlns="http://www.topografix.com/GPX/1/1"` +
+      ' xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v2"' +
+      ' xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"' +
+      ' xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">',
+    '  <metadata>',
+    `    <name>${escapeXml(activity.name)}</name>`,
+    `    <time>${toIso(activity.startTime)}</time>`,
+    '  </metadata>',
+    '  <trk>',
+    `    <name>${escapeXml(activity.name)}</name>`,
+    `    <type>${activity.type}</type>`,
+    '    <trkseg>',
+    ...trackPoints,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    ''
+  ].join('\n');
+};
+
+// Serialitzar una activitat en TCX (Garmin Training Center Database v2)
+const buildTcx = (activity: IActivity, points: ILocationPoint[]): string => {
+  const distances = cumulativeDistances(points);
+  const timestamps = estimateTimestamps(activity, points, distances);
+  const maxSpeed = points.reduce((max, point) => Math.max(max, point.speed || 0), 0);
+
+  const trackPoints = points.map((point, index) => {
+    const children: string[] = [
+      `<Time>${timestamps[index].toISOString()}</Time>`,
+      `<Position><LatitudeDegrees>${point.latitude}</LatitudeDegrees><LongitudeDegrees>${point.longitude}</LongitudeDegrees></Position>`
+    ];
+    if (point.altitude !== undefined && point.altitude !== null) {
+      children.push(`<AltitudeMeters>${point.altitude}</AltitudeMeters>`);
+    }
+    children.push(`<DistanceMeters>${distances[index].toFixed(2)}</DistanceMeters>`);
+    if (point.speed !== undefined && point.speed !== null) {
+      children.push(`<Extensions><ns3:TPX><ns3:Speed>${point.speed}</ns3:Speed></ns3:TPX></Extensions>`);
+    }
+    return `            <Trackpoint>${children.join('')}</Trackpoint>`;
+  });
+
+  const startTime = toIso(activity.startTime);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2"' +
+      ' xmlns:ns3="http://www.garmin.com/xmlschemas/ActivityExtension/v2"' +
+      ' xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"' +
+      ' xsi:schemaLocation="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2 http://www.garmin.com/xmlschemas/TrainingCenterDatabasev2.xsd">',
+    '  <Activities>',
+    `    <Activity Sport="${tcxSports[activity.type] || 'Other'}">`,
+    `      <Id>${startTime}</Id>`,
+    `      <Lap StartTime="${startTime}">`,
+    `        <TotalTimeSeconds>${activity.duration || 0}</TotalTimeSeconds>`,
+    `        <DistanceMeters>${(activity.distance || 0).toFixed(2)}</DistanceMeters>`,
+    ...(maxSpeed > 0 ? [`        <MaximumSpeed>${maxSpeed}</MaximumSpeed>`] : []),
+    `        <Calories>${Math.round(activity.caloriesBurned || 0)}</Calories>`,
+    '        <Intensity>Active</Intensity>',
+    '        <TriggerMethod>Manual</TriggerMethod>',
+    '        <Track>',
+    ...trackPoints,
+    '        </Track>',
+    '      </Lap>',
+    `      <Notes>${escapeXml(activity.name)}</Notes>`,
+    '    </Activity>',
+    '  </Activities>',
+    '</TrainingCenterDatabase>',
+    ''
+  ].join('\n');
+};
+
+// Exportar la ruta d'una activitat en el format demanat
+export const exportActivity = async (
+  activityId: string,
+  format: ActivityExportFormat
+): Promise<ActivityExportFile | null> => {
+  const track = await getActivityTrack(activityId);
+  if (!track) {
+    return null;
+  }
+
+  const { activity, points } = track;
+  const baseName = `${slugify(activity.name)}_${toIso(activity.startTime).slice(0, 10)}`;
+
+  if (format === 'tcx') {
+    return {
+      filename: `${baseName}.tcx`,
+      contentType: 'application/vnd.garmin.tcx+xml',
+      content: buildTcx(activity, points)
+    };
+  }
+
+  return {
+    filename: `${baseName}.gpx`,
+    contentType: 'application/gpx+xml',
+    content: buildGpx(activity, points)
+  };
+};
@@ -0,0 +1,338 @@
+import path from 'path';
+import { XMLParser } from 'fast-xml-parser';
+import FitParser from 'fit-file-parser';
+import { IActivity } from '../models/activity';
+import { ILocationPoint } from '../models/activityTracking';
+import ReferencePointModel from '../models/referencePoint';
+import { calculateDistance, calculateElevationGain } from './activityTrackingService';
+import { createActivity } from './activityService';
+import { computeActivitySplits } from './activitySplitsService';
+import { createRouteReferencePoints, saveActivityTrack } from './activityTrackService';
+
+type ActivityType = IActivity['type'];
+
+export type ActivityFileFormat = 'gpx' | 'tcx' | 'fit';
+
+// Resultat de llegir un fitxer de dispositiu, abans de crear l'activitat
+export interface ParsedActivityFile {
+  format: ActivityFileFormat;
+  name?: string;
+  type?: ActivityType;
+  points: ILocationPoint[];
+}
+
+// Mètriques derivades de la ruta, en les mateixes unitats que el tracking en temps real
+export interface RouteStats {
+  startTime: Date;
+  endTime: Date;
+  duration: number;      // segons
+  distance: number;      // metres
+  elevationGain: number; // metres
+  averageSpeed: number;  // metres per segon
+}
+
+export type ActivityImportError = 'UNSUPPORTED_FORMAT' | 'INVALID_FILE' | 'NO_TRACK_POINTS' | 'UNKNOWN_ACTIVITY_TYPE';
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: true,
+  isArray: (tagName) => ['trk', 'trkseg', 'trkpt', 'rte', 'rtept', 'Activity', 'Lap', 'Track', 'Trackpoint'].includes(tagName)
+});
+
+// Traducció dels noms d'esport de cada format als tipus d'activitat de l'aplicació
+const sportAliases: { [key: string]: ActivityType } = {
+  running: 'running',
+  run: 'running',
+  trail_running: 'running',
+  cycling: 'cycling',
+  biking: 'cycling',
+  bike: 'cycling',
+  ride: 'cycling',
+  mountain_biking: 'cycling',
+  road_biking: 'cycling',
+  hiking: 'hiking',
+  hike: 'hiking',
+  walking: 'walking',
+  walk: 'walking'
+};
+
+const normalizeSport = (sport: unknown): ActivityType | undefined => {
+  if (sport === undefined || sport === null) return undefined;
+  const key = String(sport).trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return sportAliases[key];
+};
+
+const toNumber = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const num = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(num) ? num : undefined;
+};
+
+const toDate = (value: unknown): Date | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const date = value instanceof Date ? value : new Date(String(value));
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const textOf = (value: unknown): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'object') return textOf((value as any)['#text']);
+  const text = String(value).trim();
+  return text.length > 0 ? text : undefined;
+};
+
+const isValidCoordinate = (latitude?: number, longitude?: number): boolean => {
+  return latitude !== undefined && longitude !== undefined &&
+    Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
+};
+
+// GPX 1.0/1.1: trk > trkseg > trkpt, o bé rte > rtept per a rutes planificades
+const parseGpx = (content: string): ParsedActivityFile => {
+  const gpx = xmlParser.parse(content)?.gpx;
+  if (!gpx) {
+    throw new Error('INVALID_FILE');
+  }
+
+  const points: ILocationPoint[] = [];
+  const tracks: any[] = gpx.trk || [];
+
+  const pushPoint = (pt: any) => {
+    const latitude = toNumber(pt['@_lat']);
+    const longitude = toNumber(pt['@_lon']);
+    if (!isValidCoordinate(latitude, longitude)) return;
+
+    points.push({
+      latitude: latitude!,
+      longitude: longitude!,
+      altitude: toNumber(pt.ele),
+      timestamp: toDate(pt.time),
+      speed: toNumber(pt.extensions?.speed ?? pt.extensions?.TrackPointExtension?.speed ?? pt.speed)
+    });
+  };
+
+  for (const track of tracks) {
+    for (const segment of track.trkseg || []) {
+      (segment.trkpt || []).forEach(pushPoint);
+    }
+  }
+
+  if (points.length === 0) {
+    for (const route of gpx.rte || []) {
+      (route.rtept || []).forEach(pushPoint);
+    }
+  }
+
+  const firstTrack = tracks[0] || gpx.rte?.[0];
+  return {
+    format: 'gpx',
+    name: textOf(firstTrack?.name) || textOf(gpx.metadata?.name),
+    type: normalizeSport(textOf(firstTrack?.type)),
+    points
+  };
+};
+
+// TCX (Garmin Training Center): Activity > Lap > Track > Trackpoint
+const parseTcx = (content: string): ParsedActivityFile => {
+  const database = xmlParser.parse(content)?.TrainingCenterDatabase;
+  if (!database) {
+    throw new Error('INVALID_FILE');
+  }
+
+  const activities: any[] = database.Activities?.Activity || [];
+  const points: ILocationPoint[] = [];
+
+  for (const activity of activities) {
+    for (const lap of activity.Lap || []) {
+      for (const track of lap.Track || []) {
+        for (const tp of track.Trackpoint || []) {
+          const latitude = toNumber(tp.Position?.LatitudeDegrees);
+          const longitude = toNumber(tp.Position?.LongitudeDegrees);
+          if (!isValidCoordinate(latitude, longitude)) continue;
+
+          points.push({
+            latitude: latitude!,
+            longitude: longitude!,
+            altitude: toNumber(tp.AltitudeMeters),
+            timestamp: toDate(tp.Time),
+            speed: toNumber(tp.Extensions?.TPX?.Speed)
+          });
+        }
+      }
+    }
+  }
+
+  const firstActivity = activities[0];
+  return {
+    format: 'tcx',
+    name: textOf(firstActivity?.Notes),
+    type: normalizeSport(firstActivity?.['@_Sport']),
+    points
+  };
+};
+
+// FIT (format binari de Garmin i la majoria de rellotges): missatges "record"
+const parseFit = async (buffer: Buffer): Promise<ParsedActivityFile> => {
+  const fitParser = new FitParser({
+    force: true,
+    speedUnit: 'm/s',
+    lengthUnit: 'm',
+    mode: 'list'
+  });
+
+  const data = await fitParser.parseAsync(buffer as Buffer<ArrayBuffer>);
+  const points: ILocationPoint[] = [];
+
+  for (const record of data.records || []) {
+    const latitude = toNumber(record.position_lat);
+    const longitude = toNumber(record.position_long);
+    if (!isValidCoordinate(latitude, longitude)) continue;
+
+    points.push({
+      latitude: latitude!,
+      longitude: longitude!,
+      altitude: toNumber(record.enhanced_altitude ?? record.altitude),
+      timestamp: toDate(record.timestamp),
+      speed: toNumber(record.enhanced_speed ?? record.speed)
+    });
+  }
+
+  const session = data.sessions?.[0];
+  return {
+    format: 'fit',
+    name: textOf(data.sports?.[0]?.name),
+    type: normalizeSport(session?.sub_sport) || normalizeSport(session?.sport) || normalizeSport(data.sports?.[0]?.sport),
+    points
+  };
+};
+
+// Llegir un fitxer GPX, TCX o FIT i extreure'n els punts de la ruta
+export const parseActivityFile = async (
+  buffer: Buffer,
+  filename: string
+): Promise<ParsedActivityFile | ActivityImportError> => {
+  const extension = path.extname(filename || '').toLowerCase().replace('.', '');
+
+  let parsed: ParsedActivityFile;
+  try {
+    switch (extension) {
+      case 'gpx':
+        parsed = parseGpx(buffer.toString('utf8'));
+        break;
+      case 'tcx':
+        parsed = parseTcx(buffer.toString('utf8'));
+        break;
+      case 'fit':
+        parsed = await parseFit(buffer);
+        break;
+      default:
+        return 'UNSUPPORTED_FORMAT';
+    }
+  } catch (error) {
+    console.error(`Error llegint el fitxer d'activitat ${filename}:`, error);
+    return 'INVALID_FILE';
+  }
+
+  if (parsed.points.length === 0) {
+    return 'NO_TRACK_POINTS';
+  }
+
+  // Si tots els punts tenen marca de temps, ens assegurem que estiguin en ordre
+  if (parsed.points.every(point => point.timestamp)) {
+    parsed.points.sort((a, b) => a.timestamp!.getTime() - b.timestamp!.getTime());
+  }
+
+  return parsed;
+};
+
+// Calcular distància, durada, desnivell i velocitat mitjana amb la mateixa lògica que el tracking
+export const computeRouteStats = (points: ILocationPoint[]): RouteStats => {
+  let distance = 0;
+  let elevationGain = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const prevPoint = points[i - 1];
+    const point = points[i];
+
+    distance += calculateDistance(prevPoint.latitude, prevPoint.longitude, point.latitude, point.longitude);
+
+    if (prevPoint.altitude !== undefined && point.altitude !== undefined) {
+      elevationGain += calculateElevationGain(prevPoint.altitude, point.altitude);
+    }
+  }
+
+  const timestamps = points
+    .map(point => point.timestamp?.getTime())
+    .filter((time): time is number => time !== undefined);
+
+  // Les rutes sense temps (p. ex. un GPX planificat) es consideren d'instant únic
+  const startTime = timestamps.length > 0 ? new Date(Math.min(...timestamps)) : new Date();
+  const endTime = timestamps.length > 0 ? new Date(Math.max(...timestamps)) : startTime;
+  const duration = Math.floor((endTime.getTime() - startTime.getTime()) / 1000);
+
+  return {
+    startTime,
+    endTime,
+    duration,
+    distance,
+    elevationGain,
+    averageSpeed: duration > 0 ? distance / duration : 0
+  };
+};
+
+// Importar un fitxer de dispositiu com a activitat nova de l'usuari
+export const importActivityFromFile = async (
+  userId: string,
+  file: { buffer: Buffer; originalname: string },
+  options: { name?: string; type?: string } = {}
+): Promise<IActivity | ActivityImportError> => {
+  const parsed = await parseActivityFile(file.buffer, file.originalname);
+  if (typeof parsed === 'string') {
+    return parsed;
+  }
+
+  // El tipus indicat per l'usuari té prioritat sobre el que declari el fitxer
+  const type = normalizeSport(options.type) || parsed.type;
+  if (!type) {
+    return 'UNKNOWN_ACTIVITY_TYPE';
+  }
+
+  const stats = computeRouteStats(parsed.points);
+
+  // Ruta simplificada per al camp "route"; la ruta completa es guarda a part
+  const route = await createRouteReferencePoints(parsed.points);
+
+  let activity: IActivity;
+  try {
+    activity = await createActivity(userId, {
+      name: options.name || parsed.name || `${type.charAt(0).toUpperCase() + type.slice(1)} ${stats.startTime.toLocaleDateString()}`,
+      startTime: stats.startTime,
+      endTime: stats.endTime,
+      duration: stats.duration,
+      distance: stats.distance,
+      elevationGain: stats.elevationGain,
+      averageSpeed: stats.averageSpeed,
+      route,
+      musicPlaylist: [],
+      type,
+      // Només si tots els punts tenen temps; si no, els parcials no serien fiables
+      splits: parsed.points.every(point => point.timestamp)
+        ? computeActivitySplits(parsed.points) || undefined
+        : undefined
+    });
+  } catch (error) {
+    // No deixar punts orfes si l'activitat no s'ha pogut crear
+    await ReferencePointModel.deleteMany({ _id: { $in: route } });
+    throw error;
+  }
+
+  // Ruta completa amb el temps i la velocitat de cada punt del fitxer
+  try {
+    await saveActivityTrack((activity as any)._id, parsed.points);
+  } catch (error) {
+    console.error(`Error guardant la ruta completa de l'activitat importada:`, error);
+  }
+
+  return activity;
+};
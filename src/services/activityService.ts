@@ -4,8 +4,10 @@ import mongoose from "mongoose";
 import * as activityHistoryService from './activityHistoryService';
 import { IActivityHistory } from "../models/activityHistory";
 import * as achievementService from './achievementService';
+import { updateChallengeProgressForActivity } from './challengeProgressService';
 import { createActivityNotificationForFollowers } from './notificationService';
 import { getIO } from '../config/socketConfig';
+import { deleteActivityTrack } from './activityTrackService';
 
 // Función auxiliar para normalizar las fechas (eliminar la influencia de zona horaria)
 const normalizeDate = (date: Date | string | undefined): string => {
@@ -18,12 +20,40 @@ const normalizeDate = (date: Date | string | undefined): string => {
   return dateObj.toISOString().split('.')[0] + 'Z';
 };
 
+// Campos que alimentan los totales del usuario y los agregados de logros
+const STATS_FIELDS: Array<keyof IActivity> = ['type', 'distance', 'duration', 'elevationGain', 'averageSpeed', 'startTime'];
+
+// Sumar (o restar) a los totales del perfil sin dejarlos en negativo: los usuarios con
+// actividades anteriores a este cálculo pueden tener totales que no las incluyen
+const adjustUserTotals = async (userId: mongoose.Types.ObjectId | string, distance: number, time: number): Promise<void> => {
+    if (!distance && !time) return;
+
+    await UserModel.updateOne({ _id: userId }, [{
+        $set: {
+            totalDistance: { $max: [0, { $add: [{ $ifNull: ['$totalDistance', 0] }, distance] }] },
+            totalTime: { $max: [0, { $add: [{ $ifNull: ['$totalTime', 0] }, time] }] }
+        }
+    }]);
+};
+
+const logAchievementChanges = (userId: string, changes: achievementService.AchievementChanges): void => {
+    if (changes.unlocked.length > 0) {
+        console.log(`Usuario ${userId} desbloqueó ${changes.unlocked.length} nuevos logros`);
+    }
+    if (changes.revoked.length > 0) {
+        console.log(`Usuario ${userId} perdió ${changes.revoked.length} logros que ya no cumple`);
+    }
+};
+
 // Crear una nueva actividad y asociarla a un usuario
 export const createActivity = async (userId: string, activityData: Omit<IActivity, 'author'>): Promise<IActivity> => {
     const activity = await ActivityModel.create({ ...activityData, author: userId });
 
-    // Agregar la actividad al array de actividades del usuario
-    await UserModel.findByIdAndUpdate(userId, { $push: { activities: activity._id } });
+    // Agregar la actividad al array de actividades del usuario y sumarla a sus totales
+    await UserModel.findByIdAndUpdate(userId, {
+        $push: { activities: activity._id },
+        $inc: { totalDistance: activity.distance || 0, totalTime: activity.duration || 0 }
+    });
 
     // Registrar en el historial
     await activityHistoryService.createActivityHistory({
@@ -66,21 +96,22 @@ export const createActivity = async (userId: string, activityData: Omit<IActivit
         // No fallar la creación de actividad si fallan las notificaciones
     }
 
-    // Verificar y desbloquear nuevos logros
+    // Actualizar los agregados del usuario y desbloquear nuevos logros
     try {
-        const newAchievements = await achievementService.checkAndUnlockAchievements(userId);
-        
-        if (newAchievements.length > 0) {
-            console.log(`Usuario ${userId} desbloqueó ${newAchievements.length} nuevos logros`);
-            
-            // No es necesario actualizar manualmente aquí, ya que checkAndUnlockAchievements
-            // ahora también actualiza el array de achievements del usuario
-        }
+        const changes = await achievementService.updateAchievementsForActivityChange(userId, { added: activity });
+        logAchievementChanges(userId, changes);
     } catch (error) {
         console.error('Error checking achievements:', error);
         // No fallar la creación de actividad si falla la verificación de logros
     }
 
+    // Actualizar el progreso de los retos en los que participa el usuario
+    try {
+        await updateChallengeProgressForActivity(userId, activity);
+    } catch (error) {
+        console.error('Error actualizando el progreso de los retos:', error);
+    }
+
     return activity;
 };
 
@@ -154,6 +185,34 @@ export const updateActivity = async (activityId: string, activityData: Partial<I
                 newValues: updatedActivity.toObject()
             });
         }
+
+        // Totales, agregados y logros del autor con los valores nuevos de la actividad
+        const statsChanged = STATS_FIELDS.some(field =>
+            JSON.stringify(previousActivity[field]) !== JSON.stringify(updatedActivity[field]));
+        if (statsChanged) {
+            const authorId = updatedActivity.author.toString();
+            try {
+                await adjustUserTotals(
+                    authorId,
+                    (updatedActivity.distance || 0) - (previousActivity.distance || 0),
+                    (updatedActivity.duration || 0) - (previousActivity.duration || 0)
+                );
+                const changes = await achievementService.updateAchievementsForActivityChange(authorId, {
+                    removed: previousActivity,
+                    added: updatedActivity
+                });
+                logAchievementChanges(authorId, changes);
+            } catch (error) {
+                console.error('Error checking achievements:', error);
+            }
+
+            // Progreso y ranking de los retos de la fecha y el tipo anteriores y de los nuevos
+            try {
+                await updateChallengeProgressForActivity(authorId, [previousActivity, updatedActivity]);
+            } catch (error) {
+                console.error('Error actualizando el progreso de los retos:', error);
+            }
+        }
     }
     
     return updatedActivity;
@@ -172,6 +231,9 @@ export const deleteActivity = async (activityId: string): Promise<IActivity | nu
     const deletedActivity = await ActivityModel.findByIdAndDelete(activityId);
     
     if (deletedActivity) {
+        // Eliminar la ruta completa guardada por buckets
+        await deleteActivityTrack(deletedActivity._id);
+
         // Quitar la referencia del usuario
         await UserModel.findByIdAndUpdate(
             deletedActivity.author, 
@@ -187,11 +249,57 @@ export const deleteActivity = async (activityId: string): Promise<IActivity | nu
             changeType: 'delete',
             previousValues: deletedActivity.toObject()
         });
+
+        // Descontar la actividad de los totales y agregados del autor y retirar los logros que ya no cumple
+        try {
+            const authorId = deletedActivity.author.toString();
+            await adjustUserTotals(authorId, -(deletedActivity.distance || 0), -(deletedActivity.duration || 0));
+            const changes = await achievementService.updateAchievementsForActivityChange(authorId, {
+                removed: deletedActivity
+            });
+            logAchievementChanges(authorId, changes);
+        } catch (error) {
+            console.error('Error checking achievements:', error);
+        }
+
+        // La actividad borrada deja de contar en el progreso y el ranking de los retos
+        try {
+            await updateChallengeProgressForActivity(deletedActivity.author.toString(), deletedActivity);
+        } catch (error) {
+            console.error('Error actualizando el progreso de los retos:', error);
+        }
     }
     
     return deletedActivity;
 };
 
+// Criterios de búsqueda admitidos: solo valores simples, nunca operadores de Mongo
+const SEARCHABLE_ACTIVITY_FIELDS = ['author', 'type', 'name', 'trackingId'];
+const SORTABLE_ACTIVITY_FIELDS = ['startTime', 'endTime', 'distance', 'duration', 'averageSpeed', 'elevationGain', 'name'];
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const sanitizeActivityCriteria = (criteria: any): { [field: string]: unknown } => {
+    const query: { [field: string]: unknown } = {};
+    if (!criteria || typeof criteria !== 'object') return query;
+
+    for (const field of SEARCHABLE_ACTIVITY_FIELDS) {
+        const value = criteria[field];
+        if (typeof value !== 'string' || value === '') continue;
+
+        if (field === 'name') {
+            // Búsqueda por nombre (parcial)
+            query.name = { $regex: escapeRegex(value), $options: 'i' };
+        } else if (field === 'type') {
+            query.type = value;
+        } else if (mongoose.Types.ObjectId.isValid(value)) {
+            query[field] = new mongoose.Types.ObjectId(value);
+        }
+    }
+
+    return query;
+};
+
 // Buscar actividades por criterios
 export const searchActivities = async (
     criteria: any, 
@@ -207,14 +315,12 @@ export const searchActivities = async (
 }> => {
     const skip = (page - 1) * limit;
     const sortDirection = sortOrder === 'asc' ? 1 : -1;
-    
-    const query = { ...criteria };
-    
-    // Búsqueda por nombre (parcial)
-    if (query.name && typeof query.name === 'string') {
-        query.name = { $regex: query.name, $options: 'i' };
+    if (!SORTABLE_ACTIVITY_FIELDS.includes(sortField)) {
+        sortField = 'startTime';
     }
     
+    const query = sanitizeActivityCriteria(criteria);
+    
     const total = await ActivityModel.countDocuments(query);
     
     const activities = await ActivityModel.find(query)
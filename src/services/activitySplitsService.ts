@@ -0,0 +1,274 @@
+import ActivityModel, { IActivitySplit, IActivitySplits, IFastestSegment } from '../models/activity';
+import ActivityTrackingModel, { ILocationPoint, IPauseInterval } from '../models/activityTracking';
+import { calculateDistance, calculateElevationGain } from './activityTrackingService';
+import { getActivityTrackPoints } from './activityTrackService';
+
+const KILOMETER = 1000;
+const MILE = 1609.344;
+// Un último parcial de menos de esta distancia no se muestra
+const MIN_PARTIAL_SPLIT = 10; // metros
+
+// Distancias estándar para los mejores segmentos
+const FASTEST_SEGMENT_DISTANCES: { label: string; distance: number }[] = [
+  { label: '400 m', distance: 400 },
+  { label: '1 km', distance: 1000 },
+  { label: '1 mi', distance: MILE },
+  { label: '5 km', distance: 5000 },
+  { label: '10 km', distance: 10000 },
+  { label: '20 km', distance: 20000 },
+  { label: 'Media maratón', distance: 21097.5 },
+  { label: 'Maratón', distance: 42195 },
+  { label: '50 km', distance: 50000 },
+  { label: '100 km', distance: 100000 }
+];
+
+export type ActivitySplitsError = 'ACTIVITY_NOT_FOUND' | 'NO_TIMED_POINTS';
+
+// Estado acumulado en cada punto de la ruta
+interface TrackSample {
+  distance: number;  // metros desde el inicio
+  moving: number;    // segundos en movimiento desde el inicio (sin pausas)
+  wall: number;      // marca de tiempo en milisegundos
+  gain: number;      // desnivel positivo acumulado
+}
+
+type SampleKey = keyof TrackSample;
+
+const round = (value: number, decimals: number): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+// Milisegundos del intervalo [from, to] que caen dentro de alguna pausa
+const pausedOverlap = (pauses: IPauseInterval[], from: number, to: number): number => {
+  return pauses.reduce((total, pause) => {
+    const start = Math.max(from, new Date(pause.start).getTime());
+    const end = Math.min(to, new Date(pause.end).getTime());
+    return end > start ? total + (end - start) : total;
+  }, 0);
+};
+
+const buildSamples = (points: ILocationPoint[], pauses: IPauseInterval[]): TrackSample[] => {
+  const timedPoints = points
+    .filter(point => point.timestamp)
+    .sort((a, b) => new Date(a.timestamp!).getTime() - new Date(b.timestamp!).getTime());
+
+  const samples: TrackSample[] = [];
+
+  timedPoints.forEach((point, index) => {
+    const wall = new Date(point.timestamp!).getTime();
+
+    if (index === 0) {
+      samples.push({ distance: 0, moving: 0, wall, gain: 0 });
+      return;
+    }
+
+    const prevPoint = timedPoints[index - 1];
+    const prevSample = samples[samples.length - 1];
+    const elapsedMs = wall - prevSample.wall - pausedOverlap(pauses, prevSample.wall, wall);
+    const gain = prevPoint.altitude !== undefined && point.altitude !== undefined
+      ? calculateElevationGain(prevPoint.altitude, point.altitude)
+      : 0;
+
+    samples.push({
+      distance: prevSample.distance + calculateDistance(prevPoint.latitude, prevPoint.longitude, point.latitude, point.longitude),
+      moving: prevSample.moving + Math.max(0, elapsedMs) / 1000,
+      wall,
+      gain: prevSample.gain + gain
+    });
+  });
+
+  return samples;
+};
+
+// Interpolar linealmente "field" en el punto donde "key" vale "target" (key debe ser creciente)
+const interpolate = (samples: TrackSample[], key: SampleKey, target: number, field: SampleKey): number => {
+  if (target <= samples[0][key]) return samples[0][field];
+
+  const last = samples[samples.length - 1];
+  if (target >= last[key]) return last[field];
+
+  let low = 0;
+  let high = samples.length - 1;
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (samples[mid][key] < target) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  const from = samples[low];
+  const to = samples[high];
+  const span = to[key] - from[key];
+  const fraction = span > 0 ? (target - from[key]) / span : 1;
+  return from[field] + fraction * (to[field] - from[field]);
+};
+
+// Parciales entre límites de distancia consecutivos; el pace se expresa por "unit" metros
+const buildSplits = (samples: TrackSample[], boundaries: number[], unit: number, fullLength?: number): IActivitySplit[] => {
+  const splits: IActivitySplit[] = [];
+  let startDistance = 0;
+
+  boundaries.forEach((endDistance, index) => {
+    const distance = endDistance - startDistance;
+    const duration = interpolate(samples, 'distance', endDistance, 'moving') - interpolate(samples, 'distance', startDistance, 'moving');
+    const gain = interpolate(samples, 'distance', endDistance, 'gain') - interpolate(samples, 'distance', startDistance, 'gain');
+
+    splits.push({
+      index: index + 1,
+      startDistance: round(startDistance, 2),
+      distance: round(distance, 2),
+      duration: round(duration, 1),
+      pace: distance > 0 ? round((duration / distance) * unit, 1) : 0,
+      averageSpeed: duration > 0 ? round(distance / duration, 3) : 0,
+      elevationGain: round(gain, 1),
+      startTime: new Date(interpolate(samples, 'distance', startDistance, 'wall')),
+      endTime: new Date(interpolate(samples, 'distance', endDistance, 'wall')),
+      partial: fullLength !== undefined && distance < fullLength - 0.01
+    });
+
+    startDistance = endDistance;
+  });
+
+  return splits;
+};
+
+// Límites cada "length" metros, con el tramo final incompleto si es significativo
+const distanceBoundaries = (totalDistance: number, length: number): number[] => {
+  const boundaries: number[] = [];
+
+  for (let boundary = length; boundary <= totalDistance; boundary += length) {
+    boundaries.push(boundary);
+  }
+
+  const lastBoundary = boundaries[boundaries.length - 1] || 0;
+  if (totalDistance - lastBoundary >= MIN_PARTIAL_SPLIT) {
+    boundaries.push(totalDistance);
+  }
+
+  return boundaries;
+};
+
+// Límites de las vueltas marcadas: la distancia recorrida en el momento de cada marca
+const lapBoundaries = (samples: TrackSample[], lapTimes: Date[], totalDistance: number): number[] => {
+  const boundaries: number[] = [];
+
+  [...lapTimes]
+    .map(time => new Date(time).getTime())
+    .sort((a, b) => a - b)
+    .forEach(time => {
+      const distance = interpolate(samples, 'wall', time, 'distance');
+      const previous = boundaries[boundaries.length - 1] || 0;
+      if (distance > previous && distance < totalDistance) {
+        boundaries.push(distance);
+      }
+    });
+
+  if (boundaries.length === 0) {
+    return [];
+  }
+
+  boundaries.push(totalDistance);
+  return boundaries;
+};
+
+// Mejor tiempo en movimiento para recorrer "length" metros seguidos
+const findFastestSegment = (samples: TrackSample[], label: string, length: number): IFastestSegment | null => {
+  let best: IFastestSegment | null = null;
+  let end = 1;
+
+  for (let start = 0; start < samples.length; start++) {
+    const targetDistance = samples[start].distance + length;
+
+    while (end < samples.length && samples[end].distance < targetDistance) {
+      end++;
+    }
+    if (end >= samples.length) break;
+
+    const from = samples[end - 1];
+    const to = samples[end];
+    const span = to.distance - from.distance;
+    const fraction = span > 0 ? (targetDistance - from.distance) / span : 1;
+    const endMoving = from.moving + fraction * (to.moving - from.moving);
+    const duration = endMoving - samples[start].moving;
+
+    if (duration > 0 && (!best || duration < best.duration)) {
+      best = {
+        label,
+        distance: round(length, 2),
+        duration,
+        pace: 0,
+        startDistance: round(samples[start].distance, 2),
+        startTime: new Date(samples[start].wall)
+      };
+    }
+  }
+
+  if (best) {
+    best.pace = round((best.duration / length) * KILOMETER, 1);
+    best.duration = round(best.duration, 1);
+  }
+
+  return best;
+};
+
+// Calcular parciales por km, por milla, por vuelta y mejores segmentos a partir de puntos con marca de tiempo
+export const computeActivitySplits = (
+  points: ILocationPoint[],
+  options: { laps?: Date[]; pauses?: IPauseInterval[] } = {}
+): IActivitySplits | null => {
+  const samples = buildSamples(points, options.pauses || []);
+
+  if (samples.length < 2) {
+    return null;
+  }
+
+  const totalDistance = samples[samples.length - 1].distance;
+
+  return {
+    kilometers: buildSplits(samples, distanceBoundaries(totalDistance, KILOMETER), KILOMETER, KILOMETER),
+    miles: buildSplits(samples, distanceBoundaries(totalDistance, MILE), MILE, MILE),
+    laps: buildSplits(samples, lapBoundaries(samples, options.laps || [], totalDistance), KILOMETER),
+    fastestSegments: FASTEST_SEGMENT_DISTANCES
+      .filter(segment => segment.distance <= totalDistance)
+      .map(segment => findFastestSegment(samples, segment.label, segment.distance))
+      .filter((segment): segment is IFastestSegment => segment !== null),
+    computedAt: new Date()
+  };
+};
+
+// Obtener los parciales de una actividad; si no se calcularon al crearla, se calculan
+// a partir de su ruta completa y se guardan
+export const getActivitySplits = async (activityId: string): Promise<IActivitySplits | ActivitySplitsError> => {
+  const activity = await ActivityModel.findById(activityId).select('splits trackingId');
+
+  if (!activity) {
+    return 'ACTIVITY_NOT_FOUND';
+  }
+  if (activity.splits) {
+    return activity.splits;
+  }
+
+  const track = await getActivityTrackPoints(activityId);
+  if (!track || track.source === 'route') {
+    return 'NO_TIMED_POINTS';
+  }
+
+  // Las vueltas y pausas solo existen en el tracking de origen
+  const tracking = activity.trackingId
+    ? await ActivityTrackingModel.findById(activity.trackingId).select('laps pauseIntervals')
+    : null;
+  const splits = computeActivitySplits(track.points, {
+    laps: tracking?.laps.map(lap => lap.timestamp),
+    pauses: tracking?.pauseIntervals
+  });
+
+  if (!splits) {
+    return 'NO_TIMED_POINTS';
+  }
+
+  await ActivityModel.updateOne({ _id: activity._id }, { $set: { splits } });
+  return splits;
+};
@@ -0,0 +1,180 @@
+import mongoose from 'mongoose';
+import ActivityModel from '../models/activity';
+import ActivityTrackBucketModel, { TRACK_BUCKET_SIZE } from '../models/activityTrack';
+import ActivityTrackingModel, { ILocationPoint } from '../models/activityTracking';
+import ReferencePointModel from '../models/referencePoint';
+import { calculateDistance } from './activityTrackingService';
+
+// Puntos de la ruta de compatibilidad (campo "route" de la actividad)
+const MAX_ROUTE_POINTS = 500;
+const MIN_ROUTE_SPACING = 5; // metros
+
+export type ActivityTrackSource = 'track' | 'tracking' | 'route';
+
+export interface ActivityTrackPoints {
+  source: ActivityTrackSource; // de dónde se han leído los puntos
+  points: ILocationPoint[];
+}
+
+const toNumberOrNull = (value: number | undefined | null): number | null => {
+  return value === undefined || value === null || !Number.isFinite(value) ? null : value;
+};
+
+// Guardar la ruta completa de una actividad con escrituras en bloque (sustituye la anterior)
+export const saveActivityTrack = async (
+  activityId: mongoose.Types.ObjectId | string,
+  points: ILocationPoint[]
+): Promise<number> => {
+  const buckets = [];
+
+  for (let start = 0; start < points.length; start += TRACK_BUCKET_SIZE) {
+    const chunk = points.slice(start, start + TRACK_BUCKET_SIZE);
+    const times = chunk
+      .map(point => point.timestamp ? new Date(point.timestamp).getTime() : undefined)
+      .filter((time): time is number => time !== undefined);
+
+    buckets.push({
+      activityId,
+      bucketIndex: start / TRACK_BUCKET_SIZE,
+      startTime: times.length > 0 ? new Date(Math.min(...times)) : undefined,
+      endTime: times.length > 0 ? new Date(Math.max(...times)) : undefined,
+      pointCount: chunk.length,
+      latitudes: chunk.map(point => point.latitude),
+      longitudes: chunk.map(point => point.longitude),
+      altitudes: chunk.map(point => toNumberOrNull(point.altitude)),
+      timestamps: chunk.map(point => point.timestamp ? new Date(point.timestamp) : null),
+      speeds: chunk.map(point => toNumberOrNull(point.speed))
+    });
+  }
+
+  await ActivityTrackBucketModel.deleteMany({ activityId });
+  if (buckets.length > 0) {
+    await ActivityTrackBucketModel.insertMany(buckets, { ordered: false });
+  }
+
+  return points.length;
+};
+
+// Leer la ruta completa guardada por buckets
+const readTrackBuckets = async (activityId: mongoose.Types.ObjectId | string): Promise<ILocationPoint[]> => {
+  const buckets = await ActivityTrackBucketModel.find({ activityId }).sort({ bucketIndex: 1 }).lean();
+  const points: ILocationPoint[] = [];
+
+  for (const bucket of buckets) {
+    for (let i = 0; i < bucket.pointCount; i++) {
+      points.push({
+        latitude: bucket.latitudes[i],
+        longitude: bucket.longitudes[i],
+        altitude: bucket.altitudes[i] ?? undefined,
+        timestamp: bucket.timestamps[i] ?? undefined,
+        speed: bucket.speeds[i] ?? undefined
+      });
+    }
+  }
+
+  return points;
+};
+
+// Obtener la ruta de una actividad con la mayor fidelidad disponible:
+// 1) buckets de ruta completa, 2) puntos del tracking de origen (actividades antiguas),
+// 3) ReferencePoints del campo "route" (sin tiempo ni velocidad)
+export const getActivityTrackPoints = async (activityId: string): Promise<ActivityTrackPoints | null> => {
+  const activity = await ActivityModel.findById(activityId).select('route trackingId');
+  if (!activity) {
+    return null;
+  }
+
+  const trackPoints = await readTrackBuckets(activity._id);
+  if (trackPoints.length > 0) {
+    return { source: 'track', points: trackPoints };
+  }
+
+  if (activity.trackingId) {
+    const tracking = await ActivityTrackingModel.findById(activity.trackingId).select('locationPoints');
+    if (tracking && tracking.locationPoints.length > 0) {
+      return {
+        source: 'tracking',
+        points: tracking.locationPoints.map(point => ({
+          latitude: point.latitude,
+          longitude: point.longitude,
+          altitude: point.altitude,
+          timestamp: point.timestamp,
+          speed: point.speed
+        }))
+      };
+    }
+  }
+
+  const routePoints = await ReferencePointModel.find({ _id: { $in: activity.route } }).lean();
+  const byId = new Map(routePoints.map(point => [point._id.toString(), point]));
+
+  return {
+    source: 'route',
+    points: activity.route
+      .map(id => byId.get(id.toString()))
+      .filter(point => point && point.latitude !== undefined && point.longitude !== undefined)
+      .map(point => ({
+        latitude: point!.latitude!,
+        longitude: point!.longitude!,
+        altitude: point!.altitude ?? undefined
+      }))
+  };
+};
+
+// Reducir la ruta para el campo "route": basta para dibujar el mapa sin miles de documentos
+export const simplifyRoute = (points: ILocationPoint[], maxPoints: number = MAX_ROUTE_POINTS): ILocationPoint[] => {
+  if (points.length <= maxPoints) {
+    return points;
+  }
+
+  let totalDistance = 0;
+  for (let i = 1; i < points.length; i++) {
+    totalDistance += calculateDistance(points[i - 1].latitude, points[i - 1].longitude, points[i].latitude, points[i].longitude);
+  }
+
+  // Separación mínima entre puntos conservados para no pasar de maxPoints
+  const spacing = Math.max(MIN_ROUTE_SPACING, totalDistance / (maxPoints - 1));
+  const simplified: ILocationPoint[] = [points[0]];
+  let sinceLastKept = 0;
+
+  for (let i = 1; i < points.length - 1; i++) {
+    sinceLastKept += calculateDistance(points[i - 1].latitude, points[i - 1].longitude, points[i].latitude, points[i].longitude);
+    if (sinceLastKept >= spacing) {
+      simplified.push(points[i]);
+      sinceLastKept = 0;
+    }
+  }
+
+  simplified.push(points[points.length - 1]);
+
+  // Rutas sin desplazamiento (p. ej. en cinta): reparto uniforme por índice
+  if (simplified.length > maxPoints) {
+    const step = (simplified.length - 1) / (maxPoints - 1);
+    return Array.from({ length: maxPoints }, (_, index) => simplified[Math.round(index * step)]);
+  }
+
+  return simplified;
+};
+
+// Crear los ReferencePoints de compatibilidad con una única escritura en bloque
+export const createRouteReferencePoints = async (points: ILocationPoint[]): Promise<mongoose.Types.ObjectId[]> => {
+  const simplified = simplifyRoute(points);
+  if (simplified.length === 0) {
+    return [];
+  }
+
+  const referencePoints = await ReferencePointModel.insertMany(
+    simplified.map(point => ({
+      latitude: point.latitude,
+      longitude: point.longitude,
+      altitude: point.altitude || 0
+    }))
+  );
+
+  return referencePoints.map(point => point._id);
+};
+
+// Eliminar la ruta completa de una actividad
+export const deleteActivityTrack = async (activityId: mongoose.Types.ObjectId | string): Promise<void> => {
+  await ActivityTrackBucketModel.deleteMany({ activityId });
+};
@@ -1,9 +1,18 @@
 import mongoose from 'mongoose';
-import ActivityTrackingModel, { IActivityTracking, ILocationPoint } from '../models/activityTracking';
+import ActivityTrackingModel, { IActivityTracking, ILocationPoint, IGpsFilterState, ILapMark } from '../models/activityTracking';
+import ActivityModel from '../models/activity';
+import UserModel from '../models/user';
 import { getIO } from '../config/socketConfig';
+import { createActivityNotificationForFollowers } from './notificationService';
+import { emitLiveUpdate } from './liveShareService';
+import { recordSafetyBeaconSignal, releaseSafetyBeacon } from './safetyBeaconService';
+import { computeActivitySplits } from './activitySplitsService';
+import { createRouteReferencePoints, saveActivityTrack } from './activityTrackService';
+import { updateChallengeProgressForActivity } from './challengeProgressService';
+import { updateAchievementsForActivityChange } from './achievementService';
 
 // Cálculo de distancia entre dos puntos GPS usando la fórmula Haversine
-const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+export const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
   const R = 6371e3; // Radio de la tierra en metros
   const φ1 = (lat1 * Math.PI) / 180;
   const φ2 = (lat2 * Math.PI) / 180;
@@ -19,19 +28,139 @@ const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: numbe
 };
 
 // Cálculo de la elevación ganada (solo cuenta subidas, no bajadas)
-const calculateElevationGain = (prevAltitude: number, currentAltitude: number): number => {
+export const calculateElevationGain = (prevAltitude: number, currentAltitude: number): number => {
   const diff = currentAltitude - prevAltitude;
   return diff > 0 ? diff : 0;
 };
 
+// Velocidad máxima plausible por tipo de actividad (m/s); por encima se considera un salto de GPS
+const MAX_PLAUSIBLE_SPEED: { [key: string]: number } = {
+  running: 12,   // ~43 km/h
+  walking: 4,    // ~14 km/h
+  hiking: 5,     // ~18 km/h
+  cycling: 30    // ~108 km/h (bajadas)
+};
+
+// Puntos con una precisión peor que esta se descartan directamente
+const MAX_ACCEPTED_ACCURACY = 50; // metros
+
+// Movimiento mínimo para contar distancia cuando el cliente no informa de la precisión
+const MIN_MOVEMENT = 2; // metros
+
+// Suavizado exponencial de la altitud y umbral mínimo de subida para contar desnivel
+const ALTITUDE_SMOOTHING = 0.3;
+const ELEVATION_THRESHOLD = 3; // metros
+
+// Tiempo parado antes de activar la pausa automática
+const AUTO_PAUSE_DELAY = 10000; // milisegundos
+
+export type GpsPointStatus = 'accepted' | 'rejected_speed' | 'rejected_accuracy' | 'stationary';
+
+export interface GpsFilterResult {
+  status: GpsPointStatus;
+  distance: number;       // metros añadidos a la distancia total
+  elevationGain: number;  // metros añadidos al desnivel positivo
+  speed: number;          // velocidad del punto (m/s)
+}
+
+// Aplicar el filtro de señal a un punto nuevo respecto al último punto aceptado.
+// Modifica el estado del filtro (contadores y altitud suavizada) pero no el tracking.
+export const applyGpsFilter = (
+  state: IGpsFilterState,
+  activityType: string,
+  prevPoint: ILocationPoint | undefined,
+  point: ILocationPoint
+): GpsFilterResult => {
+  state.rawPointCount = (state.rawPointCount || 0) + 1;
+
+  if (point.accuracy !== undefined && point.accuracy > MAX_ACCEPTED_ACCURACY) {
+    state.rejectedByAccuracy = (state.rejectedByAccuracy || 0) + 1;
+    return { status: 'rejected_accuracy', distance: 0, elevationGain: 0, speed: 0 };
+  }
+
+  let distance = 0;
+  let speed = point.speed || 0;
+
+  if (prevPoint) {
+    distance = calculateDistance(prevPoint.latitude, prevPoint.longitude, point.latitude, point.longitude);
+
+    const elapsedSeconds = prevPoint.timestamp && point.timestamp
+      ? (point.timestamp.getTime() - prevPoint.timestamp.getTime()) / 1000
+      : 0;
+    const impliedSpeed = elapsedSeconds > 0 ? distance / elapsedSeconds : 0;
+    const maxSpeed = MAX_PLAUSIBLE_SPEED[activityType] || MAX_PLAUSIBLE_SPEED.cycling;
+
+    if (impliedSpeed > maxSpeed || speed > maxSpeed) {
+      state.rejectedBySpeed = (state.rejectedBySpeed || 0) + 1;
+      return { status: 'rejected_speed', distance: 0, elevationGain: 0, speed: 0 };
+    }
+
+    // Un desplazamiento menor que la incertidumbre del GPS es ruido, no movimiento
+    const movementThreshold = Math.max(point.accuracy || 0, prevPoint.accuracy || 0, MIN_MOVEMENT);
+    if (distance < movementThreshold) {
+      state.ignoredStationary = (state.ignoredStationary || 0) + 1;
+      return { status: 'stationary', distance: 0, elevationGain: 0, speed: 0 };
+    }
+
+    if (!point.speed) {
+      speed = impliedSpeed;
+    }
+  }
+
+  // Suavizar la altitud y contar solo subidas que superen el umbral
+  let elevationGain = 0;
+  if (point.altitude !== undefined) {
+    if (state.smoothedAltitude === undefined || state.smoothedAltitude === null) {
+      state.smoothedAltitude = point.altitude;
+      state.altitudeReference = point.altitude;
+    } else {
+      state.smoothedAltitude += ALTITUDE_SMOOTHING * (point.altitude - state.smoothedAltitude);
+      const reference = state.altitudeReference ?? state.smoothedAltitude;
+
+      if (state.smoothedAltitude - reference >= ELEVATION_THRESHOLD) {
+        elevationGain = calculateElevationGain(reference, state.smoothedAltitude);
+        state.altitudeReference = state.smoothedAltitude;
+      } else if (state.smoothedAltitude < reference) {
+        state.altitudeReference = state.smoothedAltitude;
+      }
+    }
+  }
+
+  state.cleanedPointCount = (state.cleanedPointCount || 0) + 1;
+  return { status: 'accepted', distance, elevationGain, speed };
+};
+
+// Duración en segundos hasta "now", descontando las pausas (incluida la pausa en curso)
+const calculateCurrentDuration = (tracking: IActivityTracking, now: Date): number => {
+  const currentPauseMs = tracking.isPaused && tracking.pauseTime
+    ? Math.max(0, now.getTime() - tracking.pauseTime.getTime())
+    : 0;
+  const durationMs = now.getTime() - tracking.startTime.getTime() - tracking.totalPausedTime - currentPauseMs;
+  return Math.max(0, Math.floor(durationMs / 1000));
+};
+
+// Cerrar la pausa en curso: sumar su duración y guardar el intervalo para los parciales
+const closePause = (tracking: IActivityTracking, end: Date): void => {
+  if (!tracking.pauseTime) return;
+
+  const start = tracking.pauseTime;
+  tracking.totalPausedTime += Math.max(0, end.getTime() - start.getTime());
+  tracking.pauseIntervals.push({ start, end });
+};
+
 // Iniciar una nueva actividad de tracking
-export const startActivityTracking = async (userId: string, activityType: string): Promise<IActivityTracking> => {
+export const startActivityTracking = async (
+  userId: string,
+  activityType: string,
+  options: { autoPause?: boolean } = {}
+): Promise<IActivityTracking> => {
   const tracking = new ActivityTrackingModel({
     userId: new mongoose.Types.ObjectId(userId),
     activityType,
     startTime: new Date(),
     isActive: true,
-    isPaused: false
+    isPaused: false,
+    autoPause: { enabled: options.autoPause === true }
   });
 
   const savedTracking = await tracking.save();
@@ -42,7 +171,8 @@ export const startActivityTracking = async (userId: string, activityType: string
     io.to(`user:${userId}`).emit('tracking_started', {
       trackingId: savedTracking._id,
       activityType: savedTracking.activityType,
-      startTime: savedTracking.startTime
+      startTime: savedTracking.startTime,
+      autoPause: savedTracking.autoPause.enabled
     });
   } catch (error) {
     console.error('Error al emitir evento de inicio de tracking:', error);
@@ -60,58 +190,94 @@ export const updateTrackingLocation = async (
     // Buscar el tracking activo
     const tracking = await ActivityTrackingModel.findById(trackingId);
     
-    if (!tracking || !tracking.isActive || tracking.isPaused) {
+    if (!tracking || !tracking.isActive) {
+      return null;
+    }
+
+    // En pausa manual no se aceptan puntos; en pausa automática sirven para detectar la reanudación
+    const wasAutoPaused = tracking.isPaused && tracking.autoPause?.isAutoPaused === true;
+    if (tracking.isPaused && !wasAutoPaused) {
+      // El punto no cuenta para la ruta, pero sí como señal de vida para la baliza de seguridad
+      if (tracking.safetyBeacon?.enabled) {
+        recordSafetyBeaconSignal(tracking);
+        await tracking.save();
+      }
       return null;
     }
 
     // Añadir el punto de ubicación
-    const newPoint = {
+    const newPoint: ILocationPoint = {
       latitude: locationData.latitude,
       longitude: locationData.longitude,
-      altitude: locationData.altitude || 0,
+      altitude: locationData.altitude,
       timestamp: new Date(),
-      speed: locationData.speed || 0
+      speed: locationData.speed || 0,
+      accuracy: locationData.accuracy
     };
 
-    // Calcular distancia si hay puntos previos
-    if (tracking.locationPoints.length > 0) {
-      const prevPoint = tracking.locationPoints[tracking.locationPoints.length - 1];
-      const distance = calculateDistance(
-        prevPoint.latitude,
-        prevPoint.longitude,
-        newPoint.latitude,
-        newPoint.longitude
-      );
-
-      // Actualizar distancia total
-      tracking.currentDistance += distance;
-
-      // Calcular elevación ganada
-      if (prevPoint.altitude !== undefined && newPoint.altitude !== undefined) {
-        tracking.elevationGain += calculateElevationGain(prevPoint.altitude, newPoint.altitude);
-      }
+    // Filtrar la señal respecto al último punto aceptado
+    const prevPoint = tracking.locationPoints.length > 0
+      ? tracking.locationPoints[tracking.locationPoints.length - 1]
+      : undefined;
+    const filterResult = applyGpsFilter(tracking.gpsFilter, tracking.activityType, prevPoint, newPoint);
+    const now = newPoint.timestamp!;
+    let autoPauseEvent: 'paused' | 'resumed' | null = null;
+
+    // Reanudar automáticamente en cuanto hay movimiento real
+    if (wasAutoPaused && filterResult.status === 'accepted') {
+      closePause(tracking, now);
+      tracking.isPaused = false;
+      tracking.pauseTime = undefined;
+      tracking.autoPause.isAutoPaused = false;
+      tracking.autoPause.lastResumedAt = now;
+      autoPauseEvent = 'resumed';
+    }
 
-      // Actualizar velocidad actual
-      tracking.currentSpeed = newPoint.speed || 0;
+    if (filterResult.status === 'accepted') {
+      tracking.currentDistance += filterResult.distance;
+      tracking.elevationGain += filterResult.elevationGain;
 
-      // Actualizar velocidad máxima si corresponde
+      // Actualizar velocidad actual y máxima
+      tracking.currentSpeed = filterResult.speed;
       if (tracking.currentSpeed > tracking.maxSpeed) {
         tracking.maxSpeed = tracking.currentSpeed;
       }
+
+      tracking.locationPoints.push({
+        ...newPoint,
+        speed: filterResult.speed
+      });
+    } else if (filterResult.status === 'stationary') {
+      tracking.currentSpeed = 0;
+
+      // Pausa automática: parado desde el último movimiento durante más de AUTO_PAUSE_DELAY
+      if (tracking.autoPause?.enabled && !tracking.isPaused && prevPoint?.timestamp) {
+        const stillSince = Math.max(
+          prevPoint.timestamp.getTime(),
+          tracking.startTime.getTime(),
+          tracking.autoPause.lastResumedAt?.getTime() || 0
+        );
+
+        if (now.getTime() - stillSince >= AUTO_PAUSE_DELAY) {
+          tracking.isPaused = true;
+          tracking.pauseTime = new Date(stillSince); // el tiempo parado cuenta como pausa
+          tracking.autoPause.isAutoPaused = true;
+          autoPauseEvent = 'paused';
+        }
+      }
     }
+    tracking.markModified('gpsFilter');
+    tracking.markModified('autoPause');
 
-    // Calcular duración actual
-    const now = new Date();
-    const durationMs = now.getTime() - tracking.startTime.getTime() - tracking.totalPausedTime;
-    tracking.currentDuration = Math.floor(durationMs / 1000); // Convertir a segundos
+    // Calcular duración actual (sin contar la pausa automática en curso)
+    tracking.currentDuration = calculateCurrentDuration(tracking, now);
 
     // Calcular velocidad promedio
     if (tracking.currentDuration > 0) {
       tracking.averageSpeed = tracking.currentDistance / tracking.currentDuration;
     }
 
-    // Añadir el nuevo punto
-    tracking.locationPoints.push(newPoint);
+    recordSafetyBeaconSignal(tracking, now);
 
     // Guardar los cambios
     const updatedTracking = await tracking.save();
@@ -125,12 +291,31 @@ export const updateTrackingLocation = async (
         currentDuration: updatedTracking.currentDuration,
         currentSpeed: updatedTracking.currentSpeed,
         averageSpeed: updatedTracking.averageSpeed,
-        elevationGain: updatedTracking.elevationGain
+        elevationGain: updatedTracking.elevationGain,
+        pointStatus: filterResult.status,
+        rawPointCount: updatedTracking.gpsFilter.rawPointCount,
+        cleanedPointCount: updatedTracking.gpsFilter.cleanedPointCount
       });
+      if (autoPauseEvent === 'paused') {
+        io.to(`user:${tracking.userId}`).emit('tracking_paused', {
+          trackingId: updatedTracking._id,
+          pauseTime: updatedTracking.pauseTime,
+          auto: true
+        });
+      } else if (autoPauseEvent === 'resumed') {
+        io.to(`user:${tracking.userId}`).emit('tracking_resumed', {
+          trackingId: updatedTracking._id,
+          totalPausedTime: updatedTracking.totalPausedTime,
+          auto: true
+        });
+      }
     } catch (error) {
       console.error('Error al emitir evento de actualización de tracking:', error);
     }
 
+    // Actualizar a los espectadores de la actividad en directo
+    emitLiveUpdate(updatedTracking);
+
     return updatedTracking;
   } catch (error) {
     console.error('Error updating tracking location:', error);
@@ -138,16 +323,250 @@ export const updateTrackingLocation = async (
   }
 };
 
+// Tamaño máximo de un lote y margen aceptado para relojes de cliente adelantados
+export const MAX_BATCH_SIZE = 5000;
+const CLOCK_SKEW_TOLERANCE = 5 * 60 * 1000; // milisegundos
+const MAX_STORED_BATCH_IDS = 200;
+
+export interface LocationBatchResult {
+  tracking: IActivityTracking;
+  received: number;
+  inserted: number;
+  duplicates: number;
+  outOfRange: number;
+  alreadyProcessed: boolean;
+}
+
+// Añadir puntos posteriores al último guardado: cada uno se filtra respecto al último punto aceptado,
+// continuando el estado del filtro (altitud suavizada y contadores) igual que en las ubicaciones en directo
+const appendTrackingPoints = (tracking: IActivityTracking, points: ILocationPoint[]): void => {
+  const state = tracking.gpsFilter;
+  let prevPoint: ILocationPoint | undefined = tracking.locationPoints[tracking.locationPoints.length - 1];
+
+  for (const point of points) {
+    const result = applyGpsFilter(state, tracking.activityType, prevPoint, point);
+    if (result.status !== 'accepted') continue;
+
+    tracking.currentDistance += result.distance;
+    tracking.elevationGain += result.elevationGain;
+    tracking.currentSpeed = result.speed;
+    tracking.maxSpeed = Math.max(tracking.maxSpeed, result.speed);
+
+    const acceptedPoint: ILocationPoint = {
+      latitude: point.latitude,
+      longitude: point.longitude,
+      altitude: point.altitude,
+      timestamp: point.timestamp,
+      speed: result.speed,
+      accuracy: point.accuracy
+    };
+    tracking.locationPoints.push(acceptedPoint);
+    prevPoint = acceptedPoint;
+  }
+
+  tracking.markModified('gpsFilter');
+};
+
+// Recalcular distancia, desnivel y velocidades pasando el filtro GPS por toda la ruta ordenada.
+// Solo se usa cuando llegan puntos anteriores al último guardado. Los puntos descartados antes ya no
+// están guardados, así que cada descarte de esta pasada es nuevo y se suma a los contadores anteriores.
+const recomputeTrackingAggregates = (tracking: IActivityTracking, points: ILocationPoint[], newRawPoints: number): void => {
+  const previous = tracking.gpsFilter;
+  const state: IGpsFilterState = {
+    rawPointCount: 0,
+    cleanedPointCount: 0,
+    rejectedBySpeed: 0,
+    rejectedByAccuracy: 0,
+    ignoredStationary: 0
+  };
+
+  const sortedPoints = [...points].sort((a, b) => a.timestamp!.getTime() - b.timestamp!.getTime());
+  const acceptedPoints: ILocationPoint[] = [];
+  let distance = 0;
+  let elevationGain = 0;
+  let maxSpeed = 0;
+  let currentSpeed = 0;
+
+  for (const point of sortedPoints) {
+    const prevPoint = acceptedPoints[acceptedPoints.length - 1];
+    const result = applyGpsFilter(state, tracking.activityType, prevPoint, point);
+
+    if (result.status !== 'accepted') continue;
+
+    distance += result.distance;
+    elevationGain += result.elevationGain;
+    currentSpeed = result.speed;
+    maxSpeed = Math.max(maxSpeed, result.speed);
+    acceptedPoints.push({
+      latitude: point.latitude,
+      longitude: point.longitude,
+      altitude: point.altitude,
+      timestamp: point.timestamp,
+      speed: result.speed,
+      accuracy: point.accuracy
+    });
+  }
+
+  tracking.locationPoints = acceptedPoints;
+  tracking.currentDistance = distance;
+  tracking.elevationGain = elevationGain;
+  tracking.maxSpeed = maxSpeed;
+  tracking.currentSpeed = currentSpeed;
+  tracking.gpsFilter = {
+    rawPointCount: (previous?.rawPointCount || 0) + newRawPoints,
+    cleanedPointCount: state.cleanedPointCount,
+    rejectedBySpeed: (previous?.rejectedBySpeed || 0) + state.rejectedBySpeed,
+    rejectedByAccuracy: (previous?.rejectedByAccuracy || 0) + state.rejectedByAccuracy,
+    ignoredStationary: (previous?.ignoredStationary || 0) + state.ignoredStationary,
+    smoothedAltitude: state.smoothedAltitude,
+    altitudeReference: state.altitudeReference
+  };
+  tracking.markModified('gpsFilter');
+};
+
+// Añadir un lote de puntos con marca de tiempo del cliente (subida diferida o sin conexión)
+export const addTrackingLocationBatch = async (
+  trackingId: string,
+  points: ILocationPoint[],
+  batchId?: string
+): Promise<LocationBatchResult | null> => {
+  const tracking = await ActivityTrackingModel.findById(trackingId);
+
+  if (!tracking || !tracking.isActive) {
+    return null;
+  }
+
+  const result: LocationBatchResult = {
+    tracking,
+    received: points.length,
+    inserted: 0,
+    duplicates: 0,
+    outOfRange: 0,
+    alreadyProcessed: false
+  };
+
+  // Un reintento del mismo lote no vuelve a procesarse
+  if (batchId && tracking.processedBatchIds.includes(batchId)) {
+    result.alreadyProcessed = true;
+    result.duplicates = points.length;
+    return result;
+  }
+
+  const now = new Date();
+  const earliest = tracking.startTime.getTime() - CLOCK_SKEW_TOLERANCE;
+  // En pausa manual no se aceptan puntos posteriores al inicio de la pausa
+  const latest = tracking.isPaused && tracking.pauseTime && !tracking.autoPause?.isAutoPaused
+    ? tracking.pauseTime.getTime()
+    : now.getTime() + CLOCK_SKEW_TOLERANCE;
+
+  const knownTimestamps = new Set(
+    tracking.locationPoints
+      .filter(point => point.timestamp)
+      .map(point => point.timestamp!.getTime())
+  );
+
+  const newPoints: ILocationPoint[] = [];
+  for (const point of points) {
+    const time = point.timestamp!.getTime();
+
+    if (time < earliest || time > latest) {
+      result.outOfRange++;
+      continue;
+    }
+
+    // Lotes solapados: un punto con la misma marca de tiempo ya está guardado
+    if (knownTimestamps.has(time)) {
+      result.duplicates++;
+      continue;
+    }
+
+    knownTimestamps.add(time);
+    newPoints.push(point);
+  }
+
+  if (newPoints.length > 0) {
+    newPoints.sort((a, b) => a.timestamp!.getTime() - b.timestamp!.getTime());
+    const lastStoredPoint = tracking.locationPoints[tracking.locationPoints.length - 1];
+    const lastStoredTime = lastStoredPoint?.timestamp?.getTime() ?? -Infinity;
+
+    // Lo normal es que el lote continúe la ruta; solo un punto dentro del tramo ya guardado obliga a refiltrar todo
+    if (newPoints[0].timestamp!.getTime() > lastStoredTime) {
+      appendTrackingPoints(tracking, newPoints);
+    } else {
+      const existingPoints = tracking.locationPoints.map(point => ({
+        latitude: point.latitude,
+        longitude: point.longitude,
+        altitude: point.altitude,
+        timestamp: point.timestamp || tracking.startTime,
+        speed: point.speed,
+        accuracy: point.accuracy
+      }));
+
+      recomputeTrackingAggregates(tracking, [...existingPoints, ...newPoints], newPoints.length);
+    }
+    result.inserted = newPoints.length;
+  }
+
+  tracking.currentDuration = calculateCurrentDuration(tracking, now);
+  if (tracking.currentDuration > 0) {
+    tracking.averageSpeed = tracking.currentDistance / tracking.currentDuration;
+  }
+
+  if (points.length > 0) {
+    recordSafetyBeaconSignal(tracking, now);
+  }
+
+  if (batchId) {
+    tracking.processedBatchIds = [...tracking.processedBatchIds, batchId].slice(-MAX_STORED_BATCH_IDS);
+  }
+
+  const updatedTracking = await tracking.save();
+  result.tracking = updatedTracking;
+
+  // Emitir actualización a través de Socket.IO
+  try {
+    const io = getIO();
+    io.to(`user:${tracking.userId}`).emit('tracking_updated', {
+      trackingId: updatedTracking._id,
+      currentDistance: updatedTracking.currentDistance,
+      currentDuration: updatedTracking.currentDuration,
+      currentSpeed: updatedTracking.currentSpeed,
+      averageSpeed: updatedTracking.averageSpeed,
+      elevationGain: updatedTracking.elevationGain,
+      rawPointCount: updatedTracking.gpsFilter.rawPointCount,
+      cleanedPointCount: updatedTracking.gpsFilter.cleanedPointCount,
+      batchInserted: result.inserted
+    });
+  } catch (error) {
+    console.error('Error al emitir evento de actualización de tracking:', error);
+  }
+
+  emitLiveUpdate(updatedTracking);
+
+  return result;
+};
+
 // Pausar actividad
 export const pauseActivityTracking = async (trackingId: string): Promise<IActivityTracking | null> => {
   const tracking = await ActivityTrackingModel.findById(trackingId);
   
-  if (!tracking || !tracking.isActive || tracking.isPaused) {
+  if (!tracking || !tracking.isActive) {
     return null;
   }
 
-  tracking.isPaused = true;
-  tracking.pauseTime = new Date();
+  if (tracking.isPaused) {
+    // Si la pausa era automática, pasa a ser manual conservando su inicio
+    if (!tracking.autoPause?.isAutoPaused) {
+      return null;
+    }
+    tracking.autoPause.isAutoPaused = false;
+  } else {
+    tracking.isPaused = true;
+    tracking.pauseTime = new Date();
+  }
+
+  // Una acción del usuario también es señal de vida para la baliza de seguridad
+  recordSafetyBeaconSignal(tracking);
 
   const updatedTracking = await tracking.save();
 
@@ -156,12 +575,15 @@ export const pauseActivityTracking = async (trackingId: string): Promise<IActivi
     const io = getIO();
     io.to(`user:${tracking.userId}`).emit('tracking_paused', {
       trackingId: updatedTracking._id,
-      pauseTime: updatedTracking.pauseTime
+      pauseTime: updatedTracking.pauseTime,
+      auto: false
     });
   } catch (error) {
     console.error('Error al emitir evento de pausa de tracking:', error);
   }
 
+  emitLiveUpdate(updatedTracking);
+
   return updatedTracking;
 };
 
@@ -174,14 +596,15 @@ export const resumeActivityTracking = async (trackingId: string): Promise<IActiv
   }
 
   // Calcular tiempo pausado
-  if (tracking.pauseTime) {
-    const now = new Date();
-    const pausedMs = now.getTime() - tracking.pauseTime.getTime();
-    tracking.totalPausedTime += pausedMs;
-  }
+  closePause(tracking, new Date());
 
   tracking.isPaused = false;
   tracking.pauseTime = undefined;
+  tracking.autoPause.isAutoPaused = false;
+  tracking.autoPause.lastResumedAt = new Date();
+
+  // Una acción del usuario también es señal de vida para la baliza de seguridad
+  recordSafetyBeaconSignal(tracking);
 
   const updatedTracking = await tracking.save();
 
@@ -190,15 +613,75 @@ export const resumeActivityTracking = async (trackingId: string): Promise<IActiv
     const io = getIO();
     io.to(`user:${tracking.userId}`).emit('tracking_resumed', {
       trackingId: updatedTracking._id,
-      totalPausedTime: updatedTracking.totalPausedTime
+      totalPausedTime: updatedTracking.totalPausedTime,
+      auto: false
     });
   } catch (error) {
     console.error('Error al emitir evento de reanudación de tracking:', error);
   }
 
+  emitLiveUpdate(updatedTracking);
+
   return updatedTracking;
 };
 
+// Marcar una vuelta manual en el tracking
+export const markTrackingLap = async (trackingId: string): Promise<{ tracking: IActivityTracking; lap: ILapMark; lapNumber: number } | null> => {
+  const tracking = await ActivityTrackingModel.findById(trackingId);
+
+  if (!tracking || !tracking.isActive) {
+    return null;
+  }
+
+  const now = new Date();
+  const lap: ILapMark = {
+    timestamp: now,
+    distance: tracking.currentDistance,
+    duration: calculateCurrentDuration(tracking, now)
+  };
+  tracking.laps.push(lap);
+
+  const updatedTracking = await tracking.save();
+  const lapNumber = updatedTracking.laps.length;
+
+  // Emitir evento a través de Socket.IO
+  try {
+    const previousLap = updatedTracking.laps[lapNumber - 2];
+    const io = getIO();
+    io.to(`user:${tracking.userId}`).emit('tracking_lap', {
+      trackingId: updatedTracking._id,
+      lapNumber,
+      timestamp: lap.timestamp,
+      totalDistance: lap.distance,
+      totalDuration: lap.duration,
+      lapDistance: lap.distance - (previousLap?.distance || 0),
+      lapDuration: lap.duration - (previousLap?.duration || 0)
+    });
+  } catch (error) {
+    console.error('Error al emitir evento de vuelta de tracking:', error);
+  }
+
+  return { tracking: updatedTracking, lap, lapNumber };
+};
+
+// Activar o desactivar la pausa automática de un tracking en curso
+export const setAutoPause = async (trackingId: string, enabled: boolean): Promise<IActivityTracking | null> => {
+  const tracking = await ActivityTrackingModel.findById(trackingId);
+
+  if (!tracking || !tracking.isActive) {
+    return null;
+  }
+
+  // Al desactivarla, una pausa automática en curso se mantiene como pausa manual
+  tracking.autoPause.enabled = enabled;
+  if (!enabled) {
+    tracking.autoPause.isAutoPaused = false;
+  }
+  tracking.markModified('autoPause');
+
+  return await tracking.save();
+};
+
 // Finalizar actividad
 export const finishActivityTracking = async (trackingId: string): Promise<IActivityTracking | null> => {
   const tracking = await ActivityTrackingModel.findById(trackingId);
@@ -208,15 +691,15 @@ export const finishActivityTracking = async (trackingId: string): Promise<IActiv
   }
 
   // Si estaba pausado, actualizar el tiempo total pausado
-  if (tracking.isPaused && tracking.pauseTime) {
-    const now = new Date();
-    const pausedMs = now.getTime() - tracking.pauseTime.getTime();
-    tracking.totalPausedTime += pausedMs;
+  if (tracking.isPaused) {
+    closePause(tracking, new Date());
   }
 
   tracking.isActive = false;
   tracking.isPaused = false;
+  tracking.autoPause.isAutoPaused = false;
   tracking.endTime = new Date();
+  releaseSafetyBeacon(tracking);
 
   // Recalcular duración final
   const durationMs = tracking.endTime.getTime() - tracking.startTime.getTime() - tracking.totalPausedTime;
@@ -245,9 +728,109 @@ export const finishActivityTracking = async (trackingId: string): Promise<IActiv
     console.error('Error al emitir evento de finalización de tracking:', error);
   }
 
+  emitLiveUpdate(finishedTracking, 'live_finished');
+
   return finishedTracking;
 };
 
+// Convertir un tracking finalizado en una actividad permanente del usuario.
+// Compartido por la API REST y los eventos de Socket.IO.
+export const createActivityFromTracking = async (
+  finishedTracking: IActivityTracking,
+  name?: string
+) => {
+  // 1. Ruta simplificada de ReferencePoints para el campo "route", en una sola escritura
+  const referencePoints = await createRouteReferencePoints(finishedTracking.locationPoints);
+
+  // 2. Ahora creamos la actividad con referencias a los puntos creados
+  const newActivity = new ActivityModel({
+    author: finishedTracking.userId,
+    name: name || `${finishedTracking.activityType.charAt(0).toUpperCase() + finishedTracking.activityType.slice(1)} ${finishedTracking.startTime.toLocaleDateString()}`,
+    startTime: finishedTracking.startTime,
+    endTime: finishedTracking.endTime,
+    duration: finishedTracking.currentDuration,
+    distance: finishedTracking.currentDistance,
+    elevationGain: finishedTracking.elevationGain,
+    averageSpeed: finishedTracking.averageSpeed,
+    type: finishedTracking.activityType,
+    route: referencePoints, // Array de ObjectIds de ReferencePoint
+    musicPlaylist: [], // Playlist vacía por defecto
+    trackingId: finishedTracking._id, // Conservar el vínculo con los puntos originales
+    // Parciales calculados antes de perder las marcas de tiempo de los puntos
+    splits: computeActivitySplits(finishedTracking.locationPoints, {
+      laps: finishedTracking.laps.map(lap => lap.timestamp),
+      pauses: finishedTracking.pauseIntervals
+    }) || undefined
+  });
+
+  const savedActivity = await newActivity.save();
+
+  // 3. Ruta completa (tiempo y velocidad de cada punto) en buckets
+  try {
+    await saveActivityTrack(savedActivity._id, finishedTracking.locationPoints);
+  } catch (trackError) {
+    // Los puntos siguen disponibles en el tracking de origen (trackingId)
+    console.error('Error guardando la ruta completa de la actividad:', trackError);
+  }
+
+  // Actualizar el usuario con la nueva actividad
+  await UserModel.findByIdAndUpdate(
+    finishedTracking.userId,
+    {
+      $push: { activities: savedActivity._id },
+      $inc: {
+        totalDistance: finishedTracking.currentDistance,
+        totalTime: finishedTracking.currentDuration
+      }
+    }
+  );
+
+  // Agregados del usuario y logros desbloqueados por la actividad
+  try {
+    await updateAchievementsForActivityChange(finishedTracking.userId.toString(), { added: savedActivity });
+  } catch (achievementError) {
+    console.error('Error verificando los logros:', achievementError);
+  }
+
+  // Progreso de los retos en los que participa el usuario
+  try {
+    await updateChallengeProgressForActivity(finishedTracking.userId.toString(), savedActivity);
+  } catch (challengeError) {
+    console.error('Error actualizando el progreso de los retos:', challengeError);
+  }
+
+  // Enviar notificaciones a los seguidores, sin hacer fallar la operación principal
+  try {
+    const socketIO = getIO();
+
+    const activityNotificationData = {
+      _id: savedActivity._id,
+      id: savedActivity._id,
+      name: savedActivity.name,
+      type: savedActivity.type,
+      distance: savedActivity.distance,
+      duration: savedActivity.duration,
+      startTime: savedActivity.startTime,
+      endTime: savedActivity.endTime
+    };
+
+    console.log(`Enviando notificaciones de actividad completada...`);
+
+    // Enviar notificaciones de forma asíncrona
+    setImmediate(async () => {
+      await createActivityNotificationForFollowers(
+        finishedTracking.userId.toString(),
+        activityNotificationData,
+        socketIO
+      );
+    });
+  } catch (notificationError) {
+    console.error('Error enviando notificaciones de actividad:', notificationError);
+  }
+
+  return savedActivity;
+};
+
 // Obtener un tracking por ID
 export const getTrackingById = async (trackingId: string): Promise<IActivityTracking | null> => {
   return await ActivityTrackingModel.findById(trackingId);
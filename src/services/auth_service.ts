@@ -1,11 +1,16 @@
 import { encrypt, verified } from "../utils/bcrypt.handle";
-import { generateToken, generateRefreshToken, verifyRefreshToken } from "../utils/jwt.handle";
 import User, { IUser } from "../models/user";
+import { createAuthSession, rotateRefreshToken, revokeSession, SessionDevice } from "./sessionService";
+import { sendEmailVerification } from "./accountTokenService";
+import { createTwoFactorChallenge } from "./twoFactorService";
+import { UNVERIFIED_RESTRICTIONS } from "../config/config";
 import { Auth } from "../models/auth_model";
 import axios from 'axios';
+import crypto from 'crypto';
+import { OAuth2Client } from 'google-auth-library';
 
 // Registrar un nou usuari al sistema
-const registerNewUser = async (userData: { username: string; email: string; password: string }) => {
+const registerNewUser = async (userData: { username: string; email: string; password: string }, device: SessionDevice = {}) => {
     const existingUser = await User.findOne({ email: userData.email });
     if (existingUser) return "ALREADY_USER";
 
@@ -16,6 +21,7 @@ const registerNewUser = async (userData: { username: string; email: string; pass
         password: passHash,
         username: userData.username,
         role: 'user',
+        emailVerified: false,
         level: 1,
         totalDistance: 0,
         totalTime: 0,
@@ -29,15 +35,20 @@ const registerNewUser = async (userData: { username: string; email: string; pass
         following: []
     });
 
-    const token = generateToken(newUser);
-    const refreshToken = generateRefreshToken(newUser.email);
-    
-    // Verificamos que los tokens sean diferentes
-    console.log("Access token generado:", token.substring(0, 20) + '...');
-    console.log("Refresh token generado:", refreshToken.substring(0, 20) + '...');
-    console.log("¿Son diferentes?", token !== refreshToken ? "Sí" : "No");
-    
-    await User.updateOne({ email: newUser.email }, { refreshToken });
+    // El registro no falla si no se puede enviar el correo: se puede volver a pedir
+    try {
+        await sendEmailVerification(newUser);
+    } catch (error) {
+        console.error("Error enviando el correo de verificación:", error);
+    }
+
+    // Si las cuentas sin verificar no pueden iniciar sesión, no se emiten tokens hasta verificar
+    if (UNVERIFIED_RESTRICTIONS.includes('login')) {
+        return { user: newUser, emailVerificationRequired: true };
+    }
+
+    // Cada dispositivo tiene su propia sesión con su refresh token
+    const { token, refreshToken } = await createAuthSession(newUser, device);
 
     return {
         token,
@@ -47,7 +58,7 @@ const registerNewUser = async (userData: { username: string; email: string; pass
 };
 
 // Autenticació d'usuari mitjançant email y contrasenya
-const loginUser = async ({ email, password, username }: Auth) => {
+const loginUser = async ({ email, password, username }: Auth, device: SessionDevice = {}) => {
     // Verificamos si el usuario existe
     const checkIs = await User.findOne({ email });
     if(!checkIs) return "NOT_FOUND_USER";
@@ -57,19 +68,13 @@ const loginUser = async ({ email, password, username }: Auth) => {
     const isCorrect = await verified(password, passwordHash);
     if(!isCorrect) return "INCORRECT_PASSWORD";
 
-    // Generamos un token de acceso con datos enriquecidos
-    const token = generateToken(checkIs);
-    
-    // Generamos un refresh token
-    const refreshToken = generateRefreshToken(checkIs.email);
-    
-    // Verificamos que los tokens sean diferentes
-    console.log("Access token generado:", token.substring(0, 20) + '...');
-    console.log("Refresh token generado:", refreshToken.substring(0, 20) + '...');
-    console.log("¿Son diferentes?", token !== refreshToken ? "Sí" : "No");
-    
-    // Guardamos el refresh token en la base de datos
-    await User.updateOne({ email }, { refreshToken });
+    if (checkIs.emailVerified === false && UNVERIFIED_RESTRICTIONS.includes('login')) return "EMAIL_NOT_VERIFIED";
+
+    // Con la verificación en dos pasos activa no se emiten tokens hasta validar el código (POST /api/auth/2fa/verify)
+    if (checkIs.twoFactor?.enabled) return createTwoFactorChallenge(checkIs);
+
+    // Nueva sesión para este dispositivo: las sesiones de otros dispositivos siguen activas
+    const { token, refreshToken } = await createAuthSession(checkIs, device);
 
     // Devolvemos los tokens y los datos del usuario
     const data = {
@@ -80,140 +85,225 @@ const loginUser = async ({ email, password, username }: Auth) => {
     return data;
 };
 
-// Refresca un token d'accés utilitzant un refresh token
-const refreshUserToken = async (refreshToken: string) => {
-    // Verificamos que el refresh token sea válido
-    const payload = verifyRefreshToken(refreshToken);
-    if (!payload) return "INVALID_REFRESH_TOKEN";
-    
-    // Obtenemos el ID del usuario del payload
-    const userId = (payload as any).id;
-    
-    // Buscamos al usuario en la base de datos
-    const user = await User.findOne({ email: userId });
-    if (!user) return "USER_NOT_FOUND";
-    
-    // Verificamos que el refresh token coincida con el almacenado
-    if (user.refreshToken !== refreshToken) return "REFRESH_TOKEN_MISMATCH";
-    
-    // Generamos un nuevo token de acceso
-    const newToken = generateToken(user);
-    
-    // Generamos un nuevo refresh token (rotación de tokens)
-    const newRefreshToken = generateRefreshToken(user.email);
-    
-    // Verificamos que son diferentes
-    console.log("Nuevo access token generado:", newToken.substring(0, 20) + '...');
-    console.log("Nuevo refresh token generado:", newRefreshToken.substring(0, 20) + '...');
-    console.log("¿Son diferentes?", newToken !== newRefreshToken ? "Sí" : "No");
-    
-    // Actualizamos el refresh token en la base de datos
-    await User.updateOne({ email: userId }, { refreshToken: newRefreshToken });
-    
-    // Devolvemos los nuevos tokens
+// Refresca un token d'accés utilitzant un refresh token (rotació amb detecció de reutilització)
+const refreshUserToken = async (refreshToken: string, device: SessionDevice = {}) => {
+    const result = await rotateRefreshToken(refreshToken, device);
+    if (typeof result === 'string') return result;
+
+    return {
+        token: result.token,
+        refreshToken: result.refreshToken
+    };
+};
+
+// Tanca la sessió del dispositiu actual
+const logoutUser = async (userId: string, sessionId?: string) => {
+    if (!sessionId) return false;
+
+    const result = await revokeSession(userId, sessionId, 'logout');
+    return result === true;
+};
+
+export type GoogleAuthError =
+    | "GOOGLE_EMAIL_NOT_VERIFIED"
+    | "EMAIL_NOT_VERIFIED"
+    | "GOOGLE_ACCOUNT_CONFLICT"
+    | "GOOGLE_ACCOUNT_IN_USE"
+    | "ALREADY_LINKED"
+    | "NOT_LINKED"
+    | "INVALID_GOOGLE_CREDENTIAL"
+    | "USER_NOT_FOUND";
+
+// Perfil de Google normalitzat (userinfo o id_token)
+interface GoogleProfile {
+    id: string;
+    email: string;
+    emailVerified: boolean;
+    name: string;
+    picture?: string;
+}
+
+const getGoogleConfig = () => {
+    if (!process.env.GOOGLE_CLIENT_ID || !process.env.GOOGLE_CLIENT_SECRET || !process.env.GOOGLE_OAUTH_REDIRECT_URL) {
+        throw new Error("Variables de entorno faltantes");
+    }
     return {
-        token: newToken,
-        refreshToken: newRefreshToken
+        clientId: process.env.GOOGLE_CLIENT_ID,
+        clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+        redirectUri: process.env.GOOGLE_OAUTH_REDIRECT_URL
     };
 };
 
-// Tanca la sessió d'un usuari invalidant el seu refresh token
-const logoutUser = async (userId: string) => {
-    // Actualizamos el refresh token a null para invalidarlo
-    await User.updateOne({ email: userId }, { refreshToken: null });
-    return true;
+// Intercanviar el codi d'autorització per un token de Google i obtenir el perfil de l'usuari
+const fetchGoogleProfile = async (code: string): Promise<GoogleProfile> => {
+    const { clientId, clientSecret, redirectUri } = getGoogleConfig();
+
+    const tokenResponse = await axios.post<{ access_token: string }>('https://oauth2.googleapis.com/token', {
+        code,
+        client_id: clientId,
+        client_secret: clientSecret,
+        redirect_uri: redirectUri,
+        grant_type: 'authorization_code'
+    });
+
+    const profileResponse = await axios.get('https://www.googleapis.com/oauth2/v1/userinfo', {
+        headers: { Authorization: `Bearer ${tokenResponse.data.access_token}`, Accept: 'application/json' },
+    });
+
+    const profile = profileResponse.data as { id: string; email: string; verified_email?: boolean; name: string; picture?: string };
+    return {
+        id: profile.id,
+        email: profile.email,
+        emailVerified: profile.verified_email === true,
+        name: profile.name,
+        picture: profile.picture
+    };
+};
+
+// Verificar un id_token de Google Sign-In (emès per al nostre client)
+const verifyGoogleIdToken = async (idToken: string): Promise<GoogleProfile | null> => {
+    const clientId = process.env.GOOGLE_CLIENT_ID;
+    if (!clientId) {
+        throw new Error("Variables de entorno faltantes");
+    }
+
+    try {
+        const ticket = await new OAuth2Client(clientId).verifyIdToken({ idToken, audience: clientId });
+        const payload = ticket.getPayload();
+        if (!payload?.sub || !payload.email) return null;
+
+        return {
+            id: payload.sub,
+            email: payload.email,
+            emailVerified: payload.email_verified === true,
+            name: payload.name || payload.email.split('@')[0],
+            picture: payload.picture
+        };
+    } catch (error) {
+        return null;
+    }
+};
+
+// Buscar el compte d'un perfil de Google: primer pel googleId i, si no n'hi ha cap de vinculat,
+// per un correu verificat tant a Google com al compte local. Mai pel nom d'usuari (no és únic)
+const findOrCreateGoogleUser = async (profile: GoogleProfile): Promise<IUser | GoogleAuthError> => {
+    const linkedUser = await User.findOne({ googleId: profile.id });
+    if (linkedUser) return linkedUser;
+
+    if (!profile.email || !profile.emailVerified) return "GOOGLE_EMAIL_NOT_VERIFIED";
+
+    const emailUser = await User.findOne({ email: profile.email });
+    if (emailUser) {
+        // El compte ja està vinculat a un altre compte de Google
+        if (emailUser.googleId) return "GOOGLE_ACCOUNT_CONFLICT";
+        // Un compte amb el correu pendent de verificar podria ser d'una altra persona:
+        // s'ha de verificar el correu o vincular Google des del propi compte
+        if (emailUser.emailVerified === false) return "EMAIL_NOT_VERIFIED";
+
+        const updatedUser = await User.findOneAndUpdate(
+            { _id: emailUser._id, googleId: { $exists: false } },
+            {
+                $set: {
+                    googleId: profile.id,
+                    ...(!emailUser.profilePicture && profile.picture ? { profilePicture: profile.picture } : {})
+                }
+            },
+            { new: true }
+        );
+        return updatedUser || "GOOGLE_ACCOUNT_CONFLICT";
+    }
+
+    const randomPassword = crypto.randomBytes(24).toString('hex');
+    return await User.create({
+        username: profile.name,
+        email: profile.email,
+        googleId: profile.id,
+        profilePicture: profile.picture || null,
+        password: await encrypt(randomPassword),
+        role: 'user', // Rol por defecto
+        emailVerified: true, // Google ya ha verificado el correo
+        emailVerifiedAt: new Date(),
+        level: 1,
+        totalDistance: 0,
+        totalTime: 0,
+        activities: [],
+        achievements: [],
+        challengesCompleted: [],
+        visibility: true
+    });
 };
 
 // Autenticació mitjançant Google OAuth
-const googleAuth = async (code: string) => {
+const googleAuth = async (code: string, device: SessionDevice = {}) => {
+    let profile: GoogleProfile;
     try {
-        // Verificamos que las variables de entorno estén configuradas
-        console.log("Client ID:", process.env.GOOGLE_CLIENT_ID);
-        console.log("Client Secret:", process.env.GOOGLE_CLIENT_SECRET);
-        console.log("Redirect URI:", process.env.GOOGLE_OAUTH_REDIRECT_URL);
-    
-        if (!process.env.GOOGLE_CLIENT_ID || !process.env.GOOGLE_CLIENT_SECRET || !process.env.GOOGLE_OAUTH_REDIRECT_URL) {
-            throw new Error("Variables de entorno faltantes");
-        }
+        profile = await fetchGoogleProfile(code);
+    } catch (error: any) {
+        // Només l'estat i el missatge: la resposta de Google pot contenir dades sensibles
+        console.error('Google Auth Error:', error.response?.status || error.message);
+        throw new Error('Error en autenticación con Google');
+    }
 
-        // Definimos la estructura de la respuesta de token
-        interface TokenResponse {
-            access_token: string;
-            expires_in: number;
-            scope: string;
-            token_type: string;
-            id_token?: string;
-        }
-        
-        // Intercambiamos el código por un token de acceso de Google
-        const tokenResponse = await axios.post<TokenResponse>('https://oauth2.googleapis.com/token', {
-            code,
-            client_id: process.env.GOOGLE_CLIENT_ID,
-            client_secret: process.env.GOOGLE_CLIENT_SECRET,
-            redirect_uri: process.env.GOOGLE_OAUTH_REDIRECT_URL,
-            grant_type: 'authorization_code'
-        });
-
-        const access_token = tokenResponse.data.access_token;
-        console.log("Google Access Token:", access_token.substring(0, 20) + '...'); 
-        
-        // Obtenemos el perfil del usuario
-        const profileResponse = await axios.get('https://www.googleapis.com/oauth2/v1/userinfo', {
-            params: { access_token },
-            headers: { Accept: 'application/json' },
-        });
-
-        // Procesamos los datos del perfil
-        const profile = profileResponse.data as {name: string, email: string; id: string };
-        console.log("Perfil de Google:", profile);
-        
-        // Buscamos o creamos el usuario en nuestra base de datos
-        let user = await User.findOne({ 
-            $or: [
-                { username: profile.name },
-                { email: profile.email }
-            ] 
-        });
-
-        // Si el usuario no existe, lo creamos
-        if (!user) {
-            console.log("Creando nuevo usuario desde Google Auth");
-            const randomPassword = Math.random().toString(36).slice(-8);
-            const passHash = await encrypt(randomPassword);
-            user = await User.create({
-                username: profile.name,
-                email: profile.email,
-                googleId: profile.id,
-                password: passHash,
-                role: 'user', // Rol por defecto
-                level: 1,
-                totalDistance: 0,
-                totalTime: 0,
-                activities: [],
-                achievements: [],
-                challengesCompleted: []
-            });
-        } else {
-            console.log("Usuario existente encontrado:", user.email);
+    const user = await findOrCreateGoogleUser(profile);
+    if (typeof user === 'string') return user;
+
+    // Si la cuenta tiene verificación en dos pasos, falta el segundo factor
+    if (user.twoFactor?.enabled) {
+        return { ...createTwoFactorChallenge(user), user };
+    }
+
+    // Generamos tokens JWT para nuestra aplicación en una sesión nueva
+    const { token, refreshToken } = await createAuthSession(user, device);
+
+    return { token, refreshToken, user };
+};
+
+// Vincular explícitament un compte de Google al compte autenticat (amb un id_token o un codi d'autorització)
+const linkGoogleAccount = async (userId: string, credential: { idToken?: string; code?: string }): Promise<IUser | GoogleAuthError> => {
+    let profile: GoogleProfile | null = null;
+    if (credential.idToken) {
+        profile = await verifyGoogleIdToken(credential.idToken);
+    } else if (credential.code) {
+        try {
+            profile = await fetchGoogleProfile(credential.code);
+        } catch (error: any) {
+            console.error('Google Link Error:', error.response?.status || error.message);
         }
+    }
+    if (!profile) return "INVALID_GOOGLE_CREDENTIAL";
 
-        // Generamos tokens JWT para nuestra aplicación
-        const token = generateToken(user);
-        const refreshToken = generateRefreshToken(user.email);
-        
-        // Verificamos que son diferentes
-        console.log("Access token generado (Google):", token.substring(0, 20) + '...');
-        console.log("Refresh token generado (Google):", refreshToken.substring(0, 20) + '...');
-        console.log("¿Son diferentes?", token !== refreshToken ? "Sí" : "No");
-        
-        // Guardamos el refresh token en la base de datos
-        await User.updateOne({ email: user.email }, { refreshToken });
-
-        return { token, refreshToken, user };
+    const user = await User.findById(userId);
+    if (!user) return "USER_NOT_FOUND";
+    if (user.googleId) return user.googleId === profile.id ? user : "ALREADY_LINKED";
+
+    const owner = await User.findOne({ googleId: profile.id });
+    if (owner) return "GOOGLE_ACCOUNT_IN_USE";
+
+    try {
+        const updatedUser = await User.findOneAndUpdate(
+            { _id: user._id, googleId: { $exists: false } },
+            { $set: { googleId: profile.id } },
+            { new: true }
+        );
+        return updatedUser || "ALREADY_LINKED";
     } catch (error: any) {
-        console.error('Google Auth Error:', error.response?.data || error.message);
-        throw new Error('Error en autenticación con Google');
+        // Índex únic de googleId: un altre compte l'ha vinculat al mateix temps
+        if (error.code === 11000) return "GOOGLE_ACCOUNT_IN_USE";
+        throw error;
     }
 };
 
-export { registerNewUser, loginUser, refreshUserToken, logoutUser, googleAuth };
\ No newline at end of file
+// Desvincular Google. El compte continua accessible amb la contrasenya (o restablint-la pel correu)
+const unlinkGoogleAccount = async (userId: string): Promise<IUser | GoogleAuthError> => {
+    const user = await User.findOneAndUpdate(
+        { _id: userId, googleId: { $exists: true } },
+        { $unset: { googleId: 1 } },
+        { new: true }
+    );
+    if (user) return user;
+
+    const exists = await User.exists({ _id: userId });
+    return exists ? "NOT_LINKED" : "USER_NOT_FOUND";
+};
+
+export { registerNewUser, loginUser, refreshUserToken, logoutUser, googleAuth, linkGoogleAccount, unlinkGoogleAccount };
\ No newline at end of file
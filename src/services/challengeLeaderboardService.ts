@@ -0,0 +1,234 @@
+import mongoose, { AccumulatorOperator } from 'mongoose';
+import ChallengeModel, { IChallenge } from '../models/challenge';
+import ChallengeParticipationModel from '../models/challengeParticipation';
+import ActivityModel, { IActivity } from '../models/activity';
+import UserModel from '../models/user';
+import { getIO } from '../config/socketConfig';
+import { canViewChallenge } from './challengeService';
+
+export type LeaderboardError = 'CHALLENGE_NOT_FOUND' | 'CHALLENGE_WITHOUT_GOAL' | 'USER_NOT_FOUND';
+export type LeaderboardScope = 'global' | 'following';
+
+type ChallengeDocument = IChallenge & { _id: mongoose.Types.ObjectId };
+
+export interface RankingRow {
+  userId: string;
+  value: number;
+  activityCount: number;
+  lastActivityAt: Date;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  user: { _id: string; username: string; profilePicture?: string | null } | null;
+  value: number;
+  activityCount: number;
+  completed: boolean;
+  isMe: boolean;
+}
+
+export interface Leaderboard {
+  challenge: { _id: string; title: string; metric: string; mode: string; activityType: string; target: number };
+  scope: LeaderboardScope;
+  activityType: string;
+  rankings: LeaderboardEntry[];
+  me: { rank: number; value: number } | null;
+  totalRanked: number;
+  totalPages: number;
+  currentPage: number;
+}
+
+// Campo de la actividad que mide cada objetivo (activity_count cuenta actividades)
+const METRIC_FIELDS: { [metric: string]: string | null } = {
+  distance: '$distance',
+  duration: '$duration',
+  elevation: '$elevationGain',
+  activity_count: null
+};
+
+// Actividades que cuentan para un reto: dentro de startDate..endDate y del tipo del objetivo
+export const buildChallengeActivityMatch = (challenge: IChallenge): { [key: string]: unknown } => {
+  const match: { [key: string]: unknown } = {
+    startTime: { $gte: challenge.startDate, $lte: challenge.endDate }
+  };
+  if (challenge.goal.activityType && challenge.goal.activityType !== 'all') {
+    match.type = challenge.goal.activityType;
+  }
+  return match;
+};
+
+// Valor acumulado (o la mejor actividad, en modo single) de las actividades agrupadas
+export const buildChallengeProgressAccumulator = (challenge: IChallenge): AccumulatorOperator => {
+  const field = METRIC_FIELDS[challenge.goal.metric];
+  if (!field) {
+    return { $sum: 1 };
+  }
+  return challenge.goal.mode === 'single' ? { $max: field } : { $sum: field };
+};
+
+export const isChallengeActivity = (challenge: IChallenge, activity: Pick<IActivity, 'startTime' | 'type'>): boolean => {
+  const startTime = new Date(activity.startTime).getTime();
+  if (startTime < challenge.startDate.getTime() || startTime > challenge.endDate.getTime()) {
+    return false;
+  }
+  return challenge.goal.activityType === 'all' || challenge.goal.activityType === activity.type;
+};
+
+// Clasificación completa de unos participantes: valor descendente y, en caso de empate,
+// primero quien lo consiguió antes. Solo aparecen los que tienen alguna actividad que cuenta
+export const computeChallengeRanking = async (
+  challenge: IChallenge,
+  userIds: mongoose.Types.ObjectId[],
+  activityType?: string
+): Promise<RankingRow[]> => {
+  const match = buildChallengeActivityMatch(challenge);
+  if (activityType && activityType !== 'all') {
+    // Un reto de un solo deporte no tiene actividades de otro tipo
+    if (match.type && match.type !== activityType) {
+      return [];
+    }
+    match.type = activityType;
+  }
+
+  const rows = await ActivityModel.aggregate([
+    { $match: { author: { $in: userIds }, ...match } },
+    {
+      $group: {
+        _id: '$author',
+        value: buildChallengeProgressAccumulator(challenge),
+        activityCount: { $sum: 1 },
+        lastActivityAt: { $max: '$startTime' }
+      }
+    },
+    { $sort: { value: -1, lastActivityAt: 1, _id: 1 } }
+  ]);
+
+  return rows.map(row => ({
+    userId: row._id.toString(),
+    value: Math.round(row.value * 100) / 100,
+    activityCount: row.activityCount,
+    lastActivityAt: row.lastActivityAt
+  }));
+};
+
+// Ranking de un reto entre sus participantes (global) o entre los usuarios a los que sigue quien consulta
+export const getChallengeLeaderboard = async (
+  challengeId: string,
+  viewerId: string,
+  options: { scope?: LeaderboardScope; activityType?: string; page?: number; limit?: number } = {}
+): Promise<Leaderboard | LeaderboardError> => {
+  const scope = options.scope || 'global';
+  const page = options.page || 1;
+  const limit = options.limit || 20;
+
+  const challenge = await ChallengeModel.findById(challengeId) as ChallengeDocument | null;
+  if (!challenge || !(await canViewChallenge(challenge, { userId: viewerId }))) {
+    return 'CHALLENGE_NOT_FOUND';
+  }
+  if (!challenge.goal) {
+    return 'CHALLENGE_WITHOUT_GOAL';
+  }
+
+  const participations = await ChallengeParticipationModel.find({ challengeId: challenge._id }).select('userId completed');
+  let participantIds = participations.map(participation => participation.userId);
+
+  if (scope === 'following') {
+    const viewer = await UserModel.findById(viewerId).select('following');
+    if (!viewer) {
+      return 'USER_NOT_FOUND';
+    }
+    const circle = new Set([viewerId, ...viewer.following.map(id => id.toString())]);
+    participantIds = participantIds.filter(id => circle.has(id.toString()));
+  }
+
+  const activityType = options.activityType || challenge.goal.activityType;
+  const ranking = await computeChallengeRanking(challenge, participantIds, activityType);
+
+  const skip = (page - 1) * limit;
+  const pageRows = ranking.slice(skip, skip + limit);
+  const completedIds = new Set(participations.filter(p => p.completed).map(p => p.userId.toString()));
+
+  // Los perfiles ocultos (visibility: false) mantienen su posición pero aparecen sin datos de usuario
+  const users = await UserModel.find({ _id: { $in: pageRows.map(row => row.userId) } }).select('username profilePicture visibility');
+  const usersById = new Map(users.map(user => [user._id.toString(), user]));
+
+  const myIndex = ranking.findIndex(row => row.userId === viewerId);
+
+  return {
+    challenge: {
+      _id: challenge._id.toString(),
+      title: challenge.title,
+      metric: challenge.goal.metric,
+      mode: challenge.goal.mode,
+      activityType: challenge.goal.activityType,
+      target: challenge.goal.target
+    },
+    scope,
+    activityType,
+    rankings: pageRows.map((row, index) => {
+      const user = usersById.get(row.userId);
+      const visible = !!user && (user.visibility !== false || row.userId === viewerId);
+      return {
+        rank: skip + index + 1,
+        user: visible ? { _id: row.userId, username: user.username, profilePicture: user.profilePicture || null } : null,
+        value: row.value,
+        activityCount: row.activityCount,
+        completed: completedIds.has(row.userId),
+        isMe: row.userId === viewerId
+      };
+    }),
+    me: myIndex >= 0 ? { rank: myIndex + 1, value: ranking[myIndex].value } : null,
+    totalRanked: ranking.length,
+    totalPages: Math.ceil(ranking.length / limit),
+    currentPage: page
+  };
+};
+
+// Recalcular las posiciones globales de un reto y avisar por Socket.IO a los participantes
+// cuya posición ha cambiado (evento challenge_rank_changed en su sala personal)
+export const refreshChallengeRanks = async (challenge: ChallengeDocument): Promise<number> => {
+  const participations = await ChallengeParticipationModel.find({ challengeId: challenge._id }).select('userId rank');
+  const ranking = await computeChallengeRanking(challenge, participations.map(p => p.userId));
+  const rankByUser = new Map(ranking.map((row, index) => [row.userId, { rank: index + 1, value: row.value }]));
+
+  const changes = participations
+    .map(participation => {
+      const current = rankByUser.get(participation.userId.toString());
+      return {
+        participation,
+        previousRank: participation.rank ?? null,
+        rank: current?.rank ?? null,
+        value: current?.value ?? 0
+      };
+    })
+    .filter(change => change.previousRank !== change.rank);
+
+  if (changes.length === 0) {
+    return 0;
+  }
+
+  await ChallengeParticipationModel.bulkWrite(changes.map(change => ({
+    updateOne: {
+      filter: { _id: change.participation._id },
+      update: { $set: { rank: change.rank } }
+    }
+  })));
+
+  try {
+    const io = getIO();
+    for (const change of changes) {
+      io.to(`user:${change.participation.userId}`).emit('challenge_rank_changed', {
+        challengeId: challenge._id.toString(),
+        challengeTitle: challenge.title,
+        previousRank: change.previousRank,
+        rank: change.rank,
+        value: change.value,
+        totalRanked: ranking.length
+      });
+    }
+  } catch (error) {
+    console.error('Error enviando los cambios de posición del reto:', error);
+  }
+
+  return changes.length;
+};
@@ -0,0 +1,339 @@
+import mongoose from 'mongoose';
+import ChallengeModel, { IChallenge } from '../models/challenge';
+import ChallengeParticipationModel, { IChallengeParticipation } from '../models/challengeParticipation';
+import ActivityModel, { IActivity } from '../models/activity';
+import UserModel from '../models/user';
+import { getIO } from '../config/socketConfig';
+import { createChallengeCompletedNotification } from './notificationService';
+import { canViewChallenge } from './challengeService';
+import { addChatRoomParticipant, removeChatRoomParticipant } from './chatService';
+import {
+  buildChallengeActivityMatch,
+  buildChallengeProgressAccumulator,
+  isChallengeActivity,
+  refreshChallengeRanks
+} from './challengeLeaderboardService';
+
+export type ChallengeParticipationError =
+  | 'CHALLENGE_NOT_FOUND'
+  | 'CHALLENGE_WITHOUT_GOAL'
+  | 'CHALLENGE_ENDED'
+  | 'ALREADY_JOINED'
+  | 'NOT_JOINED'
+  | 'ALREADY_COMPLETED';
+
+type ChallengeDocument = IChallenge & { _id: mongoose.Types.ObjectId };
+
+export interface ChallengeProgress {
+  challengeId: string;
+  joined: boolean;
+  metric: string;
+  mode: string;
+  activityType: string;
+  target: number;
+  progress: number;
+  percentage: number;
+  remaining: number;
+  activityCount: number;
+  completed: boolean;
+  completedAt: Date | null;
+  joinedAt: Date | null;
+}
+
+const roundProgress = (value: number): number => Math.round(value * 100) / 100;
+
+const formatProgress = (challenge: ChallengeDocument, participation: IChallengeParticipation | null): ChallengeProgress => {
+  const target = challenge.goal.target;
+  const progress = participation?.progress || 0;
+
+  return {
+    challengeId: challenge._id.toString(),
+    joined: !!participation,
+    metric: challenge.goal.metric,
+    mode: challenge.goal.mode,
+    activityType: challenge.goal.activityType,
+    target,
+    progress: roundProgress(progress),
+    percentage: target > 0 ? Math.min(100, roundProgress(progress / target * 100)) : 100,
+    remaining: roundProgress(Math.max(0, target - progress)),
+    activityCount: participation?.activityCount || 0,
+    completed: participation?.completed || false,
+    completedAt: participation?.completedAt || null,
+    joinedAt: participation?.joinedAt || null
+  };
+};
+
+// Recalcular el progreso desde las actividades del periodo (no se acumula a mano:
+// así crear la misma actividad dos veces o reevaluar no lo infla)
+const computeProgress = async (challenge: ChallengeDocument, userId: mongoose.Types.ObjectId) => {
+  const [result] = await ActivityModel.aggregate([
+    { $match: { author: userId, ...buildChallengeActivityMatch(challenge) } },
+    {
+      $group: {
+        _id: null,
+        value: buildChallengeProgressAccumulator(challenge),
+        activityCount: { $sum: 1 },
+        lastActivityAt: { $max: '$startTime' }
+      }
+    }
+  ]);
+
+  return {
+    progress: result?.value || 0,
+    activityCount: result?.activityCount || 0,
+    lastActivityAt: result?.lastActivityAt || null
+  };
+};
+
+// Marcar el reto como completado una sola vez (condición atómica) y entregar la recompensa
+const completeParticipation = async (challenge: ChallengeDocument, participation: IChallengeParticipation): Promise<boolean> => {
+  const completed = await ChallengeParticipationModel.findOneAndUpdate(
+    { _id: participation._id, completed: false },
+    { $set: { completed: true, completedAt: new Date(), rewardGranted: challenge.reward } },
+    { new: true }
+  );
+  if (!completed) {
+    return false;
+  }
+
+  await UserModel.updateOne(
+    { _id: participation.userId },
+    {
+      $inc: { points: challenge.reward },
+      $addToSet: { challengesCompleted: challenge._id }
+    }
+  );
+
+  // La notificación no debe hacer fallar la actualización del progreso
+  try {
+    const socketIO = getIO();
+    await createChallengeCompletedNotification(
+      participation.userId.toString(),
+      challenge.title,
+      challenge._id.toString(),
+      challenge.reward,
+      socketIO
+    );
+  } catch (error) {
+    console.error('Error enviando la notificación de reto completado:', error);
+  }
+
+  return true;
+};
+
+// Actualizar el progreso de una inscripción y completarla si alcanza el objetivo
+const evaluateParticipation = async (
+  challenge: ChallengeDocument,
+  participation: IChallengeParticipation
+): Promise<IChallengeParticipation> => {
+  const { progress, activityCount, lastActivityAt } = await computeProgress(challenge, participation.userId);
+
+  const updated = await ChallengeParticipationModel.findByIdAndUpdate(
+    participation._id,
+    { $set: { progress, activityCount, lastActivityAt } },
+    { new: true }
+  );
+  if (!updated) {
+    return participation;
+  }
+
+  if (!updated.completed && progress >= challenge.goal.target) {
+    if (await completeParticipation(challenge, updated)) {
+      console.log(`Usuario ${updated.userId} ha completado el reto "${challenge.title}"`);
+      return (await ChallengeParticipationModel.findById(updated._id)) || updated;
+    }
+  }
+
+  return updated;
+};
+
+// Un error recalculando el ranking no debe deshacer la inscripción ni el progreso ya guardados
+const refreshRanksSafely = async (challenge: ChallengeDocument): Promise<void> => {
+  try {
+    await refreshChallengeRanks(challenge);
+  } catch (error) {
+    console.error('Error actualizando el ranking del reto:', error);
+  }
+};
+
+// Inscribirse en un reto. El progreso incluye las actividades ya hechas dentro del periodo
+export const joinChallenge = async (challengeId: string, userId: string): Promise<ChallengeProgress | ChallengeParticipationError> => {
+  const challenge = await ChallengeModel.findById(challengeId) as ChallengeDocument | null;
+  if (!challenge) {
+    return 'CHALLENGE_NOT_FOUND';
+  }
+  // Retos anteriores a los objetivos estructurados: no se puede medir el progreso
+  if (!challenge.goal) {
+    return 'CHALLENGE_WITHOUT_GOAL';
+  }
+  // Un reto privado o de seguidores que el usuario no puede ver no existe para él
+  if (!(await canViewChallenge(challenge, { userId }))) {
+    return 'CHALLENGE_NOT_FOUND';
+  }
+  if (challenge.endDate.getTime() < Date.now() || challenge.closedAt) {
+    return 'CHALLENGE_ENDED';
+  }
+
+  let participation: IChallengeParticipation;
+  try {
+    participation = await ChallengeParticipationModel.create({
+      challengeId: challenge._id,
+      userId: new mongoose.Types.ObjectId(userId)
+    });
+  } catch (error: any) {
+    if (error.code === 11000) {
+      return 'ALREADY_JOINED';
+    }
+    throw error;
+  }
+
+  // Unirse a un reto al que estaba invitado equivale a aceptar la invitación
+  await ChallengeModel.updateOne(
+    { _id: challenge._id, invitations: { $elemMatch: { userId: participation.userId, status: 'pending' } } },
+    { $set: { 'invitations.$.status': 'accepted', 'invitations.$.respondedAt': new Date() } }
+  );
+  if (challenge.chatRoomId) {
+    await addChatRoomParticipant(challenge.chatRoomId.toString(), userId);
+  }
+
+  const evaluated = await evaluateParticipation(challenge, participation);
+  await refreshRanksSafely(challenge);
+  return formatProgress(challenge, evaluated);
+};
+
+// Abandonar un reto. Un reto completado no se puede abandonar (ya se ha entregado la recompensa)
+export const leaveChallenge = async (challengeId: string, userId: string): Promise<true | ChallengeParticipationError> => {
+  const participation = await ChallengeParticipationModel.findOne({ challengeId, userId });
+  if (!participation) {
+    return 'NOT_JOINED';
+  }
+  if (participation.completed) {
+    return 'ALREADY_COMPLETED';
+  }
+  if (await ChallengeModel.exists({ _id: participation.challengeId, closedAt: { $ne: null } })) {
+    return 'CHALLENGE_ENDED';
+  }
+
+  await ChallengeParticipationModel.deleteOne({ _id: participation._id, completed: false });
+
+  const challenge = await ChallengeModel.findById(challengeId) as ChallengeDocument | null;
+  if (challenge?.chatRoomId) {
+    await removeChatRoomParticipant(challenge.chatRoomId.toString(), userId);
+  }
+  if (challenge?.goal) {
+    await refreshRanksSafely(challenge);
+  }
+  return true;
+};
+
+// Progreso del usuario en un reto (joined: false si no está inscrito)
+export const getChallengeProgress = async (challengeId: string, userId: string): Promise<ChallengeProgress | ChallengeParticipationError> => {
+  const challenge = await ChallengeModel.findById(challengeId) as ChallengeDocument | null;
+  if (!challenge) {
+    return 'CHALLENGE_NOT_FOUND';
+  }
+  if (!(await canViewChallenge(challenge, { userId }))) {
+    return 'CHALLENGE_NOT_FOUND';
+  }
+  if (!challenge.goal) {
+    return 'CHALLENGE_WITHOUT_GOAL';
+  }
+
+  const participation = await ChallengeParticipationModel.findOne({ challengeId: challenge._id, userId });
+  return formatProgress(challenge, participation);
+};
+
+// Retos en los que está inscrito un usuario, con su progreso
+export const getUserChallenges = async (
+  userId: string,
+  status: 'active' | 'completed' | 'all' = 'all'
+): Promise<Array<{ challenge: IChallenge; progress: ChallengeProgress }>> => {
+  const query: { [key: string]: unknown } = { userId };
+  if (status === 'completed') {
+    query.completed = true;
+  }
+
+  const participations = await ChallengeParticipationModel.find(query).sort({ joinedAt: -1 });
+  const challenges = await ChallengeModel.find({ _id: { $in: participations.map(p => p.challengeId) } }) as ChallengeDocument[];
+  const challengesById = new Map(challenges.map(challenge => [challenge._id.toString(), challenge]));
+  const now = Date.now();
+
+  return participations
+    .map(participation => ({ participation, challenge: challengesById.get(participation.challengeId.toString()) }))
+    .filter(({ participation, challenge }) => {
+      if (!challenge?.goal) return false;
+      if (status === 'active') return !participation.completed && challenge.endDate.getTime() >= now;
+      return true;
+    })
+    .map(({ participation, challenge }) => ({
+      challenge: challenge!,
+      progress: formatProgress(challenge!, participation)
+    }));
+};
+
+// Motor de progreso: se llama después de guardar, editar o borrar una actividad (API, importación o
+// fin de tracking). Al editar se pasan la versión anterior y la nueva para cubrir los retos de las dos
+// fechas y tipos. Se reevalúan las inscripciones cuyo reto incluye alguna de las actividades: el progreso
+// se recalcula siempre (también baja al borrar), pero un reto ya completado no se vuelve a completar
+// ni se retira su recompensa. Devuelve las inscripciones que se acaban de completar
+export const updateChallengeProgressForActivity = async (
+  userId: string,
+  activities: Pick<IActivity, 'startTime' | 'type'> | Array<Pick<IActivity, 'startTime' | 'type'>>
+): Promise<IChallengeParticipation[]> => {
+  const changed = Array.isArray(activities) ? activities : [activities];
+  const participations = await ChallengeParticipationModel.find({ userId });
+  if (participations.length === 0 || changed.length === 0) {
+    return [];
+  }
+
+  // Los retos cerrados por el planificador conservan sus resultados finales
+  const challenges = await ChallengeModel.find({
+    _id: { $in: participations.map(p => p.challengeId) },
+    closedAt: null,
+    $or: changed.map(activity => ({
+      startDate: { $lte: activity.startTime },
+      endDate: { $gte: activity.startTime }
+    }))
+  }) as ChallengeDocument[];
+  const challengesById = new Map(challenges.map(challenge => [challenge._id.toString(), challenge]));
+
+  const completed: IChallengeParticipation[] = [];
+  for (const participation of participations) {
+    const challenge = challengesById.get(participation.challengeId.toString());
+    if (!challenge || !challenge.goal || !changed.some(activity => isChallengeActivity(challenge, activity))) {
+      continue;
+    }
+
+    const evaluated = await evaluateParticipation(challenge, participation);
+    if (!participation.completed && evaluated.completed) {
+      completed.push(evaluated);
+    }
+    await refreshRanksSafely(challenge);
+  }
+
+  return completed;
+};
+
+// Recalcular desde cero el progreso del usuario en todos sus retos abiertos (reconstrucción de administrador)
+export const rebuildUserChallengeProgress = async (userId: string): Promise<number> => {
+  const participations = await ChallengeParticipationModel.find({ userId });
+  const challenges = await ChallengeModel.find({
+    _id: { $in: participations.map(p => p.challengeId) },
+    closedAt: null
+  }) as ChallengeDocument[];
+  const challengesById = new Map(challenges.map(challenge => [challenge._id.toString(), challenge]));
+
+  let updated = 0;
+  for (const participation of participations) {
+    const challenge = challengesById.get(participation.challengeId.toString());
+    if (!challenge || !challenge.goal) {
+      continue;
+    }
+
+    await evaluateParticipation(challenge, participation);
+    await refreshRanksSafely(challenge);
+    updated++;
+  }
+
+  return updated;
+};
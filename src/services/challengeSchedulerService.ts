@@ -0,0 +1,210 @@
+import mongoose from 'mongoose';
+import ChallengeModel, { IChallenge, IChallengeResults } from '../models/challenge';
+import ChallengeTemplateModel, { ChallengeRecurrence, IChallengeTemplate } from '../models/challengeTemplate';
+import ChallengeParticipationModel from '../models/challengeParticipation';
+import { getIO } from '../config/socketConfig';
+import { createChallengeStartedNotification } from './notificationService';
+import { computeChallengeRanking, refreshChallengeRanks } from './challengeLeaderboardService';
+
+// Frecuencia con la que el planificador genera periodos nuevos y cierra los retos terminados
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+// Retos cerrados por pasada, para no bloquear el planificador con un atasco de retos antiguos
+const MAX_CLOSED_PER_RUN = 100;
+const PODIUM_SIZE = 3;
+
+const MONTH_NAMES = ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre'];
+// Estaciones meteorológicas: empiezan el 1 de marzo, junio, septiembre y diciembre
+const SEASON_NAMES: { [startMonth: number]: string } = { 2: 'primavera', 5: 'verano', 8: 'otoño', 11: 'invierno' };
+
+type ChallengeDocument = IChallenge & { _id: mongoose.Types.ObjectId };
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let isRunRunning = false;
+
+// Periodo (en UTC) que contiene la fecha indicada. endDate es el último milisegundo del periodo
+export const getPeriodBounds = (recurrence: ChallengeRecurrence, date: Date): { start: Date; end: Date } => {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  let start: Date;
+  let next: Date;
+
+  switch (recurrence) {
+    case 'weekly': {
+      const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+      start = new Date(Date.UTC(year, month, date.getUTCDate() - daysSinceMonday));
+      next = new Date(Date.UTC(year, month, date.getUTCDate() - daysSinceMonday + 7));
+      break;
+    }
+    case 'monthly':
+      start = new Date(Date.UTC(year, month, 1));
+      next = new Date(Date.UTC(year, month + 1, 1));
+      break;
+    case 'seasonal': {
+      const seasonStartMonth = month - (month + 1) % 3;
+      start = new Date(Date.UTC(year, seasonStartMonth, 1));
+      next = new Date(Date.UTC(year, seasonStartMonth + 3, 1));
+      break;
+    }
+  }
+
+  return { start, end: new Date(next.getTime() - 1) };
+};
+
+const formatPeriodLabel = (recurrence: ChallengeRecurrence, start: Date): string => {
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+
+  switch (recurrence) {
+    case 'weekly': {
+      const day = String(start.getUTCDate()).padStart(2, '0');
+      return `semana del ${day}/${String(month + 1).padStart(2, '0')}/${year}`;
+    }
+    case 'monthly':
+      return `${MONTH_NAMES[month]} ${year}`;
+    case 'seasonal':
+      return `${SEASON_NAMES[month]} ${year}`;
+  }
+};
+
+// Avisar a quien participó en el periodo anterior de que empieza uno nuevo
+const notifyNewPeriod = async (challenge: ChallengeDocument, previous: ChallengeDocument | null): Promise<void> => {
+  if (!previous) return;
+
+  try {
+    const userIds: mongoose.Types.ObjectId[] = await ChallengeParticipationModel.distinct('userId', { challengeId: previous._id });
+    const socketIO = getIO();
+    for (const userId of userIds) {
+      await createChallengeStartedNotification(userId.toString(), challenge.title, challenge._id.toString(), socketIO);
+    }
+  } catch (error) {
+    console.error(`Error avisando del nuevo periodo del reto "${challenge.title}":`, error);
+  }
+};
+
+// Crear el reto del periodo actual de una plantilla si aún no existe. El índice único
+// (templateId, startDate) evita duplicados si hay varias instancias del servidor
+export const generateTemplateInstance = async (
+  template: IChallengeTemplate,
+  now: Date = new Date()
+): Promise<ChallengeDocument | null> => {
+  const { start, end } = getPeriodBounds(template.recurrence, now);
+
+  if (!template.active) return null;
+  if (template.startsAt && start.getTime() < template.startsAt.getTime()) return null;
+  if (template.endsAt && start.getTime() > template.endsAt.getTime()) return null;
+  if (template.lastPeriodStart && template.lastPeriodStart.getTime() >= start.getTime()) return null;
+
+  const previous = await ChallengeModel.findOne({ templateId: template._id, startDate: { $lt: start } })
+    .sort({ startDate: -1 }) as ChallengeDocument | null;
+
+  let challenge: ChallengeDocument;
+  try {
+    challenge = await ChallengeModel.create({
+      title: `${template.title} (${formatPeriodLabel(template.recurrence, start)})`,
+      description: template.description,
+      goal: template.goal,
+      reward: template.reward,
+      startDate: start,
+      endDate: end,
+      templateId: template._id
+    }) as ChallengeDocument;
+  } catch (error: any) {
+    if (error.code === 11000) {
+      return null;
+    }
+    throw error;
+  }
+
+  await ChallengeTemplateModel.updateOne({ _id: template._id }, { $set: { lastPeriodStart: start } });
+  console.log(`Generado el reto "${challenge.title}" a partir de la plantilla ${template._id}`);
+
+  await notifyNewPeriod(challenge, previous);
+  return challenge;
+};
+
+// Cerrar un reto terminado: fija las posiciones finales y archiva un resumen de los resultados.
+// A partir de aquí las actividades nuevas ya no cambian su progreso
+export const closeChallenge = async (challengeId: mongoose.Types.ObjectId | string): Promise<ChallengeDocument | null> => {
+  const claimed = await ChallengeModel.findOneAndUpdate(
+    { _id: challengeId, closedAt: null },
+    { $set: { closedAt: new Date() } },
+    { new: true }
+  ) as ChallengeDocument | null;
+  if (!claimed) {
+    return null;
+  }
+
+  const participations = await ChallengeParticipationModel.find({ challengeId: claimed._id }).select('userId completed');
+  const results: IChallengeResults = {
+    participants: participations.length,
+    completedCount: participations.filter(participation => participation.completed).length,
+    podium: []
+  };
+
+  // Retos anteriores a los objetivos estructurados: no hay clasificación
+  if (claimed.goal && participations.length > 0) {
+    await refreshChallengeRanks(claimed);
+
+    const completedIds = new Set(participations.filter(p => p.completed).map(p => p.userId.toString()));
+    const ranking = await computeChallengeRanking(claimed, participations.map(p => p.userId));
+    results.podium = ranking.slice(0, PODIUM_SIZE).map((row, index) => ({
+      userId: new mongoose.Types.ObjectId(row.userId),
+      rank: index + 1,
+      value: row.value,
+      completed: completedIds.has(row.userId)
+    }));
+  }
+
+  return await ChallengeModel.findByIdAndUpdate(claimed._id, { $set: { results } }, { new: true }) as ChallengeDocument | null;
+};
+
+// Una pasada del planificador: periodos nuevos de las plantillas activas y cierre de retos terminados
+export const runChallengeScheduler = async (): Promise<void> => {
+  if (isRunRunning) return;
+  isRunRunning = true;
+
+  try {
+    const now = new Date();
+
+    const templates = await ChallengeTemplateModel.find({ active: true });
+    for (const template of templates) {
+      try {
+        await generateTemplateInstance(template, now);
+      } catch (error) {
+        console.error(`Error generando el reto de la plantilla ${template._id}:`, error);
+      }
+    }
+
+    const expired = await ChallengeModel.find({ closedAt: null, endDate: { $lt: now } })
+      .select('_id')
+      .sort({ endDate: 1 })
+      .limit(MAX_CLOSED_PER_RUN);
+    for (const challenge of expired) {
+      try {
+        await closeChallenge(challenge._id);
+      } catch (error) {
+        console.error(`Error cerrando el reto ${challenge._id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('Error en el planificador de retos:', error);
+  } finally {
+    isRunRunning = false;
+  }
+};
+
+// Iniciar el planificador de retos
+export const startChallengeScheduler = (): void => {
+  if (schedulerTimer) return;
+
+  runChallengeScheduler();
+  schedulerTimer = setInterval(runChallengeScheduler, SCHEDULER_INTERVAL_MS);
+  console.log('Planificador de retos iniciado');
+};
+
+export const stopChallengeScheduler = (): void => {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+};
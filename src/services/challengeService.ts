@@ -1,15 +1,74 @@
 import ChallengeModel, { IChallenge } from "../models/challenge";
+import UserModel from "../models/user";
+import { deleteChatRoom } from "./chatService";
 import mongoose from 'mongoose';
 
+export type ChallengeError = "INVALID_DATE_RANGE";
+
+// Quien consulta los retos. Sin userId es un visitante anónimo (solo ve los retos públicos)
+export interface ChallengeViewer {
+    userId?: string;
+    isAdmin?: boolean;
+}
+
+const publicChallengeConditions = [
+    { visibility: { $exists: false } },
+    { visibility: 'public' }
+];
+
+// Filtro de los retos que puede ver un usuario. Sin visibility (retos antiguos) o public: todos;
+// followers: quien sigue al creador; private: el creador y los invitados que no han rechazado.
+// Solo a los administradores no se les filtra
+export const buildChallengeVisibilityFilter = async (viewer: ChallengeViewer): Promise<{ [key: string]: unknown }> => {
+    if (viewer.isAdmin) return {};
+    if (!viewer.userId) return { $or: publicChallengeConditions };
+
+    const viewerObjectId = new mongoose.Types.ObjectId(viewer.userId);
+    const user = await UserModel.findById(viewer.userId).select('following');
+
+    return {
+        $or: [
+            ...publicChallengeConditions,
+            { createdBy: viewerObjectId },
+            { invitations: { $elemMatch: { userId: viewerObjectId, status: { $ne: 'declined' } } } },
+            { visibility: 'followers', createdBy: { $in: user?.following || [] } }
+        ]
+    };
+};
+
+// La misma regla que buildChallengeVisibilityFilter para un reto ya cargado
+export const canViewChallenge = async (challenge: IChallenge, viewer: ChallengeViewer): Promise<boolean> => {
+    if (viewer.isAdmin || !challenge.visibility || challenge.visibility === 'public') return true;
+    const viewerId = viewer.userId;
+    if (!viewerId) return false;
+    if (challenge.createdBy?.toString() === viewerId) return true;
+
+    const invited = (challenge.invitations || []).some(invitation =>
+        invitation.userId.toString() === viewerId && invitation.status !== 'declined'
+    );
+    if (invited) return true;
+
+    if (challenge.visibility === 'followers' && challenge.createdBy) {
+        const user = await UserModel.findById(viewerId).select('following');
+        return !!user?.following.some(id => id.toString() === challenge.createdBy!.toString());
+    }
+    return false;
+};
+
 export const createChallenge = async(newChallenge: IChallenge) => {
+    if (new Date(newChallenge.endDate).getTime() <= new Date(newChallenge.startDate).getTime()) {
+        return "INVALID_DATE_RANGE";
+    }
     return await ChallengeModel.create(newChallenge);
 };
 
-export const getChallengeById = async(challengeId: string)=>{
-    return await ChallengeModel.findById(challengeId);
+export const getChallengeById = async(challengeId: string, viewer: ChallengeViewer)=>{
+    const challenge = await ChallengeModel.findById(challengeId);
+    if (!challenge || !(await canViewChallenge(challenge, viewer))) return null;
+    return challenge;
 };
 
-export const getChallenges = async (page: number, limit: number): Promise<{
+export const getChallenges = async (page: number, limit: number, viewer: ChallengeViewer): Promise<{
   challenges: IChallenge[];
   totalChallenges: number;
   totalPages: number;
@@ -18,7 +77,7 @@ export const getChallenges = async (page: number, limit: number): Promise<{
   try {
     const skip = (page - 1) * limit;
     
-    const query = {};
+    const query = await buildChallengeVisibilityFilter(viewer);
     
     if (mongoose.connection.readyState !== 1) {
       throw new Error("La connexió a MongoDB no està disponible");
@@ -54,18 +113,42 @@ export const getChallenges = async (page: number, limit: number): Promise<{
   }
 };
 
-export const updateChallenge = async(challengeId: string, updatedChallenge: IChallenge)=>{
-    return await ChallengeModel.findByIdAndUpdate(challengeId, updatedChallenge, {new: true});
+export const updateChallenge = async(challengeId: string, updatedChallenge: Partial<IChallenge>)=>{
+    const challenge = await ChallengeModel.findById(challengeId);
+    if (!challenge) return null;
+
+    // Las fechas se comprueban juntas aunque solo se cambie una de ellas
+    const startDate = new Date(updatedChallenge.startDate ?? challenge.startDate);
+    const endDate = new Date(updatedChallenge.endDate ?? challenge.endDate);
+    if (endDate.getTime() <= startDate.getTime()) return "INVALID_DATE_RANGE";
+
+    return await ChallengeModel.findByIdAndUpdate(challengeId, updatedChallenge, {new: true, runValidators: true});
 };
 
 export const deleteChallenge = async(challengeId: string)=>{
-    return await ChallengeModel.findByIdAndDelete(challengeId);
+    const challenge = await ChallengeModel.findByIdAndDelete(challengeId);
+    if (challenge?.chatRoomId) {
+        await deleteChatRoom(challenge.chatRoomId.toString());
+    }
+    return challenge;
 };
 
-export const getActiveChallenges = async()=>{
-    return await ChallengeModel.find({endDate: {$gte: new Date()}});
+// Activos: no han terminado ni los ha cerrado el planificador (incluye los periodos generados por plantillas)
+export const getActiveChallenges = async(viewer: ChallengeViewer)=>{
+    return await ChallengeModel.find({
+        $and: [
+            {endDate: {$gte: new Date()}, closedAt: null},
+            await buildChallengeVisibilityFilter(viewer)
+        ]
+    }).sort({endDate: 1});
 };
 
-export const getInactiveChallenges = async()=>{
-    return await ChallengeModel.find({endDate: {$lte: new Date()}});
+// Inactivos: terminados o cerrados, con los resultados archivados si el planificador ya los ha cerrado
+export const getInactiveChallenges = async(viewer: ChallengeViewer)=>{
+    return await ChallengeModel.find({
+        $and: [
+            {$or: [{endDate: {$lt: new Date()}}, {closedAt: {$ne: null}}]},
+            await buildChallengeVisibilityFilter(viewer)
+        ]
+    }).sort({endDate: -1});
 };
\ No newline at end of file
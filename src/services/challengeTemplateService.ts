@@ -0,0 +1,54 @@
+import ChallengeModel from '../models/challenge';
+import ChallengeTemplateModel, { IChallengeTemplate } from '../models/challengeTemplate';
+import { generateTemplateInstance } from './challengeSchedulerService';
+
+export type ChallengeTemplateError = 'INVALID_DATE_RANGE';
+
+type ChallengeTemplateInput = Partial<Pick<IChallengeTemplate,
+  'title' | 'description' | 'goal' | 'reward' | 'recurrence' | 'active' | 'startsAt' | 'endsAt'>>;
+
+const hasValidRange = (startsAt?: Date | null, endsAt?: Date | null): boolean =>
+  !startsAt || !endsAt || new Date(endsAt).getTime() > new Date(startsAt).getTime();
+
+// Crear una plantilla y generar ya el reto del periodo actual (sin esperar al planificador)
+export const createChallengeTemplate = async (input: ChallengeTemplateInput) => {
+  if (!hasValidRange(input.startsAt, input.endsAt)) {
+    return 'INVALID_DATE_RANGE';
+  }
+
+  const template = await ChallengeTemplateModel.create(input);
+  const challenge = await generateTemplateInstance(template);
+  return { template, challenge };
+};
+
+export const getChallengeTemplates = async () => {
+  return await ChallengeTemplateModel.find().sort({ createdAt: -1 });
+};
+
+// Los cambios se aplican a los periodos que se generen a partir de ahora, no a los ya creados
+export const updateChallengeTemplate = async (templateId: string, input: ChallengeTemplateInput) => {
+  const template = await ChallengeTemplateModel.findById(templateId);
+  if (!template) return null;
+
+  const startsAt = input.startsAt !== undefined ? input.startsAt : template.startsAt;
+  const endsAt = input.endsAt !== undefined ? input.endsAt : template.endsAt;
+  if (!hasValidRange(startsAt, endsAt)) return 'INVALID_DATE_RANGE';
+
+  return await ChallengeTemplateModel.findByIdAndUpdate(templateId, input, { new: true, runValidators: true });
+};
+
+// Los retos ya generados se conservan, con sus resultados
+export const deleteChallengeTemplate = async (templateId: string) => {
+  return await ChallengeTemplateModel.findByIdAndDelete(templateId);
+};
+
+// Retos generados por una plantilla, del más reciente al más antiguo, con los resultados archivados
+export const getTemplateInstances = async (templateId: string) => {
+  const template = await ChallengeTemplateModel.findById(templateId);
+  if (!template) return null;
+
+  const challenges = await ChallengeModel.find({ templateId: template._id })
+    .populate('results.podium.userId', 'username profilePicture')
+    .sort({ startDate: -1 });
+  return { template, challenges };
+};
@@ -87,6 +87,66 @@ export const getChatRoomById = async (roomId: string): Promise<IChatRoom | null>
     .populate('participants', 'username profilePicture');
 };
 
+// Comprobar si un usuario participa en una sala de chat
+export const isChatRoomParticipant = async (roomId: string, userId: string): Promise<boolean> => {
+  if (!mongoose.Types.ObjectId.isValid(roomId) || !mongoose.Types.ObjectId.isValid(userId)) {
+    return false;
+  }
+
+  const room = await ChatRoomModel.exists({
+    _id: roomId,
+    participants: new mongoose.Types.ObjectId(userId)
+  });
+  return room !== null;
+};
+
+// Añadir un participante a una sala de grupo (p. ej. al unirse a un reto entre amigos)
+export const addChatRoomParticipant = async (roomId: string, userId: string): Promise<IChatRoom | null> => {
+  const room = await ChatRoomModel.findOneAndUpdate(
+    { _id: roomId, participants: { $ne: new mongoose.Types.ObjectId(userId) } },
+    { $addToSet: { participants: new mongoose.Types.ObjectId(userId) } },
+    { new: true }
+  );
+  if (!room) {
+    return null;
+  }
+
+  // El nuevo participante recibe la sala como si se acabara de crear
+  try {
+    const io = getIO();
+    io.to(`user:${userId}`).emit('new_room', {
+      roomId: room._id,
+      name: room.name,
+      participants: room.participants,
+      isGroup: room.isGroup
+    });
+  } catch (error) {
+    console.error('Error al notificar la incorporación a la sala por Socket.IO:', error);
+  }
+
+  return room;
+};
+
+// Quitar a un participante de una sala de grupo
+export const removeChatRoomParticipant = async (roomId: string, userId: string): Promise<IChatRoom | null> => {
+  const room = await ChatRoomModel.findByIdAndUpdate(
+    roomId,
+    { $pull: { participants: new mongoose.Types.ObjectId(userId) } },
+    { new: true }
+  );
+
+  if (room) {
+    try {
+      const io = getIO();
+      io.to(`user:${userId}`).emit('room_left', { roomId: room._id });
+    } catch (error) {
+      console.error('Error al notificar la salida de la sala por Socket.IO:', error);
+    }
+  }
+
+  return room;
+};
+
 // Guardar un mensaje
 export const saveMessage = async (messageData: {
   roomId: string;
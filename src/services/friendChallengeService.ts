@@ -0,0 +1,232 @@
+import mongoose from 'mongoose';
+import ChallengeModel, { ChallengeVisibility, IChallenge, IChallengeGoal, IChallengeInvitation } from '../models/challenge';
+import UserModel from '../models/user';
+import { getIO } from '../config/socketConfig';
+import { createChatRoom, deleteChatRoom } from './chatService';
+import { ChallengeParticipationError, ChallengeProgress, joinChallenge } from './challengeProgressService';
+import {
+  createChallengeInvitationNotification,
+  createChallengeInvitationResponseNotification
+} from './notificationService';
+
+export type FriendChallengeError =
+  | 'INVALID_DATE_RANGE'
+  | 'USER_NOT_FOUND'
+  | 'INVITEE_NOT_FOLLOWED'
+  | 'NOT_FRIEND_CHALLENGE'
+  | 'INVITATION_NOT_FOUND'
+  | ChallengeParticipationError;
+
+type ChallengeDocument = IChallenge & { _id: mongoose.Types.ObjectId };
+
+export interface FriendChallengeInput {
+  title: string;
+  description: string;
+  goal: IChallengeGoal;
+  startDate: Date;
+  endDate: Date;
+  visibility?: ChallengeVisibility;
+  invitees?: string[];
+}
+
+// Solo se puede invitar a usuarios a los que se sigue. Devuelve los IDs sin duplicados ni el propio creador
+const resolveInvitees = async (ownerId: string, invitees: string[]): Promise<string[] | FriendChallengeError> => {
+  const owner = await UserModel.findById(ownerId).select('following');
+  if (!owner) {
+    return 'USER_NOT_FOUND';
+  }
+
+  const following = new Set(owner.following.map(id => id.toString()));
+  const unique = [...new Set(invitees)].filter(id => id !== ownerId);
+  if (unique.some(id => !following.has(id))) {
+    return 'INVITEE_NOT_FOLLOWED';
+  }
+  return unique;
+};
+
+// Las notificaciones no deben hacer fallar la creación del reto ni la respuesta a una invitación
+const notifyInvitees = async (challenge: ChallengeDocument, ownerId: string, invitees: string[]): Promise<void> => {
+  if (invitees.length === 0) {
+    return;
+  }
+  try {
+    const owner = await UserModel.findById(ownerId).select('username');
+    const socketIO = getIO();
+    for (const inviteeId of invitees) {
+      await createChallengeInvitationNotification(
+        inviteeId,
+        ownerId,
+        owner?.username || '',
+        challenge.title,
+        challenge._id.toString(),
+        socketIO
+      );
+    }
+  } catch (error) {
+    console.error('Error enviando las invitaciones al reto:', error);
+  }
+};
+
+// Reto creado por un usuario para competir con la gente a la que sigue. No da puntos (reward 0):
+// los puntos solo se consiguen en los retos globales. El creador queda inscrito y se abre un chat de grupo
+export const createFriendChallenge = async (
+  ownerId: string,
+  input: FriendChallengeInput
+): Promise<ChallengeDocument | FriendChallengeError> => {
+  const startDate = new Date(input.startDate);
+  const endDate = new Date(input.endDate);
+  if (endDate.getTime() <= startDate.getTime() || endDate.getTime() <= Date.now()) {
+    return 'INVALID_DATE_RANGE';
+  }
+
+  const invitees = await resolveInvitees(ownerId, input.invitees || []);
+  if (typeof invitees === 'string') {
+    return invitees;
+  }
+
+  const chatRoom = await createChatRoom({
+    name: input.title,
+    description: `Chat del reto: ${input.title}`,
+    participants: [ownerId],
+    isGroup: true
+  });
+
+  // Si no se puede crear el reto, la sala de chat no debe quedar huérfana
+  let challenge: ChallengeDocument;
+  try {
+    challenge = await ChallengeModel.create({
+      title: input.title,
+      description: input.description,
+      goal: input.goal,
+      reward: 0,
+      startDate,
+      endDate,
+      createdBy: new mongoose.Types.ObjectId(ownerId),
+      visibility: input.visibility || 'private',
+      invitations: invitees.map(userId => ({ userId: new mongoose.Types.ObjectId(userId) })),
+      chatRoomId: chatRoom._id
+    }) as ChallengeDocument;
+  } catch (error) {
+    await deleteChatRoom(String(chatRoom._id));
+    throw error;
+  }
+
+  await joinChallenge(challenge._id.toString(), ownerId);
+  await notifyInvitees(challenge, ownerId, invitees);
+
+  return challenge;
+};
+
+// Invitar a más usuarios a un reto entre amigos. Quien ya había rechazado vuelve a quedar pendiente
+export const inviteToChallenge = async (
+  challengeId: string,
+  invitees: string[]
+): Promise<IChallengeInvitation[] | FriendChallengeError> => {
+  const challenge = await ChallengeModel.findById(challengeId) as ChallengeDocument | null;
+  if (!challenge) {
+    return 'CHALLENGE_NOT_FOUND';
+  }
+  if (!challenge.createdBy) {
+    return 'NOT_FRIEND_CHALLENGE';
+  }
+  if (challenge.endDate.getTime() < Date.now()) {
+    return 'CHALLENGE_ENDED';
+  }
+
+  const ownerId = challenge.createdBy.toString();
+  const resolved = await resolveInvitees(ownerId, invitees);
+  if (typeof resolved === 'string') {
+    return resolved;
+  }
+
+  // Cada invitación se escribe por separado y con condición: así no se pisa una aceptación
+  // o un rechazo que llegue a la vez (joinChallenge y respondToInvitation usan invitations.$)
+  const toNotify: string[] = [];
+  for (const userId of resolved) {
+    const inviteeId = new mongoose.Types.ObjectId(userId);
+    const now = new Date();
+
+    const pushed = await ChallengeModel.updateOne(
+      { _id: challenge._id, 'invitations.userId': { $ne: inviteeId } },
+      { $push: { invitations: { userId: inviteeId, status: 'pending', invitedAt: now, respondedAt: null } } }
+    );
+    if (pushed.modifiedCount > 0) {
+      toNotify.push(userId);
+      continue;
+    }
+
+    const reinvited = await ChallengeModel.updateOne(
+      { _id: challenge._id, invitations: { $elemMatch: { userId: inviteeId, status: 'declined' } } },
+      { $set: { 'invitations.$.status': 'pending', 'invitations.$.invitedAt': now, 'invitations.$.respondedAt': null } }
+    );
+    if (reinvited.modifiedCount > 0) {
+      toNotify.push(userId);
+    }
+  }
+
+  const updated = await ChallengeModel.findById(challenge._id).select('invitations');
+  await notifyInvitees(challenge, ownerId, toNotify);
+
+  return updated?.invitations || [];
+};
+
+// Aceptar (inscribirse) o rechazar una invitación pendiente y avisar al creador
+export const respondToInvitation = async (
+  challengeId: string,
+  userId: string,
+  accept: boolean
+): Promise<ChallengeProgress | true | FriendChallengeError> => {
+  const challenge = await ChallengeModel.findOne({
+    _id: challengeId,
+    invitations: { $elemMatch: { userId: new mongoose.Types.ObjectId(userId), status: 'pending' } }
+  }) as ChallengeDocument | null;
+  if (!challenge) {
+    return 'INVITATION_NOT_FOUND';
+  }
+
+  let result: ChallengeProgress | true;
+  if (accept) {
+    // joinChallenge marca la invitación como aceptada
+    const progress = await joinChallenge(challengeId, userId);
+    if (typeof progress === 'string') {
+      return progress;
+    }
+    result = progress;
+  } else {
+    await ChallengeModel.updateOne(
+      { _id: challenge._id, 'invitations.userId': new mongoose.Types.ObjectId(userId) },
+      { $set: { 'invitations.$.status': 'declined', 'invitations.$.respondedAt': new Date() } }
+    );
+    result = true;
+  }
+
+  if (challenge.createdBy) {
+    try {
+      const responder = await UserModel.findById(userId).select('username');
+      await createChallengeInvitationResponseNotification(
+        challenge.createdBy.toString(),
+        userId,
+        responder?.username || '',
+        challenge.title,
+        challenge._id.toString(),
+        accept,
+        getIO()
+      );
+    } catch (error) {
+      console.error('Error avisando al creador del reto:', error);
+    }
+  }
+
+  return result;
+};
+
+// Invitaciones pendientes de un usuario en retos que aún no han terminado
+export const getPendingInvitations = async (userId: string) => {
+  return await ChallengeModel.find({
+    endDate: { $gte: new Date() },
+    invitations: { $elemMatch: { userId: new mongoose.Types.ObjectId(userId), status: 'pending' } }
+  })
+    .select('-invitations')
+    .populate('createdBy', 'username profilePicture')
+    .sort({ startDate: 1 });
+};
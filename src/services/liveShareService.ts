@@ -0,0 +1,207 @@
+import crypto from 'crypto';
+import { Server } from 'socket.io';
+import ActivityTrackingModel, { IActivityTracking, ILiveShare } from '../models/activityTracking';
+import UserModel from '../models/user';
+import { getIO } from '../config/socketConfig';
+import { createLiveSessionNotificationForFollowers } from './notificationService';
+
+export const LIVE_SHARE_DEFAULT_MINUTES = 6 * 60;
+export const LIVE_SHARE_MAX_MINUTES = 48 * 60;
+
+export type LiveShareError = 'TRACKING_NOT_FOUND' | 'NOT_OWNER' | 'TRACKING_ENDED' | 'SHARE_NOT_FOUND' | 'SHARE_EXPIRED' | 'SHARE_REVOKED';
+
+// Estado público de un tracking compartido: solo lo necesario para seguirlo
+export interface LiveSnapshot {
+  trackingId: string;
+  owner?: { id: string; username: string };
+  activityType: string;
+  startTime: Date;
+  endTime?: Date;
+  isActive: boolean;
+  isPaused: boolean;
+  lastPosition: { latitude: number; longitude: number; altitude?: number; timestamp?: Date } | null;
+  currentDistance: number;
+  currentDuration: number;
+  currentSpeed: number;
+  averageSpeed: number;
+  elevationGain: number;
+}
+
+// Sala de Socket.IO de los espectadores de un enlace
+export const liveShareRoom = (token: string): string => `live:${token}`;
+
+const isShareActive = (share: ILiveShare, now: Date = new Date()): boolean => {
+  return !share.revokedAt && share.expiresAt.getTime() > now.getTime();
+};
+
+const buildLiveSnapshot = (tracking: IActivityTracking): LiveSnapshot => {
+  const lastPoint = tracking.locationPoints[tracking.locationPoints.length - 1];
+
+  return {
+    trackingId: tracking._id!.toString(),
+    activityType: tracking.activityType,
+    startTime: tracking.startTime,
+    endTime: tracking.endTime,
+    isActive: tracking.isActive,
+    isPaused: tracking.isPaused,
+    lastPosition: lastPoint
+      ? {
+          latitude: lastPoint.latitude,
+          longitude: lastPoint.longitude,
+          altitude: lastPoint.altitude,
+          timestamp: lastPoint.timestamp
+        }
+      : null,
+    currentDistance: tracking.currentDistance,
+    currentDuration: tracking.currentDuration,
+    currentSpeed: tracking.currentSpeed,
+    averageSpeed: tracking.averageSpeed,
+    elevationGain: tracking.elevationGain
+  };
+};
+
+// Crear un enlace revocable y con caducidad para seguir un tracking activo
+export const createLiveShare = async (
+  trackingId: string,
+  userId: string,
+  options: { expiresInMinutes?: number; notifyFollowers?: boolean } = {}
+): Promise<ILiveShare | LiveShareError> => {
+  const tracking = await ActivityTrackingModel.findById(trackingId);
+
+  if (!tracking) {
+    return 'TRACKING_NOT_FOUND';
+  }
+  if (tracking.userId.toString() !== userId) {
+    return 'NOT_OWNER';
+  }
+  if (!tracking.isActive) {
+    return 'TRACKING_ENDED';
+  }
+
+  const minutes = Math.min(
+    Math.max(options.expiresInMinutes || LIVE_SHARE_DEFAULT_MINUTES, 1),
+    LIVE_SHARE_MAX_MINUTES
+  );
+  const now = new Date();
+
+  const share: ILiveShare = {
+    token: crypto.randomBytes(24).toString('hex'),
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + minutes * 60 * 1000)
+  };
+
+  // Los enlaces caducados o revocados ya no sirven: no hace falta conservarlos
+  tracking.liveShares = [...tracking.liveShares.filter(existing => isShareActive(existing, now)), share];
+  await tracking.save();
+
+  if (options.notifyFollowers) {
+    let socketIO: Server | undefined;
+    try {
+      socketIO = getIO();
+    } catch (error) {
+      console.error('Socket.IO no disponible para notificar la actividad en directo:', error);
+    }
+
+    // Enviar notificaciones de forma asíncrona
+    setImmediate(async () => {
+      await createLiveSessionNotificationForFollowers(
+        userId,
+        { trackingId: tracking._id!.toString(), shareToken: share.token, activityType: tracking.activityType },
+        socketIO
+      );
+    });
+  }
+
+  return share;
+};
+
+// Listar los enlaces vigentes de un tracking
+export const getLiveShares = async (trackingId: string, userId: string): Promise<ILiveShare[] | LiveShareError> => {
+  const tracking = await ActivityTrackingModel.findById(trackingId);
+
+  if (!tracking) {
+    return 'TRACKING_NOT_FOUND';
+  }
+  if (tracking.userId.toString() !== userId) {
+    return 'NOT_OWNER';
+  }
+
+  return tracking.liveShares.filter(share => isShareActive(share));
+};
+
+// Revocar un enlace y expulsar a los espectadores conectados
+export const revokeLiveShare = async (
+  trackingId: string,
+  userId: string,
+  token: string
+): Promise<ILiveShare | LiveShareError> => {
+  const tracking = await ActivityTrackingModel.findById(trackingId);
+
+  if (!tracking) {
+    return 'TRACKING_NOT_FOUND';
+  }
+  if (tracking.userId.toString() !== userId) {
+    return 'NOT_OWNER';
+  }
+
+  const share = tracking.liveShares.find(existing => existing.token === token);
+  if (!share) {
+    return 'SHARE_NOT_FOUND';
+  }
+
+  if (!share.revokedAt) {
+    share.revokedAt = new Date();
+    tracking.markModified('liveShares');
+    await tracking.save();
+  }
+
+  try {
+    const io = getIO();
+    io.to(liveShareRoom(token)).emit('live_share_revoked', { token });
+    io.in(liveShareRoom(token)).socketsLeave(liveShareRoom(token));
+  } catch (error) {
+    console.error('Error al expulsar espectadores del enlace revocado:', error);
+  }
+
+  return share;
+};
+
+// Estado actual de un tracking compartido, para los espectadores
+export const getLiveSnapshot = async (token: string): Promise<LiveSnapshot | LiveShareError> => {
+  const tracking = await ActivityTrackingModel.findOne({ 'liveShares.token': token });
+  const share = tracking?.liveShares.find(existing => existing.token === token);
+
+  if (!tracking || !share) {
+    return 'SHARE_NOT_FOUND';
+  }
+  if (share.revokedAt) {
+    return 'SHARE_REVOKED';
+  }
+  if (share.expiresAt.getTime() <= Date.now()) {
+    return 'SHARE_EXPIRED';
+  }
+
+  const owner = await UserModel.findById(tracking.userId).select('username');
+
+  return {
+    ...buildLiveSnapshot(tracking),
+    owner: owner ? { id: owner._id.toString(), username: owner.username } : undefined
+  };
+};
+
+// Reenviar el estado del tracking a los espectadores de sus enlaces vigentes
+export const emitLiveUpdate = (tracking: IActivityTracking, event: string = 'live_update'): void => {
+  const rooms = (tracking.liveShares || [])
+    .filter(share => isShareActive(share))
+    .map(share => liveShareRoom(share.token));
+
+  if (rooms.length === 0) {
+    return;
+  }
+
+  try {
+    getIO().to(rooms).emit(event, buildLiveSnapshot(tracking));
+  } catch (error) {
+    console.error('Error al emitir actualización en directo:', error);
+  }
+};
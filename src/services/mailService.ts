@@ -0,0 +1,60 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { MAIL } from '../config/config';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Transporte de correo intercambiable: para usar un proveedor real basta con implementar
+// esta interfaz y registrarlo con setMailTransport al arrancar
+export interface MailTransport {
+  name: string;
+  send: (message: MailMessage & { from: string }) => Promise<void>;
+}
+
+// Desarrollo: muestra el correo por consola
+export const createConsoleTransport = (): MailTransport => ({
+  name: 'console',
+  send: async (message) => {
+    console.log(`📧 Correo para ${message.to}: ${message.subject}\n${message.text}`);
+  }
+});
+
+// Desarrollo y pruebas: guarda cada correo como un fichero JSON en el directorio indicado
+export const createFileTransport = (directory: string): MailTransport => ({
+  name: 'file',
+  send: async (message) => {
+    await fs.mkdir(directory, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.json`;
+    await fs.writeFile(
+      path.join(directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+});
+
+const createDefaultTransport = (): MailTransport => {
+  if (MAIL.TRANSPORT === 'file') {
+    return createFileTransport(MAIL.OUTBOX_DIR);
+  }
+  if (MAIL.TRANSPORT !== 'console') {
+    console.warn(`Transporte de correo desconocido "${MAIL.TRANSPORT}", se usa la consola`);
+  }
+  return createConsoleTransport();
+};
+
+let transport: MailTransport = createDefaultTransport();
+
+export const setMailTransport = (newTransport: MailTransport): void => {
+  transport = newTransport;
+};
+
+export const getMailTransport = (): MailTransport => transport;
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  await transport.send({ ...message, from: MAIL.FROM });
+};
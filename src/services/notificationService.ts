@@ -6,7 +6,7 @@ import admin from '../config/firebaseAdmin';
 
 export interface CreateNotificationData {
     userId: string;
-    type: 'new_follower' | 'achievement_unlocked' | 'challenge_completed' | 'activity_update' | 'chat_message' | 'friend_request' | 'system';
+    type: 'new_follower' | 'achievement_unlocked' | 'challenge_completed' | 'challenge_started' | 'activity_update' | 'chat_message' | 'friend_request' | 'friend_request_accepted' | 'safety_alert' | 'system';
     title: string;
     message: string;
     data?: any;
@@ -263,6 +263,137 @@ export const createAchievementNotification = async (
     }
 };
 
+// Crear notificació de repte completat
+export const createChallengeCompletedNotification = async (
+    userId: string,
+    challengeTitle: string,
+    challengeId: string,
+    reward: number,
+    socketIO?: any
+): Promise<INotification> => {
+    try {
+        const notificationData: CreateNotificationData = {
+            userId,
+            type: 'challenge_completed',
+            title: '¡Reto completado!',
+            message: reward > 0
+                ? `Has completado el reto: ${challengeTitle} (+${reward} puntos)`
+                : `Has completado el reto: ${challengeTitle}`,
+            data: {
+                challengeId,
+                challengeTitle,
+                reward,
+                type: 'challenge',
+                actionUrl: `/challenges/${challengeId}`
+            },
+            priority: 'high'
+        };
+
+        return await createAndSendNotificationWithFCM(notificationData, socketIO);
+    } catch (error) {
+        console.error(' Error creating challenge completed notification:', error);
+        throw error;
+    }
+};
+
+// Crear notificació d'inici d'un nou període d'un repte recurrent
+export const createChallengeStartedNotification = async (
+    userId: string,
+    challengeTitle: string,
+    challengeId: string,
+    socketIO?: any
+): Promise<INotification> => {
+    try {
+        const notificationData: CreateNotificationData = {
+            userId,
+            type: 'challenge_started',
+            title: '¡Nuevo reto disponible!',
+            message: `Empieza un nuevo periodo del reto: ${challengeTitle}`,
+            data: {
+                challengeId,
+                challengeTitle,
+                type: 'challenge',
+                actionUrl: `/challenges/${challengeId}`
+            },
+            priority: 'normal'
+        };
+
+        return await createAndSendNotificationWithFCM(notificationData, socketIO);
+    } catch (error) {
+        console.error(' Error creating challenge started notification:', error);
+        throw error;
+    }
+};
+
+// Crear notificació d'invitació a un repte entre amics (reutilitza el tipus friend_request)
+export const createChallengeInvitationNotification = async (
+    userId: string,
+    inviterId: string,
+    inviterUsername: string,
+    challengeTitle: string,
+    challengeId: string,
+    socketIO?: any
+): Promise<INotification> => {
+    try {
+        const notificationData: CreateNotificationData = {
+            userId,
+            type: 'friend_request',
+            title: '¡Te han retado!',
+            message: `${inviterUsername} te ha invitado al reto: ${challengeTitle}`,
+            data: {
+                senderId: inviterId,
+                senderUsername: inviterUsername,
+                challengeId,
+                challengeTitle,
+                type: 'challenge_invitation',
+                actionUrl: `/challenges/${challengeId}`
+            },
+            priority: 'high'
+        };
+
+        return await createAndSendNotificationWithFCM(notificationData, socketIO);
+    } catch (error) {
+        console.error(' Error creating challenge invitation notification:', error);
+        throw error;
+    }
+};
+
+// Avisar al creador del repte de la resposta a una invitació. El rebuig no s'envia per push
+export const createChallengeInvitationResponseNotification = async (
+    ownerId: string,
+    responderId: string,
+    responderUsername: string,
+    challengeTitle: string,
+    challengeId: string,
+    accepted: boolean,
+    socketIO?: any
+): Promise<INotification> => {
+    try {
+        const notificationData: CreateNotificationData = {
+            userId: ownerId,
+            type: accepted ? 'friend_request_accepted' : 'system',
+            title: accepted ? 'Reto aceptado' : 'Reto rechazado',
+            message: accepted
+                ? `${responderUsername} se ha unido a tu reto: ${challengeTitle}`
+                : `${responderUsername} ha rechazado tu reto: ${challengeTitle}`,
+            data: {
+                senderId: responderId,
+                senderUsername: responderUsername,
+                challengeId,
+                challengeTitle,
+                type: accepted ? 'challenge_invitation_accepted' : 'challenge_invitation_declined',
+                actionUrl: `/challenges/${challengeId}`
+            },
+            priority: accepted ? 'normal' : 'low'
+        };
+
+        return await createAndSendNotificationWithFCM(notificationData, socketIO, accepted);
+    } catch (error) {
+        console.error(' Error creating challenge invitation response notification:', error);
+        throw error;
+    }
+};
+
 // Netejar notificacions antigues
 export const cleanupOldNotifications = async (daysOld: number = 30): Promise<number> => {
     try {
@@ -313,12 +444,14 @@ export const sendPushNotification = async (
             switch (type) {
                 case 'new_follower':
                 case 'friend_request':
+                case 'friend_request_accepted':
                     return user.notificationSettings.friendRequests !== false;
                 case 'activity_update':
                     return user.notificationSettings.activityUpdates !== false;
                 case 'achievement_unlocked':
                     return user.notificationSettings.achievements !== false;
                 case 'challenge_completed':
+                case 'challenge_started':
                     return user.notificationSettings.challenges !== false;
                 case 'chat_message':
                     return user.notificationSettings.chatMessages !== false;
@@ -573,6 +706,54 @@ export const createActivityNotificationForFollowers = async (
 };
 
 
+
+// Avisar a los seguidores de que un usuario ha empezado a compartir una actividad en directo
+export const createLiveSessionNotificationForFollowers = async (
+    userId: string,
+    liveData: { trackingId: string; shareToken: string; activityType: string },
+    socketIO?: any
+): Promise<void> => {
+    try {
+        const user = await UserModel.findById(userId)
+            .populate('followers', '_id username notificationSettings')
+            .select('username followers');
+
+        if (!user || !user.followers || user.followers.length === 0) {
+            return;
+        }
+
+        // Solo los seguidores con notificaciones de actividad habilitadas
+        const followersToNotify = user.followers.filter((follower: any) => {
+            if (!follower.notificationSettings) return true; // Por defecto habilitado
+            return follower.notificationSettings.activityUpdates !== false;
+        });
+
+        const notificationPromises = followersToNotify.map(async (follower: any) => {
+            const notificationData: CreateNotificationData = {
+                userId: follower._id.toString(),
+                type: 'activity_update',
+                title: '¡Actividad en directo!',
+                message: `${user.username} ha empezado una actividad. ¡Síguela en directo!`,
+                data: {
+                    senderId: userId,
+                    senderUsername: user.username,
+                    trackingId: liveData.trackingId,
+                    shareToken: liveData.shareToken,
+                    activityType: liveData.activityType,
+                    actionUrl: `/live/${liveData.shareToken}`
+                },
+                priority: 'high'
+            };
+
+            return await createAndSendNotificationWithFCM(notificationData, socketIO, true);
+        });
+        await Promise.all(notificationPromises);
+
+        console.log(`Notificaciones de actividad en directo enviadas a ${followersToNotify.length} seguidores`);
+    } catch (error) {
+        console.error('Error enviando notificaciones de actividad en directo:', error);
+    }
+};
 // Crear una notificació d'assoliment desbloquejat amb FCM
 export const createAchievementUnlockedNotificationWithFCM = async (
     userId: string,
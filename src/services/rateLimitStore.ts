@@ -0,0 +1,74 @@
+// Contador con ventana fija usado por la limitación de peticiones y el bloqueo de inicios de sesión
+export interface RateLimitEntry {
+  count: number;
+  resetAt: number;    // ms: cuando termina la ventana y el contador vuelve a cero
+  lastHitAt: number;  // ms: último incremento
+}
+
+// Almacén intercambiable: por defecto en memoria (un solo proceso). Para varias instancias
+// basta con implementar esta interfaz sobre un almacén compartido y registrarlo con setRateLimitStore
+export interface RateLimitStore {
+  increment: (key: string, windowMs: number) => Promise<RateLimitEntry>;
+  get: (key: string) => Promise<RateLimitEntry | null>;
+  // Deshacer un incremento reservado de antemano (sin cambiar lastHitAt ni la ventana)
+  decrement: (key: string) => Promise<void>;
+  reset: (key: string) => Promise<void>;
+}
+
+const CLEANUP_INTERVAL_MS = 60 * 1000;
+
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+  const entries = new Map<string, RateLimitEntry>();
+
+  // Eliminar periódicamente las ventanas terminadas; unref para no impedir que el proceso termine
+  setInterval(() => {
+    const now = Date.now();
+    entries.forEach((entry, key) => {
+      if (entry.resetAt <= now) {
+        entries.delete(key);
+      }
+    });
+  }, CLEANUP_INTERVAL_MS).unref();
+
+  const getActive = (key: string, now: number): RateLimitEntry | null => {
+    const entry = entries.get(key);
+    if (!entry || entry.resetAt <= now) {
+      return null;
+    }
+    return entry;
+  };
+
+  return {
+    increment: async (key, windowMs) => {
+      const now = Date.now();
+      const entry = getActive(key, now) || { count: 0, resetAt: now + windowMs, lastHitAt: now };
+
+      entry.count++;
+      entry.lastHitAt = now;
+      entries.set(key, entry);
+
+      return { ...entry };
+    },
+    get: async (key) => {
+      const entry = getActive(key, Date.now());
+      return entry ? { ...entry } : null;
+    },
+    decrement: async (key) => {
+      const entry = getActive(key, Date.now());
+      if (entry && entry.count > 0) {
+        entry.count--;
+      }
+    },
+    reset: async (key) => {
+      entries.delete(key);
+    }
+  };
+};
+
+let store: RateLimitStore = createMemoryRateLimitStore();
+
+export const setRateLimitStore = (newStore: RateLimitStore): void => {
+  store = newStore;
+};
+
+export const getRateLimitStore = (): RateLimitStore => store;
@@ -0,0 +1,484 @@
+import mongoose from 'mongoose';
+import { Server } from 'socket.io';
+import ActivityTrackingModel, { IActivityTracking } from '../models/activityTracking';
+import UserModel from '../models/user';
+import { getIO } from '../config/socketConfig';
+import { createAndSendNotificationWithFCM } from './notificationService';
+
+// Frecuencia con la que el planificador revisa las balizas pendientes
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+// Tiempo que tiene el usuario para responder al primer aviso antes de alertar a sus contactos
+const OWNER_GRACE_MINUTES = 10;
+// Escalado de los avisos a contactos: el segundo a los 30 minutos, los siguientes cada hora
+const CONTACT_ALERT_INTERVALS_MINUTES = [30, 60];
+const MAX_CONTACT_ALERTS = 5;
+// Reserva de una baliza mientras se procesa, para que dos instancias no la dupliquen
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+
+export const MAX_SAFETY_CONTACTS = 5;
+export const MIN_NO_SIGNAL_MINUTES = 5;
+
+export type SafetyAlertReason = 'overdue' | 'no_signal';
+export type SafetyBeaconError = 'TRACKING_NOT_FOUND' | 'NOT_OWNER' | 'TRACKING_ENDED' | 'INVALID_CONTACTS' | 'TOO_MANY_CONTACTS' | 'INVALID_FINISH_TIME' | 'INVALID_NO_SIGNAL_MINUTES' | 'BEACON_DISABLED';
+
+type AllClearReason = 'resolved' | 'finished' | 'cancelled';
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let isCheckRunning = false;
+
+const minutesToMs = (minutes: number): number => minutes * 60 * 1000;
+
+const getSocketIO = (): Server | undefined => {
+  try {
+    return getIO();
+  } catch (error) {
+    return undefined;
+  }
+};
+
+// Última señal de vida: ubicación, check-in o, en su defecto, el inicio del tracking
+const getLastSignalAt = (tracking: IActivityTracking): Date => {
+  const lastPoint = tracking.locationPoints[tracking.locationPoints.length - 1];
+  return tracking.safetyBeacon.lastSignalAt || lastPoint?.timestamp || tracking.startTime;
+};
+
+// Momento en que la baliza saltará si no llega ninguna señal
+const getTriggerTime = (tracking: IActivityTracking): Date => {
+  const beacon = tracking.safetyBeacon;
+  const noSignalAt = getLastSignalAt(tracking).getTime() + minutesToMs(beacon.noSignalMinutes);
+  const overdueAt = beacon.expectedFinishTime ? beacon.expectedFinishTime.getTime() : Infinity;
+  return new Date(Math.min(noSignalAt, overdueAt));
+};
+
+const getAlertReason = (tracking: IActivityTracking, now: Date): SafetyAlertReason | null => {
+  const beacon = tracking.safetyBeacon;
+
+  if (beacon.expectedFinishTime && now.getTime() >= beacon.expectedFinishTime.getTime()) {
+    return 'overdue';
+  }
+  if (now.getTime() - getLastSignalAt(tracking).getTime() >= minutesToMs(beacon.noSignalMinutes)) {
+    return 'no_signal';
+  }
+  return null;
+};
+
+// Campos del escalado que escribe el planificador
+interface BeaconAlertUpdate {
+  alertLevel: number;
+  alertReason?: SafetyAlertReason;
+  lastAlertAt?: Date;
+  nextCheckAt?: Date;
+}
+
+// Campos del escalado tras resolver la alerta (la próxima revisión vuelve a ser la hora de disparo)
+const resolvedAlert = (tracking: IActivityTracking): BeaconAlertUpdate => ({
+  alertLevel: 0,
+  nextCheckAt: tracking.isActive && tracking.safetyBeacon.enabled ? getTriggerTime(tracking) : undefined
+});
+
+const resetAlert = (tracking: IActivityTracking): void => {
+  tracking.safetyBeacon.alertLevel = 0;
+  tracking.safetyBeacon.alertReason = undefined;
+  tracking.safetyBeacon.nextCheckAt = resolvedAlert(tracking).nextCheckAt;
+};
+
+// Los contactos solo se han avisado a partir del nivel 2 (el nivel 1 es el aviso al propio usuario)
+const contactsWereAlerted = (tracking: IActivityTracking): boolean => tracking.safetyBeacon.alertLevel >= 2;
+
+// Aviso al propio usuario antes de molestar a sus contactos
+const notifyOwner = async (tracking: IActivityTracking, reason: SafetyAlertReason): Promise<void> => {
+  const socketIO = getSocketIO();
+  const message = reason === 'overdue'
+    ? `Tu actividad sigue en curso y ya ha pasado la hora prevista de llegada. Si no respondes en ${OWNER_GRACE_MINUTES} minutos avisaremos a tus contactos de confianza.`
+    : `No recibimos tu ubicación desde hace un rato. Si no respondes en ${OWNER_GRACE_MINUTES} minutos avisaremos a tus contactos de confianza.`;
+
+  await createAndSendNotificationWithFCM({
+    userId: tracking.userId.toString(),
+    type: 'safety_alert',
+    title: '¿Va todo bien?',
+    message,
+    data: {
+      trackingId: tracking._id!.toString(),
+      reason,
+      actionUrl: `/tracking/${tracking._id}`
+    },
+    priority: 'high'
+  }, socketIO, true);
+
+  socketIO?.to(`user:${tracking.userId}`).emit('safety_beacon_warning', {
+    trackingId: tracking._id,
+    reason,
+    contactsAlertAt: new Date(Date.now() + minutesToMs(OWNER_GRACE_MINUTES))
+  });
+};
+
+// Alerta a los contactos de confianza con la última posición conocida
+const notifyContacts = async (tracking: IActivityTracking, reason: SafetyAlertReason, alertNumber: number): Promise<void> => {
+  const socketIO = getSocketIO();
+  const owner = await UserModel.findById(tracking.userId).select('username');
+  const username = owner?.username || 'Un usuario';
+  const lastPoint = tracking.locationPoints[tracking.locationPoints.length - 1];
+  const lastSignalAt = getLastSignalAt(tracking);
+  const minutesWithoutSignal = Math.floor((Date.now() - lastSignalAt.getTime()) / 60000);
+
+  const message = reason === 'overdue'
+    ? `${username} no ha terminado su actividad a la hora prevista y no ha respondido.`
+    : `${username} no envía su ubicación desde hace ${minutesWithoutSignal} minutos y no ha respondido.`;
+
+  const data: { [key: string]: string } = {
+    senderId: tracking.userId.toString(),
+    senderUsername: username,
+    trackingId: tracking._id!.toString(),
+    activityType: tracking.activityType,
+    reason,
+    alertNumber: alertNumber.toString(),
+    lastSignalAt: lastSignalAt.toISOString(),
+    actionUrl: `/tracking/${tracking._id}`
+  };
+
+  if (lastPoint) {
+    data.latitude = lastPoint.latitude.toString();
+    data.longitude = lastPoint.longitude.toString();
+    data.altitude = (lastPoint.altitude || 0).toString();
+    data.lastPositionAt = (lastPoint.timestamp || lastSignalAt).toISOString();
+    data.mapUrl = `https://www.google.com/maps?q=${lastPoint.latitude},${lastPoint.longitude}`;
+  }
+
+  await Promise.all(tracking.safetyBeacon.contacts.map(contactId =>
+    createAndSendNotificationWithFCM({
+      userId: contactId.toString(),
+      type: 'safety_alert',
+      title: alertNumber > 1 ? `⚠️ Alerta de seguridad (aviso ${alertNumber})` : '⚠️ Alerta de seguridad',
+      message: lastPoint ? `${message} Última posición conocida incluida.` : message,
+      data,
+      priority: 'high'
+    }, socketIO, true)
+  ));
+
+  socketIO?.to(`user:${tracking.userId}`).emit('safety_beacon_alert', {
+    trackingId: tracking._id,
+    reason,
+    alertNumber,
+    contactsNotified: tracking.safetyBeacon.contacts.length
+  });
+};
+
+// Avisar a los contactos de que la alerta ya no es necesaria
+const notifyContactsAllClear = async (tracking: IActivityTracking, reason: AllClearReason): Promise<void> => {
+  const socketIO = getSocketIO();
+  const owner = await UserModel.findById(tracking.userId).select('username');
+  const username = owner?.username || 'El usuario';
+
+  const messages: { [key in AllClearReason]: string } = {
+    resolved: `${username} ha vuelto a dar señales. Todo parece estar bien.`,
+    finished: `${username} ha finalizado su actividad.`,
+    cancelled: `${username} ha desactivado la alerta de seguridad.`
+  };
+
+  await Promise.all(tracking.safetyBeacon.contacts.map(contactId =>
+    createAndSendNotificationWithFCM({
+      userId: contactId.toString(),
+      type: 'safety_alert',
+      title: '✅ Alerta de seguridad resuelta',
+      message: messages[reason],
+      data: {
+        senderId: tracking.userId.toString(),
+        senderUsername: username,
+        trackingId: tracking._id!.toString(),
+        resolution: reason
+      },
+      priority: 'high'
+    }, socketIO, true)
+  ));
+};
+
+// Registrar una señal de vida (nueva ubicación). Modifica el documento sin guardarlo.
+export const recordSafetyBeaconSignal = (tracking: IActivityTracking, now: Date = new Date()): void => {
+  const beacon = tracking.safetyBeacon;
+  if (!beacon?.enabled) return;
+
+  beacon.lastSignalAt = now;
+
+  if (beacon.alertLevel > 0 && beacon.alertReason === 'no_signal') {
+    // El planificador resolverá la alerta (y avisará a los contactos) en la próxima pasada
+    beacon.nextCheckAt = now;
+  } else if (beacon.alertLevel === 0) {
+    beacon.nextCheckAt = getTriggerTime(tracking);
+  }
+  tracking.markModified('safetyBeacon');
+};
+
+// Al finalizar el tracking: si había alerta, el planificador enviará el aviso de fin
+export const releaseSafetyBeacon = (tracking: IActivityTracking): void => {
+  const beacon = tracking.safetyBeacon;
+  if (!beacon?.enabled) return;
+
+  beacon.nextCheckAt = beacon.alertLevel > 0 ? new Date() : undefined;
+  tracking.markModified('safetyBeacon');
+};
+
+// Configurar la baliza de seguridad de un tracking activo
+export const configureSafetyBeacon = async (
+  trackingId: string,
+  userId: string,
+  options: { enabled: boolean; contacts?: string[]; expectedFinishTime?: Date | null; noSignalMinutes?: number }
+): Promise<IActivityTracking | SafetyBeaconError> => {
+  const tracking = await ActivityTrackingModel.findById(trackingId);
+
+  if (!tracking) {
+    return 'TRACKING_NOT_FOUND';
+  }
+  if (tracking.userId.toString() !== userId) {
+    return 'NOT_OWNER';
+  }
+  if (!tracking.isActive) {
+    return 'TRACKING_ENDED';
+  }
+
+  const beacon = tracking.safetyBeacon;
+  const now = new Date();
+
+  if (!options.enabled) {
+    if (contactsWereAlerted(tracking)) {
+      await notifyContactsAllClear(tracking, 'cancelled');
+    }
+    beacon.enabled = false;
+    beacon.alertLevel = 0;
+    beacon.alertReason = undefined;
+    beacon.nextCheckAt = undefined;
+    tracking.markModified('safetyBeacon');
+    return await tracking.save();
+  }
+
+  if (options.contacts !== undefined) {
+    const contactIds = [...new Set(options.contacts.map(String))].filter(id => id !== userId);
+
+    if (contactIds.length > MAX_SAFETY_CONTACTS) {
+      return 'TOO_MANY_CONTACTS';
+    }
+    if (!contactIds.every(id => mongoose.Types.ObjectId.isValid(id))) {
+      return 'INVALID_CONTACTS';
+    }
+
+    const existingContacts = await UserModel.countDocuments({ _id: { $in: contactIds } });
+    if (existingContacts !== contactIds.length) {
+      return 'INVALID_CONTACTS';
+    }
+
+    beacon.contacts = contactIds.map(id => new mongoose.Types.ObjectId(id));
+  }
+
+  if (beacon.contacts.length === 0) {
+    return 'INVALID_CONTACTS';
+  }
+
+  if (options.expectedFinishTime !== undefined) {
+    if (options.expectedFinishTime && options.expectedFinishTime.getTime() <= now.getTime()) {
+      return 'INVALID_FINISH_TIME';
+    }
+    beacon.expectedFinishTime = options.expectedFinishTime || undefined;
+  }
+
+  if (options.noSignalMinutes !== undefined) {
+    if (!Number.isFinite(options.noSignalMinutes) || options.noSignalMinutes < MIN_NO_SIGNAL_MINUTES) {
+      return 'INVALID_NO_SIGNAL_MINUTES';
+    }
+    beacon.noSignalMinutes = options.noSignalMinutes;
+  }
+
+  // Configurar la baliza cuenta como señal de vida
+  const wasAlerted = contactsWereAlerted(tracking);
+  beacon.enabled = true;
+  beacon.lastSignalAt = now;
+  resetAlert(tracking);
+  tracking.markModified('safetyBeacon');
+
+  const updatedTracking = await tracking.save();
+
+  if (wasAlerted) {
+    await notifyContactsAllClear(updatedTracking, 'resolved');
+  }
+
+  return updatedTracking;
+};
+
+// "Estoy bien": el usuario confirma que está bien y, opcionalmente, pospone la hora de llegada
+export const checkInSafetyBeacon = async (
+  trackingId: string,
+  userId: string,
+  expectedFinishTime?: Date
+): Promise<IActivityTracking | SafetyBeaconError> => {
+  const tracking = await ActivityTrackingModel.findById(trackingId);
+
+  if (!tracking) {
+    return 'TRACKING_NOT_FOUND';
+  }
+  if (tracking.userId.toString() !== userId) {
+    return 'NOT_OWNER';
+  }
+  if (!tracking.isActive) {
+    return 'TRACKING_ENDED';
+  }
+  if (!tracking.safetyBeacon.enabled) {
+    return 'BEACON_DISABLED';
+  }
+
+  const beacon = tracking.safetyBeacon;
+  const now = new Date();
+
+  if (expectedFinishTime) {
+    if (expectedFinishTime.getTime() <= now.getTime()) {
+      return 'INVALID_FINISH_TIME';
+    }
+    beacon.expectedFinishTime = expectedFinishTime;
+  } else if (beacon.expectedFinishTime && beacon.expectedFinishTime.getTime() <= now.getTime()) {
+    // Sin nueva hora, la llegada se pospone lo mismo que el margen sin señal
+    beacon.expectedFinishTime = new Date(now.getTime() + minutesToMs(beacon.noSignalMinutes));
+  }
+
+  const wasAlerted = contactsWereAlerted(tracking);
+  beacon.lastSignalAt = now;
+  resetAlert(tracking);
+  tracking.markModified('safetyBeacon');
+
+  const updatedTracking = await tracking.save();
+
+  if (wasAlerted) {
+    await notifyContactsAllClear(updatedTracking, 'resolved');
+  }
+
+  return updatedTracking;
+};
+
+// Guardar solo los campos del escalado y solo si la reserva sigue vigente. Durante los envíos
+// puede haber llegado una ubicación o un check-in (que cambian nextCheckAt): en ese caso no se
+// escribe nada y se respeta lo que guardó la señal, sin volver a guardar el documento leído antes
+const saveBeaconAlert = async (
+  trackingId: mongoose.Types.ObjectId,
+  lease: Date,
+  update: BeaconAlertUpdate
+): Promise<void> => {
+  const $set: { [path: string]: unknown } = { 'safetyBeacon.alertLevel': update.alertLevel };
+  const $unset: { [path: string]: '' } = {};
+
+  for (const field of ['alertReason', 'lastAlertAt', 'nextCheckAt'] as const) {
+    if (update[field] !== undefined) {
+      $set[`safetyBeacon.${field}`] = update[field];
+    } else if (field !== 'lastAlertAt') {
+      $unset[`safetyBeacon.${field}`] = '';
+    }
+  }
+
+  await ActivityTrackingModel.updateOne(
+    { _id: trackingId, 'safetyBeacon.nextCheckAt': lease },
+    Object.keys($unset).length > 0 ? { $set, $unset } : { $set }
+  );
+};
+
+// Revisar una baliza vencida y avanzar su escalado
+const processSafetyBeacon = async (trackingId: mongoose.Types.ObjectId, dueAt: Date): Promise<void> => {
+  const now = new Date();
+  const lease = new Date(now.getTime() + CLAIM_LEASE_MS);
+
+  // Reservar la baliza: si otra instancia ya la ha cogido, nextCheckAt habrá cambiado
+  const tracking = await ActivityTrackingModel.findOneAndUpdate(
+    { _id: trackingId, 'safetyBeacon.nextCheckAt': dueAt },
+    { $set: { 'safetyBeacon.nextCheckAt': lease } },
+    { new: true }
+  );
+
+  if (!tracking) return;
+
+  const beacon = tracking.safetyBeacon;
+
+  // Tracking finalizado con una alerta en curso: cerrar la alerta
+  if (!tracking.isActive) {
+    if (contactsWereAlerted(tracking)) {
+      await notifyContactsAllClear(tracking, 'finished');
+    }
+    await saveBeaconAlert(trackingId, lease, resolvedAlert(tracking));
+    return;
+  }
+
+  const reason = getAlertReason(tracking, now);
+
+  if (!reason) {
+    if (contactsWereAlerted(tracking)) {
+      await notifyContactsAllClear(tracking, 'resolved');
+    }
+    await saveBeaconAlert(trackingId, lease, resolvedAlert(tracking));
+  } else if (beacon.alertLevel === 0) {
+    await notifyOwner(tracking, reason);
+    await saveBeaconAlert(trackingId, lease, {
+      alertLevel: 1,
+      alertReason: reason,
+      lastAlertAt: now,
+      nextCheckAt: new Date(now.getTime() + minutesToMs(OWNER_GRACE_MINUTES))
+    });
+  } else {
+    const alertNumber = beacon.alertLevel; // nivel 1 -> primer aviso a contactos
+
+    if (alertNumber > MAX_CONTACT_ALERTS) {
+      // Escalado agotado: se espera a una señal o a un check-in del usuario
+      await saveBeaconAlert(trackingId, lease, {
+        alertLevel: alertNumber,
+        alertReason: beacon.alertReason,
+        lastAlertAt: beacon.lastAlertAt
+      });
+    } else {
+      await notifyContacts(tracking, reason, alertNumber);
+      const interval = CONTACT_ALERT_INTERVALS_MINUTES[Math.min(alertNumber - 1, CONTACT_ALERT_INTERVALS_MINUTES.length - 1)];
+      await saveBeaconAlert(trackingId, lease, {
+        alertLevel: alertNumber + 1,
+        alertReason: reason,
+        lastAlertAt: now,
+        nextCheckAt: new Date(now.getTime() + minutesToMs(interval))
+      });
+    }
+  }
+};
+
+// Procesar todas las balizas vencidas. El estado vive en la base de datos,
+// así que tras un reinicio se retoman las revisiones pendientes.
+export const runSafetyBeaconCheck = async (): Promise<void> => {
+  if (isCheckRunning) return;
+  isCheckRunning = true;
+
+  try {
+    const dueTrackings = await ActivityTrackingModel.find({
+      'safetyBeacon.enabled': true,
+      'safetyBeacon.nextCheckAt': { $lte: new Date() }
+    })
+      .select('_id safetyBeacon.nextCheckAt')
+      .sort({ 'safetyBeacon.nextCheckAt': 1 })
+      .limit(100);
+
+    for (const due of dueTrackings) {
+      try {
+        await processSafetyBeacon(due._id as mongoose.Types.ObjectId, due.safetyBeacon.nextCheckAt!);
+      } catch (error) {
+        console.error(`Error procesando la baliza de seguridad del tracking ${due._id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('Error revisando balizas de seguridad:', error);
+  } finally {
+    isCheckRunning = false;
+  }
+};
+
+// Iniciar el planificador de balizas de seguridad
+export const startSafetyBeaconScheduler = (): void => {
+  if (schedulerTimer) return;
+
+  runSafetyBeaconCheck();
+  schedulerTimer = setInterval(runSafetyBeaconCheck, SCHEDULER_INTERVAL_MS);
+  console.log('Planificador de balizas de seguridad iniciado');
+};
+
+export const stopSafetyBeaconScheduler = (): void => {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+};
@@ -0,0 +1,205 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { LRUCache } from 'lru-cache';
+import AuthSessionModel, { IAuthSession, SessionRevokedReason } from '../models/authSession';
+import UserModel, { IUser } from '../models/user';
+import { REFRESH_TOKEN_TTL_MS, generateRefreshToken, generateToken, verifyRefreshToken } from '../utils/jwt.handle';
+
+export type SessionError = 'INVALID_REFRESH_TOKEN' | 'SESSION_REVOKED' | 'REFRESH_TOKEN_REUSED' | 'USER_NOT_FOUND' | 'SESSION_NOT_FOUND';
+
+// Datos del dispositivo que inicia sesión
+export interface SessionDevice {
+  deviceName?: string;
+  userAgent?: string;
+  ip?: string;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  sessionId: string;
+}
+
+// Estado de revocación por sesión (sid) consultado en cada petición con token de acceso.
+// Las revocaciones de esta instancia se anotan al momento; las de otras instancias se ven
+// como mucho REVOCATION_CACHE_TTL_MS después
+const REVOCATION_CACHE_TTL_MS = 30 * 1000;
+const revocationCache = new LRUCache<string, boolean>({ max: 10000, ttl: REVOCATION_CACHE_TTL_MS });
+
+// Avisos de sesiones revocadas (Socket.IO los usa para desconectar los sockets de esas sesiones)
+type SessionsRevokedListener = (sessionIds: string[]) => void;
+const revokedListeners: SessionsRevokedListener[] = [];
+
+export const onSessionsRevoked = (listener: SessionsRevokedListener): void => {
+  revokedListeners.push(listener);
+};
+
+// Anotar sesiones revocadas y avisar a los listeners; un listener que falla no deshace la revocación
+const markSessionsRevoked = (sessionIds: string[]): void => {
+  for (const sessionId of sessionIds) {
+    revocationCache.set(sessionId, true);
+  }
+
+  for (const listener of revokedListeners) {
+    try {
+      listener(sessionIds);
+    } catch (error) {
+      console.error('Error avisando de las sesiones revocadas:', error);
+    }
+  }
+};
+
+// Un token de acceso solo es válido mientras su sesión existe y no se ha revocado
+export const isSessionRevoked = async (sessionId: unknown): Promise<boolean> => {
+  if (typeof sessionId !== 'string' || !mongoose.Types.ObjectId.isValid(sessionId)) {
+    return true;
+  }
+
+  const cached = revocationCache.get(sessionId);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const session = await AuthSessionModel.findById(sessionId).select('revokedAt');
+  const revoked = !session || !!session.revokedAt;
+  revocationCache.set(sessionId, revoked);
+  return revoked;
+};
+
+const newTokenId = (): string => crypto.randomBytes(16).toString('hex');
+
+const issueTokens = (user: IUser, sessionId: string, tokenId: string): SessionTokens => ({
+  token: generateToken(user, sessionId),
+  refreshToken: generateRefreshToken(user._id.toString(), sessionId, tokenId),
+  sessionId
+});
+
+// Crear una sesión nueva para un dispositivo (login, registro o Google) y emitir sus tokens
+export const createAuthSession = async (user: IUser, device: SessionDevice = {}): Promise<SessionTokens> => {
+  const tokenId = newTokenId();
+  const session = await AuthSessionModel.create({
+    userId: user._id,
+    currentTokenId: tokenId,
+    deviceName: device.deviceName?.substring(0, 100) || null,
+    userAgent: device.userAgent?.substring(0, 300) || null,
+    ip: device.ip || null,
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+  });
+
+  return issueTokens(user, session._id.toString(), tokenId);
+};
+
+// Rotar el refresh token de una sesión. Si se presenta un token ya rotado (posible robo),
+// se revoca la sesión entera y todos sus tokens dejan de funcionar
+export const rotateRefreshToken = async (refreshToken: string, device: SessionDevice = {}): Promise<SessionTokens | SessionError> => {
+  const payload = verifyRefreshToken(refreshToken);
+  if (!payload || typeof payload === 'string' || payload.type !== 'refresh' || !payload.sid || !payload.jti) {
+    return 'INVALID_REFRESH_TOKEN';
+  }
+  if (!mongoose.Types.ObjectId.isValid(payload.sid)) {
+    return 'INVALID_REFRESH_TOKEN';
+  }
+
+  const session = await AuthSessionModel.findById(payload.sid);
+  if (!session || session.userId.toString() !== payload.id) {
+    return 'INVALID_REFRESH_TOKEN';
+  }
+  if (session.revokedAt) {
+    return 'SESSION_REVOKED';
+  }
+
+  const user = await UserModel.findById(session.userId);
+  if (!user) {
+    return 'USER_NOT_FOUND';
+  }
+
+  // La condición sobre currentTokenId hace que dos refrescos simultáneos con el mismo token
+  // no puedan tener éxito a la vez: el segundo se trata como reutilización
+  const tokenId = newTokenId();
+  const rotated = await AuthSessionModel.findOneAndUpdate(
+    { _id: session._id, currentTokenId: payload.jti, revokedAt: null },
+    {
+      $set: {
+        currentTokenId: tokenId,
+        lastUsedAt: new Date(),
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+        ...(device.ip ? { ip: device.ip } : {}),
+        ...(device.userAgent ? { userAgent: device.userAgent.substring(0, 300) } : {})
+      }
+    },
+    { new: true }
+  );
+
+  if (!rotated) {
+    console.warn(`Reutilización de refresh token detectada en la sesión ${session._id}: se revoca la sesión`);
+    await revokeSessionDocument(session._id, 'reuse_detected');
+    return 'REFRESH_TOKEN_REUSED';
+  }
+
+  return issueTokens(user, rotated._id.toString(), tokenId);
+};
+
+const revokeSessionDocument = async (sessionId: mongoose.Types.ObjectId | string, reason: SessionRevokedReason): Promise<boolean> => {
+  const result = await AuthSessionModel.updateOne(
+    { _id: sessionId, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  markSessionsRevoked([sessionId.toString()]);
+  return result.modifiedCount > 0;
+};
+
+// Sesiones activas (no revocadas ni caducadas) de un usuario, la más reciente primero
+export const getActiveSessions = async (userId: string): Promise<IAuthSession[]> => {
+  return await AuthSessionModel.find({
+    userId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() }
+  })
+    .select('-currentTokenId')
+    .sort({ lastUsedAt: -1 });
+};
+
+// Revocar una sesión concreta del usuario
+export const revokeSession = async (
+  userId: string,
+  sessionId: string,
+  reason: SessionRevokedReason = 'revoked'
+): Promise<true | SessionError> => {
+  if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+    return 'SESSION_NOT_FOUND';
+  }
+
+  const session = await AuthSessionModel.findOne({ _id: sessionId, userId }).select('revokedAt');
+  if (!session) {
+    return 'SESSION_NOT_FOUND';
+  }
+
+  await revokeSessionDocument(session._id, reason);
+  return true;
+};
+
+// Revocar todas las sesiones del usuario, opcionalmente conservando una (la actual)
+export const revokeAllSessions = async (
+  userId: string,
+  exceptSessionId?: string,
+  reason: SessionRevokedReason = 'revoked'
+): Promise<number> => {
+  const filter: any = { userId, revokedAt: null };
+  if (exceptSessionId && mongoose.Types.ObjectId.isValid(exceptSessionId)) {
+    filter._id = { $ne: exceptSessionId };
+  }
+
+  const sessions = await AuthSessionModel.find(filter).select('_id');
+  const result = await AuthSessionModel.updateMany(filter, {
+    $set: { revokedAt: new Date(), revokedReason: reason }
+  });
+  markSessionsRevoked(sessions.map(session => session._id.toString()));
+  return result.modifiedCount;
+};
+
+// Eliminar las sesiones de un usuario borrado
+export const deleteUserSessions = async (userId: mongoose.Types.ObjectId | string): Promise<void> => {
+  const sessions = await AuthSessionModel.find({ userId }).select('_id');
+  await AuthSessionModel.deleteMany({ userId });
+  markSessionsRevoked(sessions.map(session => session._id.toString()));
+};
@@ -0,0 +1,249 @@
+import crypto from 'crypto';
+import UserModel, { IUser } from '../models/user';
+import { encrypt, verified } from '../utils/bcrypt.handle';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../utils/totp.handle';
+import { generateTwoFactorChallengeToken, verifyTwoFactorChallengeToken } from '../utils/jwt.handle';
+import { createAuthSession, SessionDevice, SessionTokens } from './sessionService';
+
+export type TwoFactorError =
+  | 'USER_NOT_FOUND'
+  | 'ALREADY_ENABLED'
+  | 'NOT_ENABLED'
+  | 'SETUP_NOT_STARTED'
+  | 'INVALID_CODE'
+  | 'INCORRECT_PASSWORD'
+  | 'INVALID_CHALLENGE';
+
+const TOTP_ISSUER = 'Trazer';
+const RECOVERY_CODE_COUNT = 10;
+
+// Códigos de recuperación con formato xxxxx-xxxxx; se comparan sin guion y en minúsculas
+const normalizeRecoveryCode = (code: string): string => String(code || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const generateRecoveryCodes = async (): Promise<{ codes: string[]; hashes: string[] }> => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.substring(0, 5)}-${raw.substring(5)}`;
+  });
+  const hashes = await Promise.all(codes.map(code => encrypt(normalizeRecoveryCode(code))));
+
+  return { codes, hashes };
+};
+
+// Verificar un código TOTP y registrar su paso temporal de forma atómica:
+// el mismo código no se puede usar dos veces aunque siga dentro de su ventana
+const consumeTotpCode = async (user: IUser, code: string): Promise<boolean> => {
+  const secret = user.twoFactor?.secret;
+  if (!secret) {
+    return false;
+  }
+
+  const step = verifyTotp(secret, code);
+  if (step === null) {
+    return false;
+  }
+
+  const result = await UserModel.updateOne(
+    {
+      _id: user._id,
+      'twoFactor.enabled': true,
+      $or: [{ 'twoFactor.lastUsedStep': null }, { 'twoFactor.lastUsedStep': { $lt: step } }]
+    },
+    { $set: { 'twoFactor.lastUsedStep': step } }
+  );
+
+  return result.modifiedCount === 1;
+};
+
+// Verificar un código de recuperación y eliminarlo: cada código solo sirve una vez
+const consumeRecoveryCode = async (user: IUser, code: string): Promise<boolean> => {
+  const normalized = normalizeRecoveryCode(code);
+  if (!normalized) {
+    return false;
+  }
+
+  for (const hash of user.twoFactor?.recoveryCodes || []) {
+    if (await verified(normalized, hash)) {
+      const result = await UserModel.updateOne(
+        { _id: user._id, 'twoFactor.recoveryCodes': hash },
+        { $pull: { 'twoFactor.recoveryCodes': hash } }
+      );
+      return result.modifiedCount === 1;
+    }
+  }
+
+  return false;
+};
+
+// Segundo factor: código de la app de autenticación o, si no, código de recuperación
+const verifySecondFactor = async (user: IUser, input: { code?: string; recoveryCode?: string }): Promise<boolean> => {
+  if (input.code && await consumeTotpCode(user, input.code)) {
+    return true;
+  }
+  if (input.recoveryCode && await consumeRecoveryCode(user, input.recoveryCode)) {
+    return true;
+  }
+  return false;
+};
+
+// Paso 1 de la activación: generar un secreto pendiente y la URI otpauth:// para la app
+export const startTwoFactorSetup = async (userId: string): Promise<{ secret: string; otpauthUri: string } | TwoFactorError> => {
+  const user = await UserModel.findById(userId);
+  if (!user) {
+    return 'USER_NOT_FOUND';
+  }
+  if (user.twoFactor?.enabled) {
+    return 'ALREADY_ENABLED';
+  }
+
+  const secret = generateTotpSecret();
+  await UserModel.updateOne({ _id: user._id }, { $set: { 'twoFactor.pendingSecret': secret } });
+
+  return {
+    secret,
+    otpauthUri: buildOtpauthUri(secret, user.email, TOTP_ISSUER)
+  };
+};
+
+// Paso 2: confirmar con un código de la app. Devuelve los códigos de recuperación en claro
+// (es la única vez que se pueden ver: solo se guarda su hash)
+export const enableTwoFactor = async (userId: string, code: string): Promise<{ recoveryCodes: string[] } | TwoFactorError> => {
+  const user = await UserModel.findById(userId);
+  if (!user) {
+    return 'USER_NOT_FOUND';
+  }
+  if (user.twoFactor?.enabled) {
+    return 'ALREADY_ENABLED';
+  }
+
+  const pendingSecret = user.twoFactor?.pendingSecret;
+  if (!pendingSecret) {
+    return 'SETUP_NOT_STARTED';
+  }
+
+  const step = verifyTotp(pendingSecret, code);
+  if (step === null) {
+    return 'INVALID_CODE';
+  }
+
+  const { codes, hashes } = await generateRecoveryCodes();
+  const result = await UserModel.updateOne(
+    { _id: user._id, 'twoFactor.enabled': { $ne: true }, 'twoFactor.pendingSecret': pendingSecret },
+    {
+      $set: {
+        twoFactor: {
+          enabled: true,
+          secret: pendingSecret,
+          pendingSecret: null,
+          recoveryCodes: hashes,
+          lastUsedStep: step,
+          enabledAt: new Date()
+        }
+      }
+    }
+  );
+  if (result.modifiedCount !== 1) {
+    return 'SETUP_NOT_STARTED';
+  }
+
+  return { recoveryCodes: codes };
+};
+
+// Desactivar la verificación en dos pasos: requiere la contraseña y un segundo factor
+export const disableTwoFactor = async (
+  userId: string,
+  password: string,
+  input: { code?: string; recoveryCode?: string }
+): Promise<true | TwoFactorError> => {
+  const user = await UserModel.findById(userId);
+  if (!user) {
+    return 'USER_NOT_FOUND';
+  }
+  if (!user.twoFactor?.enabled) {
+    return 'NOT_ENABLED';
+  }
+  if (!password || !await verified(password, user.password)) {
+    return 'INCORRECT_PASSWORD';
+  }
+  if (!await verifySecondFactor(user, input)) {
+    return 'INVALID_CODE';
+  }
+
+  await UserModel.updateOne(
+    { _id: user._id },
+    {
+      $set: {
+        twoFactor: {
+          enabled: false,
+          secret: null,
+          pendingSecret: null,
+          recoveryCodes: [],
+          lastUsedStep: null,
+          enabledAt: null
+        }
+      }
+    }
+  );
+
+  return true;
+};
+
+// Generar códigos de recuperación nuevos (los anteriores dejan de servir). Requiere un código de la app
+export const regenerateRecoveryCodes = async (userId: string, code: string): Promise<{ recoveryCodes: string[] } | TwoFactorError> => {
+  const user = await UserModel.findById(userId);
+  if (!user) {
+    return 'USER_NOT_FOUND';
+  }
+  if (!user.twoFactor?.enabled) {
+    return 'NOT_ENABLED';
+  }
+  if (!await consumeTotpCode(user, code)) {
+    return 'INVALID_CODE';
+  }
+
+  const { codes, hashes } = await generateRecoveryCodes();
+  await UserModel.updateOne({ _id: user._id }, { $set: { 'twoFactor.recoveryCodes': hashes } });
+
+  return { recoveryCodes: codes };
+};
+
+// Desafío que se devuelve en el login en lugar de los tokens cuando la cuenta tiene 2FA
+export const createTwoFactorChallenge = (user: IUser) => ({
+  twoFactorRequired: true as const,
+  challengeToken: generateTwoFactorChallengeToken(user._id.toString())
+});
+
+// ID del usuario del desafío (también lo usa la protección contra fuerza bruta)
+export const getTwoFactorChallengeUserId = (challengeToken: unknown): string | undefined => {
+  if (!challengeToken || typeof challengeToken !== 'string') {
+    return undefined;
+  }
+  const payload = verifyTwoFactorChallengeToken(challengeToken);
+  return payload ? String(payload.id) : undefined;
+};
+
+// Completar el login: verificar el segundo factor y crear la sesión del dispositivo
+export const verifyTwoFactorLogin = async (
+  challengeToken: string,
+  input: { code?: string; recoveryCode?: string },
+  device: SessionDevice = {}
+): Promise<(SessionTokens & { user: IUser }) | TwoFactorError> => {
+  const userId = getTwoFactorChallengeUserId(challengeToken);
+  if (!userId) {
+    return 'INVALID_CHALLENGE';
+  }
+
+  const user = await UserModel.findById(userId);
+  if (!user) {
+    return 'USER_NOT_FOUND';
+  }
+  if (!user.twoFactor?.enabled) {
+    return 'NOT_ENABLED';
+  }
+  if (!await verifySecondFactor(user, input)) {
+    return 'INVALID_CODE';
+  }
+
+  const tokens = await createAuthSession(user, device);
+  return { ...tokens, user };
+};
@@ -0,0 +1,201 @@
+import mongoose from 'mongoose';
+import ActivityModel, { IActivity } from '../models/activity';
+import UserActivityStatsModel, { IActivityTypeStats, IUserActivityStats } from '../models/userActivityStats';
+
+// Campos de una actividad que intervienen en los agregados
+export type ActivitySnapshot = Pick<IActivity, 'type' | 'distance' | 'duration' | 'elevationGain' | 'averageSpeed' | 'startTime'>;
+
+export interface ActivityChange {
+  added?: ActivitySnapshot;   // actividad creada o estado nuevo de una actividad editada
+  removed?: ActivitySnapshot; // actividad eliminada o estado anterior de una actividad editada
+}
+
+const ACTIVITY_STATS_FIELDS = 'type distance duration elevationGain averageSpeed startTime';
+const BEST_FIELDS: Array<[keyof IActivityTypeStats, keyof ActivitySnapshot]> = [
+  ['bestDistance', 'distance'],
+  ['bestDuration', 'duration'],
+  ['bestElevationGain', 'elevationGain']
+];
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// Claves en hora local del servidor, igual que las comprobaciones de logros (getMonth, toDateString...)
+export const monthKey = (date: Date): string => `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+export const yearKey = (date: Date): string => String(date.getFullYear());
+export const dayKey = (date: Date): string => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Incrementos ($inc) que aporta (sign 1) o resta (sign -1) una actividad
+const addIncrements = (inc: { [path: string]: number }, activity: ActivitySnapshot, sign: 1 | -1): void => {
+  const add = (path: string, value: number) => {
+    inc[path] = (inc[path] || 0) + sign * (value || 0);
+  };
+  const startTime = new Date(activity.startTime);
+
+  add('activityCount', 1);
+  add('totalDistance', activity.distance);
+  add('totalTime', activity.duration);
+  for (const key of [activity.type, 'all']) {
+    add(`byType.${key}.count`, 1);
+    add(`byType.${key}.averageSpeedSum`, activity.averageSpeed);
+  }
+  add(`monthlyTime.${monthKey(startTime)}`, activity.duration);
+  add(`yearlyTime.${yearKey(startTime)}`, activity.duration);
+  add(`activeDays.${dayKey(startTime)}`, 1);
+};
+
+const emptyTypeStats = (): IActivityTypeStats => ({
+  count: 0,
+  bestDistance: 0,
+  bestDuration: 0,
+  bestElevationGain: 0,
+  averageSpeedSum: 0
+});
+
+// Reconstruir los agregados de un usuario recorriendo todas sus actividades.
+// Se usa la primera vez (usuarios con actividades anteriores al motor) y para corregir desajustes
+export const rebuildUserActivityStats = async (userId: string): Promise<IUserActivityStats> => {
+  const byType: { [type: string]: IActivityTypeStats } = { all: emptyTypeStats() };
+  const monthlyTime: { [key: string]: number } = {};
+  const yearlyTime: { [key: string]: number } = {};
+  const activeDays: { [key: string]: number } = {};
+  let activityCount = 0;
+  let totalDistance = 0;
+  let totalTime = 0;
+
+  const cursor = ActivityModel.find({ author: new mongoose.Types.ObjectId(userId) })
+    .select(ACTIVITY_STATS_FIELDS)
+    .lean()
+    .cursor();
+
+  for await (const activity of cursor) {
+    const startTime = new Date(activity.startTime);
+    activityCount++;
+    totalDistance += activity.distance || 0;
+    totalTime += activity.duration || 0;
+
+    for (const key of [activity.type, 'all']) {
+      const stats = byType[key] || (byType[key] = emptyTypeStats());
+      stats.count++;
+      stats.averageSpeedSum += activity.averageSpeed || 0;
+      for (const [bestField, activityField] of BEST_FIELDS) {
+        stats[bestField] = Math.max(stats[bestField], (activity[activityField] as number) || 0);
+      }
+    }
+
+    monthlyTime[monthKey(startTime)] = (monthlyTime[monthKey(startTime)] || 0) + (activity.duration || 0);
+    yearlyTime[yearKey(startTime)] = (yearlyTime[yearKey(startTime)] || 0) + (activity.duration || 0);
+    activeDays[dayKey(startTime)] = (activeDays[dayKey(startTime)] || 0) + 1;
+  }
+
+  const stats = await UserActivityStatsModel.findOneAndUpdate(
+    { userId },
+    {
+      $set: {
+        activityCount,
+        totalDistance,
+        totalTime,
+        byType,
+        monthlyTime,
+        yearlyTime,
+        activeDays,
+        rebuiltAt: new Date()
+      }
+    },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  );
+  return stats!;
+};
+
+// Agregados de un usuario; si aún no existen se calculan a partir de sus actividades
+export const getUserActivityStats = async (userId: string): Promise<IUserActivityStats> => {
+  const stats = await UserActivityStatsModel.findOne({ userId });
+  return stats || await rebuildUserActivityStats(userId);
+};
+
+// Un máximo no se puede "restar": si la actividad quitada era la mejor de su tipo se vuelve a calcular
+const recomputeBests = async (userId: string, types: string[]): Promise<void> => {
+  const rows = await ActivityModel.aggregate([
+    { $match: { author: new mongoose.Types.ObjectId(userId) } },
+    {
+      $group: {
+        _id: '$type',
+        bestDistance: { $max: '$distance' },
+        bestDuration: { $max: '$duration' },
+        bestElevationGain: { $max: '$elevationGain' }
+      }
+    }
+  ]);
+
+  const set: { [path: string]: number } = {};
+  for (const type of types) {
+    const relevant = type === 'all' ? rows : rows.filter(row => row._id === type);
+    for (const [bestField] of BEST_FIELDS) {
+      set[`byType.${type}.${bestField}`] = Math.max(0, ...relevant.map(row => row[bestField] || 0));
+    }
+  }
+  await UserActivityStatsModel.updateOne({ userId }, { $set: set });
+};
+
+// Quitar las claves que se han quedado a cero (meses, días o tipos sin actividades)
+const removeEmptyKeys = async (stats: IUserActivityStats): Promise<void> => {
+  const unset: { [path: string]: '' } = {};
+  for (const field of ['monthlyTime', 'yearlyTime', 'activeDays'] as const) {
+    for (const [key, value] of stats[field]) {
+      if (value <= 0) unset[`${field}.${key}`] = '';
+    }
+  }
+  for (const [type, typeStats] of stats.byType) {
+    if (typeStats.count <= 0 && type !== 'all') unset[`byType.${type}`] = '';
+  }
+
+  if (Object.keys(unset).length > 0) {
+    await UserActivityStatsModel.updateOne({ _id: stats._id }, { $unset: unset });
+  }
+};
+
+// Actualizar los agregados tras crear, editar o eliminar una actividad (ya guardada en la BD)
+export const applyActivityChange = async (userId: string, change: ActivityChange): Promise<IUserActivityStats> => {
+  if (!(await UserActivityStatsModel.exists({ userId }))) {
+    // La reconstrucción ya incluye el cambio
+    return await rebuildUserActivityStats(userId);
+  }
+
+  const inc: { [path: string]: number } = {};
+  const max: { [path: string]: number } = {};
+  if (change.removed) {
+    addIncrements(inc, change.removed, -1);
+  }
+  if (change.added) {
+    addIncrements(inc, change.added, 1);
+    for (const key of [change.added.type, 'all']) {
+      for (const [bestField, activityField] of BEST_FIELDS) {
+        max[`byType.${key}.${bestField}`] = (change.added[activityField] as number) || 0;
+      }
+    }
+  }
+
+  const update: { [operator: string]: unknown } = { $inc: inc };
+  if (Object.keys(max).length > 0) {
+    update.$max = max;
+  }
+  let stats = await UserActivityStatsModel.findOneAndUpdate({ userId }, update, { new: true });
+  if (!stats) {
+    return await rebuildUserActivityStats(userId);
+  }
+
+  if (change.removed) {
+    const removed = change.removed;
+    const affectedTypes = [removed.type, 'all'].filter(type => {
+      const typeStats = stats!.byType.get(type);
+      return typeStats && BEST_FIELDS.some(([bestField, activityField]) =>
+        ((removed[activityField] as number) || 0) >= typeStats[bestField]);
+    });
+    if (affectedTypes.length > 0) {
+      await recomputeBests(userId, affectedTypes);
+    }
+    await removeEmptyKeys(stats);
+    stats = (await UserActivityStatsModel.findOne({ userId })) || stats;
+  }
+
+  return stats;
+};
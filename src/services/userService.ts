@@ -1,6 +1,7 @@
 import UserModel, { IUser } from '../models/user';
 import mongoose from 'mongoose';
 import admin from '../config/firebaseAdmin';
+import { deleteUserSessions } from './sessionService';
 
 // Obtenir tots els usuaris
 export const getUsers = async (page: number, limit: number): Promise<{
@@ -80,7 +81,11 @@ export const updateUser = async (userId: string, userData: Partial<IUser>): Prom
 
 // Eliminar un usuari
 export const deleteUser = async (userId: string): Promise<IUser | null> => {
-  return await UserModel.findByIdAndDelete(userId);
+  const deletedUser = await UserModel.findByIdAndDelete(userId);
+  if (deletedUser) {
+    await deleteUserSessions(deletedUser._id);
+  }
+  return deletedUser;
 };
 
 // Alternar visibilitat d'un usuari
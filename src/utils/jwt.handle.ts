@@ -12,14 +12,20 @@ if (!REFRESH_SECRET) {
     throw new Error("REFRESH_SECRET is not defined in environment variables");
 }
 
+// Duración de los refresh tokens (y de las sesiones que los emiten)
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
 // Generamos el token de acceso con datos adicionales en el payload
-const generateToken = (user: any) => {
+// (sid: sesión del dispositivo que lo ha emitido)
+const generateToken = (user: any, sessionId?: string) => {
   const jwt = sign({
     id: user._id?.toString() || user.id,
+    sid: sessionId,
     role: user.role,
     name: user.username || user.name,
     email: user.email,
     profilePicture: user.profilePicture,
+    emailVerified: user.emailVerified !== false,
     type: 'access',
   }, JWT_SECRET, { expiresIn: '15m' });
 
@@ -27,13 +33,22 @@ const generateToken = (user: any) => {
 };
 
 
-// Generamos el refresh token con una duración más larga y un payload diferente
-const generateRefreshToken = (id: string) => {
+// Generamos el refresh token con una duración más larga y un payload diferente:
+// id del usuario, sesión (sid) y un identificador único (jti) que cambia en cada rotación
+const generateRefreshToken = (id: string, sessionId: string, tokenId: string) => {
     // Payload más simple y secreto diferente
-    const refreshToken = sign({ id, type: 'refresh' }, REFRESH_SECRET, { expiresIn: '7d' });
+    const refreshToken = sign({ id, sid: sessionId, jti: tokenId, type: 'refresh' }, REFRESH_SECRET, {
+        expiresIn: REFRESH_TOKEN_TTL_MS / 1000
+    });
     return refreshToken;
 };
 
+// Token de corta duración entre la contraseña y el segundo factor: no da acceso a la API,
+// solo permite completar el login con POST /api/auth/2fa/verify
+const generateTwoFactorChallengeToken = (userId: string) => {
+    return sign({ id: userId, type: 'two_factor' }, JWT_SECRET, { expiresIn: '5m' });
+};
+
 // Verificamos el token de acceso
 const verifyToken = (jwt: string) => {
     try {
@@ -54,4 +69,13 @@ const verifyRefreshToken = (refreshToken: string) => {
     }
 };
 
-export { generateToken, generateRefreshToken, verifyToken, verifyRefreshToken };
\ No newline at end of file
+// Verificamos el token de desafío del segundo factor
+const verifyTwoFactorChallengeToken = (challengeToken: string) => {
+    const payload = verifyToken(challengeToken);
+    if (!payload || typeof payload === 'string' || payload.type !== 'two_factor' || !payload.id) {
+        return null;
+    }
+    return payload;
+};
+
+export { REFRESH_TOKEN_TTL_MS, generateToken, generateRefreshToken, generateTwoFactorChallengeToken, verifyToken, verifyRefreshToken, verifyTwoFactorChallengeToken };
\ No newline at end of file
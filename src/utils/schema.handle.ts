@@ -0,0 +1,340 @@
+// Esquemas declarativos para validar params, query y body de las peticiones (ver middleware/validate).
+// Los mismos esquemas generan las definiciones de Swagger (components.schemas en config/swaggerConfig)
+
+interface BaseSchema {
+    optional?: boolean;
+    nullable?: boolean;
+    privileged?: boolean; // solo lo pueden enviar los administradores; al resto se le elimina
+    description?: string;
+    example?: unknown;
+}
+
+export interface StringSchema extends BaseSchema {
+    type: 'string';
+    minLength?: number;
+    maxLength?: number;
+    pattern?: RegExp;
+    enum?: readonly string[];
+    format?: 'email' | 'uri';
+    trim?: boolean;
+}
+
+export interface NumberSchema extends BaseSchema {
+    type: 'number';
+    integer?: boolean;
+    min?: number;
+    max?: number;
+}
+
+export interface BooleanSchema extends BaseSchema {
+    type: 'boolean';
+}
+
+export interface ObjectIdSchema extends BaseSchema {
+    type: 'objectId';
+}
+
+export interface DateSchema extends BaseSchema {
+    type: 'date';
+}
+
+export interface ArraySchema extends BaseSchema {
+    type: 'array';
+    items: Schema;
+    minItems?: number;
+    maxItems?: number;
+}
+
+export interface ObjectSchema extends BaseSchema {
+    type: 'object';
+    properties: { [key: string]: Schema };
+    unknownKeys?: 'strip' | 'allow'; // por defecto se eliminan los campos no declarados
+}
+
+// Valor libre (p. ej. GeoJSON o metadatos); solo se rechazan los operadores de Mongo ($...)
+export interface AnySchema extends BaseSchema {
+    type: 'any';
+}
+
+export type Schema = StringSchema | NumberSchema | BooleanSchema | ObjectIdSchema | DateSchema | ArraySchema | ObjectSchema | AnySchema;
+
+export interface ValidationIssue {
+    field: string;
+    message: string;
+}
+
+export interface ValidationContext {
+    isAdmin: boolean;
+    // En query y params todo llega como texto: los números y booleanos se validan pero se
+    // conservan como texto (los controladores ya los interpretan), y un valor suelto vale como lista
+    source: 'params' | 'query' | 'body';
+}
+
+type Options<T extends Schema> = Omit<T, 'type'>;
+
+export const v = {
+    string: (options: Options<StringSchema> = {}): StringSchema => ({ type: 'string', ...options }),
+    number: (options: Options<NumberSchema> = {}): NumberSchema => ({ type: 'number', ...options }),
+    integer: (options: Omit<Options<NumberSchema>, 'integer'> = {}): NumberSchema => ({ type: 'number', integer: true, ...options }),
+    boolean: (options: Options<BooleanSchema> = {}): BooleanSchema => ({ type: 'boolean', ...options }),
+    objectId: (options: Options<ObjectIdSchema> = {}): ObjectIdSchema => ({ type: 'objectId', ...options }),
+    date: (options: Options<DateSchema> = {}): DateSchema => ({ type: 'date', ...options }),
+    array: (items: Schema, options: Omit<Options<ArraySchema>, 'items'> = {}): ArraySchema => ({ type: 'array', items, ...options }),
+    object: (properties: { [key: string]: Schema }, options: Omit<Options<ObjectSchema>, 'properties'> = {}): ObjectSchema => ({ type: 'object', properties, ...options }),
+    any: (options: Options<AnySchema> = {}): AnySchema => ({ type: 'any', ...options }),
+
+    optional: <T extends Schema>(schema: T): T => ({ ...schema, optional: true }),
+    nullable: <T extends Schema>(schema: T): T => ({ ...schema, nullable: true }),
+    privileged: <T extends Schema>(schema: T): T => ({ ...schema, privileged: true }),
+
+    // Todos los campos opcionales (actualizaciones parciales)
+    partial: (schema: ObjectSchema): ObjectSchema => ({
+        ...schema,
+        properties: Object.fromEntries(
+            Object.entries(schema.properties).map(([key, property]) => [key, { ...property, optional: true }])
+        )
+    }),
+
+    extend: (schema: ObjectSchema, properties: { [key: string]: Schema }): ObjectSchema => ({
+        ...schema,
+        properties: { ...schema.properties, ...properties }
+    })
+};
+
+const OBJECT_ID_PATTERN = /^[0-9a-fA-F]{24}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const isPlainObject = (value: unknown): value is { [key: string]: unknown } =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Claves que Mongo interpretaría como operadores o rutas anidadas
+const hasOperatorKeys = (value: unknown, depth: number = 0): boolean => {
+    if (depth > 20) return true;
+    if (Array.isArray(value)) return value.some(item => hasOperatorKeys(item, depth + 1));
+    if (!isPlainObject(value)) return false;
+    return Object.keys(value).some(key => key.startsWith('$') || key.includes('.') || hasOperatorKeys(value[key], depth + 1));
+};
+
+const validateString = (schema: StringSchema, value: unknown, field: string, issues: ValidationIssue[]): unknown => {
+    if (typeof value !== 'string') {
+        issues.push({ field, message: 'Debe ser un texto' });
+        return undefined;
+    }
+
+    const text = schema.trim ? value.trim() : value;
+    if (schema.minLength !== undefined && text.length < schema.minLength) {
+        issues.push({ field, message: `Debe tener al menos ${schema.minLength} caracteres` });
+    } else if (schema.maxLength !== undefined && text.length > schema.maxLength) {
+        issues.push({ field, message: `No puede tener más de ${schema.maxLength} caracteres` });
+    } else if (schema.enum && !schema.enum.includes(text)) {
+        issues.push({ field, message: `Debe ser uno de: ${schema.enum.join(', ')}` });
+    } else if (schema.pattern && !schema.pattern.test(text)) {
+        issues.push({ field, message: 'Formato no válido' });
+    } else if (schema.format === 'email' && !EMAIL_PATTERN.test(text)) {
+        issues.push({ field, message: 'Debe ser un email válido' });
+    } else if (schema.format === 'uri' && !/^https?:\/\/\S+$/i.test(text)) {
+        issues.push({ field, message: 'Debe ser una URL válida' });
+    }
+
+    return text;
+};
+
+const validateNumber = (schema: NumberSchema, value: unknown, field: string, issues: ValidationIssue[], context: ValidationContext): unknown => {
+    // Los formularios multipart y la query envían los números como texto
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+
+    if (typeof number !== 'number' || !Number.isFinite(number)) {
+        issues.push({ field, message: 'Debe ser un número' });
+        return undefined;
+    }
+    if (schema.integer && !Number.isInteger(number)) {
+        issues.push({ field, message: 'Debe ser un número entero' });
+    } else if (schema.min !== undefined && number < schema.min) {
+        issues.push({ field, message: `Debe ser mayor o igual que ${schema.min}` });
+    } else if (schema.max !== undefined && number > schema.max) {
+        issues.push({ field, message: `Debe ser menor o igual que ${schema.max}` });
+    }
+
+    return context.source === 'body' ? number : value;
+};
+
+const validateBoolean = (value: unknown, field: string, issues: ValidationIssue[], context: ValidationContext): unknown => {
+    if (value === 'true' || value === 'false') {
+        return context.source === 'body' ? value === 'true' : value;
+    }
+    if (typeof value !== 'boolean') {
+        issues.push({ field, message: 'Debe ser true o false' });
+        return undefined;
+    }
+    return value;
+};
+
+const validateObjectId = (value: unknown, field: string, issues: ValidationIssue[]): unknown => {
+    if (typeof value !== 'string' || !OBJECT_ID_PATTERN.test(value)) {
+        issues.push({ field, message: 'Debe ser un identificador válido' });
+        return undefined;
+    }
+    return value;
+};
+
+// Las fechas se validan pero se conservan tal como llegan (los controladores ya hacen new Date())
+const validateDate = (value: unknown, field: string, issues: ValidationIssue[]): unknown => {
+    if ((typeof value !== 'string' && typeof value !== 'number') || Number.isNaN(new Date(value).getTime())) {
+        issues.push({ field, message: 'Debe ser una fecha válida' });
+        return undefined;
+    }
+    return value;
+};
+
+const validateArray = (schema: ArraySchema, value: unknown, field: string, issues: ValidationIssue[], context: ValidationContext): unknown => {
+    // ?tag=a da un texto y ?tag=a&tag=b una lista
+    const list = !Array.isArray(value) && context.source === 'query' ? [value] : value;
+
+    if (!Array.isArray(list)) {
+        issues.push({ field, message: 'Debe ser una lista' });
+        return undefined;
+    }
+    if (schema.minItems !== undefined && list.length < schema.minItems) {
+        issues.push({ field, message: `Debe tener al menos ${schema.minItems} elementos` });
+        return undefined;
+    }
+    if (schema.maxItems !== undefined && list.length > schema.maxItems) {
+        issues.push({ field, message: `No puede tener más de ${schema.maxItems} elementos` });
+        return undefined;
+    }
+
+    return list.map((item, index) => validateValue(schema.items, item, `${field}[${index}]`, issues, context));
+};
+
+const validateObject = (schema: ObjectSchema, value: unknown, field: string, issues: ValidationIssue[], context: ValidationContext): unknown => {
+    if (!isPlainObject(value)) {
+        issues.push({ field, message: 'Debe ser un objeto' });
+        return undefined;
+    }
+
+    const result: { [key: string]: unknown } = {};
+
+    for (const [key, property] of Object.entries(schema.properties)) {
+        const propertyField = field ? `${field}.${key}` : key;
+        const propertyValue = value[key];
+
+        // Campos reservados a los administradores: se eliminan en silencio para el resto
+        if (property.privileged && !context.isAdmin) continue;
+
+        if (propertyValue === undefined || (propertyValue === '' && context.source === 'query')) {
+            if (!property.optional) {
+                issues.push({ field: propertyField, message: 'Campo requerido' });
+            }
+            continue;
+        }
+
+        if (propertyValue === null) {
+            if (property.nullable) {
+                result[key] = null;
+            } else if (!property.optional) {
+                issues.push({ field: propertyField, message: 'Campo requerido' });
+            }
+            continue;
+        }
+
+        result[key] = validateValue(property, propertyValue, propertyField, issues, context);
+    }
+
+    if (schema.unknownKeys === 'allow') {
+        for (const key of Object.keys(value)) {
+            if (!(key in schema.properties)) {
+                if (hasOperatorKeys({ [key]: value[key] })) {
+                    issues.push({ field: field ? `${field}.${key}` : key, message: 'Campo no permitido' });
+                    continue;
+                }
+                result[key] = value[key];
+            }
+        }
+    }
+
+    return result;
+};
+
+export const validateValue = (schema: Schema, value: unknown, field: string, issues: ValidationIssue[], context: ValidationContext): unknown => {
+    switch (schema.type) {
+        case 'string':
+            return validateString(schema, value, field, issues);
+        case 'number':
+            return validateNumber(schema, value, field, issues, context);
+        case 'boolean':
+            return validateBoolean(value, field, issues, context);
+        case 'objectId':
+            return validateObjectId(value, field, issues);
+        case 'date':
+            return validateDate(value, field, issues);
+        case 'array':
+            return validateArray(schema, value, field, issues, context);
+        case 'object':
+            return validateObject(schema, value, field, issues, context);
+        case 'any':
+            if (hasOperatorKeys(value)) {
+                issues.push({ field, message: 'Contiene claves no permitidas' });
+                return undefined;
+            }
+            return value;
+    }
+};
+
+// Esquema OpenAPI 3.0 equivalente (para Swagger)
+export const toOpenApiSchema = (schema: Schema): { [key: string]: unknown } => {
+    const base: { [key: string]: unknown } = {};
+    if (schema.description || schema.privileged) {
+        base.description = [schema.description, schema.privileged ? 'Solo administradores' : undefined].filter(Boolean).join('. ');
+    }
+    if (schema.example !== undefined) base.example = schema.example;
+    if (schema.nullable) base.nullable = true;
+
+    switch (schema.type) {
+        case 'string':
+            return {
+                type: 'string',
+                ...(schema.minLength !== undefined ? { minLength: schema.minLength } : {}),
+                ...(schema.maxLength !== undefined ? { maxLength: schema.maxLength } : {}),
+                ...(schema.pattern ? { pattern: schema.pattern.source } : {}),
+                ...(schema.enum ? { enum: [...schema.enum] } : {}),
+                ...(schema.format ? { format: schema.format } : {}),
+                ...base
+            };
+        case 'number':
+            return {
+                type: schema.integer ? 'integer' : 'number',
+                ...(schema.min !== undefined ? { minimum: schema.min } : {}),
+                ...(schema.max !== undefined ? { maximum: schema.max } : {}),
+                ...base
+            };
+        case 'boolean':
+            return { type: 'boolean', ...base };
+        case 'objectId':
+            return { type: 'string', pattern: OBJECT_ID_PATTERN.source, ...base };
+        case 'date':
+            return { type: 'string', format: 'date-time', ...base };
+        case 'array':
+            return {
+                type: 'array',
+                items: toOpenApiSchema(schema.items),
+                ...(schema.minItems !== undefined ? { minItems: schema.minItems } : {}),
+                ...(schema.maxItems !== undefined ? { maxItems: schema.maxItems } : {}),
+                ...base
+            };
+        case 'object': {
+            const required = Object.entries(schema.properties)
+                .filter(([, property]) => !property.optional && !property.privileged)
+                .map(([key]) => key);
+            return {
+                type: 'object',
+                properties: Object.fromEntries(
+                    Object.entries(schema.properties).map(([key, property]) => [key, toOpenApiSchema(property)])
+                ),
+                ...(required.length ? { required } : {}),
+                ...base
+            };
+        }
+        case 'any':
+            return { ...base };
+    }
+};
@@ -0,0 +1,102 @@
+import crypto from "crypto";
+
+// TOTP (RFC 6238) compatible con Google Authenticator, Authy, etc.: HMAC-SHA1, 6 dígitos, pasos de 30 segundos
+const TOTP_DIGITS = 6;
+const TOTP_STEP_SECONDS = 30;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+const base32Encode = (buffer: Buffer): string => {
+    let bits = 0;
+    let value = 0;
+    let output = "";
+
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+    const clean = input.replace(/=+$/, "").replace(/\s/g, "").toUpperCase();
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+
+    for (const char of clean) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) continue;
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+
+    return Buffer.from(bytes);
+};
+
+/**
+ * Genera un secreto TOTP aleatorio (160 bits) codificado en base32
+ */
+const generateTotpSecret = (): string => base32Encode(crypto.randomBytes(20));
+
+/**
+ * URI otpauth:// para dar de alta la cuenta en la app de autenticación (normalmente como código QR)
+ */
+const buildOtpauthUri = (secret: string, accountName: string, issuer: string): string => {
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer,
+        algorithm: "SHA1",
+        digits: TOTP_DIGITS.toString(),
+        period: TOTP_STEP_SECONDS.toString()
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+const generateCode = (secret: Buffer, step: number): string => {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = crypto.createHmac("sha1", secret).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const binary = ((hmac[offset] & 0x7f) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+
+    return (binary % Math.pow(10, TOTP_DIGITS)).toString().padStart(TOTP_DIGITS, "0");
+};
+
+/**
+ * Verifica un código TOTP admitiendo un paso de desfase de reloj en cada sentido
+ * @returns el paso temporal del código si es válido (para impedir reutilizarlo), o null
+ */
+const verifyTotp = (secret: string, code: string, now: number = Date.now()): number | null => {
+    const normalized = String(code || "").replace(/\s/g, "");
+    if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+        return null;
+    }
+
+    const key = base32Decode(secret);
+    const currentStep = Math.floor(now / 1000 / TOTP_STEP_SECONDS);
+
+    for (const step of [currentStep - 1, currentStep, currentStep + 1]) {
+        const expected = generateCode(key, step);
+        if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+            return step;
+        }
+    }
+
+    return null;
+};
+
+export { generateTotpSecret, buildOtpauthUri, verifyTotp };